@@ -3,10 +3,55 @@
  */
 
 import type { Command } from "commander";
-import { loadLanceDB, type MemoryEntry, type MemoryStore } from "./src/store.js";
-import type { MemoryRetriever } from "./src/retriever.js";
+import { loadLanceDB, MemoryStore, type MemoryEntry } from "./src/store.js";
+import type { MemoryRetriever, QueryEmbedder, RetrievalResult, ScoreTraceStep } from "./src/retriever.js";
 import type { MemoryScopeManager } from "./src/scopes.js";
 import type { MemoryMigrator } from "./src/migrate.js";
+import type { PendingWriteQueue } from "./src/write-queue.js";
+import { mergeFilters, parseFilterExpression, tagsFilter, type MemoryFilter } from "./src/filters.js";
+import { parseTagList, parseTags } from "./src/tags.js";
+import { createDeduplicator, type MemoryDeduplicator } from "./src/dedupe.js";
+import { collectGraph, linkLabel, otherEnd } from "./src/graph.js";
+import { buildEntityProfile } from "./src/entities.js";
+import { formatExpiry, parseDuration, toExpiresAt } from "./src/expiry.js";
+import { effectiveImportance, FEEDBACK_VERDICTS, isFeedbackVerdict, toLabeledExample } from "./src/feedback.js";
+import {
+  evaluateRetrieval,
+  HashingEmbedder,
+  loadEvalFixture,
+  parseEvalDataset,
+  parseVariant,
+  RecordedQueryEmbedder,
+  type EvalVariant,
+} from "./src/eval.js";
+import { exportMemories, importMemories, IMPORT_MODES, parseScopeMap } from "./src/portable.js";
+import {
+  backupKeyIds,
+  createBackup,
+  isBackupIntact,
+  listBackups,
+  resolveBackupConfig,
+  resolveBackupPath,
+  verifyBackup,
+  type BackupConfig,
+} from "./src/backup.js";
+import {
+  discoverAgentWorkspaces,
+  renderToMarkdown,
+  resolveAgentWorkspace,
+  syncFromMarkdown,
+  type AgentWorkspace,
+  type MarkdownSyncReport,
+} from "./src/markdown-sync.js";
+import { autoSnapshotName, diffVersions, resolveSnapshotRef } from "./src/snapshots.js";
+import {
+  createSensitiveDataScanner,
+  isSensitiveAction,
+  sensitivePreview,
+  SENSITIVE_ACTIONS,
+  type SensitiveDataScanner,
+} from "./src/sensitive.js";
+import { Keyring, resolvePassphrase, type EncryptionConfig, type FieldCipher, type PassphraseSource } from "./src/encryption.js";
 
 // ============================================================================
 // Types
@@ -18,6 +63,19 @@ interface CLIContext {
   scopeManager: MemoryScopeManager;
   migrator: MemoryMigrator;
   embedder?: import("./src/embedder.js").Embedder;
+  pendingWrites?: PendingWriteQueue;
+  /** Shared write-time dedupe policy (default policy when omitted) */
+  dedupe?: MemoryDeduplicator;
+  /** Days trashed memories are kept before purge (0 = keep forever) */
+  trashRetentionDays?: number;
+  /** Backup settings (defaults next to the database when omitted) */
+  backup?: BackupConfig;
+  /** Secret/PII policy for imports (default policy, logged to the store, when omitted) */
+  sensitiveData?: SensitiveDataScanner;
+  /** Encryption at rest settings, for rekey and status (disabled when omitted) */
+  encryption?: EncryptionConfig;
+  /** Cipher the store writes with; seals backups and opens encrypted ones */
+  cipher?: FieldCipher;
 }
 
 // ============================================================================
@@ -28,7 +86,20 @@ function formatMemory(memory: any, index?: number): string {
   const prefix = index !== undefined ? `${index + 1}. ` : "";
   const date = new Date(memory.timestamp || memory.createdAt || Date.now()).toISOString().split('T')[0];
   const text = memory.text.slice(0, 100) + (memory.text.length > 100 ? "..." : "");
-  return `${prefix}[${memory.category}:${memory.scope}] ${text} (${date})`;
+  const tags = memory.tags && memory.tags.length > 0 ? ` #${memory.tags.join(" #")}` : "";
+  const expiry = memory.expiresAt ? ` [expires ${formatExpiry(memory.expiresAt)}]` : "";
+  return `${prefix}[${memory.category}:${memory.scope}] ${text}${tags}${expiry} (${date})`;
+}
+
+/** `vector 0.812 (rank 1) → fusion 0.568 → ...` */
+function formatTrace(trace: ScoreTraceStep[]): string {
+  return trace.map(step => `${step.stage} ${step.score.toFixed(3)}${step.note ? ` (${step.note})` : ""}`).join(" → ");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 function formatJson(obj: any): string {
@@ -44,12 +115,30 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .command("memory")
     .description("Enhanced memory management commands");
 
+  const dedupe = context.dedupe ?? createDeduplicator(context.store);
+  const sensitiveData = context.sensitiveData ??
+    createSensitiveDataScanner({}, event => context.store.recordSensitiveEvent(event));
+
+  /** Name the current table version before a bulk write, so it can be rolled back */
+  const autoSnapshot = async (reason: string, quiet = false): Promise<void> => {
+    const snapshot = await context.store.createSnapshot(autoSnapshotName(reason), {
+      reason,
+      createdBy: `cli:${reason}`,
+    });
+    if (!quiet) {
+      console.log(`Snapshot ${snapshot.name} (version ${snapshot.version}); undo with: memory snapshot rollback ${snapshot.name}`);
+    }
+  };
+
   // List memories
   memory
     .command("list")
     .description("List memories with optional filtering")
     .option("--scope <scope>", "Filter by scope")
     .option("--category <category>", "Filter by category")
+    .option("--filter <expr>", 'Filter expression, e.g. \'metadata.type = "session-summary" AND importance >= 0.8\'')
+    .option("--tags <tags>", "Only memories with any of these tags (comma-separated)")
+    .option("--all-tags", "With --tags, require every tag")
     .option("--limit <n>", "Maximum number of results", "20")
     .option("--offset <n>", "Number of results to skip", "0")
     .option("--json", "Output as JSON")
@@ -57,6 +146,10 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       try {
         const limit = parseInt(options.limit) || 20;
         const offset = parseInt(options.offset) || 0;
+        const filter = mergeFilters(
+          options.filter ? parseFilterExpression(options.filter) : undefined,
+          tagsFilter(parseTagList(options.tags), options.allTags ? "all" : "any")
+        );
 
         let scopeFilter: string[] | undefined;
         if (options.scope) {
@@ -67,9 +160,12 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           scopeFilter,
           options.category,
           limit,
-          offset
+          offset,
+          filter
         );
 
+        const pendingCount = context.pendingWrites?.count(scopeFilter) ?? 0;
+
         if (options.json) {
           console.log(formatJson(memories));
         } else {
@@ -81,6 +177,9 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
               console.log(formatMemory(memory, offset + i));
             });
           }
+          if (pendingCount > 0) {
+            console.log(`\n${pendingCount} more pending embedding (not yet searchable).`);
+          }
         }
       } catch (error) {
         console.error("Failed to list memories:", error);
@@ -94,26 +193,38 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .description("Search memories using hybrid retrieval")
     .option("--scope <scope>", "Search within specific scope")
     .option("--category <category>", "Filter by category")
+    .option("--filter <expr>", "Filter expression (see `memory list --help`)")
+    .option("--tags <tags>", "Only memories with any of these tags (comma-separated)")
+    .option("--all-tags", "With --tags, require every tag")
     .option("--limit <n>", "Maximum number of results", "10")
+    .option("--explain", "Show the score after each pipeline stage and why other candidates were dropped")
     .option("--json", "Output as JSON")
     .action(async (query, options) => {
       try {
         const limit = parseInt(options.limit) || 10;
+        const filter = mergeFilters(
+          options.filter ? parseFilterExpression(options.filter) : undefined,
+          tagsFilter(parseTagList(options.tags), options.allTags ? "all" : "any")
+        );
 
         let scopeFilter: string[] | undefined;
         if (options.scope) {
           scopeFilter = [options.scope];
         }
 
-        const results = await context.retriever.retrieve({
+        const retrievalContext = {
           query,
           limit,
           scopeFilter,
           category: options.category,
-        });
+          filter,
+          trackAccess: false,
+        };
+        const explanation = options.explain ? await context.retriever.explain(retrievalContext) : null;
+        const results: RetrievalResult[] = explanation ? explanation.results : await context.retriever.retrieve(retrievalContext);
 
         if (options.json) {
-          console.log(formatJson(results));
+          console.log(formatJson(explanation ?? results));
         } else {
           if (results.length === 0) {
             console.log("No relevant memories found.");
@@ -125,12 +236,31 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
               if (result.sources.bm25) sources.push("BM25");
               if (result.sources.reranked) sources.push("reranked");
 
+              const tags = result.entry.tags && result.entry.tags.length > 0 ? `#${result.entry.tags.join(" #")} ` : "";
               console.log(
-                `${i + 1}. [${result.entry.category}:${result.entry.scope}] ${result.entry.text} ` +
+                `${i + 1}. [${result.entry.category}:${result.entry.scope}] ${result.entry.text} ${tags}` +
                 `(${(result.score * 100).toFixed(0)}%, ${sources.join('+')})`
               );
+              if (result.trace) {
+                console.log(`    ${formatTrace(result.trace)}`);
+              }
             });
           }
+
+          if (explanation) {
+            const { weights, candidates, thresholds, dropped } = explanation;
+            console.log(
+              `\nCandidates: ${candidates.vector} vector (minScore ${thresholds.minScore}), ${candidates.bm25} BM25; ` +
+              `weights vector ${weights.vectorWeight.toFixed(2)} / BM25 ${weights.bm25Weight.toFixed(2)}${weights.dynamic ? " (dynamic)" : ""}`
+            );
+            if (dropped.length > 0) {
+              console.log(`Dropped ${dropped.length}:`);
+              for (const d of dropped) {
+                console.log(`  [${d.stage}] ${d.text.slice(0, 70)} [${d.id.slice(0, 8)}] — ${d.reason}`);
+                console.log(`    ${formatTrace(d.trace)}`);
+              }
+            }
+          }
         }
       } catch (error) {
         console.error("Search failed:", error);
@@ -143,6 +273,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .command("stats")
     .description("Show memory statistics")
     .option("--scope <scope>", "Stats for specific scope")
+    .option("--top <n>", "Most/least used memories to show", "5")
     .option("--json", "Output as JSON")
     .action(async (options) => {
       try {
@@ -155,8 +286,24 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
         const scopeStats = context.scopeManager.getStats();
         const retrievalConfig = context.retriever.getConfig();
 
+        const pendingCount = context.pendingWrites?.count(scopeFilter) ?? 0;
+        const usage = await context.store.accessStats(scopeFilter, parseInt(options.top) || 5);
+        const usageLine = (m: MemoryEntry) => ({
+          id: m.id,
+          text: m.text,
+          accessCount: m.accessCount || 0,
+          lastAccessedAt: m.lastAccessedAt,
+        });
+
         const summary = {
           memory: stats,
+          usage: {
+            totalAccesses: usage.totalAccesses,
+            neverAccessed: usage.neverAccessed,
+            mostUsed: usage.mostUsed.map(usageLine),
+            leastUsed: usage.leastUsed.map(usageLine),
+          },
+          pendingEmbedding: pendingCount,
           scopes: scopeStats,
           retrieval: {
             mode: retrievalConfig.mode,
@@ -169,9 +316,10 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
         } else {
           console.log(`Memory Statistics:`);
           console.log(`• Total memories: ${stats.totalCount}`);
+          console.log(`• Pending embedding: ${pendingCount}`);
           console.log(`• Available scopes: ${scopeStats.totalScopes}`);
           console.log(`• Retrieval mode: ${retrievalConfig.mode}`);
-          console.log(`• FTS support: ${context.store.hasFtsSupport ? 'Yes' : 'No'}`);
+          console.log(`• FTS support: ${context.store.hasFtsSupport ? 'Yes' : context.store.isEncrypted ? 'No (encrypted: hashed word index)' : 'No'}`);
           console.log();
 
           console.log("Memories by scope:");
@@ -184,6 +332,19 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           Object.entries(stats.categoryCounts).forEach(([category, count]) => {
             console.log(`  • ${category}: ${count}`);
           });
+          console.log();
+
+          const lastUsed = (m: MemoryEntry) =>
+            m.lastAccessedAt ? `last ${new Date(m.lastAccessedAt).toISOString().split("T")[0]}` : "never recalled";
+          console.log(`Usage: ${usage.totalAccesses} recalls, ${usage.neverAccessed} memories never recalled`);
+          if (usage.mostUsed.length > 0) {
+            console.log("Most used:");
+            usage.mostUsed.forEach(m => console.log(`  • ${String(m.accessCount).padStart(4)}× [${m.id.slice(0, 8)}] ${m.text.slice(0, 70)} (${lastUsed(m)})`));
+          }
+          if (usage.leastUsed.length > 0) {
+            console.log("Least used:");
+            usage.leastUsed.forEach(m => console.log(`  • ${String(m.accessCount || 0).padStart(4)}× [${m.id.slice(0, 8)}] ${m.text.slice(0, 70)} (${lastUsed(m)})`));
+          }
         }
       } catch (error) {
         console.error("Failed to get statistics:", error);
@@ -191,6 +352,34 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       }
     });
 
+  // Tags in use
+  memory
+    .command("tags")
+    .description("List tags with how many memories carry each")
+    .option("--scope <scope>", "Tags in a specific scope")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const tags = await context.store.listTags(scopeFilter);
+
+        if (options.json) {
+          console.log(formatJson(tags));
+        } else if (tags.length === 0) {
+          console.log("No tags found.");
+        } else {
+          console.log(`Found ${tags.length} tags:\n`);
+          const width = Math.max(...tags.map(t => t.tag.length));
+          tags.forEach(({ tag, count }) => {
+            console.log(`  ${tag.padEnd(width)}  ${count}`);
+          });
+        }
+      } catch (error) {
+        console.error("Failed to list tags:", error);
+        process.exit(1);
+      }
+    });
+
   // Delete memory
   memory
     .command("delete <id>")
@@ -217,171 +406,1502 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       }
     });
 
-  // Bulk delete
+  // Version history
   memory
-    .command("delete-bulk")
-    .description("Bulk delete memories with filters")
-    .option("--scope <scopes...>", "Scopes to delete from (required)")
-    .option("--before <date>", "Delete memories before this date (YYYY-MM-DD)")
-    .option("--dry-run", "Show what would be deleted without actually deleting")
-    .action(async (options) => {
+    .command("history <id>")
+    .description("Show past versions of a memory")
+    .option("--scope <scope>", "Scope the memory must belong to (for access control)")
+    .option("--json", "Output as JSON")
+    .action(async (id, options) => {
       try {
-        if (!options.scope || options.scope.length === 0) {
-          console.error("At least one scope must be specified for safety.");
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const history = await context.store.getHistory(id, scopeFilter);
+
+        if (!history) {
+          console.log(`Memory ${id} not found.`);
           process.exit(1);
         }
 
-        let beforeTimestamp: number | undefined;
-        if (options.before) {
-          const date = new Date(options.before);
-          if (isNaN(date.getTime())) {
-            console.error("Invalid date format. Use YYYY-MM-DD.");
-            process.exit(1);
-          }
-          beforeTimestamp = date.getTime();
+        const { current, versions } = history;
+
+        if (options.json) {
+          const { vector: _vector, ...currentFields } = current;
+          console.log(formatJson({
+            current: currentFields,
+            versions: versions.map(({ vector: _v, ...fields }) => fields),
+          }));
+          return;
         }
 
-        if (options.dryRun) {
-          console.log("DRY RUN - No memories will be deleted");
-          console.log(`Filters: scopes=${options.scope.join(',')}, before=${options.before || 'none'}`);
+        console.log(`Current: ${formatMemory(current)} (importance ${current.importance})`);
+        if (versions.length === 0) {
+          console.log("\nNo previous versions.");
+          return;
+        }
 
-          // Show what would be deleted
-          const stats = await context.store.stats(options.scope);
-          console.log(`Would delete from ${stats.totalCount} memories in matching scopes.`);
-        } else {
-          const deletedCount = await context.store.bulkDelete(options.scope, beforeTimestamp);
-          console.log(`Deleted ${deletedCount} memories.`);
+        console.log(`\nPrevious versions (${versions.length}):`);
+        for (const v of versions.slice().reverse()) {
+          const changed = new Date(v.changedAt).toISOString().replace("T", " ").slice(0, 19);
+          console.log(`v${v.version}. [${v.category}] ${v.text} (importance ${v.importance})`);
+          console.log(`    replaced ${changed} by ${v.changedBy}${v.action === "revert" ? " (revert)" : ""}`);
         }
       } catch (error) {
-        console.error("Bulk delete failed:", error);
+        console.error("Failed to get memory history:", error);
         process.exit(1);
       }
     });
 
-  // Export memories
+  // Revert to a previous version
   memory
-    .command("export")
-    .description("Export memories to JSON")
-    .option("--scope <scope>", "Export specific scope")
-    .option("--category <category>", "Export specific category")
-    .option("--output <file>", "Output file (default: stdout)")
-    .action(async (options) => {
+    .command("revert <id>")
+    .description("Restore a memory to a previous version (see `memory history`)")
+    .requiredOption("--to <version>", "Version number to restore")
+    .option("--scope <scope>", "Scope the memory must belong to (for access control)")
+    .action(async (id, options) => {
       try {
-        let scopeFilter: string[] | undefined;
-        if (options.scope) {
-          scopeFilter = [options.scope];
+        const version = parseInt(options.to);
+        if (!Number.isInteger(version) || version < 1) {
+          throw new Error(`Invalid version: ${options.to}`);
         }
 
-        const memories = await context.store.list(
-          scopeFilter,
-          options.category,
-          1000 // Large limit for export
-        );
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const reverted = await context.store.revert(id, version, scopeFilter, "cli");
 
-        const exportData = {
-          version: "1.0",
-          exportedAt: new Date().toISOString(),
-          count: memories.length,
-          filters: {
-            scope: options.scope,
-            category: options.category,
-          },
-          memories: memories.map(m => ({
-            ...m,
-            vector: undefined, // Exclude vectors to reduce size
-          })),
+        if (!reverted) {
+          console.log(`Memory ${id} not found.`);
+          process.exit(1);
+        }
+
+        console.log(`Memory ${reverted.id} reverted to version ${version}:`);
+        console.log(formatMemory(reverted));
+      } catch (error) {
+        console.error("Failed to revert memory:", error);
+        process.exit(1);
+      }
+    });
+
+  // Relationship graph
+  memory
+    .command("graph <id>")
+    .description("Show memories linked to a memory")
+    .option("--depth <n>", "Hops to follow from the memory", "1")
+    .option("--scope <scope>", "Only include memories in this scope")
+    .option("--json", "Output as JSON")
+    .action(async (id, options) => {
+      try {
+        const depth = parseInt(options.depth);
+        if (!Number.isInteger(depth) || depth < 1) {
+          throw new Error(`Invalid depth: ${options.depth}`);
+        }
+
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const graph = await collectGraph(context.store, id, { depth, scopeFilter });
+
+        if (!graph) {
+          console.log(`Memory ${id} not found.`);
+          process.exit(1);
+        }
+
+        if (options.json) {
+          console.log(formatJson({
+            root: graph.root.id,
+            nodes: Array.from(graph.nodes.values()).map(({ entry: { vector: _vector, ...fields }, depth }) => ({ ...fields, depth })),
+            links: graph.links,
+          }));
+          return;
+        }
+
+        console.log(formatMemory(graph.root) + ` [${graph.root.id.slice(0, 8)}]`);
+        if (graph.links.length === 0) {
+          console.log("\nNo linked memories.");
+          return;
+        }
+
+        // Print as a tree: each memory under the first memory one hop closer to the root
+        const printed = new Set([graph.root.id]);
+        const printChildren = (parentId: string, indent: string) => {
+          const parentDepth = graph.nodes.get(parentId)!.depth;
+          for (const link of graph.links) {
+            if (link.sourceId !== parentId && link.targetId !== parentId) continue;
+            const childId = otherEnd(link, parentId);
+            const child = graph.nodes.get(childId);
+            if (!child || child.depth !== parentDepth + 1 || printed.has(childId)) continue;
+
+            printed.add(childId);
+            console.log(`${indent}└─ ${linkLabel(link, parentId)} → ${formatMemory(child.entry)} [${childId.slice(0, 8)}]`);
+            printChildren(childId, indent + "   ");
+          }
         };
+        printChildren(graph.root.id, "");
 
-        const output = formatJson(exportData);
+        console.log(`\n${graph.nodes.size - 1} linked memories, ${graph.links.length} links`);
+      } catch (error) {
+        console.error("Failed to show memory graph:", error);
+        process.exit(1);
+      }
+    });
 
-        if (options.output) {
-          const fs = await import("node:fs/promises");
-          await fs.writeFile(options.output, output);
-          console.log(`Exported ${memories.length} memories to ${options.output}`);
-        } else {
-          console.log(output);
+  // Entity profiles
+  memory
+    .command("entity [name]")
+    .description("Show what is remembered about a person, project or tool (lists known entities without a name)")
+    .option("--scope <scope>", "Only include memories in this scope")
+    .option("--limit <n>", "Max entities to list", "50")
+    .option("--json", "Output as JSON")
+    .action(async (name, options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+
+        if (!name) {
+          const entities = (await context.store.listEntities(scopeFilter)).slice(0, parseInt(options.limit) || 50);
+          if (options.json) {
+            console.log(formatJson(entities));
+            return;
+          }
+          if (entities.length === 0) {
+            console.log("No entities found.");
+            return;
+          }
+          for (const entity of entities) {
+            console.log(`${entity.name.padEnd(30)} ${String(entity.count).padStart(4)}  (${entity.kind})`);
+          }
+          return;
+        }
+
+        const profile = await buildEntityProfile(context.store, name, scopeFilter);
+        if (!profile) {
+          console.log(`No memories mention "${name}".`);
+          process.exit(1);
+        }
+
+        if (options.json) {
+          console.log(formatJson(profile));
+          return;
+        }
+
+        const firstSeen = new Date(profile.firstSeen).toISOString().split("T")[0];
+        const lastSeen = new Date(profile.lastSeen).toISOString().split("T")[0];
+        console.log(`${profile.name} (${profile.kinds.join(", ")})`);
+        if (profile.aliases.length > 0) {
+          console.log(`Also known as: ${profile.aliases.join(", ")}`);
+        }
+        console.log(`${profile.total} memories, ${firstSeen} → ${lastSeen}`);
+
+        for (const [category, entries] of Object.entries(profile.categories)) {
+          console.log(`\n${category} (${entries!.length}):`);
+          entries!.forEach((entry, i) => console.log(`  ${formatMemory(entry, i)} [${entry.id.slice(0, 8)}]`));
         }
       } catch (error) {
-        console.error("Export failed:", error);
+        console.error("Failed to show entity:", error);
         process.exit(1);
       }
     });
 
-  // Import memories
+  // Memories about to expire
   memory
-    .command("import <file>")
-    .description("Import memories from JSON file")
-    .option("--scope <scope>", "Import into specific scope")
-    .option("--dry-run", "Show what would be imported without actually importing")
-    .action(async (file, options) => {
+    .command("expiring")
+    .description("List memories that expire soon (including expired ones not purged yet)")
+    .option("--within <duration>", "Time window, e.g. 12h, 7d, 2w", "7d")
+    .option("--scope <scope>", "Only include memories in this scope")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
       try {
-        const fs = await import("node:fs/promises");
-        const content = await fs.readFile(file, "utf-8");
-        const data = JSON.parse(content);
+        const withinMs = parseDuration(options.within);
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const memories = await context.store.listExpiring(withinMs, scopeFilter);
 
-        if (!data.memories || !Array.isArray(data.memories)) {
-          throw new Error("Invalid import file format");
+        if (options.json) {
+          console.log(formatJson(memories.map(({ vector: _vector, ...fields }) => fields)));
+          return;
         }
 
-        if (options.dryRun) {
-          console.log("DRY RUN - No memories will be imported");
-          console.log(`Would import ${data.memories.length} memories`);
-          if (options.scope) {
-            console.log(`Target scope: ${options.scope}`);
-          }
+        if (memories.length === 0) {
+          console.log(`No memories expire within ${options.within}.`);
           return;
         }
 
-        console.log(`Importing ${data.memories.length} memories...`);
+        console.log(`Memories expiring within ${options.within} (${memories.length}):\n`);
+        memories.forEach((m, i) => {
+          console.log(`${formatMemory(m, i)} [${m.id.slice(0, 8)}]`);
+          console.log(`    ${new Date(m.expiresAt!).toISOString().replace("T", " ").slice(0, 16)} UTC`);
+        });
+      } catch (error) {
+        console.error("Failed to list expiring memories:", error);
+        process.exit(1);
+      }
+    });
 
-        let imported = 0;
-        let skipped = 0;
+  // Relevance feedback
+  const feedback = memory
+    .command("feedback")
+    .description("Record, list and export relevance feedback");
+
+  feedback
+    .command("add <id> <verdict>")
+    .description(`Record a verdict on a memory (${FEEDBACK_VERDICTS.join(", ")})`)
+    .option("--query <query>", "Query the memory was recalled for")
+    .option("--note <note>", "Why, e.g. what is wrong about it")
+    .action(async (id, verdict, options) => {
+      try {
+        if (!isFeedbackVerdict(verdict)) {
+          throw new Error(`Invalid verdict "${verdict}" (expected ${FEEDBACK_VERDICTS.join(", ")})`);
+        }
 
-        if (!context.embedder) {
-          console.error("Import requires an embedder (not available in basic CLI mode).");
-          console.error("Use the plugin's memory_store tool or pass embedder to createMemoryCLI.");
+        const result = await context.store.addFeedback(id, verdict, {
+          query: options.query,
+          note: options.note,
+          createdBy: "cli",
+        });
+        if (!result) {
+          console.log(`Memory ${id} not found.`);
+          process.exit(1);
+        }
+
+        console.log(`Recorded ${verdict} feedback for ${formatMemory(result.entry)}`);
+        console.log(`Effective importance: ${effectiveImportance(result.entry).toFixed(2)} (stored ${result.entry.importance.toFixed(2)})`);
+        if (verdict === "wrong") {
+          console.log("Queued for review: openclaw memory review list");
+        }
+      } catch (error) {
+        console.error("Failed to record feedback:", error);
+        process.exit(1);
+      }
+    });
+
+  feedback
+    .command("list")
+    .description("List feedback, newest first")
+    .option("--id <id>", "Only feedback for this memory (full id)")
+    .option("--verdict <verdict>", "Only this verdict")
+    .option("--scope <scope>", "Only feedback on memories in this scope")
+    .option("--limit <n>", "Maximum number of results", "20")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        if (options.verdict && !isFeedbackVerdict(options.verdict)) {
+          throw new Error(`Invalid verdict "${options.verdict}" (expected ${FEEDBACK_VERDICTS.join(", ")})`);
+        }
+
+        const entries = await context.store.listFeedback({
+          memoryId: options.id,
+          verdict: options.verdict,
+          scopeFilter: options.scope ? [options.scope] : undefined,
+          limit: parseInt(options.limit) || 20,
+        });
+
+        if (options.json) {
+          console.log(formatJson(entries));
+          return;
+        }
+        if (entries.length === 0) {
+          console.log("No feedback recorded.");
           return;
         }
 
-        const targetScope = options.scope || context.scopeManager.getDefaultScope();
+        for (const f of entries) {
+          const date = new Date(f.createdAt).toISOString().split("T")[0];
+          const query = f.query ? ` for "${f.query.slice(0, 50)}"` : "";
+          const resolved = f.resolution ? ` (${f.resolution})` : "";
+          console.log(`${date} ${f.verdict.padEnd(9)} [${f.memoryId.slice(0, 8)}] ${f.memoryText.slice(0, 60)}${query}${resolved} by ${f.createdBy}`);
+          if (f.note) console.log(`    ${f.note}`);
+        }
+      } catch (error) {
+        console.error("Failed to list feedback:", error);
+        process.exit(1);
+      }
+    });
 
-        for (const memory of data.memories) {
-          try {
-            const text = memory.text;
-            if (!text || typeof text !== "string" || text.length < 2) {
-              skipped++;
-              continue;
-            }
+  feedback
+    .command("export")
+    .description("Export feedback as labeled query/memory pairs (JSONL)")
+    .option("--scope <scope>", "Only feedback on memories in this scope")
+    .option("--since <date>", "Only feedback given on or after this date")
+    .option("--output <file>", "Output file (default: stdout)")
+    .action(async (options) => {
+      try {
+        const since = options.since ? Date.parse(options.since) : undefined;
+        if (since !== undefined && !Number.isFinite(since)) {
+          throw new Error(`Invalid date: ${options.since}`);
+        }
 
-            // Check for duplicates
-            const existing = await context.retriever.retrieve({
-              query: text,
-              limit: 1,
-              scopeFilter: [targetScope],
-            });
-            if (existing.length > 0 && existing[0].score > 0.95) {
-              skipped++;
-              continue;
-            }
+        const entries = await context.store.listFeedback({
+          scopeFilter: options.scope ? [options.scope] : undefined,
+          since,
+        });
+        const lines = entries
+          .reverse()
+          .map(f => JSON.stringify(toLabeledExample(f)))
+          .join("\n");
 
-            const vector = await context.embedder.embedPassage(text);
-            await context.store.store({
-              text,
-              vector,
-              importance: memory.importance ?? 0.7,
-              category: memory.category || "other",
-              scope: targetScope,
-            });
-            imported++;
-          } catch (error) {
-            console.warn(`Failed to import memory: ${error}`);
-            skipped++;
+        if (options.output) {
+          const fs = await import("node:fs/promises");
+          await fs.writeFile(options.output, lines ? lines + "\n" : "");
+          console.log(`Exported ${entries.length} feedback entries to ${options.output}`);
+        } else if (lines) {
+          console.log(lines);
+        }
+      } catch (error) {
+        console.error("Feedback export failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Review queue for memories reported as wrong
+  const review = memory
+    .command("review")
+    .description("Review memories reported as wrong");
+
+  review
+    .command("list")
+    .description("List memories with open \"wrong\" feedback, most reported first")
+    .option("--scope <scope>", "Only memories in this scope")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const queue = await context.store.listReviewQueue(options.scope ? [options.scope] : undefined);
+
+        if (options.json) {
+          console.log(formatJson(queue.map(({ entry: { vector: _vector, ...fields }, feedback }) => ({ ...fields, feedback }))));
+          return;
+        }
+        if (queue.length === 0) {
+          console.log("Review queue is empty.");
+          return;
+        }
+
+        console.log(`${queue.length} memories to review:\n`);
+        queue.forEach(({ entry, feedback }, i) => {
+          console.log(`${formatMemory(entry, i)} [${entry.id.slice(0, 8)}]`);
+          for (const f of feedback) {
+            const query = f.query ? ` for "${f.query.slice(0, 50)}"` : "";
+            console.log(`    reported by ${f.createdBy}${query}${f.note ? `: ${f.note}` : ""}`);
           }
+        });
+        console.log("\nResolve with: openclaw memory review resolve <id> --keep | --forget");
+      } catch (error) {
+        console.error("Failed to list review queue:", error);
+        process.exit(1);
+      }
+    });
+
+  review
+    .command("resolve <id>")
+    .description("Close the review of a memory: keep it (undoes the penalty) or forget it (moves it to the trash)")
+    .option("--keep", "The memory is correct (or has been corrected with memory_update)")
+    .option("--forget", "The memory is wrong; move it to the trash")
+    .action(async (id, options) => {
+      try {
+        if (!!options.keep === !!options.forget) {
+          throw new Error("Pass exactly one of --keep or --forget");
         }
 
-        console.log(`Import completed: ${imported} imported, ${skipped} skipped`);
+        const resolution = options.keep ? "kept" : "forgotten";
+        const resolved = await context.store.resolveReview(id, resolution);
+        if (resolved === 0) {
+          console.log(`Memory ${id} has no open review.`);
+          process.exit(1);
+        }
+        console.log(`Resolved ${resolved} report${resolved === 1 ? "" : "s"} for ${id}: ${resolution}.`);
       } catch (error) {
-        console.error("Import failed:", error);
+        console.error("Failed to resolve review:", error);
+        process.exit(1);
+      }
+    });
+
+  // Retrieval evaluation
+  memory
+    .command("eval <dataset>")
+    .description("Score retrieval on labeled queries (JSONL) with recall@k, MRR and nDCG, per config variant")
+    .option("--k <n>", "Results considered per query", "5")
+    .option("--variant <spec>", "Config variant, e.g. \"noDecay:timeDecayHalfLifeDays=0\" (repeatable)", (spec: string, specs: string[]) => [...specs, spec], [] as string[])
+    .option("--base <overrides>", "Overrides applied to every variant, e.g. \"rerank=none\"")
+    .option("--fixture <file>", "Evaluate against memories from a JSONL fixture, embedded offline (hashing embedder)")
+    .option("--vectors <file>", "Recorded query vectors; missing ones are embedded and added to the file")
+    .option("--offline", "Never call the embedding or rerank APIs (needs --fixture or --vectors)")
+    .option("--per-query", "Show results for each query")
+    .option("--json", "Output as JSON")
+    .action(async (dataset, options) => {
+      const fs = await import("node:fs/promises");
+      let cleanup: (() => Promise<void>) | undefined;
+
+      try {
+        const k = parseInt(options.k);
+        if (!Number.isInteger(k) || k < 1) {
+          throw new Error(`Invalid k: ${options.k}`);
+        }
+        if (options.offline && !options.fixture && !options.vectors) {
+          throw new Error("--offline needs --fixture or --vectors");
+        }
+
+        const cases = parseEvalDataset(await fs.readFile(dataset, "utf-8"));
+        if (cases.length === 0) {
+          throw new Error(`No labeled queries in ${dataset}`);
+        }
+
+        const variants: EvalVariant[] = [
+          { name: "current", overrides: {} },
+          ...(options.variant as string[]).map((spec, i) => parseVariant(spec, `variant${i + 1}`)),
+        ];
+        const baseConfig = {
+          ...context.retriever.getConfig(),
+          ...(options.base ? parseVariant(options.base, "base").overrides : {}),
+        };
+
+        let store = context.store;
+        let embedder: QueryEmbedder;
+        let recording: RecordedQueryEmbedder | undefined;
+        let source: string;
+
+        if (options.fixture) {
+          const { tmpdir } = await import("node:os");
+          const { join } = await import("node:path");
+          const dir = await fs.mkdtemp(join(tmpdir(), "memory-eval-"));
+          cleanup = () => fs.rm(dir, { recursive: true, force: true });
+
+          const hashing = new HashingEmbedder();
+          store = new MemoryStore({ dbPath: dir, vectorDim: hashing.dimensions });
+          const loaded = await loadEvalFixture(store, hashing, await fs.readFile(options.fixture, "utf-8"));
+          embedder = hashing;
+          source = `fixture ${options.fixture} (${loaded} memories, hashing embedder)`;
+        } else if (options.vectors) {
+          let vectors: Record<string, number[]> = {};
+          try {
+            vectors = JSON.parse(await fs.readFile(options.vectors, "utf-8"));
+          } catch (error: any) {
+            if (error?.code !== "ENOENT") throw error;
+          }
+          recording = new RecordedQueryEmbedder(vectors, options.offline ? undefined : context.embedder);
+          embedder = recording;
+          source = `memory store, recorded query vectors from ${options.vectors}`;
+        } else {
+          if (!context.embedder) {
+            throw new Error("Embedding is not configured; use --fixture or --vectors");
+          }
+          embedder = context.embedder;
+          source = "memory store, live embeddings";
+        }
+
+        const reports = await evaluateRetrieval(store, embedder, baseConfig, variants, cases, k, {
+          offline: !!options.offline,
+        });
+
+        if (recording && recording.newVectors > 0) {
+          await fs.writeFile(options.vectors, JSON.stringify(recording.toJSON()));
+        }
+
+        if (options.json) {
+          console.log(formatJson({ dataset, source, queries: cases.length, k, reports }));
+          return;
+        }
+
+        console.log(`Evaluated ${cases.length} queries against ${source}, k=${k}\n`);
+        const nameWidth = Math.max(10, ...reports.map(r => r.variant.length)) + 2;
+        console.log(`${"Variant".padEnd(nameWidth)}${`recall@${k}`.padStart(10)}${"MRR".padStart(8)}${`nDCG@${k}`.padStart(9)}`);
+        for (const report of reports) {
+          console.log(
+            `${report.variant.padEnd(nameWidth)}${report.recallAtK.toFixed(3).padStart(10)}${report.mrr.toFixed(3).padStart(8)}${report.ndcg.toFixed(3).padStart(9)}`
+          );
+        }
+
+        if (options.perQuery) {
+          console.log();
+          cases.forEach((evalCase, i) => {
+            console.log(`"${evalCase.query.slice(0, 70)}"`);
+            for (const report of reports) {
+              const result = report.cases[i];
+              const rank = result.reciprocalRank > 0 ? `first hit #${Math.round(1 / result.reciprocalRank)}` : "no hit";
+              console.log(`  ${report.variant.padEnd(nameWidth)}recall ${result.recall.toFixed(2)}, ${rank}`);
+            }
+          });
+        }
+      } catch (error) {
+        await cleanup?.(); // process.exit skips the finally block
+        console.error("Evaluation failed:", error);
+        process.exit(1);
+      } finally {
+        await cleanup?.();
+      }
+    });
+
+  // Bulk delete
+  memory
+    .command("delete-bulk")
+    .description("Bulk delete memories with filters")
+    .option("--scope <scopes...>", "Scopes to delete from (required)")
+    .option("--before <date>", "Delete memories before this date (YYYY-MM-DD)")
+    .option("--dry-run", "Show what would be deleted without actually deleting")
+    .action(async (options) => {
+      try {
+        if (!options.scope || options.scope.length === 0) {
+          console.error("At least one scope must be specified for safety.");
+          process.exit(1);
+        }
+
+        let beforeTimestamp: number | undefined;
+        if (options.before) {
+          const date = new Date(options.before);
+          if (isNaN(date.getTime())) {
+            console.error("Invalid date format. Use YYYY-MM-DD.");
+            process.exit(1);
+          }
+          beforeTimestamp = date.getTime();
+        }
+
+        if (options.dryRun) {
+          console.log("DRY RUN - No memories will be deleted");
+          console.log(`Filters: scopes=${options.scope.join(',')}, before=${options.before || 'none'}`);
+
+          // Show what would be deleted
+          const stats = await context.store.stats(options.scope);
+          console.log(`Would delete from ${stats.totalCount} memories in matching scopes.`);
+        } else {
+          await autoSnapshot("delete-bulk");
+          const deletedCount = await context.store.bulkDelete(options.scope, beforeTimestamp);
+          console.log(`Deleted ${deletedCount} memories (moved to trash).`);
+        }
+      } catch (error) {
+        console.error("Bulk delete failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Restore from trash
+  memory
+    .command("restore <id>")
+    .description("Restore a deleted memory from the trash")
+    .option("--scope <scope>", "Scope the memory must belong to (for access control)")
+    .action(async (id, options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const restored = await context.store.restore(id, scopeFilter);
+
+        if (restored) {
+          console.log(`Memory ${restored.id} restored:`);
+          console.log(formatMemory(restored));
+        } else {
+          console.log(`Memory ${id} not found in trash.`);
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error("Failed to restore memory:", error);
+        process.exit(1);
+      }
+    });
+
+  // Trash management
+  const trash = memory
+    .command("trash")
+    .description("Inspect and purge deleted memories");
+
+  trash
+    .command("list")
+    .description("List deleted memories, most recent first")
+    .option("--scope <scope>", "Filter by scope")
+    .option("--limit <n>", "Maximum number of results", "20")
+    .option("--offset <n>", "Number of results to skip", "0")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const limit = parseInt(options.limit) || 20;
+        const offset = parseInt(options.offset) || 0;
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+
+        const deleted = await context.store.listDeleted(scopeFilter, limit, offset);
+
+        if (options.json) {
+          console.log(formatJson(deleted));
+        } else if (deleted.length === 0) {
+          console.log("Trash is empty.");
+        } else {
+          const retentionDays = context.trashRetentionDays ?? 0;
+          console.log(`Found ${deleted.length} deleted memories:\n`);
+          deleted.forEach((memory, i) => {
+            const deletedAt = memory.deletedAt || 0;
+            const deletedDate = new Date(deletedAt).toISOString().split('T')[0];
+            const purgeNote = retentionDays > 0
+              ? `, purged after ${new Date(deletedAt + retentionDays * 86_400_000).toISOString().split('T')[0]}`
+              : "";
+            console.log(`${formatMemory(memory, offset + i)} [id ${memory.id.slice(0, 8)}, deleted ${deletedDate}${purgeNote}]`);
+          });
+        }
+      } catch (error) {
+        console.error("Failed to list trash:", error);
+        process.exit(1);
+      }
+    });
+
+  trash
+    .command("purge")
+    .description("Permanently remove deleted memories past the retention period")
+    .option("--older-than <days>", "Purge memories deleted more than N days ago (default: configured retention)")
+    .option("--all", "Purge everything in the trash")
+    .action(async (options) => {
+      try {
+        let cutoff: number;
+        if (options.all) {
+          cutoff = Number.MAX_SAFE_INTEGER;
+        } else {
+          const days = options.olderThan !== undefined
+            ? parseFloat(options.olderThan)
+            : context.trashRetentionDays ?? 0;
+          if (!Number.isFinite(days) || days <= 0) {
+            console.error("No retention period configured. Use --older-than <days> or --all.");
+            process.exit(1);
+          }
+          cutoff = Date.now() - days * 86_400_000;
+        }
+
+        await autoSnapshot("trash-purge");
+        const purged = await context.store.purgeDeleted(cutoff);
+        console.log(`Purged ${purged} memories from trash.`);
+      } catch (error) {
+        console.error("Failed to purge trash:", error);
+        process.exit(1);
+      }
+    });
+
+  // Near-duplicate clustering and merge
+  memory
+    .command("dedupe")
+    .description("Find near-duplicate memories within each scope and merge them (dry run unless --apply)")
+    .option("--scope <scope>", "Only dedupe this scope")
+    .option("--threshold <n>", "Similarity threshold 0-1 (default: the dedupe policy threshold)")
+    .option("--apply", "Merge the clusters (duplicates go to the trash)")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const threshold = options.threshold !== undefined ? Number(options.threshold) : undefined;
+        if (threshold !== undefined && (!Number.isFinite(threshold) || threshold < 0 || threshold > 1)) {
+          console.error("--threshold must be a number between 0 and 1");
+          process.exit(1);
+        }
+
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const { scanned, clusters } = await dedupe.findClusters({ scopeFilter, threshold });
+        const duplicateCount = clusters.reduce((sum, c) => sum + c.duplicates.length, 0);
+
+        let mergedCount = 0;
+        if (options.apply && clusters.length > 0) {
+          await autoSnapshot("dedupe", !!options.json);
+          for (const cluster of clusters) {
+            if (await dedupe.mergeCluster(cluster, "cli:dedupe")) mergedCount++;
+          }
+        }
+
+        if (options.json) {
+          console.log(formatJson({
+            scanned,
+            threshold: threshold ?? dedupe.policy.threshold,
+            applied: !!options.apply,
+            clusters: clusters.map(c => ({
+              scope: c.scope,
+              keeper: { id: c.keeper.id, text: c.keeper.text, timestamp: c.keeper.timestamp },
+              duplicates: c.duplicates.map(d => ({
+                id: d.entry.id,
+                text: d.entry.text,
+                timestamp: d.entry.timestamp,
+                similarity: d.similarity,
+              })),
+            })),
+            merged: mergedCount,
+          }));
+          return;
+        }
+
+        if (clusters.length === 0) {
+          console.log(`No near-duplicates found among ${scanned} memories.`);
+          return;
+        }
+
+        console.log(`Found ${clusters.length} clusters (${duplicateCount} duplicates) among ${scanned} memories:\n`);
+        clusters.forEach((cluster, i) => {
+          console.log(`${i + 1}. keep ${formatMemory(cluster.keeper)} [${cluster.keeper.id.slice(0, 8)}]`);
+          cluster.duplicates.forEach(({ entry, similarity }) => {
+            console.log(`     merge ${formatMemory(entry)} [${entry.id.slice(0, 8)}] ${(similarity * 100).toFixed(1)}%`);
+          });
+        });
+
+        if (options.apply) {
+          console.log(`\nMerged ${mergedCount} clusters; ${duplicateCount} duplicates moved to the trash (restorable).`);
+        } else {
+          console.log(`\nDry run. Use --apply to merge.`);
+        }
+      } catch (error) {
+        console.error("Dedupe failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Export memories
+  memory
+    .command("export")
+    .description("Export memories as NDJSON (streamed; see README for the format)")
+    .option("--scope <scope>", "Export specific scope")
+    .option("--category <category>", "Export specific category")
+    .option("--output <file>", "Output file (default: stdout)")
+    .option("--vectors", "Include vectors, so an import with the same embedding model skips re-embedding")
+    .action(async (options) => {
+      try {
+        const scopeFilter: string[] | undefined = options.scope ? [options.scope] : undefined;
+        const filter: MemoryFilter | undefined = options.category
+          ? { conditions: [{ field: "category", op: "=", value: options.category }] }
+          : undefined;
+
+        const fs = await import("node:fs");
+        const out = options.output ? fs.createWriteStream(options.output) : process.stdout;
+        const write = (line: string) => {
+          if (!out.write(line + "\n")) {
+            return new Promise<void>(resolve => out.once("drain", () => resolve()));
+          }
+        };
+
+        const count = await exportMemories(context.store, write, {
+          scopeFilter,
+          filter,
+          includeVectors: !!options.vectors,
+          embedding: context.embedder?.getModelInfo() ?? null,
+          filters: { scope: options.scope, category: options.category },
+        });
+
+        if (options.output) {
+          await new Promise<void>((resolve, reject) => {
+            out.once("error", reject);
+            (out as import("node:fs").WriteStream).end(() => resolve());
+          });
+          console.log(`Exported ${count} memories to ${options.output}${options.vectors ? " (with vectors)" : ""}`);
+        }
+      } catch (error) {
+        console.error("Export failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Import memories
+  memory
+    .command("import <file>")
+    .description("Import memories from an NDJSON export (or a legacy JSON export)")
+    .option("--mode <mode>", `Import mode: ${IMPORT_MODES.join(", ")}`, "merge")
+    .option("--scope <scope>", "Import everything into this scope")
+    .option(
+      "--remap-scope <from=to>",
+      "Map an exported scope to another scope (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[]
+    )
+    .option("--dry-run", "Validate and count without importing")
+    .option("--json", "Output the report as JSON")
+    .action(async (file, options) => {
+      try {
+        if (!IMPORT_MODES.includes(options.mode)) {
+          throw new Error(`Unknown import mode "${options.mode}" (expected ${IMPORT_MODES.join(" or ")})`);
+        }
+        if (options.scope && !context.scopeManager.validateScope(options.scope)) {
+          throw new Error(`Invalid scope: ${options.scope}`);
+        }
+        if (!context.embedder && !options.dryRun) {
+          console.error("Import requires an embedder (not available in basic CLI mode).");
+          console.error("Use the plugin's memory_store tool or pass embedder to createMemoryCLI.");
+          return;
+        }
+
+        if (!options.dryRun) await autoSnapshot("import", !!options.json);
+        const report = await importMemories(file, {
+          store: context.store,
+          dedupe,
+          embedder: context.embedder,
+          pendingWrites: context.pendingWrites,
+          sensitiveData,
+          cipher: context.cipher,
+        }, {
+          mode: options.mode,
+          scope: options.scope,
+          scopeMap: parseScopeMap(options.remapScope),
+          dryRun: !!options.dryRun,
+          changedBy: "cli:import",
+        });
+
+        if (options.json) {
+          console.log(formatJson(report));
+          return;
+        }
+
+        if (options.dryRun) {
+          console.log("DRY RUN - No memories were imported");
+        }
+        console.log(
+          `Import ${options.dryRun ? "check" : "completed"} (${report.format} v${report.version}, ${options.mode}): ` +
+          `${report.read} read, ${report.imported} ${options.dryRun ? "would be imported" : "imported"}` +
+          (report.merged > 0 ? `, ${report.merged} merged into existing` : "") +
+          (report.skipped > 0 ? `, ${report.skipped} skipped as duplicates` : "") +
+          (report.existing > 0 ? `, ${report.existing} already present` : "") +
+          (report.expired > 0 ? `, ${report.expired} already expired` : "") +
+          (report.queued > 0 ? `, ${report.queued} queued (pending embedding)` : "") +
+          (report.redacted > 0 ? `, ${report.redacted} with secrets/PII redacted` : "") +
+          (report.blocked > 0 ? `, ${report.blocked} blocked (secrets)` : "") +
+          (report.failures.length > 0 ? `, ${report.failures.length} failed` : "")
+        );
+        if (report.reusedVectors > 0 || report.embedded > 0) {
+          console.log(`Vectors: ${report.reusedVectors} reused, ${report.embedded} embedded`);
+        }
+        for (const failure of report.failures.slice(0, 20)) {
+          console.log(`  Line ${failure.line}: ${failure.error}`);
+        }
+        if (report.failures.length > 20) {
+          console.log(`  ... and ${report.failures.length - 20} more (use --json for all)`);
+        }
+        if (report.truncated) {
+          console.warn("Warning: the export has no matching footer; the file may be incomplete.");
+        }
+      } catch (error) {
+        console.error("Import failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Backups
+  const backup = memory
+    .command("backup")
+    .description("Create, list, verify and restore backups");
+
+  const backupConfig = () => context.backup ?? resolveBackupConfig(context.store.dbPath);
+
+  backup
+    .command("now")
+    .description("Write a backup now (applies the retention count afterwards)")
+    .option("--no-vectors", "Leave vectors out (a restore re-embeds)")
+    .option("--no-gzip", "Write uncompressed NDJSON")
+    .action(async (options) => {
+      try {
+        const config = { ...backupConfig() };
+        if (options.vectors === false) config.includeVectors = false;
+        if (options.gzip === false) config.gzip = false;
+
+        const { file, count, pruned } = await createBackup(context.store, config, context.embedder?.getModelInfo() ?? null, context.cipher);
+        console.log(`Backed up ${count} memories to ${file.path} (${formatSize(file.size)})`);
+        if (pruned.length > 0) {
+          console.log(`Removed ${pruned.length} old backups (keeping ${config.retention})`);
+        }
+      } catch (error) {
+        console.error("Backup failed:", error);
+        process.exit(1);
+      }
+    });
+
+  backup
+    .command("list")
+    .description("List backups, newest first")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const dir = backupConfig().dir;
+        const files = await listBackups(dir);
+
+        if (options.json) {
+          console.log(formatJson(files));
+        } else if (files.length === 0) {
+          console.log(`No backups in ${dir}.`);
+        } else {
+          console.log(`Backups in ${dir}:\n`);
+          for (const file of files) {
+            console.log(`  ${file.name}  ${formatSize(file.size)}  ${new Date(file.createdAt).toISOString().replace("T", " ").slice(0, 19)} UTC`);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to list backups:", error);
+        process.exit(1);
+      }
+    });
+
+  backup
+    .command("verify [file]")
+    .description("Check a backup (default: the newest) for integrity and compare it with the live table")
+    .option("--json", "Output as JSON")
+    .action(async (file, options) => {
+      try {
+        const dir = backupConfig().dir;
+        const path = file ? resolveBackupPath(dir, file) : (await listBackups(dir))[0]?.path;
+        if (!path) {
+          console.log(`No backups in ${dir}.`);
+          process.exit(1);
+        }
+
+        const result = await verifyBackup(path, context.store, context.cipher);
+        const intact = isBackupIntact(result);
+
+        if (options.json) {
+          console.log(formatJson({ ...result, intact }));
+        } else {
+          console.log(`Backup: ${result.file}`);
+          console.log(
+            `File: ${intact ? "OK" : "DAMAGED"} — ${result.count} memories` +
+            `, footer ${result.footerCount === undefined ? "missing" : `count ${result.footerCount}`}` +
+            `, digest ${result.digestValid === undefined ? "not present" : result.digestValid ? "valid" : "MISMATCH"}`
+          );
+          for (const invalid of result.invalidLines.slice(0, 10)) {
+            console.log(`  Line ${invalid.line}: ${invalid.error}`);
+          }
+          console.log(
+            `Live table: ${result.live.matching} unchanged, ${result.live.changed.length} changed since, ` +
+            `${result.live.missing.length} no longer live, ${result.live.added} added since`
+          );
+        }
+        if (!intact) process.exit(1);
+      } catch (error) {
+        console.error("Verify failed:", error);
+        process.exit(1);
+      }
+    });
+
+  backup
+    .command("restore <file>")
+    .description("Restore memories from a backup (missing and trashed memories come back with their ids; live ones are left alone)")
+    .option(
+      "--scope <scope>",
+      "Only restore memories from this scope (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[]
+    )
+    .option("--mode <mode>", `Import mode: ${IMPORT_MODES.join(", ")}`, "preserve-ids")
+    .option("--dry-run", "Show what would be restored without writing")
+    .option("--json", "Output the report as JSON")
+    .action(async (file, options) => {
+      try {
+        if (!IMPORT_MODES.includes(options.mode)) {
+          throw new Error(`Unknown import mode "${options.mode}" (expected ${IMPORT_MODES.join(" or ")})`);
+        }
+
+        if (!options.dryRun) await autoSnapshot("backup-restore", !!options.json);
+        const report = await importMemories(resolveBackupPath(backupConfig().dir, file), {
+          store: context.store,
+          dedupe,
+          embedder: context.embedder,
+          pendingWrites: context.pendingWrites,
+          sensitiveData,
+          cipher: context.cipher,
+        }, {
+          mode: options.mode,
+          onlyScopes: options.scope.length > 0 ? options.scope : undefined,
+          untrash: true,
+          dryRun: !!options.dryRun,
+          changedBy: "cli:restore",
+        });
+
+        if (options.json) {
+          console.log(formatJson(report));
+          return;
+        }
+
+        if (options.dryRun) {
+          console.log("DRY RUN - No memories were restored");
+        }
+        console.log(
+          `Restore ${options.dryRun ? "check" : "completed"}: ${report.read} in backup, ` +
+          `${report.imported + report.untrashed} ${options.dryRun ? "would be restored" : "restored"}` +
+          (report.untrashed > 0 ? ` (${report.untrashed} from the trash)` : "") +
+          `, ${report.existing} already present` +
+          (report.excluded > 0 ? `, ${report.excluded} outside the selected scopes` : "") +
+          (report.merged + report.skipped > 0 ? `, ${report.merged + report.skipped} deduplicated` : "") +
+          (report.expired > 0 ? `, ${report.expired} expired` : "") +
+          (report.redacted > 0 ? `, ${report.redacted} with secrets/PII redacted` : "") +
+          (report.blocked > 0 ? `, ${report.blocked} blocked (secrets)` : "") +
+          (report.failures.length > 0 ? `, ${report.failures.length} failed` : "")
+        );
+        if (report.embedded > 0) {
+          console.log(`Re-embedded ${report.embedded} memories (the backup has no vectors for the current model)`);
+        }
+        for (const failure of report.failures.slice(0, 20)) {
+          console.log(`  Line ${failure.line}: ${failure.error}`);
+        }
+        if (report.truncated) {
+          console.warn("Warning: the backup has no matching footer; it may be incomplete.");
+        }
+      } catch (error) {
+        console.error("Restore failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Secret & PII policy
+  const sensitive = memory
+    .command("sensitive")
+    .description("Check text against the secret/PII policy and review its decisions");
+
+  sensitive
+    .command("check <text>")
+    .description("Show what the policy would do with a text (nothing is stored or logged)")
+    .option("--json", "Output as JSON")
+    .action(async (text, options) => {
+      try {
+        const result = sensitiveData.evaluate(text);
+
+        if (options.json) {
+          console.log(formatJson(result));
+          return;
+        }
+        if (result.findings.length === 0) {
+          console.log("No secrets or PII found.");
+          return;
+        }
+        console.log(`Decision: ${result.action}`);
+        for (const finding of result.findings) {
+          console.log(`  ${finding.class} (${finding.detector}) at ${finding.start}-${finding.end}: ${sensitiveData.policyFor(finding.class)}`);
+        }
+        if (result.action === "redact") {
+          console.log(`Stored as: ${result.text}`);
+        }
+      } catch (error) {
+        console.error("Check failed:", error);
+        process.exit(1);
+      }
+    });
+
+  sensitive
+    .command("log")
+    .description("Policy decisions on writes with secrets or PII, newest first")
+    .option("--action <action>", `Only ${SENSITIVE_ACTIONS.join(", ")} decisions`)
+    .option("--source <source>", "Only this write path, e.g. auto-capture:main")
+    .option("--since <date>", "Only decisions since this date (YYYY-MM-DD)")
+    .option("--limit <n>", "Maximum number of entries", "50")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        if (options.action && !isSensitiveAction(options.action)) {
+          throw new Error(`Unknown action "${options.action}" (expected ${SENSITIVE_ACTIONS.join(", ")})`);
+        }
+        const since = options.since ? new Date(options.since).getTime() : undefined;
+        if (since !== undefined && isNaN(since)) {
+          throw new Error("Invalid date format. Use YYYY-MM-DD.");
+        }
+
+        const events = await context.store.listSensitiveEvents({
+          action: options.action,
+          source: options.source,
+          since,
+          limit: parseInt(options.limit) || 50,
+        });
+
+        if (options.json) {
+          console.log(formatJson(events));
+        } else if (events.length === 0) {
+          console.log("No decisions logged.");
+        } else {
+          for (const event of events) {
+            const at = new Date(event.createdAt).toISOString().replace("T", " ").slice(0, 19);
+            console.log(`${at} UTC  ${event.action.padEnd(6)}  ${event.classes.join(", ")}  ${event.source}${event.scope ? ` → ${event.scope}` : ""}`);
+            console.log(`    ${event.preview}`);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to read the decision log:", error);
+        process.exit(1);
+      }
+    });
+
+  sensitive
+    .command("scan")
+    .description("Find stored memories the current policy would block or redact")
+    .option("--scope <scope>", "Only scan this scope")
+    .option("--all", "Also list memories with allowed findings (e.g. emails)")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const matches: Array<{ id: string; scope: string; action: string; classes: string[]; preview: string }> = [];
+        let scanned = 0;
+
+        for await (const entry of context.store.iterate(scopeFilter)) {
+          scanned++;
+          const result = sensitiveData.evaluate(entry.text);
+          if (result.findings.length === 0 || (result.action === "allow" && !options.all)) continue;
+          matches.push({
+            id: entry.id,
+            scope: entry.scope,
+            action: result.action,
+            classes: Array.from(new Set(result.findings.map(f => f.class))),
+            preview: sensitivePreview(entry.text, result.findings),
+          });
+        }
+
+        if (options.json) {
+          console.log(formatJson({ scanned, matches }));
+          return;
+        }
+        if (matches.length === 0) {
+          console.log(`No memories with ${options.all ? "secrets or PII" : "blocked or redacted content"} among ${scanned} scanned.`);
+          return;
+        }
+        console.log(`${matches.length} of ${scanned} memories:\n`);
+        for (const match of matches) {
+          console.log(`  [${match.id.slice(0, 8)}] ${match.action.padEnd(6)} ${match.classes.join(", ")} (${match.scope})`);
+          console.log(`    ${match.preview}`);
+        }
+        console.log(`\nUse "memory delete <id>" to remove a memory, or memory_update to store it without the secret.`);
+      } catch (error) {
+        console.error("Scan failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Snapshots of the memories table (LanceDB versions)
+  const snapshot = memory
+    .command("snapshot")
+    .description("Name, list, diff and roll back versions of the memories table");
+
+  snapshot
+    .command("create <name>")
+    .description("Name the current version of the memories table")
+    .option("--reason <text>", "Why the snapshot was taken")
+    .action(async (name, options) => {
+      try {
+        const created = await context.store.createSnapshot(name, { reason: options.reason, createdBy: "cli" });
+        console.log(`Snapshot ${created.name} → version ${created.version} (${created.liveCount} live, ${created.rowCount} rows)`);
+      } catch (error) {
+        console.error("Failed to create snapshot:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("list")
+    .description("List snapshots, newest first")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const snapshots = await context.store.listSnapshots();
+
+        if (options.json) {
+          console.log(formatJson(snapshots));
+        } else if (snapshots.length === 0) {
+          console.log("No snapshots.");
+        } else {
+          for (const s of snapshots) {
+            const created = new Date(s.createdAt).toISOString().replace("T", " ").slice(0, 19);
+            console.log(
+              `  ${s.name}  v${s.version}  ${s.liveCount} live / ${s.rowCount} rows  ${created} UTC` +
+              (s.reason ? `  (${s.reason}${s.createdBy ? `, ${s.createdBy}` : ""})` : "")
+            );
+          }
+        }
+      } catch (error) {
+        console.error("Failed to list snapshots:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("versions")
+    .description("List recent table versions with row counts")
+    .option("--limit <n>", "Maximum number of versions", "20")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const versions = await context.store.listTableVersions(parseInt(options.limit) || 20);
+
+        if (options.json) {
+          console.log(formatJson(versions));
+        } else {
+          for (const v of versions) {
+            const names = v.snapshots.length > 0 ? `  [${v.snapshots.join(", ")}]` : "";
+            console.log(`  v${v.version}  ${v.liveCount} live / ${v.rowCount} rows${names}`);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to list versions:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("diff <from> [to]")
+    .description("Memories added, removed and changed between two snapshots or versions (to defaults to latest)")
+    .option("--json", "Output as JSON")
+    .action(async (from, to, options) => {
+      try {
+        const fromRef = await resolveSnapshotRef(context.store, from);
+        const toRef = to ? await resolveSnapshotRef(context.store, to) : undefined;
+        const diff = await diffVersions(context.store, fromRef.version, toRef?.version);
+
+        if (options.json) {
+          console.log(formatJson(diff));
+          return;
+        }
+
+        console.log(
+          `v${diff.fromVersion} → v${diff.toVersion}: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+          `${diff.changed.length} changed, ${diff.unchanged} unchanged`
+        );
+        const show = async (label: string, ids: string[]) => {
+          if (ids.length === 0) return;
+          const shown = ids.slice(0, 20);
+          const entries = new Map((await context.store.getByIds(shown)).map(e => [e.id, e]));
+          console.log(`\n${label}:`);
+          for (const id of shown) {
+            const entry = entries.get(id);
+            console.log(`  ${id.slice(0, 8)} ${entry ? formatMemory(entry) : "(not live now)"}`);
+          }
+          if (ids.length > shown.length) console.log(`  ... and ${ids.length - shown.length} more (use --json for all)`);
+        };
+        await show("Added", diff.added);
+        await show("Removed", diff.removed);
+        await show("Changed", diff.changed);
+      } catch (error) {
+        console.error("Diff failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("rollback <ref>")
+    .description("Make a snapshot or version the latest version again (snapshots the current state first)")
+    .action(async (ref) => {
+      try {
+        const { version } = await resolveSnapshotRef(context.store, ref);
+        const diff = await diffVersions(context.store, await context.store.tableVersion(), version);
+
+        await autoSnapshot("rollback");
+        const newVersion = await context.store.rollbackToVersion(version);
+        console.log(
+          `Rolled back to v${version} (now v${newVersion}): ${diff.added.length} memories back, ` +
+          `${diff.removed.length} gone, ${diff.changed.length} reverted`
+        );
+        console.log("Version history, links and feedback were not rolled back. Restart the gateway so it sees the rollback.");
+      } catch (error) {
+        console.error("Rollback failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("delete <name>")
+    .description("Delete a snapshot name (the table version itself is kept)")
+    .action(async (name) => {
+      try {
+        if (await context.store.deleteSnapshot(name)) {
+          console.log(`Snapshot ${name} deleted.`);
+        } else {
+          console.log(`No snapshot named ${name}.`);
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error("Failed to delete snapshot:", error);
+        process.exit(1);
+      }
+    });
+
+  // Encryption at rest
+  const openKeyring = async (): Promise<Keyring> => {
+    const config = context.encryption;
+    if (!config?.enabled) {
+      throw new Error("Encryption is not enabled (set encryption.passphraseFile or encryption.passphrase in the plugin config)");
+    }
+    return Keyring.open(config.keyringPath, await resolvePassphrase(config));
+  };
+
+  const encryption = memory
+    .command("encryption")
+    .description("Inspect encryption at rest");
+
+  encryption
+    .command("status")
+    .description("Show the keyring and how many rows each key encrypts")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const usage = await context.store.keyUsage();
+        const keyring = context.encryption?.enabled ? await openKeyring() : null;
+        const keys = keyring?.listKeys() ?? [];
+        const stale = Object.values(usage)
+          .flatMap(counts => Object.entries(counts))
+          .filter(([key]) => key !== keyring?.activeKeyId)
+          .reduce((sum, [, count]) => sum + count, 0);
+
+        if (options.json) {
+          console.log(formatJson({ enabled: !!keyring, keyringPath: keyring?.path, activeKeyId: keyring?.activeKeyId, keys, usage }));
+          return;
+        }
+
+        console.log(keyring ? `Encryption: enabled (keyring ${keyring.path})` : "Encryption: disabled");
+        for (const key of keys) {
+          const created = new Date(key.createdAt).toISOString().split("T")[0];
+          const state = key.active ? "active" : `retired ${new Date(key.retiredAt).toISOString().split("T")[0]}`;
+          console.log(`  key ${key.id}  ${state}  (created ${created})`);
+        }
+        console.log("Rows by key:");
+        for (const [table, counts] of Object.entries(usage)) {
+          const parts = Object.entries(counts).map(([key, count]) => `${count} ${key === "plaintext" ? "plaintext" : `× ${key}`}`);
+          console.log(`  ${table}: ${parts.length > 0 ? parts.join(", ") : "empty"}`);
+        }
+        if (keyring && stale > 0) {
+          console.log(`\n${stale} rows are not under the active key; run \`openclaw memory rekey --no-rotate\` to re-encrypt them.`);
+        }
+      } catch (error) {
+        console.error("Failed to get encryption status:", error);
+        process.exit(1);
+      }
+    });
+
+  memory
+    .command("rekey")
+    .description("Rotate the data key and re-encrypt every row, and/or wrap the keys under a new passphrase")
+    .option("--new-passphrase-file <path>", "Wrap the keys under the passphrase in this file")
+    .option("--new-passphrase-env <var>", "Wrap the keys under the passphrase in this (allowed) environment variable")
+    .option("--no-rotate", "Keep the active key; only encrypt rows not under it (plaintext or retired keys)")
+    .option("--passphrase-only", "Only rewrap the keys under the new passphrase; rows are not rewritten")
+    .option("--prune-keys", "Drop retired keys no current row, queued write or backup uses (snapshots from before may become unreadable)")
+    .option("--purge-history", "Clean up old table versions holding plaintext or retired-key copies (deletes their snapshots)")
+    .option("--dry-run", "Show what would be rewritten")
+    .action(async (options) => {
+      try {
+        if (options.newPassphraseFile && options.newPassphraseEnv) {
+          throw new Error("Use either --new-passphrase-file or --new-passphrase-env");
+        }
+        const newSource: PassphraseSource | undefined = options.newPassphraseFile
+          ? { passphraseFile: options.newPassphraseFile }
+          : options.newPassphraseEnv ? { passphrase: `\${${options.newPassphraseEnv}}` } : undefined;
+        if (options.passphraseOnly && !newSource) {
+          throw new Error("--passphrase-only needs --new-passphrase-file or --new-passphrase-env");
+        }
+        const rewriteRows = !options.passphraseOnly;
+
+        const keyring = await openKeyring();
+        const newPassphrase = newSource ? await resolvePassphrase(newSource) : undefined;
+        if (rewriteRows && options.rotate) {
+          keyring.addKey();
+        }
+
+        if (options.dryRun) {
+          // The new key only exists in memory here; nothing is saved
+          const pending = rewriteRows ? await context.store.reencrypt(keyring.cipher(), { dryRun: true }) : {};
+          const total = Object.values(pending).reduce((sum, n) => sum + n, 0);
+          console.log(
+            `Dry run: would ${rewriteRows && options.rotate ? "rotate the data key, " : ""}` +
+            `${newPassphrase ? "rewrap the keyring under the new passphrase, " : ""}` +
+            `re-encrypt ${total} rows` +
+            (total > 0 ? ` (${Object.entries(pending).filter(([, n]) => n > 0).map(([table, n]) => `${table}: ${n}`).join(", ")})` : "")
+          );
+          return;
+        }
+
+        if (rewriteRows && !options.purgeHistory) {
+          await autoSnapshot("rekey");
+        }
+        if (newPassphrase) {
+          await keyring.rewrap(newPassphrase);
+        }
+        // Saved before any row is rewritten, so every value on disk has its key in the keyring
+        await keyring.save();
+
+        if (rewriteRows) {
+          const rewritten = await context.store.reencrypt(keyring.cipher());
+          const total = Object.values(rewritten).reduce((sum, n) => sum + n, 0);
+          console.log(`Re-encrypted ${total} rows under key ${keyring.activeKeyId}.`);
+        }
+        if (newPassphrase) {
+          console.log("Keyring rewrapped under the new passphrase. Point encryption.passphraseFile or encryption.passphrase at it.");
+        }
+        if (options.pruneKeys) {
+          const inUse = new Set(Object.values(await context.store.keyUsage()).flatMap(counts => Object.keys(counts)));
+          for (const keyId of await backupKeyIds(backupConfig().dir)) inUse.add(keyId);
+          for (const keyId of context.pendingWrites?.keyIds() ?? []) inUse.add(keyId);
+          const dropped = keyring.prune(inUse);
+          await keyring.save();
+          console.log(dropped.length > 0 ? `Dropped retired keys: ${dropped.join(", ")}` : "No unused retired keys.");
+        }
+        if (options.purgeHistory) {
+          const deleted = await context.store.purgeHistory();
+          console.log(`Old table versions cleaned up${deleted > 0 ? `; ${deleted} snapshots of them deleted` : ""}.`);
+        }
+        if (rewriteRows && options.rotate) {
+          console.log("Restart the gateway so it writes with the new key.");
+        }
+      } catch (error) {
+        console.error("Rekey failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Sync with agent workspace Markdown (MEMORY.md, memory/*.md)
+  memory
+    .command("sync-md")
+    .description("Sync agent workspace MEMORY.md and daily notes with agent:<id> scopes")
+    .option("--agent <id>", "Agent whose workspace to sync", "main")
+    .option("--workspace <path>", "Workspace directory (default: ~/.openclaw/workspace[-<agent>])")
+    .option("--all", "Sync every workspace found under ~/.openclaw")
+    .option("--direction <direction>", "import (Markdown → store), render (store → MEMORY.md) or both", "import")
+    .option("--prune", "Move memories whose note was removed from its file to the trash")
+    .option("--dry-run", "Show what would change without writing")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        if (!["import", "render", "both"].includes(options.direction)) {
+          throw new Error(`Unknown direction "${options.direction}" (expected import, render or both)`);
+        }
+        const doImport = options.direction !== "render";
+        const doRender = options.direction !== "import";
+        if (doImport && !context.embedder) {
+          console.error("Import requires an embedder (not available in basic CLI mode).");
+          return;
+        }
+
+        const workspaces: AgentWorkspace[] = options.all
+          ? await discoverAgentWorkspaces()
+          : [options.workspace ? { agentId: options.agent, path: options.workspace } : resolveAgentWorkspace(options.agent)];
+        if (workspaces.length === 0) {
+          console.log("No agent workspaces found.");
+          return;
+        }
+
+        if (doImport && !options.dryRun) await autoSnapshot("sync-md", !!options.json);
+        const results: Array<{ workspace: AgentWorkspace; imported?: MarkdownSyncReport; rendered?: { path: string; count: number; backup?: string } }> = [];
+        for (const workspace of workspaces) {
+          const scope = `agent:${workspace.agentId}`;
+          if (!context.scopeManager.validateScope(scope)) {
+            throw new Error(`Invalid scope: ${scope}`);
+          }
+
+          const result: (typeof results)[number] = { workspace };
+          if (doImport) {
+            result.imported = await syncFromMarkdown(workspace, { store: context.store, embedder: context.embedder!, dedupe, sensitiveData }, {
+              prune: !!options.prune,
+              dryRun: !!options.dryRun,
+              changedBy: "cli:sync-md",
+            });
+          }
+          if (doRender) {
+            result.rendered = await renderToMarkdown(workspace, context.store, { dryRun: !!options.dryRun });
+          }
+          results.push(result);
+        }
+
+        if (options.json) {
+          console.log(formatJson(results));
+          return;
+        }
+
+        if (options.dryRun) {
+          console.log("DRY RUN - Nothing was written");
+        }
+        for (const { workspace, imported, rendered } of results) {
+          console.log(`agent:${workspace.agentId} (${workspace.path})`);
+          if (imported) {
+            console.log(
+              `  Import: ${imported.items} notes in ${imported.files} files — ${imported.imported} new, ${imported.updated} updated, ` +
+              `${imported.unchanged} unchanged` +
+              (imported.deduplicated > 0 ? `, ${imported.deduplicated} deduplicated` : "") +
+              (imported.pruned > 0 ? `, ${imported.pruned} pruned` : "") +
+              (imported.blocked > 0 ? `, ${imported.blocked} blocked (secrets)` : "") +
+              (imported.failures.length > 0 ? `, ${imported.failures.length} failed` : "")
+            );
+            for (const failure of imported.failures.slice(0, 10)) {
+              console.log(`    ${failure.file}: ${failure.error}`);
+            }
+          }
+          if (rendered) {
+            console.log(`  Render: ${rendered.count} memories → ${rendered.path}${rendered.backup ? ` (previous file kept as ${rendered.backup})` : ""}`);
+          }
+        }
+      } catch (error) {
+        console.error("Markdown sync failed:", error);
         process.exit(1);
       }
     });
@@ -456,6 +1976,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           return;
         }
 
+        await autoSnapshot("reembed");
         let processed = 0;
         let imported = 0;
         let skipped = 0;
@@ -493,6 +2014,11 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
               importance: typeof row.importance === "number" ? row.importance : 0.7,
               timestamp: typeof row.timestamp === "number" ? row.timestamp : Date.now(),
               metadata: typeof row.metadata === "string" ? row.metadata : "{}",
+              tags: parseTags(row.tags),
+              expiresAt: toExpiresAt(row.expiresAt),
+              accessCount: Number(row.accessCount) || 0,
+              lastAccessedAt: Number(row.lastAccessedAt) || undefined,
+              feedbackScore: Number(row.feedbackScore) || 0,
             };
 
             await context.store.importEntry(entry);
@@ -548,6 +2074,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .option("--skip-existing", "Skip entries that already exist")
     .action(async (options) => {
       try {
+        if (!options.dryRun) await autoSnapshot("migrate");
         const result = await context.migrator.migrate({
           sourceDbPath: options.source,
           defaultScope: options.defaultScope,
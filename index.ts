@@ -6,32 +6,63 @@
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { homedir } from "node:os";
 import { join, dirname, basename } from "node:path";
-import { readFile, readdir, writeFile, mkdir } from "node:fs/promises";
+import { readFile, readdir } from "node:fs/promises";
 
 // Import core components
 import { MemoryStore } from "./src/store.js";
 import { createEmbedder, getVectorDimensions } from "./src/embedder.js";
+import {
+  getDefaultEmbeddingModel,
+  isEmbeddingProviderName,
+  providerRequiresApiKey,
+  EMBEDDING_PROVIDERS,
+  type EmbeddingProviderName,
+} from "./src/embedding-providers.js";
 import { createRetriever, DEFAULT_RETRIEVAL_CONFIG } from "./src/retriever.js";
+import type { RerankProvider } from "./src/rerankers.js";
 import { createScopeManager } from "./src/scopes.js";
 import { createMigrator } from "./src/migrate.js";
 import { registerAllMemoryTools } from "./src/tools.js";
 import { shouldSkipRetrieval } from "./src/adaptive-retrieval.js";
 import { createMemoryCLI } from "./cli.js";
+import { createPendingWriteQueue, drainPendingWrites, reembedFallbackVectors } from "./src/write-queue.js";
+import { createDeduplicator } from "./src/dedupe.js";
+import { createSupersessionManager } from "./src/supersession.js";
+import { createAccessTracker } from "./src/access-tracker.js";
+import { createBackup, resolveBackupConfig, type BackupConfig } from "./src/backup.js";
+import { createMarkdownSyncWatcher, discoverAgentWorkspaces, type MarkdownSyncWatcher } from "./src/markdown-sync.js";
+import {
+  createSensitiveDataScanner,
+  isSensitiveAction,
+  isSensitiveClass,
+  SENSITIVE_ACTIONS,
+  SENSITIVE_CLASSES,
+  type SensitiveDataOptions,
+} from "./src/sensitive.js";
+import { createFieldCipher, resolveEncryptionConfig, type EncryptionConfig } from "./src/encryption.js";
 
 // ============================================================================
 // Configuration & Types
 // ============================================================================
 
+interface EmbeddingBackendOptions {
+  provider: EmbeddingProviderName;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  dimensions?: number;
+  taskQuery?: string;
+  taskPassage?: string;
+  normalized?: boolean;
+}
+
 interface PluginConfig {
-  embedding: {
-    provider: "openai-compatible";
-    apiKey: string;
-    model?: string;
-    baseURL?: string;
-    dimensions?: number;
-    taskQuery?: string;
-    taskPassage?: string;
-    normalized?: boolean;
+  embedding: EmbeddingBackendOptions & {
+    fallbacks?: EmbeddingBackendOptions[];
+    failover?: {
+      failureThreshold?: number;
+      cooldownMs?: number;
+    };
   };
   dbPath?: string;
   autoCapture?: boolean;
@@ -47,13 +78,24 @@ interface PluginConfig {
     rerankApiKey?: string;
     rerankModel?: string;
     rerankEndpoint?: string;
-    rerankProvider?: "jina" | "siliconflow" | "pinecone";
+    rerankProvider?: RerankProvider;
+    rerankBlendWeight?: number;
+    rerankTimeoutMs?: number;
+    rerankRetries?: number;
     recencyHalfLifeDays?: number;
     recencyWeight?: number;
     filterNoise?: boolean;
     lengthNormAnchor?: number;
     hardMinScore?: number;
     timeDecayHalfLifeDays?: number;
+    mmrLambda?: number;
+    supersededMode?: "demote" | "hide";
+    supersededPenalty?: number;
+    graphExpansion?: boolean;
+    graphExpansionLimit?: number;
+    graphScoreFactor?: number;
+    reinforcementWeight?: number;
+    accessHalfLifeDays?: number;
   };
   scopes?: {
     default?: string;
@@ -62,12 +104,34 @@ interface PluginConfig {
   };
   enableManagementTools?: boolean;
   sessionMemory?: { enabled?: boolean; messageCount?: number };
+  trash?: { retentionDays?: number };
+  dedupe?: {
+    enabled?: boolean;
+    threshold?: number;
+    onWrite?: "skip" | "merge";
+  };
+  supersession?: {
+    enabled?: boolean;
+    threshold?: number;
+    autoSupersede?: boolean;
+  };
+  backup?: Partial<BackupConfig>;
+  markdownSync?: {
+    watch?: boolean;
+    workspaces?: Array<{ agentId: string; path: string }>;
+    prune?: boolean;
+    debounceMs?: number;
+  };
+  sensitiveData?: SensitiveDataOptions;
+  encryption?: Partial<EncryptionConfig>;
 }
 
 // ============================================================================
 // Default Configuration
 // ============================================================================
 
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 function getDefaultDbPath(): string {
   const home = homedir();
   return join(home, ".openclaw", "memory", "lancedb-pro");
@@ -268,31 +332,73 @@ const memoryLanceDBProPlugin = {
 
     const resolvedDbPath = api.resolvePath(config.dbPath || getDefaultDbPath());
     const vectorDim = getVectorDimensions(
-      config.embedding.model || "text-embedding-3-small",
-      config.embedding.dimensions
+      config.embedding.model,
+      config.embedding.dimensions,
+      config.embedding.provider
     );
 
+    // Encryption at rest: unlock (or create) the keyring before anything reads the tables
+    const encryption = resolveEncryptionConfig(resolvedDbPath, {
+      ...config.encryption,
+      passphraseFile: config.encryption?.passphraseFile ? api.resolvePath(config.encryption.passphraseFile) : undefined,
+      keyringPath: config.encryption?.keyringPath ? api.resolvePath(config.encryption.keyringPath) : undefined,
+    });
+    const cipher = encryption.enabled ? await createFieldCipher(encryption) : undefined;
+
     // Initialize core components
-    const store = new MemoryStore({ dbPath: resolvedDbPath, vectorDim });
     const embedder = await createEmbedder({
-      provider: "openai-compatible",
+      provider: config.embedding.provider,
       apiKey: resolveEnvVars(config.embedding.apiKey),
-      model: config.embedding.model || "text-embedding-3-small",
+      model: config.embedding.model,
       baseURL: config.embedding.baseURL,
       dimensions: config.embedding.dimensions,
       taskQuery: config.embedding.taskQuery,
       taskPassage: config.embedding.taskPassage,
       normalized: config.embedding.normalized,
+      fallbacks: config.embedding.fallbacks?.map(fallback => ({
+        ...fallback,
+        apiKey: resolveEnvVars(fallback.apiKey),
+      })),
+      failover: config.embedding.failover,
+      cacheCipher: cipher,
     });
+    const pendingWrites = createPendingWriteQueue({ namespace: resolvedDbPath, cipher });
+    const store = new MemoryStore({
+      dbPath: resolvedDbPath,
+      vectorDim,
+      cipher,
+      // Memories embedded by a fallback model are re-embedded by id once the primary recovers
+      onVectorWrite: (id, vector) => embedder.isFallbackVector(vector)
+        ? pendingWrites.markForReembed(id)
+        : pendingWrites.clearReembed(id),
+    });
+    const accessTracker = createAccessTracker(store);
     const retriever = createRetriever(store, embedder, {
       ...DEFAULT_RETRIEVAL_CONFIG,
       ...config.retrieval,
-    });
+    }, accessTracker);
     const scopeManager = createScopeManager(config.scopes);
     const migrator = createMigrator(store);
+    const supersession = createSupersessionManager(store, config.supersession);
+    const dedupe = createDeduplicator(store, config.dedupe, supersession);
+    const sensitiveData = createSensitiveDataScanner(config.sensitiveData, async (event) => {
+      const message =
+        `memory-lancedb-pro: ${event.action === "allow" ? "allowed" : event.action === "block" ? "blocked" : "redacted"} ` +
+        `${event.classes.join(", ")} from ${event.source}${event.scope ? ` (scope ${event.scope})` : ""}`;
+      if (event.action === "allow") api.logger.info(message);
+      else api.logger.warn(message);
+      await store.recordSensitiveEvent(event);
+    });
+    const trashRetentionDays = config.trash?.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    const backupConfig = resolveBackupConfig(resolvedDbPath, {
+      ...config.backup,
+      dir: config.backup?.dir ? api.resolvePath(config.backup.dir) : undefined,
+    });
 
     api.logger.info(
-      `memory-lancedb-pro: plugin registered (db: ${resolvedDbPath}, model: ${config.embedding.model || "text-embedding-3-small"})`
+      `memory-lancedb-pro: plugin registered (db: ${resolvedDbPath}, provider: ${config.embedding.provider}, model: ${config.embedding.model}` +
+      `${config.embedding.fallbacks?.length ? `, fallbacks: ${config.embedding.fallbacks.map(f => `${f.provider}/${f.model}`).join(" → ")}` : ""}` +
+      `${cipher ? `, encrypted with key ${cipher.activeKeyId}` : ""})`
     );
 
     // ========================================================================
@@ -306,6 +412,9 @@ const memoryLanceDBProPlugin = {
         store,
         scopeManager,
         embedder,
+        pendingWrites,
+        dedupe,
+        sensitiveData,
         agentId: undefined, // Will be determined at runtime from context
       },
       {
@@ -324,6 +433,13 @@ const memoryLanceDBProPlugin = {
         scopeManager,
         migrator,
         embedder,
+        pendingWrites,
+        dedupe,
+        sensitiveData,
+        trashRetentionDays,
+        backup: backupConfig,
+        encryption,
+        cipher,
       }),
       { commands: ["memory"] }
     );
@@ -355,7 +471,7 @@ const memoryLanceDBProPlugin = {
           }
 
           const memoryContext = results
-            .map((r) => `- [${r.entry.category}:${r.entry.scope}] ${sanitizeForContext(r.entry.text)} (${(r.score * 100).toFixed(0)}%${r.sources?.bm25 ? ', vector+BM25' : ''}${r.sources?.reranked ? '+reranked' : ''})`)
+            .map((r) => `- [${r.entry.category}:${r.entry.scope}] ${sanitizeForContext(r.entry.text)} (${(r.score * 100).toFixed(0)}%${r.sources?.bm25 ? ', vector+BM25' : ''}${r.sources?.reranked ? '+reranked' : ''}${r.sources?.graph ? `, linked (${r.sources.graph.link})` : ''}${r.entry.supersededBy ? ', superseded by a newer memory' : ''}, id ${r.entry.id.slice(0, 8)})`)
             .join("\n");
 
           api.logger.info?.(
@@ -433,32 +549,52 @@ const memoryLanceDBProPlugin = {
 
           // Store each capturable piece (limit to 3 per conversation)
           let stored = 0;
-          for (const text of toCapture.slice(0, 3)) {
+          let merged = 0;
+          let queued = 0;
+          let blocked = 0;
+          for (const captured of toCapture.slice(0, 3)) {
+            const screened = await sensitiveData.scan(captured, { source: `auto-capture:${agentId}`, scope: defaultScope });
+            if (screened.action === "block") {
+              blocked++;
+              continue;
+            }
+            const text = screened.text;
             const category = detectCategory(text);
-            const vector = await embedder.embedPassage(text);
 
-            // Check for duplicates using raw vector similarity (bypasses importance/recency weighting)
-            const existing = await store.vectorSearch(vector, 1, 0.1, [defaultScope]);
-
-            if (existing.length > 0 && existing[0].score > 0.95) {
+            let vector: number[];
+            try {
+              vector = await embedder.embedPassage(text);
+            } catch (err) {
+              pendingWrites.enqueue({ text, category, scope: defaultScope, importance: 0.7, source: "auto-capture" }, err);
+              queued++;
               continue;
             }
 
-            await store.store({
+            const result = await dedupe.write({
               text,
               vector,
               importance: 0.7,
               category,
               scope: defaultScope,
-            });
-            stored++;
+            }, { changedBy: `auto-capture:${agentId}` });
+            if (result.action === "created") stored++;
+            if (result.action === "merged") merged++;
           }
 
-          if (stored > 0) {
+          if (stored > 0 || merged > 0) {
             api.logger.info(
-              `memory-lancedb-pro: auto-captured ${stored} memories for agent ${agentId} in scope ${defaultScope}`
+              `memory-lancedb-pro: auto-captured ${stored} memories for agent ${agentId} in scope ${defaultScope}` +
+              (merged > 0 ? ` (${merged} merged into existing)` : "")
+            );
+          }
+          if (queued > 0) {
+            api.logger.warn(
+              `memory-lancedb-pro: embedding unavailable, queued ${queued} auto-captured memories for agent ${agentId}`
             );
           }
+          if (blocked > 0) {
+            api.logger.warn(`memory-lancedb-pro: did not capture ${blocked} messages with secrets for agent ${agentId}`);
+          }
         } catch (err) {
           api.logger.warn(`memory-lancedb-pro: capture failed: ${String(err)}`);
         }
@@ -521,7 +657,7 @@ const memoryLanceDBProPlugin = {
           const dateStr = now.toISOString().split("T")[0];
           const timeStr = now.toISOString().split("T")[1].split(".")[0];
 
-          const memoryText = [
+          const summaryText = [
             `Session: ${dateStr} ${timeStr} UTC`,
             `Session Key: ${event.sessionKey}`,
             `Session ID: ${currentSessionId || "unknown"}`,
@@ -531,23 +667,51 @@ const memoryLanceDBProPlugin = {
             sessionContent,
           ].join("\n");
 
+          const screened = await sensitiveData.scan(summaryText, { source: "session-memory", scope: "global" });
+          if (screened.action === "block") {
+            api.logger.warn(`session-memory: session summary for ${currentSessionId || "unknown"} not stored, it contains ${screened.blocked.join(", ")}`);
+            return;
+          }
+          const memoryText = screened.text;
+
+          const metadata = JSON.stringify({
+            type: "session-summary",
+            sessionKey: event.sessionKey,
+            sessionId: currentSessionId || "unknown",
+            date: dateStr,
+          });
+
           // Embed and store
-          const vector = await embedder.embedPassage(memoryText);
-          await store.store({
+          let vector: number[];
+          try {
+            vector = await embedder.embedPassage(memoryText);
+          } catch (err) {
+            pendingWrites.enqueue({
+              text: memoryText,
+              category: "fact",
+              scope: "global",
+              importance: 0.5,
+              metadata,
+              source: "session",
+            }, err);
+            api.logger.warn(`session-memory: embedding unavailable, queued session summary: ${String(err)}`);
+            return;
+          }
+
+          const result = await dedupe.write({
             text: memoryText,
             vector,
             category: "fact",
             scope: "global",
             importance: 0.5,
-            metadata: JSON.stringify({
-              type: "session-summary",
-              sessionKey: event.sessionKey,
-              sessionId: currentSessionId || "unknown",
-              date: dateStr,
-            }),
-          });
+            metadata,
+          }, { changedBy: "session-memory" });
 
-          api.logger.info(`session-memory: stored session summary for ${currentSessionId || "unknown"}`);
+          api.logger.info(
+            result.action === "created"
+              ? `session-memory: stored session summary for ${currentSessionId || "unknown"}`
+              : `session-memory: session summary for ${currentSessionId || "unknown"} ${result.action} (duplicate of ${result.entry.id.slice(0, 8)})`
+          );
         } catch (err) {
           api.logger.warn(`session-memory: failed to save: ${String(err)}`);
         }
@@ -557,47 +721,153 @@ const memoryLanceDBProPlugin = {
     }
 
     // ========================================================================
-    // Auto-Backup (daily JSONL export)
+    // Auto-Backup (scheduled NDJSON export, see src/backup.ts)
     // ========================================================================
 
     let backupTimer: ReturnType<typeof setInterval> | null = null;
-    const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+    let backupStartTimer: ReturnType<typeof setTimeout> | null = null;
 
     async function runBackup() {
       try {
-        const backupDir = api.resolvePath(join(resolvedDbPath, "..", "backups"));
-        await mkdir(backupDir, { recursive: true });
-
-        const allMemories = await store.list(undefined, undefined, 10000, 0);
-        if (allMemories.length === 0) return;
-
-        const dateStr = new Date().toISOString().split("T")[0];
-        const backupFile = join(backupDir, `memory-backup-${dateStr}.jsonl`);
-
-        const lines = allMemories.map(m => JSON.stringify({
-          id: m.id,
-          text: m.text,
-          category: m.category,
-          scope: m.scope,
-          importance: m.importance,
-          timestamp: m.timestamp,
-          metadata: m.metadata,
-        }));
-
-        await writeFile(backupFile, lines.join("\n") + "\n");
-
-        // Keep only last 7 backups
-        const files = (await readdir(backupDir)).filter(f => f.startsWith("memory-backup-") && f.endsWith(".jsonl")).sort();
-        if (files.length > 7) {
-          const { unlink } = await import("node:fs/promises");
-          for (const old of files.slice(0, files.length - 7)) {
-            await unlink(join(backupDir, old)).catch(() => {});
-          }
+        const { file, count, pruned } = await createBackup(store, backupConfig, embedder.getModelInfo(), cipher);
+        api.logger.info(
+          `memory-lancedb-pro: backup completed (${count} entries → ${file.path}` +
+          `${pruned.length > 0 ? `, removed ${pruned.length} old` : ""})`
+        );
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-pro: backup failed: ${String(err)}`);
+      }
+    }
+
+    // ========================================================================
+    // Trash Retention (purge soft-deleted memories)
+    // ========================================================================
+
+    let purgeTimer: ReturnType<typeof setInterval> | null = null;
+    const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+    async function runTrashPurge() {
+      if (trashRetentionDays <= 0) return;
+      try {
+        const cutoff = Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000;
+        const purged = await store.purgeDeleted(cutoff);
+        if (purged > 0) {
+          api.logger.info(`memory-lancedb-pro: purged ${purged} memories deleted more than ${trashRetentionDays} days ago`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-pro: trash purge failed: ${String(err)}`);
+      }
+    }
+
+    // ========================================================================
+    // Expiry (purge memories whose expiresAt has passed)
+    // ========================================================================
+
+    let expiryTimer: ReturnType<typeof setInterval> | null = null;
+    const EXPIRY_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+    async function runExpiryPurge() {
+      try {
+        const purged = await store.purgeExpired();
+        if (purged > 0) {
+          api.logger.info(`memory-lancedb-pro: purged ${purged} expired memories`);
         }
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-pro: expiry purge failed: ${String(err)}`);
+      }
+    }
+
+    // ========================================================================
+    // Pending Writes (memories queued while embedding was unavailable)
+    // ========================================================================
+
+    let drainTimer: ReturnType<typeof setInterval> | null = null;
+    let draining = false;
+    const DRAIN_INTERVAL_MS = 30 * 1000; // 30 seconds
 
-        api.logger.info(`memory-lancedb-pro: backup completed (${allMemories.length} entries → ${backupFile})`);
+    async function runDrain() {
+      if (draining || pendingWrites.count() === pendingWrites.parkedCount()) return;
+      draining = true;
+      try {
+        const result = await drainPendingWrites(pendingWrites, store, embedder, 50, dedupe);
+        if (result.stored > 0 || result.deduplicated > 0) {
+          api.logger.info(
+            `memory-lancedb-pro: stored ${result.stored} queued memories` +
+            `${result.deduplicated > 0 ? `, ${result.deduplicated} deduplicated` : ""} (${result.remaining} still pending)`
+          );
+        }
+        if (result.parked > 0) {
+          api.logger.warn(
+            `memory-lancedb-pro: parked ${result.parked} queued memories after ${pendingWrites.maxAttempts} failed attempts; they stay queued but are no longer retried`
+          );
+        }
       } catch (err) {
-        api.logger.warn(`memory-lancedb-pro: backup failed: ${String(err)}`);
+        api.logger.warn(`memory-lancedb-pro: draining pending writes failed: ${String(err)}`);
+      } finally {
+        draining = false;
+      }
+    }
+
+    // ========================================================================
+    // Embedding Failover Recovery
+    // ========================================================================
+
+    let reembedTimer: ReturnType<typeof setInterval> | null = null;
+    const REEMBED_INTERVAL_MS = 60 * 1000; // 1 minute
+
+    async function reembedFallbackPassages() {
+      try {
+        const result = await reembedFallbackVectors(pendingWrites, store, embedder);
+        if (result.reembedded > 0) {
+          api.logger.info(
+            `memory-lancedb-pro: re-embedded ${result.reembedded} fallback-embedded memories with the primary model` +
+            `${result.remaining > 0 ? ` (${result.remaining} remaining)` : ""}`
+          );
+        }
+        if (result.error) {
+          api.logger.warn(
+            `memory-lancedb-pro: re-embedding fallback passages stopped (${result.remaining} remaining): ${result.error}`
+          );
+        }
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-pro: re-embedding fallback passages failed: ${String(err)}`);
+      }
+    }
+
+    // ========================================================================
+    // Markdown Sync (import workspace notes as they change)
+    // ========================================================================
+
+    let markdownWatcher: MarkdownSyncWatcher | null = null;
+
+    async function startMarkdownWatcher() {
+      try {
+        const workspaces = config.markdownSync?.workspaces?.map(w => ({ agentId: w.agentId, path: api.resolvePath(w.path) }))
+          ?? await discoverAgentWorkspaces();
+        if (workspaces.length === 0) {
+          api.logger.warn("memory-lancedb-pro: markdown sync enabled but no agent workspaces found");
+          return;
+        }
+
+        markdownWatcher = createMarkdownSyncWatcher({ store, embedder, dedupe, sensitiveData }, {
+          workspaces,
+          prune: config.markdownSync?.prune === true,
+          debounceMs: config.markdownSync?.debounceMs,
+          onSynced: (report) => {
+            if (report.imported > 0 || report.updated > 0 || report.pruned > 0 || report.blocked > 0 || report.failures.length > 0) {
+              api.logger.info(
+                `memory-lancedb-pro: synced ${report.scope} from Markdown (${report.imported} new, ${report.updated} updated` +
+                `${report.pruned > 0 ? `, ${report.pruned} pruned` : ""}${report.blocked > 0 ? `, ${report.blocked} blocked` : ""}` +
+                `${report.failures.length > 0 ? `, ${report.failures.length} failed` : ""})`
+              );
+            }
+          },
+          onError: (workspace, err) => api.logger.warn(`memory-lancedb-pro: markdown sync of ${workspace.path} failed: ${String(err)}`),
+        });
+        markdownWatcher.start();
+        api.logger.info(`memory-lancedb-pro: watching Markdown notes of ${workspaces.map(w => w.agentId).join(", ")}`);
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-pro: markdown sync watcher failed to start: ${String(err)}`);
       }
     }
 
@@ -615,7 +885,9 @@ const memoryLanceDBProPlugin = {
 
           api.logger.info(
             `memory-lancedb-pro: initialized successfully ` +
-            `(embedding: ${embedTest.success ? 'OK' : 'FAIL'}, ` +
+            `(embedding: ${embedTest.success ? 'OK' : 'FAIL'} via ` +
+            `${embedTest.activeBackend.provider}/${embedTest.activeBackend.model}` +
+            `${embedTest.activeBackend.index > 0 ? ` [fallback #${embedTest.activeBackend.index}]` : ''}, ` +
             `retrieval: ${retrievalTest.success ? 'OK' : 'FAIL'}, ` +
             `mode: ${retrievalTest.mode}, ` +
             `FTS: ${retrievalTest.hasFtsSupport ? 'enabled' : 'disabled'})`
@@ -628,18 +900,77 @@ const memoryLanceDBProPlugin = {
             api.logger.warn(`memory-lancedb-pro: retrieval test failed: ${retrievalTest.error}`);
           }
 
-          // Run initial backup after a short delay, then schedule daily
-          setTimeout(() => runBackup(), 60_000); // 1 min after start
-          backupTimer = setInterval(() => runBackup(), BACKUP_INTERVAL_MS);
+          // Run initial backup after a short delay, then on the configured interval
+          if (backupConfig.enabled) {
+            backupStartTimer = setTimeout(() => runBackup(), 60_000); // 1 min after start
+            backupTimer = setInterval(() => runBackup(), backupConfig.intervalHours * 60 * 60 * 1000);
+          }
+
+          const pendingCount = pendingWrites.count();
+          if (pendingCount > 0) {
+            const parkedCount = pendingWrites.parkedCount();
+            api.logger.info(
+              `memory-lancedb-pro: ${pendingCount} memories pending embedding` +
+              `${parkedCount > 0 ? ` (${parkedCount} parked after repeated failures)` : ""}`
+            );
+          }
+          void runDrain();
+          drainTimer = setInterval(() => runDrain(), DRAIN_INTERVAL_MS);
+
+          if (trashRetentionDays > 0) {
+            void runTrashPurge();
+            purgeTimer = setInterval(() => runTrashPurge(), PURGE_INTERVAL_MS);
+          }
+
+          void runExpiryPurge();
+          expiryTimer = setInterval(() => runExpiryPurge(), EXPIRY_INTERVAL_MS);
+
+          if (config.embedding.fallbacks?.length) {
+            const reembedCount = pendingWrites.reembedCount();
+            if (reembedCount > 0) {
+              api.logger.info(`memory-lancedb-pro: ${reembedCount} fallback-embedded memories pending re-embedding`);
+            }
+            reembedTimer = setInterval(() => reembedFallbackPassages(), REEMBED_INTERVAL_MS);
+          }
+
+          if (config.markdownSync?.watch) {
+            await startMarkdownWatcher();
+          }
         } catch (error) {
           api.logger.warn(`memory-lancedb-pro: startup test failed: ${String(error)}`);
         }
       },
       stop: () => {
+        if (backupStartTimer) {
+          clearTimeout(backupStartTimer);
+          backupStartTimer = null;
+        }
         if (backupTimer) {
           clearInterval(backupTimer);
           backupTimer = null;
         }
+        if (reembedTimer) {
+          clearInterval(reembedTimer);
+          reembedTimer = null;
+        }
+        if (drainTimer) {
+          clearInterval(drainTimer);
+          drainTimer = null;
+        }
+        if (purgeTimer) {
+          clearInterval(purgeTimer);
+          purgeTimer = null;
+        }
+        if (expiryTimer) {
+          clearInterval(expiryTimer);
+          expiryTimer = null;
+        }
+        if (markdownWatcher) {
+          markdownWatcher.stop();
+          markdownWatcher = null;
+        }
+        void accessTracker.flush();
+        pendingWrites.close();
         api.logger.info("memory-lancedb-pro: stopped");
       },
     });
@@ -658,24 +989,45 @@ function parsePluginConfig(value: unknown): PluginConfig {
       throw new Error("embedding config is required");
     }
 
+    const provider = embedding.provider ?? "openai-compatible";
+    if (!isEmbeddingProviderName(provider)) {
+      throw new Error(`embedding.provider must be one of: ${EMBEDDING_PROVIDERS.join(", ")}`);
+    }
+
     const apiKey = typeof embedding.apiKey === "string"
       ? embedding.apiKey
-      : process.env.OPENAI_API_KEY || "";
-
-    if (!apiKey) {
-      throw new Error("embedding.apiKey is required (set directly or via OPENAI_API_KEY env var)");
+      : provider === "openai-compatible" ? process.env.OPENAI_API_KEY || "" : "";
+
+    if (!apiKey && providerRequiresApiKey(provider)) {
+      throw new Error(
+        provider === "openai-compatible"
+          ? "embedding.apiKey is required (set directly or via OPENAI_API_KEY env var)"
+          : `embedding.apiKey is required for provider '${provider}'`
+      );
     }
 
+    const fallbacks = Array.isArray(embedding.fallbacks)
+      ? embedding.fallbacks.map((fb, i) => parseEmbeddingFallback(fb, i))
+      : undefined;
+    const failover = embedding.failover as Record<string, unknown> | undefined;
+
     return {
       embedding: {
-        provider: "openai-compatible",
+        provider,
         apiKey,
-        model: typeof embedding.model === "string" ? embedding.model : "text-embedding-3-small",
+        model: typeof embedding.model === "string" ? embedding.model : getDefaultEmbeddingModel(provider),
         baseURL: typeof embedding.baseURL === "string" ? resolveEnvVars(embedding.baseURL) : undefined,
         dimensions: typeof embedding.dimensions === "number" ? embedding.dimensions : undefined,
         taskQuery: typeof embedding.taskQuery === "string" ? embedding.taskQuery : undefined,
         taskPassage: typeof embedding.taskPassage === "string" ? embedding.taskPassage : undefined,
         normalized: typeof embedding.normalized === "boolean" ? embedding.normalized : undefined,
+        fallbacks,
+        failover: typeof failover === "object" && failover !== null
+          ? {
+              failureThreshold: typeof failover.failureThreshold === "number" ? failover.failureThreshold : undefined,
+              cooldownMs: typeof failover.cooldownMs === "number" ? failover.cooldownMs : undefined,
+            }
+          : undefined,
       },
       dbPath: typeof cfg.dbPath === "string" ? cfg.dbPath : undefined,
       autoCapture: cfg.autoCapture !== false,
@@ -692,6 +1044,175 @@ function parsePluginConfig(value: unknown): PluginConfig {
               : undefined,
           }
         : undefined,
+      trash: typeof cfg.trash === "object" && cfg.trash !== null
+        ? {
+            retentionDays: typeof (cfg.trash as Record<string, unknown>).retentionDays === "number"
+              ? Math.max(0, (cfg.trash as Record<string, unknown>).retentionDays as number)
+              : undefined,
+          }
+        : undefined,
+      dedupe: typeof cfg.dedupe === "object" && cfg.dedupe !== null
+        ? parseDedupeConfig(cfg.dedupe as Record<string, unknown>)
+        : undefined,
+      supersession: typeof cfg.supersession === "object" && cfg.supersession !== null
+        ? parseSupersessionConfig(cfg.supersession as Record<string, unknown>)
+        : undefined,
+      backup: typeof cfg.backup === "object" && cfg.backup !== null
+        ? parseBackupConfig(cfg.backup as Record<string, unknown>)
+        : undefined,
+      markdownSync: typeof cfg.markdownSync === "object" && cfg.markdownSync !== null
+        ? parseMarkdownSyncConfig(cfg.markdownSync as Record<string, unknown>)
+        : undefined,
+      sensitiveData: typeof cfg.sensitiveData === "object" && cfg.sensitiveData !== null
+        ? parseSensitiveDataConfig(cfg.sensitiveData as Record<string, unknown>)
+        : undefined,
+      encryption: typeof cfg.encryption === "object" && cfg.encryption !== null
+        ? parseEncryptionConfig(cfg.encryption as Record<string, unknown>)
+        : undefined,
+    };
+}
+
+function parseDedupeConfig(dedupe: Record<string, unknown>): NonNullable<PluginConfig["dedupe"]> {
+    const threshold = dedupe.threshold;
+    if (threshold !== undefined && (typeof threshold !== "number" || threshold < 0 || threshold > 1)) {
+      throw new Error("dedupe.threshold must be a number between 0 and 1");
+    }
+    if (dedupe.onWrite !== undefined && dedupe.onWrite !== "skip" && dedupe.onWrite !== "merge") {
+      throw new Error('dedupe.onWrite must be "skip" or "merge"');
+    }
+
+    return {
+      enabled: dedupe.enabled !== false,
+      threshold: threshold as number | undefined,
+      onWrite: dedupe.onWrite as "skip" | "merge" | undefined,
+    };
+}
+
+function parseSupersessionConfig(supersession: Record<string, unknown>): NonNullable<PluginConfig["supersession"]> {
+    const threshold = supersession.threshold;
+    if (threshold !== undefined && (typeof threshold !== "number" || threshold < 0 || threshold > 1)) {
+      throw new Error("supersession.threshold must be a number between 0 and 1");
+    }
+
+    return {
+      enabled: supersession.enabled !== false,
+      threshold: threshold as number | undefined,
+      autoSupersede: supersession.autoSupersede === true,
+    };
+}
+
+function parseBackupConfig(backup: Record<string, unknown>): NonNullable<PluginConfig["backup"]> {
+    const intervalHours = backup.intervalHours;
+    if (intervalHours !== undefined && (typeof intervalHours !== "number" || intervalHours <= 0)) {
+      throw new Error("backup.intervalHours must be a positive number");
+    }
+    const retention = backup.retention;
+    if (retention !== undefined && (typeof retention !== "number" || !Number.isInteger(retention) || retention < 0)) {
+      throw new Error("backup.retention must be a non-negative integer");
+    }
+
+    return {
+      enabled: backup.enabled !== false,
+      intervalHours: intervalHours as number | undefined,
+      retention: retention as number | undefined,
+      includeVectors: typeof backup.includeVectors === "boolean" ? backup.includeVectors : undefined,
+      gzip: typeof backup.gzip === "boolean" ? backup.gzip : undefined,
+      dir: typeof backup.dir === "string" ? backup.dir : undefined,
+    };
+}
+
+function parseMarkdownSyncConfig(markdownSync: Record<string, unknown>): NonNullable<PluginConfig["markdownSync"]> {
+    const workspaces = markdownSync.workspaces;
+    if (workspaces !== undefined && !Array.isArray(workspaces)) {
+      throw new Error("markdownSync.workspaces must be an array");
+    }
+
+    return {
+      watch: markdownSync.watch === true,
+      workspaces: workspaces?.map((w, i) => {
+        if (!w || typeof w !== "object" || typeof w.agentId !== "string" || typeof w.path !== "string") {
+          throw new Error(`markdownSync.workspaces[${i}] must have string agentId and path`);
+        }
+        return { agentId: w.agentId, path: w.path };
+      }),
+      prune: markdownSync.prune === true,
+      debounceMs: typeof markdownSync.debounceMs === "number" ? Math.max(0, markdownSync.debounceMs) : undefined,
+    };
+}
+
+function parseSensitiveDataConfig(sensitiveData: Record<string, unknown>): NonNullable<PluginConfig["sensitiveData"]> {
+    const policy = sensitiveData.policy;
+    if (policy !== undefined && (typeof policy !== "object" || policy === null || Array.isArray(policy))) {
+      throw new Error("sensitiveData.policy must be an object");
+    }
+    for (const [key, action] of Object.entries(policy ?? {})) {
+      if (!isSensitiveClass(key)) {
+        throw new Error(`sensitiveData.policy: unknown class "${key}" (expected one of: ${SENSITIVE_CLASSES.join(", ")})`);
+      }
+      if (!isSensitiveAction(action)) {
+        throw new Error(`sensitiveData.policy.${key} must be one of: ${SENSITIVE_ACTIONS.join(", ")}`);
+      }
+    }
+    const entropyThreshold = sensitiveData.entropyThreshold;
+    if (entropyThreshold !== undefined && (typeof entropyThreshold !== "number" || entropyThreshold <= 0)) {
+      throw new Error("sensitiveData.entropyThreshold must be a positive number");
+    }
+
+    return {
+      enabled: sensitiveData.enabled !== false,
+      policy: policy as SensitiveDataOptions["policy"],
+      entropyThreshold: entropyThreshold as number | undefined,
+      minTokenLength: typeof sensitiveData.minTokenLength === "number" ? Math.max(8, sensitiveData.minTokenLength) : undefined,
+    };
+}
+
+function parseEncryptionConfig(encryption: Record<string, unknown>): NonNullable<PluginConfig["encryption"]> {
+    const enabled = encryption.enabled !== false;
+    const passphraseFile = typeof encryption.passphraseFile === "string" ? encryption.passphraseFile : undefined;
+    const passphrase = typeof encryption.passphrase === "string" ? encryption.passphrase : undefined;
+    if (passphrase !== undefined && !/^\$\{[^}]+\}$/.test(passphrase.trim())) {
+      throw new Error("encryption.passphrase must be a ${VAR} reference to an environment variable; put literal passphrases in a passphraseFile");
+    }
+    if (enabled && !passphraseFile && !passphrase) {
+      throw new Error("encryption needs passphraseFile or passphrase");
+    }
+    if (passphraseFile && passphrase) {
+      throw new Error("encryption: set either passphraseFile or passphrase, not both");
+    }
+
+    return {
+      enabled,
+      passphraseFile,
+      passphrase,
+      keyringPath: typeof encryption.keyringPath === "string" ? encryption.keyringPath : undefined,
+    };
+}
+
+function parseEmbeddingFallback(value: unknown, index: number): EmbeddingBackendOptions {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`embedding.fallbacks[${index}] must be an object`);
+    }
+    const fb = value as Record<string, unknown>;
+
+    const provider = fb.provider ?? "openai-compatible";
+    if (!isEmbeddingProviderName(provider)) {
+      throw new Error(`embedding.fallbacks[${index}].provider must be one of: ${EMBEDDING_PROVIDERS.join(", ")}`);
+    }
+
+    const apiKey = typeof fb.apiKey === "string" ? fb.apiKey : "";
+    if (!apiKey && providerRequiresApiKey(provider)) {
+      throw new Error(`embedding.fallbacks[${index}].apiKey is required for provider '${provider}'`);
+    }
+
+    return {
+      provider,
+      apiKey,
+      model: typeof fb.model === "string" ? fb.model : getDefaultEmbeddingModel(provider),
+      baseURL: typeof fb.baseURL === "string" ? resolveEnvVars(fb.baseURL) : undefined,
+      dimensions: typeof fb.dimensions === "number" ? fb.dimensions : undefined,
+      taskQuery: typeof fb.taskQuery === "string" ? fb.taskQuery : undefined,
+      taskPassage: typeof fb.taskPassage === "string" ? fb.taskPassage : undefined,
+      normalized: typeof fb.normalized === "boolean" ? fb.normalized : undefined,
     };
 }
 
@@ -4,6 +4,7 @@
  * 将所有 agent workspace 下的记忆文件导入到 LanceDB
  *
  * ⚠️ 警告：这是初始化导入脚本，会清空现有 LanceDB 中的所有数据！
+ * 增量同步（不清空数据库）请使用 `openclaw memory sync-md`。
  *
  * 数据源:
  * - /home/zhangcb/.openclaw/workspace/MEMORY.md (main 代理长期记忆)
@@ -21,6 +22,7 @@ import { readFile, readdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { MemoryStore, type MemoryEntry } from "../src/store.js";
 import { createEmbedder, getVectorDimensions } from "../src/embedder.js";
+import { parseDailyMemory, parseMemoryMd } from "../src/markdown-sync.js";
 
 // ============================================================================
 // Configuration
@@ -52,136 +54,6 @@ const EMBEDDING_CONFIG = {
     : undefined,
 };
 
-// ============================================================================
-// Memory Parser
-// ============================================================================
-
-/**
- * 解析 MEMORY.md 文件，提取结构化记忆条目
- */
-function parseMemoryMd(content: string, agentId: string): Array<{ text: string; category: "fact" | "decision" | "other"; importance: number }> {
-  const memories: Array<{ text: string; category: "fact" | "decision" | "other"; importance: number }> = [];
-
-  const lines = content.split("\n");
-  let currentSection = "";
-  let currentItem: string[] = [];
-
-  const flushItem = () => {
-    if (currentItem.length > 0) {
-      const text = currentItem.join("\n").trim();
-      if (text.length > 10) { // 忽略太短的内容
-        let category: "fact" | "decision" | "other" = "other";
-        let importance = 0.7;
-
-        // 根据内容判断 category
-        const lowerText = text.toLowerCase();
-        if (/rule|原则 | 规则 | best practice|最佳实践|must|必须 | 应该 | 不要 | avoid/i.test(lowerText)) {
-          category = "decision";
-          importance = 0.85;
-        } else if (/已完成 | completed|项目 | project|system|配置 | config|service/i.test(lowerText)) {
-          category = "fact";
-          importance = 0.8;
-        }
-
-        memories.push({
-          text: `[${agentId}] ${text}`,
-          category,
-          importance,
-        });
-      }
-      currentItem = [];
-    }
-  };
-
-  for (const line of lines) {
-    // 检测新的 section
-    if (line.startsWith("## ")) {
-      flushItem();
-      currentSection = line.slice(3).trim();
-      continue;
-    }
-
-    // 检测列表项
-    if (line.startsWith("- ") || line.match(/^\d+\.\s/)) {
-      flushItem();
-      currentItem.push(line.replace(/^[-*]\s*|^\d+\.\s*/, ""));
-      continue;
-    }
-
-    // 累积当前项的内容
-    if (currentItem.length > 0 && line.trim() && !line.startsWith("#")) {
-      currentItem.push(line.trim());
-    }
-  }
-
-  flushItem();
-
-  return memories;
-}
-
-/**
- * 解析日常记忆文件（日志格式）
- */
-function parseDailyMemory(content: string, agentId: string, filename: string): Array<{ text: string; category: "fact" | "decision" | "other"; importance: number }> {
-  const memories: Array<{ text: string; category: "fact" | "decision" | "other"; importance: number }> = [];
-
-  const lines = content.split("\n");
-  let currentSection: string[] = [];
-  let sectionTitle = "";
-
-  const flushSection = () => {
-    if (currentSection.length > 0) {
-      const text = currentSection.join("\n").trim();
-      if (text.length > 20) { // 忽略太短的内容
-        let category: "fact" | "decision" | "other" = "other";
-        let importance = 0.6;
-
-        const lowerText = text.toLowerCase();
-        if (/决定 | decided|结论 | conclusion|方案 | solution/i.test(lowerText)) {
-          category = "decision";
-          importance = 0.75;
-        } else if (/配置 | config|部署 | deploy|修复 | fix|创建 | create/i.test(lowerText)) {
-          category = "fact";
-          importance = 0.7;
-        }
-
-        memories.push({
-          text: `[${agentId}][${filename}] ${sectionTitle ? sectionTitle + ": " : ""}${text}`,
-          category,
-          importance,
-        });
-      }
-      currentSection = [];
-      sectionTitle = "";
-    }
-  };
-
-  for (const line of lines) {
-    // 检测三级标题（###）
-    if (line.startsWith("### ")) {
-      flushSection();
-      sectionTitle = line.slice(4).trim();
-      continue;
-    }
-
-    // 检测四级标题（####）
-    if (line.startsWith("#### ")) {
-      flushSection();
-      sectionTitle = line.slice(5).trim();
-      continue;
-    }
-
-    // 累积内容
-    if (line.trim() && !line.startsWith("#") && !line.startsWith("---")) {
-      currentSection.push(line.trim());
-    }
-  }
-
-  flushSection();
-
-  return memories;
-}
-
 // ============================================================================
 // Main Migration Logic
 // ============================================================================
@@ -274,7 +146,7 @@ async function importMemories(
     // 导入 MEMORY.md
     if (memoryMdPath) {
       const content = await readFile(memoryMdPath, "utf-8");
-      const memories = parseMemoryMd(content, agentId);
+      const memories = parseMemoryMd(content).map(item => ({ ...item, text: `[${agentId}] ${item.text}` }));
 
       console.log(`  MEMORY.md: ${memories.length} 条记忆`);
 
@@ -296,7 +168,8 @@ async function importMemories(
     for (const dailyPath of dailyMdPaths) {
       const filename = dailyPath.split("/").pop() || "";
       const content = await readFile(dailyPath, "utf-8");
-      const memories = parseDailyMemory(content, agentId, filename);
+      const memories = parseDailyMemory(content, `memory/${filename}`)
+        .map(item => ({ ...item, text: `[${agentId}][${filename}] ${item.text}` }));
 
       if (memories.length > 0) {
         console.log(`  ${filename}: ${memories.length} 条记忆`);
@@ -0,0 +1,95 @@
+/**
+ * Access Tracking
+ * Counts how often memories are returned by retrieval:
+ * - Hits are buffered in memory and written in batches, off the recall path
+ * - Flushed on a timer, when the buffer is full, and on shutdown
+ * - Feeds the reinforcement factor in the retriever's scoring pipeline
+ */
+
+import type { MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface AccessTrackerConfig {
+  /** Delay before buffered hits are written (default: 5000) */
+  flushIntervalMs: number;
+  /** Write immediately once this many memories have buffered hits (default: 200) */
+  maxBuffered: number;
+}
+
+export const DEFAULT_ACCESS_TRACKER_CONFIG: AccessTrackerConfig = {
+  flushIntervalMs: 5000,
+  maxBuffered: 200,
+};
+
+// ============================================================================
+// Access Tracker
+// ============================================================================
+
+export class AccessTracker {
+  private readonly config: AccessTrackerConfig;
+  private buffer = new Map<string, { count: number; lastAccessedAt: number }>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(private readonly store: MemoryStore, config: Partial<AccessTrackerConfig> = {}) {
+    this.config = {
+      flushIntervalMs: config.flushIntervalMs ?? DEFAULT_ACCESS_TRACKER_CONFIG.flushIntervalMs,
+      maxBuffered: config.maxBuffered ?? DEFAULT_ACCESS_TRACKER_CONFIG.maxBuffered,
+    };
+  }
+
+  /** Buffer one hit for each id. Never throws and never waits for the write. */
+  record(ids: string[]): void {
+    const now = Date.now();
+    for (const id of ids) {
+      const current = this.buffer.get(id);
+      this.buffer.set(id, { count: (current?.count ?? 0) + 1, lastAccessedAt: now });
+    }
+
+    if (this.buffer.size >= this.config.maxBuffered) {
+      void this.flush();
+    } else if (!this.timer && this.buffer.size > 0) {
+      this.timer = setTimeout(() => void this.flush(), this.config.flushIntervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  /** Write buffered hits now. Failed batches are dropped with a warning (counts are best-effort). */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (this.buffer.size === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = new Map();
+    this.flushing = this.store
+      .recordAccess(batch)
+      .catch(err => console.warn(`[AccessTracker] Failed to record access for ${batch.size} memories:`, err))
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+  }
+
+  get pendingCount(): number {
+    return this.buffer.size;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createAccessTracker(store: MemoryStore, config?: Partial<AccessTrackerConfig>): AccessTracker {
+  return new AccessTracker(store, config);
+}
@@ -0,0 +1,280 @@
+/**
+ * Backups
+ * Scheduled and on-demand snapshots of the memory table as export files:
+ * - Portable NDJSON (see portable.ts), optionally gzipped and with vectors
+ * - Written to a temp file and renamed, so a listed backup is always complete
+ * - Retention by count; older files are removed after each new backup
+ * - Verification against the file's own digest and against the live table
+ * - Sealed with the store's key when encryption is enabled (see encryption.ts)
+ */
+
+import { createHash } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { readdir, rename, stat, unlink, mkdir } from "node:fs/promises";
+import { finished } from "node:stream/promises";
+import { dirname, isAbsolute, join } from "node:path";
+import { createGzip } from "node:zlib";
+import type { MemoryStore } from "./store.js";
+import type { EmbeddingModelInfo } from "./embedder.js";
+import type { FieldCipher } from "./encryption.js";
+import { checkExportCipher, exportMemories, memoryHash, readExport, toExportedMemory, toImportedMemory } from "./portable.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface BackupConfig {
+  /** Run scheduled backups (default: true) */
+  enabled: boolean;
+  /** Hours between scheduled backups (default: 24) */
+  intervalHours: number;
+  /** Backups to keep; older ones are deleted (default: 7, 0 = keep all) */
+  retention: number;
+  /** Include vectors so a restore doesn't re-embed (default: true) */
+  includeVectors: boolean;
+  /** Gzip backup files (default: true) */
+  gzip: boolean;
+  /** Backup directory (default: `backups` next to the database directory) */
+  dir: string;
+}
+
+export const DEFAULT_BACKUP_CONFIG: Omit<BackupConfig, "dir"> = {
+  enabled: true,
+  intervalHours: 24,
+  retention: 7,
+  includeVectors: true,
+  gzip: true,
+};
+
+export interface BackupFile {
+  name: string;
+  path: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface BackupVerification {
+  file: string;
+  /** Memory lines in the file */
+  count: number;
+  /** Count from the footer; undefined when the file has none (cut off while writing or copying) */
+  footerCount?: number;
+  /** Whether the footer digest matches the memory lines; undefined when the file has no digest */
+  digestValid?: boolean;
+  /** Lines that aren't valid JSON or valid memories */
+  invalidLines: Array<{ line: number; error: string }>;
+  live: {
+    /** Same id, same content */
+    matching: number;
+    /** Same id, content changed since the backup */
+    changed: string[];
+    /** In the backup but no longer live (deleted, purged or expired since) */
+    missing: string[];
+    /** Live memories created after the backup */
+    added: number;
+  };
+}
+
+const BACKUP_PREFIX = "memory-backup-";
+const BACKUP_EXTENSIONS = [".ndjson", ".ndjson.gz", ".jsonl"];
+
+export function defaultBackupDir(dbPath: string): string {
+  return join(dirname(dbPath), "backups");
+}
+
+export function resolveBackupConfig(dbPath: string, config: Partial<BackupConfig> = {}): BackupConfig {
+  return {
+    enabled: config.enabled ?? DEFAULT_BACKUP_CONFIG.enabled,
+    intervalHours: config.intervalHours ?? DEFAULT_BACKUP_CONFIG.intervalHours,
+    retention: config.retention ?? DEFAULT_BACKUP_CONFIG.retention,
+    includeVectors: config.includeVectors ?? DEFAULT_BACKUP_CONFIG.includeVectors,
+    gzip: config.gzip ?? DEFAULT_BACKUP_CONFIG.gzip,
+    dir: config.dir || defaultBackupDir(dbPath),
+  };
+}
+
+// ============================================================================
+// Listing & Retention
+// ============================================================================
+
+function isBackupName(name: string): boolean {
+  return name.startsWith(BACKUP_PREFIX) && BACKUP_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+/** Backups in the directory, newest first */
+export async function listBackups(dir: string): Promise<BackupFile[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const files: BackupFile[] = [];
+  for (const name of names.filter(isBackupName)) {
+    const path = join(dir, name);
+    const info = await stat(path);
+    files.push({ name, path, size: info.size, createdAt: info.mtimeMs });
+  }
+  return files.sort((a, b) => b.createdAt - a.createdAt || b.name.localeCompare(a.name));
+}
+
+/** Delete all but the newest `retention` backups. Returns the deleted names. */
+export async function pruneBackups(dir: string, retention: number): Promise<string[]> {
+  if (retention <= 0) return [];
+
+  const deleted: string[] = [];
+  for (const file of (await listBackups(dir)).slice(retention)) {
+    await unlink(file.path).catch(() => {});
+    deleted.push(file.name);
+  }
+  return deleted;
+}
+
+/**
+ * Keys the backups in the directory are sealed with, from their headers.
+ * A retired key still in this set must stay in the keyring.
+ */
+export async function backupKeyIds(dir: string): Promise<Set<string>> {
+  const keyIds = new Set<string>();
+  for (const file of await listBackups(dir)) {
+    try {
+      for await (const { record } of readExport(file.path)) {
+        if (record?.type === "header" && typeof record.encryption?.keyId === "string") {
+          keyIds.add(record.encryption.keyId);
+        }
+        break;
+      }
+    } catch {
+      // Unreadable files hold no key worth keeping
+    }
+  }
+  return keyIds;
+}
+
+/** A path, or the name of a file in the backup directory */
+export function resolveBackupPath(dir: string, file: string): string {
+  return isAbsolute(file) || file.includes("/") ? file : join(dir, file);
+}
+
+// ============================================================================
+// Backup
+// ============================================================================
+
+/**
+ * Write a backup of every live memory, then apply retention. With a cipher,
+ * memory text and metadata are sealed under its active key.
+ */
+export async function createBackup(
+  store: MemoryStore,
+  config: BackupConfig,
+  embedding?: EmbeddingModelInfo | null,
+  cipher?: FieldCipher
+): Promise<{ file: BackupFile; count: number; pruned: string[] }> {
+  await mkdir(config.dir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const name = `${BACKUP_PREFIX}${stamp}${config.gzip ? ".ndjson.gz" : ".ndjson"}`;
+  const path = join(config.dir, name);
+  const tmpPath = `${path}.partial`;
+
+  const out = createWriteStream(tmpPath);
+  const gzip = config.gzip ? createGzip() : null;
+  const sink = gzip ?? out;
+  gzip?.pipe(out);
+
+  let count: number;
+  try {
+    count = await exportMemories(store, line => {
+      if (!sink.write(line + "\n")) {
+        return new Promise<void>(resolve => sink.once("drain", () => resolve()));
+      }
+    }, { includeVectors: config.includeVectors, embedding, cipher });
+    sink.end();
+    await finished(out);
+    await rename(tmpPath, path);
+  } catch (error) {
+    sink.destroy();
+    out.destroy();
+    await unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+
+  const info = await stat(path);
+  const pruned = await pruneBackups(config.dir, config.retention);
+  return { file: { name, path, size: info.size, createdAt: info.mtimeMs }, count, pruned };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Check a backup file: every line parses, the footer count and digest match
+ * the memory lines, and how its memories compare to the live table by id and
+ * content hash. An encrypted backup needs the cipher holding its key.
+ */
+export async function verifyBackup(path: string, store: MemoryStore, cipher?: FieldCipher): Promise<BackupVerification> {
+  const result: BackupVerification = {
+    file: path,
+    count: 0,
+    invalidLines: [],
+    live: { matching: 0, changed: [], missing: [], added: 0 },
+  };
+
+  const backupHashes = new Map<string, string>();
+  const digest = createHash("sha256");
+  let footerDigest: string | undefined;
+
+  for await (const { line, record, error } of readExport(path)) {
+    if (error) {
+      result.invalidLines.push({ line, error });
+      continue;
+    }
+    if (record?.type === "header") {
+      checkExportCipher(record, cipher);
+      continue;
+    }
+    if (record?.type === "footer") {
+      result.footerCount = record.count;
+      footerDigest = typeof record.sha256 === "string" ? record.sha256 : undefined;
+      continue;
+    }
+
+    try {
+      const memory = toImportedMemory(record, cipher);
+      const hash = memoryHash(memory);
+      digest.update(hash);
+      result.count++;
+      if (memory.id) backupHashes.set(memory.id, hash);
+    } catch (lineError) {
+      result.invalidLines.push({ line, error: lineError instanceof Error ? lineError.message : String(lineError) });
+    }
+  }
+  if (footerDigest !== undefined) {
+    result.digestValid = result.invalidLines.length === 0 && digest.digest("hex") === footerDigest;
+  }
+
+  const seen = new Set<string>();
+  for await (const entry of store.iterate()) {
+    const backupHash = backupHashes.get(entry.id);
+    if (backupHash === undefined) {
+      result.live.added++;
+      continue;
+    }
+    seen.add(entry.id);
+    if (backupHash === memoryHash(toExportedMemory(entry, false))) result.live.matching++;
+    else result.live.changed.push(entry.id);
+  }
+  result.live.missing = Array.from(backupHashes.keys()).filter(id => !seen.has(id));
+
+  return result;
+}
+
+/** Whether the file itself is intact (independent of later changes to the table) */
+export function isBackupIntact(verification: BackupVerification): boolean {
+  return verification.invalidLines.length === 0 &&
+    verification.footerCount === verification.count &&
+    verification.digestValid !== false;
+}
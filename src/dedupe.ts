@@ -0,0 +1,331 @@
+/**
+ * Near-Duplicate Detection & Merging
+ * - One dedupe policy shared by every write path (tool, auto-capture, import, queue drain)
+ * - Clustering of existing near-duplicates by vector similarity within a scope
+ * - Merge: newest text, max importance, union of metadata and tags, audit trail
+ * - New memories are checked for contradictions and can supersede older ones
+ */
+
+import type { MemoryEntry, MemorySearchResult, MemoryStore } from "./store.js";
+import type { ConflictCandidate, SupersessionManager } from "./supersession.js";
+import { normalizeTags } from "./tags.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface DedupePolicy {
+  /** Check new memories against existing ones before storing (default: true) */
+  enabled: boolean;
+  /** Vector similarity (0-1, as scored by vectorSearch) at or above which memories are duplicates (default: 0.95) */
+  threshold: number;
+  /** On write: "skip" keeps the existing memory, "merge" folds the new one into it (default: "skip") */
+  onWrite: "skip" | "merge";
+}
+
+export const DEFAULT_DEDUPE_POLICY: DedupePolicy = {
+  enabled: true,
+  threshold: 0.95,
+  onWrite: "skip",
+};
+
+/** A memory about to be written */
+export interface DedupeCandidate {
+  text: string;
+  vector: number[];
+  category: MemoryEntry["category"];
+  scope: string;
+  importance: number;
+  metadata?: string;
+  tags?: string[];
+  /** Expiry time in ms (0/absent = never) */
+  expiresAt?: number;
+  /** Preserve a pre-assigned id/timestamp (e.g. queued writes) */
+  id?: string;
+  timestamp?: number;
+}
+
+export interface DedupeWriteOptions {
+  /** Agent/tool recorded in version history when an existing memory changes */
+  changedBy?: string;
+  /** Ids of older memories the new one replaces */
+  supersedes?: string[];
+  /** Scopes the writer may modify (for `supersedes`) */
+  scopeFilter?: string[];
+}
+
+export interface DedupeWriteResult {
+  action: "created" | "skipped" | "merged";
+  /** The stored memory, or the existing one it duplicated */
+  entry: MemoryEntry;
+  /** Existing memory matched, for skipped/merged writes */
+  duplicateOf?: MemorySearchResult;
+  /** Memories the new one likely contradicts (created writes only) */
+  conflicts: ConflictCandidate[];
+  /** Ids marked as superseded by this write */
+  superseded: string[];
+}
+
+export interface DuplicateCluster {
+  scope: string;
+  /** Newest memory of the cluster; it survives the merge */
+  keeper: MemoryEntry;
+  /** Older near-duplicates, each with its best similarity inside the cluster */
+  duplicates: Array<{ entry: MemoryEntry; similarity: number }>;
+}
+
+export interface DedupeScanOptions {
+  scopeFilter?: string[];
+  /** Override the policy threshold for this scan */
+  threshold?: number;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function parseMetadataObject(metadata: string | undefined): Record<string, unknown> {
+  if (!metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Combine memories (oldest first) into the values of one memory: the newest
+ * text, vector and category, the highest importance, metadata keys from all of
+ * them (newer values win) and every tag. `mergedFrom` lists absorbed ids. The
+ * result expires only if all of them do, at the latest expiry.
+ */
+export function mergeMemoryValues(
+  entries: Array<Pick<MemoryEntry, "text" | "vector" | "category" | "importance" | "metadata" | "tags" | "expiresAt"> & { id?: string }>,
+  absorbedIds: string[] = []
+): { text: string; vector: number[]; category: MemoryEntry["category"]; importance: number; metadata: string; tags: string[]; expiresAt: number } {
+  const newest = entries[entries.length - 1];
+  const metadata: Record<string, unknown> = {};
+  const mergedFrom: string[] = [];
+
+  for (const entry of entries) {
+    const parsed = parseMetadataObject(entry.metadata);
+    mergedFrom.push(...stringArray(parsed.mergedFrom));
+    Object.assign(metadata, parsed);
+  }
+  for (const id of absorbedIds) {
+    if (!mergedFrom.includes(id)) mergedFrom.push(id);
+  }
+  if (mergedFrom.length > 0) {
+    metadata.mergedFrom = mergedFrom;
+    metadata.mergedAt = Date.now();
+  }
+
+  return {
+    text: newest.text,
+    vector: newest.vector,
+    category: newest.category,
+    importance: Math.max(...entries.map(e => e.importance)),
+    metadata: JSON.stringify(metadata),
+    tags: normalizeTags(entries.flatMap(e => e.tags ?? [])),
+    // 0 = never expires
+    expiresAt: entries.every(e => e.expiresAt) ? Math.max(...entries.map(e => e.expiresAt!)) : 0,
+  };
+}
+
+// ============================================================================
+// Deduplicator
+// ============================================================================
+
+export class MemoryDeduplicator {
+  readonly policy: DedupePolicy;
+
+  constructor(
+    private readonly store: MemoryStore,
+    policy: Partial<DedupePolicy> = {},
+    private readonly supersession?: SupersessionManager
+  ) {
+    this.policy = {
+      enabled: policy.enabled ?? DEFAULT_DEDUPE_POLICY.enabled,
+      threshold: policy.threshold ?? DEFAULT_DEDUPE_POLICY.threshold,
+      onWrite: policy.onWrite ?? DEFAULT_DEDUPE_POLICY.onWrite,
+    };
+  }
+
+  /** Closest existing memory in the scope at or above the threshold, if any. */
+  async findDuplicate(vector: number[], scope: string, threshold = this.policy.threshold): Promise<MemorySearchResult | null> {
+    // Raw vector similarity: importance/recency weighting would skew the comparison
+    const existing = await this.store.vectorSearch(vector, 1, 0.1, [scope]);
+    return existing.length > 0 && existing[0].score >= threshold ? existing[0] : null;
+  }
+
+  /**
+   * Store a memory unless the policy says it duplicates an existing one; in
+   * "merge" mode the existing memory takes the new text and merged values.
+   * New memories are checked for contradictions: they're listed in
+   * `metadata.conflictsWith` and, with autoSupersede, marked superseded.
+   */
+  async write(candidate: DedupeCandidate, options: DedupeWriteOptions = {}): Promise<DedupeWriteResult> {
+    const changedBy = options.changedBy ?? "dedupe";
+    const duplicate = this.policy.enabled
+      ? await this.findDuplicate(candidate.vector, candidate.scope)
+      : null;
+
+    if (duplicate && this.policy.onWrite === "merge") {
+      const merged = mergeMemoryValues([duplicate.entry, { ...candidate, metadata: candidate.metadata ?? "{}" }]);
+      const updated = await this.store.update(duplicate.entry.id, merged, undefined, { changedBy });
+      if (updated) {
+        const superseded = await this.supersede(options.supersedes ?? [], updated.id, options.scopeFilter);
+        return { action: "merged", entry: updated, duplicateOf: duplicate, conflicts: [], superseded };
+      }
+    } else if (duplicate) {
+      return { action: "skipped", entry: duplicate.entry, duplicateOf: duplicate, conflicts: [], superseded: [] };
+    }
+
+    const explicit = options.supersedes ?? [];
+    const conflicts = this.supersession
+      ? (await this.supersession.findConflicts(candidate)).filter(c => !explicit.includes(c.entry.id))
+      : [];
+    const autoSupersede = this.supersession?.config.autoSupersede ?? false;
+
+    let metadata = candidate.metadata;
+    if (conflicts.length > 0 && !autoSupersede) {
+      metadata = JSON.stringify({
+        ...parseMetadataObject(candidate.metadata),
+        conflictsWith: conflicts.map(c => c.entry.id),
+      });
+    }
+
+    const entry = candidate.id
+      ? await this.store.importEntry({
+          ...candidate,
+          id: candidate.id,
+          timestamp: candidate.timestamp ?? Date.now(),
+          metadata: metadata ?? "{}",
+        })
+      : await this.store.store({
+          text: candidate.text,
+          vector: candidate.vector,
+          category: candidate.category,
+          scope: candidate.scope,
+          importance: candidate.importance,
+          metadata,
+          tags: candidate.tags,
+          expiresAt: candidate.expiresAt,
+        });
+
+    const superseded = await this.supersede(
+      autoSupersede ? [...explicit, ...conflicts.map(c => c.entry.id)] : explicit,
+      entry.id,
+      options.scopeFilter
+    );
+
+    return { action: "created", entry, conflicts, superseded };
+  }
+
+  private async supersede(ids: string[], newId: string, scopeFilter?: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    if (this.supersession) {
+      return this.supersession.supersede(ids, newId, scopeFilter);
+    }
+    const marked: string[] = [];
+    for (const id of ids) {
+      if (await this.store.markSuperseded([id], newId, scopeFilter)) marked.push(id);
+    }
+    return marked;
+  }
+
+  /**
+   * Group existing near-duplicates per scope. Memories join a cluster when
+   * they are within the threshold of any member (single-link).
+   */
+  async findClusters(options: DedupeScanOptions = {}): Promise<{ scanned: number; clusters: DuplicateCluster[] }> {
+    const threshold = options.threshold ?? this.policy.threshold;
+    const entries = await this.store.listWithVectors(options.scopeFilter);
+    const byId = new Map(entries.map(e => [e.id, e]));
+
+    // Union-find over similar pairs
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+    const bestSimilarity = new Map<string, number>();
+
+    for (const entry of entries) parent.set(entry.id, entry.id);
+
+    for (const entry of entries) {
+      const neighbours = await this.store.vectorSearch(entry.vector, 20, threshold, [entry.scope]);
+      for (const { entry: other, score } of neighbours) {
+        if (other.id === entry.id || !byId.has(other.id) || other.scope !== entry.scope) continue;
+
+        parent.set(find(other.id), find(entry.id));
+        bestSimilarity.set(entry.id, Math.max(bestSimilarity.get(entry.id) ?? 0, score));
+        bestSimilarity.set(other.id, Math.max(bestSimilarity.get(other.id) ?? 0, score));
+      }
+    }
+
+    const groups = new Map<string, MemoryEntry[]>();
+    for (const entry of entries) {
+      const root = find(entry.id);
+      const group = groups.get(root) ?? [];
+      group.push(entry);
+      groups.set(root, group);
+    }
+
+    const clusters: DuplicateCluster[] = [];
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+      group.sort((a, b) => b.timestamp - a.timestamp);
+      const [keeper, ...rest] = group;
+      clusters.push({
+        scope: keeper.scope,
+        keeper,
+        duplicates: rest.map(entry => ({ entry, similarity: bestSimilarity.get(entry.id) ?? threshold })),
+      });
+    }
+
+    clusters.sort((a, b) => b.duplicates.length - a.duplicates.length);
+    return { scanned: entries.length, clusters };
+  }
+
+  /**
+   * Fold a cluster into its keeper and move the duplicates to the trash. The
+   * keeper's previous values stay in its version history and `mergedFrom`
+   * lists the absorbed ids, which remain restorable from the trash.
+   */
+  async mergeCluster(cluster: DuplicateCluster, changedBy = "dedupe"): Promise<MemoryEntry | null> {
+    const oldestFirst = [...cluster.duplicates.map(d => d.entry)].sort((a, b) => a.timestamp - b.timestamp);
+    const merged = mergeMemoryValues(
+      [...oldestFirst, cluster.keeper],
+      oldestFirst.map(e => e.id)
+    );
+
+    const updated = await this.store.update(cluster.keeper.id, merged, undefined, { changedBy });
+    if (!updated) return null;
+
+    for (const { entry } of cluster.duplicates) {
+      await this.store.delete(entry.id);
+    }
+
+    return updated;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createDeduplicator(
+  store: MemoryStore,
+  policy?: Partial<DedupePolicy>,
+  supersession?: SupersessionManager
+): MemoryDeduplicator {
+  return new MemoryDeduplicator(store, policy, supersession);
+}
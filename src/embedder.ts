@@ -3,20 +3,37 @@
  * - Environment variable whitelist for security
  * - Persistent LRU caching to reduce API calls
  * - Task-aware embeddings (query vs passage)
+ * - Pluggable providers (OpenAI-compatible, Ollama, Gemini, Cohere, local)
+ * - Fallback chain with circuit-breaker failover
  * - Performance monitoring
  */
 
-import OpenAI from 'openai';
 import { resolveEnvVars, validateEnvVars } from './env-resolver.js';
+import {
+  createEmbeddingProvider,
+  getDefaultEmbeddingModel,
+  isEmbeddingProviderName,
+  providerRequiresApiKey,
+  EMBEDDING_PROVIDERS,
+  type EmbeddingInputType,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from './embedding-providers.js';
+import {
+  EmbeddingFailoverChain,
+  type EmbeddingBackendStatus,
+  type FailoverConfig,
+} from './embedding-failover.js';
 import { getPersistentCache, PersistentEmbeddingCache } from './persistent-cache.js';
+import type { FieldCipher } from './encryption.js';
 import { getLogger } from './logger.js';
 
 // ============================================================================
 // Types & Configuration
 // ============================================================================
 
-export interface EmbeddingConfig {
-  provider: 'openai-compatible';
+export interface EmbeddingBackendConfig {
+  provider: EmbeddingProviderName;
   apiKey: string;
   model: string;
   baseURL?: string;
@@ -26,6 +43,23 @@ export interface EmbeddingConfig {
   normalized?: boolean;
 }
 
+export interface EmbeddingConfig extends EmbeddingBackendConfig {
+  /** Backends tried in order when the primary is unhealthy; must produce the same dimension */
+  fallbacks?: EmbeddingBackendConfig[];
+  failover?: Partial<FailoverConfig>;
+  /** Encrypts the persistent cache's text column (set when encryption at rest is enabled) */
+  cacheCipher?: FieldCipher;
+}
+
+/** Primary backend identity: vectors are only interchangeable when these match */
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions?: number;
+  taskPassage?: string;
+  normalized?: boolean;
+}
+
 interface CacheStats {
   size: number;
   hits: number;
@@ -46,15 +80,32 @@ const EMBEDDING_DIMENSIONS: Record<string, number> = {
   // Google Gemini
   'gemini-embedding-001': 3072,
 
+  // Cohere
+  'embed-english-v3.0': 1024,
+  'embed-multilingual-v3.0': 1024,
+  'embed-english-light-v3.0': 384,
+  'embed-multilingual-light-v3.0': 384,
+  'embed-v4.0': 1536,
+
   // Ollama / Local
   'nomic-embed-text': 768,
   'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'bge-m3': 1024,
+  'snowflake-arctic-embed': 1024,
 
   // BAAI
   'BAAI/bge-m3': 1024,
   'all-MiniLM-L6-v2': 384,
   'all-mpnet-base-v2': 768,
 
+  // transformers.js (local ONNX)
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/all-mpnet-base-v2': 768,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+  'Xenova/multilingual-e5-small': 384,
+
   // Jina v5 (recommended for this plugin)
   'jina-embeddings-v5-text-small': 1024,
   'jina-embeddings-v5-text-nano': 768,
@@ -64,12 +115,27 @@ const EMBEDDING_DIMENSIONS: Record<string, number> = {
 // Utility Functions
 // ============================================================================
 
-export function getVectorDimensions(model: string, overrideDims?: number): number {
+/**
+ * Normalize provider-specific model spellings to the lookup table keys:
+ * Gemini's "models/<name>" and Ollama's "<name>:<tag>".
+ */
+function normalizeModelName(model: string, provider?: EmbeddingProviderName): string {
+  let name = model;
+  if (provider === 'gemini') {
+    name = name.replace(/^models\//, '');
+  }
+  if (provider === 'ollama') {
+    name = name.replace(/:[\w.-]+$/, '');
+  }
+  return name;
+}
+
+export function getVectorDimensions(model: string, overrideDims?: number, provider?: EmbeddingProviderName): number {
   if (overrideDims && overrideDims > 0) {
     return overrideDims;
   }
 
-  const dims = EMBEDDING_DIMENSIONS[model];
+  const dims = EMBEDDING_DIMENSIONS[model] ?? EMBEDDING_DIMENSIONS[normalizeModelName(model, provider)];
   if (!dims) {
     throw new Error(
       `Unsupported embedding model: ${model}. Either add it to EMBEDDING_DIMENSIONS or set embedding.dimensions in config.`
@@ -84,24 +150,39 @@ export function getVectorDimensions(model: string, overrideDims?: number): numbe
 // ============================================================================
 
 export class Embedder {
-  private client: OpenAI;
+  private chain: EmbeddingFailoverChain;
+  private backendConfigs: EmbeddingBackendConfig[];
   private config: EmbeddingConfig;
   private cache: PersistentEmbeddingCache | null = null;
   private logger = getLogger();
   private cacheStats: { hits: number; misses: number } = { hits: 0, misses: 0 };
+  /** Passage vectors from a fallback with a different model; the store reports where they were written */
+  private fallbackVectors = new WeakSet<number[]>();
 
   constructor(config: EmbeddingConfig) {
     this.config = config;
+    this.backendConfigs = [config, ...(config.fallbacks || [])];
 
     // Security: Validate and resolve environment variables with whitelist
-    const apiKey = resolveEnvVars(config.apiKey, { strict: false });
-    const baseURL = config.baseURL ? resolveEnvVars(config.baseURL, { strict: false }) : undefined;
-
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: baseURL || undefined,
+    const providers: EmbeddingProvider[] = this.backendConfigs.map(backend => {
+      const apiKey = resolveEnvVars(backend.apiKey, { strict: false });
+      const baseURL = backend.baseURL ? resolveEnvVars(backend.baseURL, { strict: false }) : undefined;
+      return createEmbeddingProvider({
+        ...backend,
+        apiKey,
+        baseURL: baseURL || undefined,
+      });
     });
 
+    let expectedDim: number | undefined;
+    try {
+      expectedDim = getVectorDimensions(config.model, config.dimensions, config.provider);
+    } catch {
+      expectedDim = undefined; // Learned from the first successful response
+    }
+
+    this.chain = new EmbeddingFailoverChain(providers, config.failover, expectedDim);
+
     // Initialize persistent cache
     this.initializeCache();
   }
@@ -112,6 +193,7 @@ export class Embedder {
         maxSize: 5000,
         ttlMinutes: 60,
         persistToDisk: true,
+        cipher: this.config.cacheCipher,
       });
       const stats = this.cache.getStats();
       this.logger.info('Embedder', `Persistent cache initialized with ${stats.size} entries`);
@@ -129,8 +211,7 @@ export class Embedder {
     const timerId = this.logger.perfStart('Embedder', 'embedQuery');
 
     try {
-      const task = this.config.taskQuery;
-      const vector = await this.getEmbedding(text, task);
+      const vector = await this.getEmbedding(text, 'query');
 
       const duration = this.logger.perfEnd(timerId);
       this.logger.debug('Embedder', `Query embedded in ${duration.toFixed(2)}ms`, {
@@ -150,8 +231,7 @@ export class Embedder {
     const timerId = this.logger.perfStart('Embedder', 'embedPassage');
 
     try {
-      const task = this.config.taskPassage;
-      const vector = await this.getEmbedding(text, task);
+      const vector = await this.getEmbedding(text, 'passage');
 
       const duration = this.logger.perfEnd(timerId);
       this.logger.debug('Embedder', `Passage embedded in ${duration.toFixed(2)}ms`, {
@@ -171,8 +251,23 @@ export class Embedder {
   // Cache-Aware Embedding Retrieval
   // ============================================================================
 
-  private async getEmbedding(text: string, task?: string): Promise<number[]> {
-    const cacheKey = `${task || ''}:${text}`;
+  /**
+   * Cache namespace for a given input type. Includes provider and model so
+   * vectors from different embedding spaces never mix.
+   */
+  private cacheTask(inputType: EmbeddingInputType, backendIndex = 0): string {
+    const backend = this.backendConfigs[backendIndex];
+    const task = inputType === 'query' ? backend.taskQuery : backend.taskPassage;
+    return `${backend.provider}/${backend.model}:${task || inputType}`;
+  }
+
+  /** Whether a backend's vectors live in a different space than the primary's */
+  private isDegradedBackend(backendIndex: number): boolean {
+    return this.backendConfigs[backendIndex].model !== this.backendConfigs[0].model;
+  }
+
+  private async getEmbedding(text: string, inputType: EmbeddingInputType): Promise<number[]> {
+    const task = this.cacheTask(inputType, this.chain.activeIndex());
 
     // Try cache first
     if (this.cache) {
@@ -180,6 +275,9 @@ export class Embedder {
       if (cachedVector) {
         this.cacheStats.hits++;
         this.logger.debug('Embedder', 'Cache hit', { textLength: text.length, task });
+        if (inputType === 'passage' && this.isDegradedBackend(this.chain.activeIndex())) {
+          this.fallbackVectors.add(cachedVector);
+        }
         return cachedVector;
       }
       this.cacheStats.misses++;
@@ -189,43 +287,23 @@ export class Embedder {
     const timerId = this.logger.perfStart('Embedder', 'api-call');
 
     try {
-      // Build request with provider-specific parameters
-      const request: any = {
-        model: this.config.model,
-        input: text,
-        encoding_format: 'float',  // Explicitly request float encoding for correct dimensions
-      };
-
-      // Add dimensions if specified (important for models that support variable dimensions)
-      if (this.config.dimensions && this.config.dimensions > 0) {
-        request.dimensions = this.config.dimensions;
-      }
-
-      // Add task type for providers that support it (e.g., Jina v5)
-      if (task && this.config.model.includes('jina')) {
-        request.task = task;
-      }
-
-      // Add normalized flag for providers that support it
-      if (this.config.normalized && this.config.model.includes('jina')) {
-        request.normalized = this.config.normalized;
-      }
-
-      const response = await this.client.embeddings.create(request);
+      const { vectors: [vector], backendIndex } = await this.chain.embed([text], inputType);
       const duration = this.logger.perfEnd(timerId);
 
-      if (!response.data || response.data.length === 0) {
-        throw new Error('Empty embedding response from API');
-      }
-
-      const vector = response.data[0].embedding;
-
       // Store in cache
       if (this.cache) {
-        this.cache.set(text, task, vector);
+        this.cache.set(text, this.cacheTask(inputType, backendIndex), vector);
+      }
+
+      if (backendIndex > 0) {
+        this.logger.warn('Embedder', `Primary embedding backend unavailable, served by fallback #${backendIndex}`);
+        if (inputType === 'passage' && this.isDegradedBackend(backendIndex)) {
+          this.fallbackVectors.add(vector);
+        }
       }
 
       this.logger.debug('Embedder', 'API call successful', {
+        provider: this.chain.backend(backendIndex).name,
         duration: duration.toFixed(2),
         vectorDim: vector.length,
         cached: false
@@ -278,43 +356,26 @@ export class Embedder {
     const timerId = this.logger.perfStart('Embedder', 'embedBatchPassage');
 
     try {
-      const task = this.config.taskPassage;
       const vectors: number[][] = [];
       const batchSize = 32; // OpenAI API supports up to 2048 batch, but be conservative
 
       for (let i = 0; i < texts.length; i += batchSize) {
         const batch = texts.slice(i, i + batchSize);
+        const { vectors: batchVectors, backendIndex } = await this.chain.embed(batch, 'passage');
+        const task = this.cacheTask('passage', backendIndex);
+        const degraded = this.isDegradedBackend(backendIndex);
 
-        // Build request with provider-specific parameters
-        const request: any = {
-          model: this.config.model,
-          input: batch,
-        };
-
-        // Add task type for providers that support it (e.g., Jina v5)
-        if (task && this.config.model.includes('jina')) {
-          request.task = task;
-        }
-
-        // Add normalized flag for providers that support it
-        if (this.config.normalized && this.config.model.includes('jina')) {
-          request.normalized = this.config.normalized;
-        }
-
-        const response = await this.client.embeddings.create(request);
-
-        if (!response.data || response.data.length === 0) {
-          throw new Error('Empty embedding response from API');
-        }
-
-        for (let j = 0; j < response.data.length; j++) {
-          const vector = response.data[j].embedding;
+        for (let j = 0; j < batchVectors.length; j++) {
+          const vector = batchVectors[j];
           vectors.push(vector);
 
           // Cache each result
           if (this.cache) {
             this.cache.set(batch[j], task, vector);
           }
+          if (degraded) {
+            this.fallbackVectors.add(vector);
+          }
         }
       }
 
@@ -329,6 +390,60 @@ export class Embedder {
     }
   }
 
+  // ============================================================================
+  // Failover Recovery
+  // ============================================================================
+
+  getBackendStatus(): EmbeddingBackendStatus[] {
+    return this.chain.getStatus();
+  }
+
+  isPrimaryAvailable(): boolean {
+    return this.chain.isPrimaryAvailable();
+  }
+
+  /**
+   * Whether a vector returned by embedPassage()/embedBatchPassage() came from
+   * a fallback with a different model, i.e. lives in a different space than
+   * the primary's and should be re-embedded once the primary recovers.
+   */
+  isFallbackVector(vector: unknown): boolean {
+    return Array.isArray(vector) && this.fallbackVectors.has(vector);
+  }
+
+  /**
+   * Embed a passage with the primary backend only, never failing over. Used
+   * to replace vectors that were written through a fallback model.
+   */
+  async embedPassageWithPrimary(text: string): Promise<number[]> {
+    const [vector] = await this.chain.embedWith(0, [text], 'passage');
+    if (this.cache) {
+      this.cache.set(text, this.cacheTask('passage'), vector);
+    }
+    return vector;
+  }
+
+  // ============================================================================
+  // Model Identity
+  // ============================================================================
+
+  getModelInfo(): EmbeddingModelInfo {
+    let dimensions: number | undefined;
+    try {
+      dimensions = getVectorDimensions(this.config.model, this.config.dimensions, this.config.provider);
+    } catch {
+      dimensions = undefined;
+    }
+
+    return {
+      provider: this.config.provider,
+      model: this.config.model,
+      dimensions,
+      taskPassage: this.config.taskPassage,
+      normalized: this.config.normalized,
+    };
+  }
+
   // ============================================================================
   // Lifecycle
   // ============================================================================
@@ -348,22 +463,29 @@ export class Embedder {
   async test(): Promise<{
     success: boolean;
     error?: string;
+    provider: string;
     model: string;
+    activeBackend: { index: number; provider: string; model: string };
+    backends: EmbeddingBackendStatus[];
   }> {
+    let error: string | undefined;
     try {
       // Test with a simple embedding call
       await this.embedQuery('test');
-      return {
-        success: true,
-        model: this.config.model,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        model: this.config.model,
-      };
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
     }
+
+    const activeIndex = this.chain.activeIndex();
+    const active = this.chain.backend(activeIndex);
+    return {
+      success: error === undefined,
+      ...(error !== undefined ? { error } : {}),
+      provider: this.config.provider,
+      model: this.config.model,
+      activeBackend: { index: activeIndex, provider: active.name, model: active.model },
+      backends: this.chain.getStatus(),
+    };
   }
 }
 
@@ -371,14 +493,72 @@ export class Embedder {
 // Factory Function
 // ============================================================================
 
+function assertSameDimensions(
+  primaryModel: string,
+  primary: EmbeddingBackendConfig,
+  fallback: EmbeddingBackendConfig,
+  index: number
+): void {
+  let primaryDim: number;
+  let fallbackDim: number;
+  try {
+    primaryDim = getVectorDimensions(primaryModel, primary.dimensions, primary.provider);
+    fallbackDim = getVectorDimensions(fallback.model, fallback.dimensions, fallback.provider);
+  } catch {
+    return; // Unknown model: checked against the first real response instead
+  }
+
+  if (primaryDim !== fallbackDim) {
+    throw new Error(
+      `embedding.fallbacks[${index}] (${fallback.model}) produces ${fallbackDim} dimensions, primary (${primaryModel}) produces ${primaryDim}. All backends must share one dimension.`
+    );
+  }
+}
+
 export async function createEmbedder(config: EmbeddingConfig): Promise<Embedder> {
   // Validate configuration
+  if (!isEmbeddingProviderName(config.provider)) {
+    throw new Error(`Unsupported embedding provider: ${String(config.provider)}. Available: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+
+  if (providerRequiresApiKey(config.provider) && !config.apiKey) {
+    throw new Error(`embedding.apiKey is required for provider '${config.provider}'`);
+  }
+
   const validation = validateEnvVars(config.apiKey);
   if (!validation.valid) {
     throw new Error(`Invalid environment variable references in apiKey: ${validation.invalid.join(', ')}`);
   }
 
-  const embedder = new Embedder(config);
+  const model = config.model || getDefaultEmbeddingModel(config.provider);
+  const fallbacks = (config.fallbacks || []).map((fallback, i) => {
+    if (!isEmbeddingProviderName(fallback.provider)) {
+      throw new Error(`Unsupported embedding provider in fallbacks[${i}]: ${String(fallback.provider)}`);
+    }
+    if (providerRequiresApiKey(fallback.provider) && !fallback.apiKey) {
+      throw new Error(`embedding.fallbacks[${i}].apiKey is required for provider '${fallback.provider}'`);
+    }
+    const fallbackValidation = validateEnvVars(fallback.apiKey || '');
+    if (!fallbackValidation.valid) {
+      throw new Error(`Invalid environment variable references in fallbacks[${i}].apiKey: ${fallbackValidation.invalid.join(', ')}`);
+    }
+
+    // Fallbacks inherit the primary's dimensions so matryoshka models can match it
+    const resolved: EmbeddingBackendConfig = {
+      ...fallback,
+      apiKey: fallback.apiKey || '',
+      model: fallback.model || getDefaultEmbeddingModel(fallback.provider),
+      dimensions: fallback.dimensions ?? config.dimensions,
+    };
+    assertSameDimensions(model, config, resolved, i);
+    return resolved;
+  });
+
+  const embedder = new Embedder({
+    ...config,
+    model,
+    fallbacks,
+  });
 
   // Pre-warm cache with common queries (optional optimization)
   // await embedder.warmupCache();
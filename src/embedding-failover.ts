@@ -0,0 +1,203 @@
+/**
+ * Embedding Failover Chain
+ * - Ordered list of embedding backends sharing one vector dimension
+ * - Per-backend circuit breaker (closed → open → half-open)
+ * - Automatic failover to the next healthy backend
+ */
+
+import type { EmbeddingInputType, EmbeddingProvider } from './embedding-providers.js';
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface FailoverConfig {
+  /** Consecutive failures before a backend's circuit opens (default: 3) */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before a half-open probe (default: 30s) */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EmbeddingBackendStatus {
+  index: number;
+  provider: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+export const DEFAULT_FAILOVER_CONFIG: FailoverConfig = {
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+};
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+
+  constructor(private readonly config: FailoverConfig) {}
+
+  get state(): CircuitState {
+    if (this.failures < this.config.failureThreshold) return 'closed';
+    return Date.now() - this.openedAt >= this.config.cooldownMs ? 'half-open' : 'open';
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /** Whether a call may be attempted now. Half-open admits a single probe. */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probing = false;
+    this.lastSuccessAt = Date.now();
+  }
+
+  recordFailure(error: unknown): void {
+    this.failures++;
+    this.probing = false;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = Date.now();
+    if (this.failures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ============================================================================
+// Failover Chain
+// ============================================================================
+
+export class EmbeddingFailoverChain {
+  private breakers: CircuitBreaker[];
+  private expectedDim: number | undefined;
+
+  constructor(
+    private readonly backends: EmbeddingProvider[],
+    config: Partial<FailoverConfig> = {},
+    expectedDim?: number
+  ) {
+    if (backends.length === 0) {
+      throw new Error('Embedding failover chain requires at least one backend');
+    }
+    const merged = { ...DEFAULT_FAILOVER_CONFIG, ...config };
+    this.breakers = backends.map(() => new CircuitBreaker(merged));
+    this.expectedDim = expectedDim;
+  }
+
+  get primary(): EmbeddingProvider {
+    return this.backends[0];
+  }
+
+  backend(index: number): EmbeddingProvider {
+    return this.backends[index];
+  }
+
+  /** First backend whose circuit isn't open — the one the next call will try first. */
+  activeIndex(): number {
+    const idx = this.breakers.findIndex(b => b.state !== 'open');
+    return idx === -1 ? 0 : idx;
+  }
+
+  isPrimaryAvailable(): boolean {
+    return this.breakers[0].state !== 'open';
+  }
+
+  /**
+   * Embed with the first healthy backend, failing over down the chain.
+   * When every circuit is open, the primary is tried anyway rather than
+   * failing without a single attempt.
+   */
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<{ vectors: number[][]; backendIndex: number }> {
+    const errors: string[] = [];
+    let attempted = false;
+
+    for (let i = 0; i < this.backends.length; i++) {
+      if (!this.breakers[i].tryAcquire()) continue;
+      attempted = true;
+
+      try {
+        const vectors = await this.embedWith(i, texts, inputType);
+        return { vectors, backendIndex: i };
+      } catch (error) {
+        errors.push(`${this.describe(i)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (!attempted) {
+      const vectors = await this.embedWith(0, texts, inputType);
+      return { vectors, backendIndex: 0 };
+    }
+
+    throw new Error(`All embedding backends failed: ${errors.join('; ')}`);
+  }
+
+  /** Call one specific backend, updating its circuit breaker. */
+  async embedWith(index: number, texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const breaker = this.breakers[index];
+
+    try {
+      const vectors = await this.backends[index].embed(texts, inputType);
+      this.checkDimensions(index, vectors);
+      breaker.recordSuccess();
+      return vectors;
+    } catch (error) {
+      breaker.recordFailure(error);
+      throw error;
+    }
+  }
+
+  getStatus(): EmbeddingBackendStatus[] {
+    return this.backends.map((backend, index) => {
+      const breaker = this.breakers[index];
+      return {
+        index,
+        provider: backend.name,
+        model: backend.model,
+        state: breaker.state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        lastError: breaker.lastError,
+        lastFailureAt: breaker.lastFailureAt,
+        lastSuccessAt: breaker.lastSuccessAt,
+      };
+    });
+  }
+
+  private describe(index: number): string {
+    const backend = this.backends[index];
+    return `${backend.name}/${backend.model}`;
+  }
+
+  private checkDimensions(index: number, vectors: number[][]): void {
+    for (const vector of vectors) {
+      if (this.expectedDim === undefined) {
+        this.expectedDim = vector.length;
+      } else if (vector.length !== this.expectedDim) {
+        throw new Error(
+          `Embedding backend ${this.describe(index)} returned ${vector.length} dimensions, expected ${this.expectedDim}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Embedding Providers
+ * Native adapters behind a common interface:
+ * - openai-compatible: OpenAI SDK (OpenAI, Jina, LiteLLM, vLLM, Ollama /v1, ...)
+ * - ollama: Ollama native /api/embed
+ * - gemini: Google Generative Language batchEmbedContents
+ * - cohere: Cohere v2 embed with input_type
+ * - local: in-process ONNX model via transformers.js (no network)
+ */
+
+import OpenAI from 'openai';
+import type { EmbeddingBackendConfig } from './embedder.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmbeddingProviderName = 'openai-compatible' | 'ollama' | 'gemini' | 'cohere' | 'local';
+
+/** Whether the text is a search query or a stored passage/document */
+export type EmbeddingInputType = 'query' | 'passage';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /** Embed a batch of texts; returns one vector per text, in order */
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+export const EMBEDDING_PROVIDERS: readonly EmbeddingProviderName[] = [
+  'openai-compatible',
+  'ollama',
+  'gemini',
+  'cohere',
+  'local',
+];
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  'openai-compatible': 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  gemini: 'gemini-embedding-001',
+  cohere: 'embed-multilingual-v3.0',
+  local: 'Xenova/all-MiniLM-L6-v2',
+};
+
+/** Providers that can run without an API key (local servers / in-process) */
+const KEYLESS_PROVIDERS = new Set<EmbeddingProviderName>(['ollama', 'local']);
+
+export function getDefaultEmbeddingModel(provider: EmbeddingProviderName = 'openai-compatible'): string {
+  return DEFAULT_MODELS[provider] ?? DEFAULT_MODELS['openai-compatible'];
+}
+
+export function providerRequiresApiKey(provider: EmbeddingProviderName = 'openai-compatible'): boolean {
+  return !KEYLESS_PROVIDERS.has(provider);
+}
+
+export function isEmbeddingProviderName(value: unknown): value is EmbeddingProviderName {
+  return typeof value === 'string' && (EMBEDDING_PROVIDERS as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** `data[key]` when the response body is an object */
+function responseField(data: unknown, key: string): unknown {
+  return isRecord(data) ? data[key] : undefined;
+}
+
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(x => typeof x === 'number');
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, provider: string): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${provider} embedding API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  return response.json() as Promise<unknown>;
+}
+
+function assertVectorCount(vectors: unknown, expected: number, provider: string): number[][] {
+  if (!Array.isArray(vectors) || vectors.length !== expected) {
+    throw new Error(`Empty or incomplete embedding response from ${provider} (expected ${expected} vectors)`);
+  }
+  if (!vectors.every(isVector)) {
+    throw new Error(`Malformed embedding response from ${provider} (vectors must be arrays of numbers)`);
+  }
+  return vectors;
+}
+
+// ============================================================================
+// OpenAI-Compatible Provider
+// ============================================================================
+
+class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(private readonly config: EmbeddingBackendConfig) {
+    this.model = config.model;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL || undefined,
+    });
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const task = inputType === 'query' ? this.config.taskQuery : this.config.taskPassage;
+
+    // Build request with provider-specific parameters
+    const request: OpenAI.EmbeddingCreateParams & { task?: string; normalized?: boolean } = {
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',  // Explicitly request float encoding for correct dimensions
+    };
+
+    // Add dimensions if specified (important for models that support variable dimensions)
+    if (this.config.dimensions && this.config.dimensions > 0) {
+      request.dimensions = this.config.dimensions;
+    }
+
+    // Add task type for providers that support it (e.g., Jina v5)
+    if (task && this.model.includes('jina')) {
+      request.task = task;
+    }
+
+    // Add normalized flag for providers that support it
+    if (this.config.normalized && this.model.includes('jina')) {
+      request.normalized = this.config.normalized;
+    }
+
+    const response = await this.client.embeddings.create(request);
+    if (!response.data || response.data.length === 0) {
+      throw new Error('Empty embedding response from API');
+    }
+
+    // Some gateways don't preserve input order; sort by index when present
+    const ordered = [...response.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return assertVectorCount(ordered.map(d => d.embedding), texts.length, this.name);
+  }
+}
+
+// ============================================================================
+// Ollama Provider (native /api/embed)
+// ============================================================================
+
+class OllamaProvider implements EmbeddingProvider {
+  readonly name = 'ollama' as const;
+  readonly model: string;
+  private endpoint: string;
+
+  constructor(private readonly config: EmbeddingBackendConfig) {
+    this.model = config.model;
+    // Accept both http://host:11434 and the OpenAI-style http://host:11434/v1
+    const base = trimTrailingSlash(config.baseURL || 'http://localhost:11434').replace(/\/v1$/, '');
+    this.endpoint = `${base}/api/embed`;
+  }
+
+  async embed(texts: string[], _inputType: EmbeddingInputType): Promise<number[][]> {
+    const body: Record<string, unknown> = { model: this.model, input: texts };
+    if (this.config.dimensions && this.config.dimensions > 0) {
+      body.dimensions = this.config.dimensions;
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey && this.config.apiKey !== 'ollama') {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    // { embeddings: number[][] }
+    const data = await postJson(this.endpoint, headers, body, this.name);
+    return assertVectorCount(responseField(data, 'embeddings'), texts.length, this.name);
+  }
+}
+
+// ============================================================================
+// Gemini Provider (batchEmbedContents)
+// ============================================================================
+
+class GeminiProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private baseURL: string;
+
+  constructor(private readonly config: EmbeddingBackendConfig) {
+    this.model = config.model.replace(/^models\//, '');
+    // The OpenAI-compat base URL (.../v1beta/openai/) is a common copy-paste; strip it
+    this.baseURL = trimTrailingSlash(config.baseURL || 'https://generativelanguage.googleapis.com/v1beta')
+      .replace(/\/openai$/, '');
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const taskType = inputType === 'query'
+      ? (this.config.taskQuery || 'RETRIEVAL_QUERY')
+      : (this.config.taskPassage || 'RETRIEVAL_DOCUMENT');
+
+    const requests = texts.map(text => ({
+      model: `models/${this.model}`,
+      content: { parts: [{ text }] },
+      taskType,
+      ...(this.config.dimensions && this.config.dimensions > 0
+        ? { outputDimensionality: this.config.dimensions }
+        : {}),
+    }));
+
+    const data = await postJson(
+      `${this.baseURL}/models/${this.model}:batchEmbedContents`,
+      { 'x-goog-api-key': this.config.apiKey },
+      { requests },
+      this.name
+    );
+
+    // { embeddings: [{ values: number[] }] }
+    const embeddings = responseField(data, 'embeddings');
+    const vectors = Array.isArray(embeddings) ? embeddings.map(e => responseField(e, 'values')) : undefined;
+    return assertVectorCount(vectors, texts.length, this.name);
+  }
+}
+
+// ============================================================================
+// Cohere Provider (v2 embed)
+// ============================================================================
+
+class CohereProvider implements EmbeddingProvider {
+  readonly name = 'cohere' as const;
+  readonly model: string;
+  private endpoint: string;
+
+  constructor(private readonly config: EmbeddingBackendConfig) {
+    this.model = config.model;
+    this.endpoint = `${trimTrailingSlash(config.baseURL || 'https://api.cohere.com/v2')}/embed`;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const body: Record<string, unknown> = {
+      model: this.model,
+      texts,
+      input_type: inputType === 'query'
+        ? (this.config.taskQuery || 'search_query')
+        : (this.config.taskPassage || 'search_document'),
+      embedding_types: ['float'],
+    };
+    if (this.config.dimensions && this.config.dimensions > 0) {
+      body.output_dimension = this.config.dimensions;
+    }
+
+    const data = await postJson(this.endpoint, { 'Authorization': `Bearer ${this.config.apiKey}` }, body, this.name);
+    // v2 returns { embeddings: { float: [...] } }; v1-compatible gateways return a bare array
+    const embeddings = responseField(data, 'embeddings');
+    const vectors = Array.isArray(embeddings) ? embeddings : responseField(embeddings, 'float');
+    return assertVectorCount(vectors, texts.length, this.name);
+  }
+}
+
+// ============================================================================
+// Local Provider (transformers.js / ONNX, in-process)
+// ============================================================================
+
+// Optional dependency: resolved at runtime so the plugin works without it installed
+const TRANSFORMERS_MODULE = '@huggingface/transformers';
+
+/** The part of transformers.js used here: a mean-pooled feature-extraction pipeline */
+interface FeatureExtractor {
+  (texts: string[], options: { pooling: 'mean'; normalize: boolean }): Promise<{ tolist(): unknown }>;
+}
+
+interface TransformersModule {
+  pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+}
+
+class LocalProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  private extractorPromise: Promise<FeatureExtractor> | null = null;
+
+  constructor(private readonly config: EmbeddingBackendConfig) {
+    this.model = config.model;
+  }
+
+  private loadExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractorPromise) {
+      this.extractorPromise = (async () => {
+        let transformers: TransformersModule;
+        try {
+          transformers = await import(TRANSFORMERS_MODULE) as TransformersModule;
+        } catch (err) {
+          throw new Error(
+            `memory-lancedb-pro: local embeddings require the optional '${TRANSFORMERS_MODULE}' package. ${String(err)}`,
+            { cause: err }
+          );
+        }
+        return transformers.pipeline('feature-extraction', this.model);
+      })().catch((err) => {
+        this.extractorPromise = null;
+        throw err;
+      });
+    }
+    return this.extractorPromise;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const extractor = await this.loadExtractor();
+
+    // Models like e5/bge expect instruction prefixes; taskQuery/taskPassage are used verbatim
+    const prefix = (inputType === 'query' ? this.config.taskQuery : this.config.taskPassage) || '';
+    const output = await extractor(texts.map(t => prefix + t), { pooling: 'mean', normalize: true });
+
+    return assertVectorCount(output.tolist(), texts.length, this.name);
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createEmbeddingProvider(config: EmbeddingBackendConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'cohere':
+      return new CohereProvider(config);
+    case 'local':
+      return new LocalProvider(config);
+    default:
+      throw new Error(
+        `Unsupported embedding provider: ${String(config.provider)}. Available: ${EMBEDDING_PROVIDERS.join(', ')}`
+      );
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Encryption at Rest
+ * Optional envelope encryption of memory text and metadata:
+ * - AES-256-GCM data keys, wrapped by a key derived from a passphrase (scrypt)
+ * - Keyring file in the database directory: KDF salt, wrapped keys, active key id
+ * - Values are tagged `enc:v1:<keyId>:…`, so rows written before encryption still read
+ * - Keyed hashes (HMAC) for exact-text lookups and a hashed word index, since
+ *   full-text search can't look inside ciphertext
+ * - Rekeying rotates the data key and/or rewraps the keyring under a new passphrase
+ *
+ * The passphrase comes from a file or from an allowed environment variable
+ * (see env-resolver.ts); the plugin config never holds it directly.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, scrypt } from "node:crypto";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { resolveEnvVar } from "./env-resolver.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface EncryptionConfig {
+  /** Encrypt memory text and metadata (default: false) */
+  enabled: boolean;
+  /** File holding the passphrase (trailing newline ignored) */
+  passphraseFile?: string;
+  /** `${VAR}` reference to an allowed environment variable holding the passphrase */
+  passphrase?: string;
+  /** Keyring file (default: `keyring.json` in the database directory) */
+  keyringPath: string;
+}
+
+export interface PassphraseSource {
+  passphraseFile?: string;
+  passphrase?: string;
+}
+
+export interface KeyInfo {
+  id: string;
+  createdAt: number;
+  /** When a newer key replaced it; 0 = active */
+  retiredAt: number;
+  active: boolean;
+}
+
+interface KeyringKey {
+  id: string;
+  /** base64(iv | tag | data key encrypted under the passphrase key) */
+  wrapped: string;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+interface KeyringFile {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  activeKeyId: string;
+  keys: KeyringKey[];
+}
+
+export const ENCRYPTED_PREFIX = "enc:v1:";
+
+const KEYRING_FILE_NAME = "keyring.json";
+const MIN_PASSPHRASE_LENGTH = 12;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+/** Hex chars kept per hashed word (48 bits) */
+const TOKEN_HASH_LENGTH = 12;
+/** Distinct words indexed per memory */
+const MAX_INDEXED_TOKENS = 512;
+
+export function defaultKeyringPath(dbPath: string): string {
+  return join(dbPath, KEYRING_FILE_NAME);
+}
+
+export function resolveEncryptionConfig(
+  dbPath: string,
+  config: Partial<EncryptionConfig> = {}
+): EncryptionConfig {
+  return {
+    enabled: config.enabled ?? false,
+    passphraseFile: config.passphraseFile || undefined,
+    passphrase: config.passphrase || undefined,
+    keyringPath: config.keyringPath || defaultKeyringPath(dbPath),
+  };
+}
+
+// ============================================================================
+// Passphrases
+// ============================================================================
+
+/**
+ * Read the passphrase from its file, or from the environment variable a
+ * `${VAR}` reference names. Literal passphrases in the config are refused.
+ */
+export async function resolvePassphrase(source: PassphraseSource): Promise<string> {
+  let passphrase: string;
+
+  if (source.passphraseFile) {
+    const info = await stat(source.passphraseFile);
+    if ((info.mode & 0o077) !== 0) {
+      console.warn(`memory-lancedb-pro: passphrase file ${source.passphraseFile} is readable by other users (chmod 600 it)`);
+    }
+    passphrase = (await readFile(source.passphraseFile, "utf8")).replace(/\r?\n$/, "");
+  } else if (source.passphrase) {
+    const match = /^\$\{([^}]+)\}$/.exec(source.passphrase.trim());
+    if (!match) {
+      throw new Error("encryption.passphrase must be a ${VAR} reference (e.g. ${OPENCLAW_MEMORY_PRO_PASSPHRASE}); put literal passphrases in a passphraseFile");
+    }
+    const result = resolveEnvVar(match[1].trim(), { strict: true, silent: true });
+    if (!result.resolved) {
+      throw new Error(`Environment variable ${match[1].trim()} is not set`);
+    }
+    passphrase = result.value;
+  } else {
+    throw new Error("Encryption needs a passphrase source: set encryption.passphraseFile or encryption.passphrase");
+  }
+
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Encryption passphrase is too short (minimum ${MIN_PASSPHRASE_LENGTH} characters)`);
+  }
+  return passphrase;
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+function deriveKey(passphrase: string, kdf: KeyringFile["kdf"]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      Buffer.from(kdf.salt, "base64"),
+      32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+/** Throws when the key is wrong or the data was altered (GCM authentication) */
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  if (raw.length < IV_BYTES + TAG_BYTES) {
+    throw new Error("malformed ciphertext");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** Id of the key an encrypted value was written with (undefined for plaintext) */
+export function encryptedKeyId(value: unknown): string | undefined {
+  if (!isEncryptedValue(value)) return undefined;
+  const end = value.indexOf(":", ENCRYPTED_PREFIX.length);
+  return end > 0 ? value.slice(ENCRYPTED_PREFIX.length, end) : undefined;
+}
+
+/** Han, kana (with the prolonged sound mark) and Hangul */
+const CJK_CHAR = String.raw`\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u30FC`;
+const CJK_RUN_PATTERN = new RegExp(`^[${CJK_CHAR}]`, "u");
+const INDEX_RUN_PATTERN = new RegExp(`[${CJK_CHAR}]+|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}])+`, "gu");
+
+/**
+ * Words of a text as the hashed index sees them: NFKC, lowercased, split on
+ * anything but letters and digits. CJK runs have no spaces, so they're
+ * indexed as overlapping character pairs.
+ */
+export function indexTokens(text: string): string[] {
+  const tokens = new Set<string>();
+  const runs = text.normalize("NFKC").toLowerCase().match(INDEX_RUN_PATTERN) ?? [];
+
+  for (const run of runs) {
+    if (CJK_RUN_PATTERN.test(run)) {
+      const chars = Array.from(run);
+      if (chars.length === 1) tokens.add(run);
+      for (let i = 0; i + 1 < chars.length; i++) tokens.add(chars[i] + chars[i + 1]);
+    } else if (run.length >= 2) {
+      tokens.add(run);
+    }
+    if (tokens.size >= MAX_INDEXED_TOKENS) break;
+  }
+
+  return Array.from(tokens).slice(0, MAX_INDEXED_TOKENS);
+}
+
+// ============================================================================
+// Field Cipher
+// ============================================================================
+
+/**
+ * Encrypts column values with the active data key and decrypts values written
+ * with any key in the keyring. Plaintext values pass through `decrypt`, so
+ * tables can hold a mix while they're being encrypted.
+ */
+export class FieldCipher {
+  private readonly indexKey: Buffer;
+
+  constructor(private readonly keys: Map<string, Buffer>, readonly activeKeyId: string) {
+    const active = keys.get(activeKeyId);
+    if (!active) {
+      throw new Error(`Active key ${activeKeyId} is missing from the keyring`);
+    }
+    this.indexKey = Buffer.from(hkdfSync("sha256", active, Buffer.alloc(0), "openclaw-memory-pro blind index", 32));
+  }
+
+  encrypt(plaintext: string): string {
+    const key = this.keys.get(this.activeKeyId)!;
+    return `${ENCRYPTED_PREFIX}${this.activeKeyId}:${seal(key, Buffer.from(plaintext, "utf8"), this.activeKeyId)}`;
+  }
+
+  decrypt(value: string): string {
+    if (!isEncryptedValue(value)) return value;
+
+    const keyId = encryptedKeyId(value);
+    const key = keyId ? this.keys.get(keyId) : undefined;
+    if (!keyId || !key) {
+      throw new Error(`Cannot decrypt: key ${keyId ?? "?"} is not in the keyring (pruned, or the keyring belongs to another database)`);
+    }
+    try {
+      return open(key, value.slice(ENCRYPTED_PREFIX.length + keyId.length + 1), keyId).toString("utf8");
+    } catch (err) {
+      throw new Error(`Cannot decrypt value written with key ${keyId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /** Whether a value is ciphertext under the active key (as opposed to plaintext or a retired key) */
+  isCurrent(value: unknown): boolean {
+    return encryptedKeyId(value) === this.activeKeyId;
+  }
+
+  /** Keyed hash of a value (hex); equal inputs give equal digests under the same active key */
+  digest(value: string, length = 32): string {
+    return createHmac("sha256", this.indexKey).update(value, "utf8").digest("hex").slice(0, length);
+  }
+
+  /** Keyed hash of a whole text, for exact-match lookups */
+  textHash(text: string): string {
+    return this.digest(`text:${text}`);
+  }
+
+  /** Keyed hashes of the words of a text (see indexTokens) */
+  tokenHashes(text: string): string[] {
+    return indexTokens(text).map(token => this.digest(`token:${token}`, TOKEN_HASH_LENGTH));
+  }
+
+  /** Word index column value: space-delimited on both ends so `LIKE '% h %'` matches whole hashes */
+  tokenIndex(text: string): string {
+    const hashes = this.tokenHashes(text);
+    return hashes.length > 0 ? ` ${hashes.join(" ")} ` : "";
+  }
+}
+
+// ============================================================================
+// Keyring
+// ============================================================================
+
+/** The unwrapped keyring of one database. Changes are written by save(). */
+export class Keyring {
+  private constructor(
+    readonly path: string,
+    private file: KeyringFile,
+    private kek: Buffer,
+    private readonly keys: Map<string, Buffer>
+  ) {}
+
+  /** Open the keyring at `path`, creating it with a fresh data key when `create` is set and it doesn't exist. */
+  static async open(path: string, passphrase: string, options: { create?: boolean } = {}): Promise<Keyring> {
+    let raw: string | undefined;
+    try {
+      raw = await readFile(path, "utf8");
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+
+    if (raw === undefined) {
+      if (!options.create) {
+        throw new Error(`No encryption keyring at ${path}`);
+      }
+      const kdf = { name: "scrypt" as const, salt: randomBytes(16).toString("base64"), ...SCRYPT_PARAMS };
+      const keyring = new Keyring(path, { version: 1, kdf, activeKeyId: "", keys: [] }, await deriveKey(passphrase, kdf), new Map());
+      keyring.addKey();
+      await keyring.save();
+      return keyring;
+    }
+
+    let file: KeyringFile;
+    try {
+      file = JSON.parse(raw);
+    } catch {
+      throw new Error(`Encryption keyring ${path} is not valid JSON`);
+    }
+    if (file?.version !== 1 || !Array.isArray(file.keys) || !file.kdf?.salt) {
+      throw new Error(`Encryption keyring ${path} has an unsupported format`);
+    }
+
+    const kek = await deriveKey(passphrase, file.kdf);
+    const keys = new Map<string, Buffer>();
+    for (const entry of file.keys) {
+      try {
+        keys.set(entry.id, open(kek, entry.wrapped, entry.id));
+      } catch {
+        throw new Error(`Wrong passphrase for encryption keyring ${path}`);
+      }
+    }
+
+    return new Keyring(path, file, kek, keys);
+  }
+
+  get activeKeyId(): string {
+    return this.file.activeKeyId;
+  }
+
+  cipher(): FieldCipher {
+    return new FieldCipher(new Map(this.keys), this.file.activeKeyId);
+  }
+
+  listKeys(): KeyInfo[] {
+    return this.file.keys.map(key => ({
+      id: key.id,
+      createdAt: key.createdAt,
+      retiredAt: key.retiredAt ?? 0,
+      active: key.id === this.file.activeKeyId,
+    }));
+  }
+
+  /** Generate a new data key and make it active. The previous key is kept (retired) to read older values. */
+  addKey(): string {
+    let id: string;
+    do {
+      id = randomBytes(4).toString("hex");
+    } while (this.keys.has(id));
+
+    const key = randomBytes(32);
+    const now = Date.now();
+    for (const entry of this.file.keys) {
+      if (!entry.retiredAt) entry.retiredAt = now;
+    }
+    this.file.keys.push({ id, wrapped: seal(this.kek, key, id), createdAt: now });
+    this.keys.set(id, key);
+    this.file.activeKeyId = id;
+    return id;
+  }
+
+  /** Wrap every data key under a new passphrase (fresh salt). Values stay as they are. */
+  async rewrap(passphrase: string): Promise<void> {
+    const kdf = { name: "scrypt" as const, salt: randomBytes(16).toString("base64"), ...SCRYPT_PARAMS };
+    this.kek = await deriveKey(passphrase, kdf);
+    this.file = {
+      ...this.file,
+      kdf,
+      keys: this.file.keys.map(entry => ({ ...entry, wrapped: seal(this.kek, this.keys.get(entry.id)!, entry.id) })),
+    };
+  }
+
+  /** Drop retired keys not in `inUse`. Returns the dropped ids. */
+  prune(inUse: Set<string>): string[] {
+    const dropped = this.file.keys
+      .filter(entry => entry.id !== this.file.activeKeyId && !inUse.has(entry.id))
+      .map(entry => entry.id);
+    this.file.keys = this.file.keys.filter(entry => !dropped.includes(entry.id));
+    for (const id of dropped) this.keys.delete(id);
+    return dropped;
+  }
+
+  /** Write to a temp file and rename, so a crash never leaves a half-written keyring */
+  async save(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(this.file, null, 2) + "\n", { mode: 0o600 });
+    await rename(tmpPath, this.path);
+  }
+}
+
+/** Cipher for a database with encryption enabled; the keyring is created on first use. */
+export async function createFieldCipher(config: EncryptionConfig): Promise<FieldCipher> {
+  const passphrase = await resolvePassphrase(config);
+  const keyring = await Keyring.open(config.keyringPath, passphrase, { create: true });
+  return keyring.cipher();
+}
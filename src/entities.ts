@@ -0,0 +1,207 @@
+/**
+ * Entity Index
+ * People, projects, tools and contacts mentioned in memories:
+ * - Heuristic extraction at store time (proper names, "is called", @handles, emails, phones, `code` names)
+ * - Normalized keys plus aliases ("Robert (aka Bob)"), so either name finds the entity
+ * - Profiles: every memory mentioning an entity, grouped by category, oldest first
+ */
+
+import type { MemoryEntry, MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export type EntityKind = "name" | "handle" | "email" | "phone" | "code";
+
+export interface EntityMention {
+  /** Normalized lookup key, e.g. "project atlas" */
+  key: string;
+  /** Name as written in the memory */
+  name: string;
+  kind: EntityKind;
+  /** Normalized keys of other names for the same entity */
+  aliases: string[];
+}
+
+export interface EntityProfile {
+  key: string;
+  /** Most frequent spelling */
+  name: string;
+  /** Other names the entity is known by (normalized) */
+  aliases: string[];
+  kinds: EntityKind[];
+  total: number;
+  firstSeen: number;
+  lastSeen: number;
+  /** Mentioning memories per category, oldest first */
+  categories: Partial<Record<MemoryEntry["category"], MemoryEntry[]>>;
+}
+
+export const MAX_ENTITIES_PER_MEMORY = 20;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/** `"The Atlas Project's"` → `"atlas project"`. Phone numbers keep only `+` and digits. */
+export function normalizeEntityName(name: string): string {
+  const trimmed = name.normalize("NFKC").trim();
+  if (/^\+?[\d\s()-]{8,}$/.test(trimmed)) {
+    return trimmed.replace(/[^\d+]/g, "");
+  }
+
+  return trimmed
+    .toLowerCase()
+    .replace(/^@/, "")
+    .replace(/^(the|a|an)\s+/, "")
+    .replace(/['’]s$/, "")
+    .replace(/[.,;:!?]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /\+\d[\d\s-]{8,}\d/g;
+const HANDLE_PATTERN = /(?<![\w.@])@([A-Za-z0-9_][\w-]{1,38})/g;
+const CODE_PATTERN = /`([^`\s]{2,40})`/g;
+
+// A capitalized word; dots only inside it ("Node.js"), never sentence-final
+const CAPITALIZED = String.raw`\p{Lu}(?:[\p{L}\p{N}'’&-]|\.(?=[\p{L}\p{N}]))*`;
+const PROPER_NAME_PATTERN = new RegExp(`${CAPITALIZED}(?:\\s+${CAPITALIZED}){0,3}`, "gu");
+const NAMED_PATTERN = new RegExp(
+  `\\b(?:is called|are called|called|named|my name is|goes by|jmenuje se)\\s+(${CAPITALIZED}(?:\\s+${CAPITALIZED}){0,3})`,
+  "gu"
+);
+const CJK_NAMED_PATTERN = /(?:叫我|我叫|名字是|称呼我?为?)\s*([\p{Script=Han}]{2,4}|[A-Za-z][\w-]*)/gu;
+const ALIAS_PATTERN = new RegExp(
+  `(${CAPITALIZED}(?:\\s+${CAPITALIZED}){0,3})\\s*(?:\\(|,)?\\s*(?:aka|a\\.k\\.a\\.|also known as|also called)\\s+([\\p{L}\\p{N}][\\p{L}\\p{N}'’-]*(?:\\s+\\p{Lu}[\\p{L}\\p{N}'’-]*){0,3})`,
+  "gu"
+);
+
+/** Capitalized words that start sentences or are otherwise not names */
+const NOT_NAMES = new Set([
+  "i", "i'm", "i've", "i'd", "i'll", "the", "a", "an", "we", "my", "our", "your", "his", "her", "their", "this", "that",
+  "these", "those", "it", "it's", "he", "she", "they", "you", "use", "always", "never", "don't", "do", "does", "please",
+  "when", "if", "then", "after", "before", "user", "users", "remember", "note", "also", "but", "and", "or", "so",
+  "yes", "no", "today", "tomorrow", "yesterday", "prefer", "prefers", "decided", "we've", "there", "here", "what",
+  "why", "how", "who", "where", "which", "not", "all", "some", "any", "each", "every", "for", "from", "with", "in",
+  "on", "at", "to", "by", "as", "is", "are", "was", "were", "be", "ok", "okay",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december",
+]);
+
+/** Drop leading/trailing non-name words: "The Atlas Project" → "Atlas Project", "Then" → "" */
+function trimNonNames(name: string): string {
+  const words = name.split(/\s+/);
+  while (words.length > 0 && NOT_NAMES.has(words[0].toLowerCase())) words.shift();
+  while (words.length > 0 && NOT_NAMES.has(words[words.length - 1].toLowerCase())) words.pop();
+  return words.join(" ").replace(/[.,;:!?'’]+$/, "");
+}
+
+/**
+ * Entities mentioned in a memory text. Heuristic: favours recall of names,
+ * contacts and tools over precision, since a profile is reviewed by a person
+ * or agent anyway.
+ */
+export function extractEntities(text: string): EntityMention[] {
+  const mentions = new Map<string, EntityMention>();
+
+  const add = (name: string, kind: EntityKind, aliases: string[] = []) => {
+    const key = normalizeEntityName(name);
+    if (key.length < 2 || NOT_NAMES.has(key)) return;
+
+    const aliasKeys = aliases.map(normalizeEntityName).filter(a => a.length >= 2 && a !== key);
+    const existing = mentions.get(key);
+    if (existing) {
+      for (const alias of aliasKeys) {
+        if (!existing.aliases.includes(alias)) existing.aliases.push(alias);
+      }
+      return;
+    }
+    if (mentions.size < MAX_ENTITIES_PER_MEMORY) {
+      mentions.set(key, { key, name: name.trim(), kind, aliases: aliasKeys });
+    }
+  };
+
+  // Contacts first; remove them so their parts aren't picked up as names or handles
+  let rest = text.replace(EMAIL_PATTERN, (email) => {
+    add(email, "email");
+    return " ";
+  });
+  rest = rest.replace(PHONE_PATTERN, (phone) => {
+    add(phone, "phone");
+    return " ";
+  });
+
+  for (const match of rest.matchAll(ALIAS_PATTERN)) {
+    const name = trimNonNames(match[1]);
+    const alias = trimNonNames(match[2]);
+    if (name && alias) {
+      add(name, "name", [alias]);
+      add(alias, "name", [name]);
+    }
+  }
+
+  for (const match of rest.matchAll(NAMED_PATTERN)) {
+    const name = trimNonNames(match[1]);
+    if (name) add(name, "name");
+  }
+  for (const match of rest.matchAll(CJK_NAMED_PATTERN)) {
+    add(match[1], "name");
+  }
+  for (const match of rest.matchAll(HANDLE_PATTERN)) {
+    add(match[1], "handle");
+  }
+  for (const match of rest.matchAll(CODE_PATTERN)) {
+    add(match[1], "code");
+  }
+  for (const match of rest.replace(CODE_PATTERN, " ").matchAll(PROPER_NAME_PATTERN)) {
+    const name = trimNonNames(match[0]);
+    if (name) add(name, "name");
+  }
+
+  return Array.from(mentions.values());
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/**
+ * Everything the store knows about an entity, looked up by name or alias.
+ * Returns null when no accessible memory mentions it.
+ */
+export async function buildEntityProfile(
+  store: MemoryStore,
+  name: string,
+  scopeFilter?: string[]
+): Promise<EntityProfile | null> {
+  const index = await store.findEntity(name, scopeFilter);
+  if (!index) return null;
+
+  const entries = (await store.getByIds(index.memoryIds, scopeFilter))
+    .map(entry => ({ ...entry, vector: [] }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (entries.length === 0) return null;
+
+  const categories: EntityProfile["categories"] = {};
+  for (const entry of entries) {
+    (categories[entry.category] ??= []).push(entry);
+  }
+
+  return {
+    key: index.key,
+    name: index.name,
+    aliases: index.aliases,
+    kinds: index.kinds,
+    total: entries.length,
+    firstSeen: entries[0].timestamp,
+    lastSeen: entries[entries.length - 1].timestamp,
+    categories,
+  };
+}
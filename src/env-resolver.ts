@@ -32,6 +32,7 @@ export const ALLOWED_ENV_VARS = [
   // Plugin configuration
   'OPENCLAW_MEMORY_PRO_DEBUG',
   'OPENCLAW_MEMORY_PRO_LOG_LEVEL',
+  'OPENCLAW_MEMORY_PRO_PASSPHRASE',
 ];
 
 /**
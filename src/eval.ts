@@ -0,0 +1,374 @@
+/**
+ * Retrieval Evaluation
+ * Measures how well retrieval settings find the memories a query should return:
+ * - Labeled queries (JSONL) with expected memory ids and/or text matches
+ * - recall@k, MRR and nDCG@k for several config variants side by side
+ * - Deterministic offline runs: a hashing embedder for fixture stores, or recorded query vectors
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type { MemoryEntry, MemoryStore } from "./store.js";
+import { createRetriever, DEFAULT_RETRIEVAL_CONFIG, type QueryEmbedder, type RetrievalConfig } from "./retriever.js";
+import { parseTags } from "./tags.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvalCase {
+  query: string;
+  /** Memory ids (full or 8+ char prefixes) that should be returned */
+  expectedIds: string[];
+  /** Case-insensitive substrings; a result containing one counts as relevant */
+  expectedText: string[];
+  scopes?: string[];
+}
+
+export interface EvalVariant {
+  name: string;
+  overrides: Partial<RetrievalConfig>;
+}
+
+export interface EvalCaseResult {
+  query: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  /** Ids returned, best first */
+  returnedIds: string[];
+}
+
+export interface EvalReport {
+  variant: string;
+  overrides: Partial<RetrievalConfig>;
+  k: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+  cases: EvalCaseResult[];
+}
+
+// ============================================================================
+// Dataset Parsing
+// ============================================================================
+
+function toStringList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  return list.map(v => String(v).trim()).filter(Boolean);
+}
+
+/**
+ * Parse an evaluation dataset. Each line is either a labeled query
+ * (`{"query", "expectedIds"?, "expectedText"?, "scopes"?}`) or a line from
+ * `memory feedback export`; feedback lines are grouped by query and helpful
+ * verdicts become expected ids. Queries without any expectation are skipped.
+ */
+export function parseEvalDataset(content: string): EvalCase[] {
+  const cases = new Map<string, EvalCase>();
+
+  content.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let row: any;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+    if (!row || typeof row.query !== "string" || !row.query.trim()) {
+      throw new Error(`Line ${index + 1}: missing "query"`);
+    }
+
+    const scopes = toStringList(row.scopes ?? row.scope);
+    const key = `${row.query}\u0000${scopes.join(",")}`;
+    const evalCase: EvalCase = cases.get(key) ?? {
+      query: row.query,
+      expectedIds: [],
+      expectedText: [],
+      scopes: scopes.length > 0 ? scopes : undefined,
+    };
+
+    if (typeof row.memoryId === "string" && row.label !== undefined) {
+      if (Number(row.label) === 1) evalCase.expectedIds.push(row.memoryId);
+    } else {
+      evalCase.expectedIds.push(...toStringList(row.expectedIds));
+      evalCase.expectedText.push(...toStringList(row.expectedText).map(t => t.toLowerCase()));
+    }
+    cases.set(key, evalCase);
+  });
+
+  return Array.from(cases.values())
+    .map(c => ({ ...c, expectedIds: Array.from(new Set(c.expectedIds)), expectedText: Array.from(new Set(c.expectedText)) }))
+    .filter(c => c.expectedIds.length > 0 || c.expectedText.length > 0);
+}
+
+/**
+ * `"name:vectorWeight=0.5,hardMinScore=0.3"` or `'{"vectorWeight": 0.5}'` →
+ * variant. Keys must be retrieval settings; values are parsed as numbers and
+ * booleans where possible.
+ */
+export function parseVariant(spec: string, fallbackName: string): EvalVariant {
+  let name = fallbackName;
+  let body = spec.trim();
+
+  const named = /^([\w.-]+):(.*)$/s.exec(body);
+  if (named && !body.startsWith("{")) {
+    name = named[1];
+    body = named[2].trim();
+  }
+
+  let overrides: Record<string, unknown>;
+  if (body.startsWith("{")) {
+    overrides = JSON.parse(body);
+  } else {
+    overrides = {};
+    for (const pair of body.split(",").map(p => p.trim()).filter(Boolean)) {
+      const eq = pair.indexOf("=");
+      if (eq <= 0) throw new Error(`Invalid override "${pair}" (expected key=value)`);
+      const raw = pair.slice(eq + 1).trim();
+      overrides[pair.slice(0, eq).trim()] =
+        raw === "true" ? true : raw === "false" ? false : raw !== "" && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    }
+  }
+
+  for (const key of Object.keys(overrides)) {
+    if (!(key in DEFAULT_RETRIEVAL_CONFIG)) {
+      throw new Error(`Unknown retrieval setting "${key}" in variant ${name}`);
+    }
+  }
+  return { name, overrides: overrides as Partial<RetrievalConfig> };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/** Index of the first expected id or text a result satisfies, or -1 */
+function matchTarget(evalCase: EvalCase, entry: Pick<MemoryEntry, "id" | "text">): number {
+  const idIndex = evalCase.expectedIds.findIndex(id => entry.id === id || (id.length >= 8 && entry.id.startsWith(id)));
+  if (idIndex >= 0) return idIndex;
+
+  const text = entry.text.toLowerCase();
+  const textIndex = evalCase.expectedText.findIndex(t => text.includes(t));
+  return textIndex >= 0 ? evalCase.expectedIds.length + textIndex : -1;
+}
+
+/**
+ * Binary-relevance metrics over the top k results. Every expected id and
+ * expected text is one target; a result counts once, for the first target it
+ * satisfies that no earlier result did.
+ */
+export function scoreCase(evalCase: EvalCase, results: Array<Pick<MemoryEntry, "id" | "text">>, k: number): EvalCaseResult {
+  const targets = evalCase.expectedIds.length + evalCase.expectedText.length;
+  const found = new Set<number>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  results.slice(0, k).forEach((entry, rank) => {
+    const target = matchTarget(evalCase, entry);
+    if (target < 0 || found.has(target)) return;
+
+    found.add(target);
+    if (reciprocalRank === 0) reciprocalRank = 1 / (rank + 1);
+    dcg += 1 / Math.log2(rank + 2);
+  });
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(targets, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    query: evalCase.query,
+    recall: targets > 0 ? found.size / targets : 0,
+    reciprocalRank,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    returnedIds: results.slice(0, k).map(r => r.id),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// ============================================================================
+// Evaluation Run
+// ============================================================================
+
+export interface EvalOptions {
+  /** Never call the rerank API: cross-encoder reranking is replaced by none, in every variant */
+  offline?: boolean;
+}
+
+/**
+ * Run every case through a retriever per variant. Access tracking is off, so
+ * an evaluation doesn't change the reinforcement it measures.
+ */
+export async function evaluateRetrieval(
+  store: MemoryStore,
+  embedder: QueryEmbedder,
+  baseConfig: Partial<RetrievalConfig>,
+  variants: EvalVariant[],
+  cases: EvalCase[],
+  k = 5,
+  options: EvalOptions = {}
+): Promise<EvalReport[]> {
+  const reports: EvalReport[] = [];
+
+  for (const variant of variants) {
+    const config: Partial<RetrievalConfig> = { ...baseConfig, ...variant.overrides };
+    // After the merge, so a variant can't switch the API reranker back on
+    if (options.offline && config.rerank === "cross-encoder") {
+      config.rerank = "none";
+    }
+    const retriever = createRetriever(store, embedder, config);
+    const caseResults: EvalCaseResult[] = [];
+
+    for (const evalCase of cases) {
+      const results = await retriever.retrieve({
+        query: evalCase.query,
+        limit: k,
+        scopeFilter: evalCase.scopes,
+        trackAccess: false,
+      });
+      caseResults.push(scoreCase(evalCase, results.map(r => r.entry), k));
+    }
+
+    reports.push({
+      variant: variant.name,
+      overrides: variant.overrides,
+      k,
+      recallAtK: mean(caseResults.map(c => c.recall)),
+      mrr: mean(caseResults.map(c => c.reciprocalRank)),
+      ndcg: mean(caseResults.map(c => c.ndcg)),
+      cases: caseResults,
+    });
+  }
+
+  return reports;
+}
+
+// ============================================================================
+// Offline Embedders
+// ============================================================================
+
+export const HASHING_EMBEDDER_DIMENSIONS = 256;
+
+/**
+ * Deterministic bag-of-words embedder: tokens (and character trigrams, for
+ * some tolerance to inflection) hashed into a fixed number of buckets and
+ * L2-normalized. Only meaningful against stores embedded with it, e.g. an
+ * evaluation fixture.
+ */
+export class HashingEmbedder {
+  constructor(readonly dimensions = HASHING_EMBEDDER_DIMENSIONS) {}
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async embedPassage(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().normalize("NFKC").match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const features = [token];
+      for (let i = 0; i + 3 <= token.length && token.length > 3; i++) {
+        features.push(`#${token.slice(i, i + 3)}`);
+      }
+      for (const feature of features) {
+        const hash = createHash("sha1").update(feature).digest();
+        const weight = feature.startsWith("#") ? 0.5 : 1;
+        vector[hash.readUInt32LE(0) % this.dimensions] += hash[4] & 1 ? weight : -weight;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
+
+/**
+ * Query vectors from a recording, so evaluations against a real store repeat
+ * exactly without calling the embedding API. Misses are embedded and recorded
+ * when a live embedder is given, and fail otherwise.
+ */
+export class RecordedQueryEmbedder {
+  private vectors: Map<string, number[]>;
+  private recorded = 0;
+
+  constructor(vectors: Record<string, number[]>, private readonly live?: QueryEmbedder) {
+    this.vectors = new Map(Object.entries(vectors));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const vector = this.vectors.get(text);
+    if (vector) return vector;
+
+    if (!this.live) {
+      throw new Error(`No recorded vector for query "${text}" (run once with an embedding provider to record it)`);
+    }
+    const embedded = await this.live.embedQuery(text);
+    this.vectors.set(text, embedded);
+    this.recorded++;
+    return embedded;
+  }
+
+  /** Queries embedded since the recording was loaded */
+  get newVectors(): number {
+    return this.recorded;
+  }
+
+  toJSON(): Record<string, number[]> {
+    return Object.fromEntries(this.vectors);
+  }
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Fill an empty store from a fixture (JSONL: `{"id"?, "text", "category"?,
+ * "scope"?, "importance"?, "ageDays"?, "tags"?}`), embedding with the given
+ * embedder. Ages are relative to now so time-based scoring is reproducible.
+ * Returns how many memories were loaded.
+ */
+export async function loadEvalFixture(
+  store: MemoryStore,
+  embedder: { embedPassage(text: string): Promise<number[]> },
+  content: string
+): Promise<number> {
+  const now = Date.now();
+  let loaded = 0;
+
+  const lines = content.split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+
+    const row = JSON.parse(lines[index]);
+    if (!row || typeof row.text !== "string" || !row.text.trim()) {
+      throw new Error(`Fixture line ${index + 1}: missing "text"`);
+    }
+
+    await store.importEntry({
+      id: typeof row.id === "string" ? row.id : randomUUID(),
+      text: row.text,
+      vector: await embedder.embedPassage(row.text),
+      category: row.category || "fact",
+      scope: row.scope || "global",
+      importance: typeof row.importance === "number" ? row.importance : 0.7,
+      timestamp: now - (Number(row.ageDays) || 0) * 86_400_000,
+      metadata: "{}",
+      tags: parseTags(row.tags),
+    });
+    loaded++;
+  }
+
+  return loaded;
+}
@@ -0,0 +1,82 @@
+/**
+ * Memory Expiry (TTL)
+ * Memories that are only true for a while ("on vacation until Friday"):
+ * - `expiresAt` as epoch ms; 0/absent = never expires
+ * - Parsing of ISO dates and relative durations ("12h", "3d", "2w")
+ * - Expired memories drop out of search and list, and are purged by the plugin service
+ */
+
+// ============================================================================
+// Durations
+// ============================================================================
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** `"90m"`, `"12h"`, `"7d"`, `"2w"` → milliseconds. Throws on anything else. */
+export function parseDuration(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([mhdw])\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 90m, 12h, 7d, 2w)`);
+  }
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()]);
+}
+
+// ============================================================================
+// Expiry Values
+// ============================================================================
+
+/**
+ * Parse an expiry given by a tool, CLI or import file:
+ * - undefined / "" → undefined (leave unchanged)
+ * - null, 0, "never" → 0 (never expires)
+ * - epoch ms, ISO date/time, or a duration from now ("3d")
+ * Expiry times in the past are rejected.
+ */
+export function parseExpiry(value: unknown, now = Date.now()): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (value === null || value === 0 || (typeof value === "string" && value.trim().toLowerCase() === "never")) return 0;
+
+  let expiresAt: number;
+  if (typeof value === "number") {
+    expiresAt = value;
+  } else if (typeof value === "string" && /^\s*\d+(?:\.\d+)?\s*[mhdw]\s*$/i.test(value)) {
+    expiresAt = now + parseDuration(value);
+  } else if (typeof value === "string") {
+    expiresAt = Date.parse(value);
+  } else {
+    throw new Error(`Invalid expiry: ${String(value)}`);
+  }
+
+  if (!Number.isFinite(expiresAt)) {
+    throw new Error(`Invalid expiry "${String(value)}" (expected an ISO date, a duration like 3d, or "never")`);
+  }
+  if (expiresAt <= now) {
+    throw new Error(`Expiry ${new Date(expiresAt).toISOString()} is in the past`);
+  }
+  return Math.floor(expiresAt);
+}
+
+/** Stored column value → optional field (0 = never) */
+export function toExpiresAt(value: unknown): number | undefined {
+  const expiresAt = Number(value);
+  return Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : undefined;
+}
+
+export function isExpired(expiresAt: number | undefined, now = Date.now()): boolean {
+  return !!expiresAt && expiresAt <= now;
+}
+
+/** `"in 3d"`, `"in 5h"`, `"expired 2d ago"` */
+export function formatExpiry(expiresAt: number, now = Date.now()): string {
+  const delta = Math.abs(expiresAt - now);
+  const amount =
+    delta >= DURATION_UNITS.d ? `${Math.round(delta / DURATION_UNITS.d)}d` :
+    delta >= DURATION_UNITS.h ? `${Math.round(delta / DURATION_UNITS.h)}h` :
+    `${Math.max(1, Math.round(delta / DURATION_UNITS.m))}m`;
+  return expiresAt > now ? `in ${amount}` : `expired ${amount} ago`;
+}
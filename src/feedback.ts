@@ -0,0 +1,82 @@
+/**
+ * Relevance Feedback
+ * Verdicts from agents and users on memories that were recalled:
+ * - helpful / unhelpful / wrong, per memory and query, in a `memory_feedback` table
+ * - Verdicts shift the memory's effective importance; the stored importance is untouched
+ * - "wrong" puts the memory in a review queue until it is kept or forgotten
+ * - The log exports as labeled query/memory pairs for tuning retrieval settings
+ */
+
+import type { MemoryEntry, MemoryFeedback } from "./store.js";
+
+// ============================================================================
+// Verdicts
+// ============================================================================
+
+export const FEEDBACK_VERDICTS = ["helpful", "unhelpful", "wrong"] as const;
+
+export type FeedbackVerdict = typeof FEEDBACK_VERDICTS[number];
+
+/** How a review of a "wrong" verdict ended */
+export type ReviewResolution = "kept" | "forgotten";
+
+export function isFeedbackVerdict(value: unknown): value is FeedbackVerdict {
+  return typeof value === "string" && (FEEDBACK_VERDICTS as readonly string[]).includes(value);
+}
+
+/** Change to a memory's importance adjustment per verdict */
+export const FEEDBACK_ADJUSTMENTS: Record<FeedbackVerdict, number> = {
+  helpful: 0.05,
+  unhelpful: -0.05,
+  wrong: -0.2,
+};
+
+/** Feedback moves importance by at most this much either way */
+export const MAX_FEEDBACK_ADJUSTMENT = 0.5;
+
+// ============================================================================
+// Effective Importance
+// ============================================================================
+
+/** Clamp a summed adjustment to ±MAX_FEEDBACK_ADJUSTMENT */
+export function clampFeedbackScore(score: number): number {
+  return Math.min(MAX_FEEDBACK_ADJUSTMENT, Math.max(-MAX_FEEDBACK_ADJUSTMENT, score));
+}
+
+/** Stored importance plus the feedback adjustment, within 0-1 */
+export function effectiveImportance(entry: Pick<MemoryEntry, "importance" | "feedbackScore">): number {
+  return Math.min(1, Math.max(0, entry.importance + (entry.feedbackScore || 0)));
+}
+
+// ============================================================================
+// Labeled Export
+// ============================================================================
+
+/** One line of `memory feedback export` */
+export interface LabeledExample {
+  query: string;
+  memoryId: string;
+  /** Memory text when the feedback was given */
+  text: string;
+  scope: string;
+  verdict: FeedbackVerdict;
+  /** 1 = relevant (helpful), 0 = not (unhelpful or wrong); `verdict` keeps the distinction */
+  label: 0 | 1;
+  note?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export function toLabeledExample(feedback: MemoryFeedback): LabeledExample {
+  return {
+    query: feedback.query,
+    memoryId: feedback.memoryId,
+    text: feedback.memoryText,
+    scope: feedback.scope,
+    verdict: feedback.verdict,
+    label: feedback.verdict === "helpful" ? 1 : 0,
+    note: feedback.note || undefined,
+    createdAt: new Date(feedback.createdAt).toISOString(),
+    createdBy: feedback.createdBy,
+  };
+}
@@ -0,0 +1,441 @@
+/**
+ * Structured Memory Filters
+ * Typed filter expressions over memory fields and metadata keys:
+ * - Parser for expressions like `metadata.type = "session-summary" AND importance >= 0.8`
+ * - Safe translation of column conditions to LanceDB `where` clauses
+ * - In-process matching for metadata keys and tags (stored as JSON string columns)
+ */
+
+import type { MemoryEntry } from "./store.js";
+import { normalizeTag, normalizeTags, tagLikeClause } from "./tags.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "between" | "in" | "exists";
+
+export interface FilterCondition {
+  /** `importance`, `timestamp`, `category`, `scope`, `tags`, or `metadata.<key>` (dot-separated path) */
+  field: string;
+  op: FilterOperator;
+  /** Single value, [low, high] for `between`, list for `in`, unused for `exists` */
+  value?: FilterValue | FilterValue[];
+}
+
+/** Conditions are combined with AND */
+export interface MemoryFilter {
+  conditions: FilterCondition[];
+}
+
+export class FilterParseError extends Error {
+  constructor(message: string, readonly expression: string) {
+    super(`Invalid filter "${expression}": ${message}`);
+    this.name = "FilterParseError";
+  }
+}
+
+const NUMERIC_COLUMNS = new Set(["importance", "timestamp"]);
+const STRING_COLUMNS = new Set(["category", "scope"]);
+const TAGS_FIELD = "tags";
+const TAG_OPERATORS = new Set<FilterOperator>(["=", "!=", "in", "exists"]);
+const METADATA_PREFIX = "metadata.";
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { kind: "word"; text: string }
+  | { kind: "string"; text: string }
+  | { kind: "op"; text: string }
+  | { kind: "punct"; text: "(" | ")" | "," };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let text = "";
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== ch) {
+        if (expression[j] === "\\" && j + 1 < expression.length) j++;
+        text += expression[j];
+        j++;
+      }
+      if (j >= expression.length) {
+        throw new FilterParseError("unterminated string", expression);
+      }
+      tokens.push({ kind: "string", text });
+      i = j + 1;
+      continue;
+    }
+
+    const op = expression.slice(i).match(/^(>=|<=|!=|<>|==|=|>|<)/);
+    if (op) {
+      tokens.push({ kind: "op", text: op[1] === "<>" ? "!=" : op[1] === "==" ? "=" : op[1] });
+      i += op[1].length;
+      continue;
+    }
+
+    if (ch === "(" || ch === ")" || ch === ",") {
+      tokens.push({ kind: "punct", text: ch });
+      i++;
+      continue;
+    }
+
+    const word = expression.slice(i).match(/^[^\s"'(),<>=!]+/);
+    if (!word) {
+      throw new FilterParseError(`unexpected character '${ch}'`, expression);
+    }
+    tokens.push({ kind: "word", text: word[0] });
+    i += word[0].length;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === "word" && token.text.toLowerCase() === keyword;
+}
+
+function validateField(field: string, expression: string): string {
+  if (NUMERIC_COLUMNS.has(field) || STRING_COLUMNS.has(field) || field === TAGS_FIELD) {
+    return field;
+  }
+  if (field.startsWith(METADATA_PREFIX)) {
+    const path = field.slice(METADATA_PREFIX.length);
+    if (/^[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*)*$/.test(path)) {
+      return field;
+    }
+  }
+  throw new FilterParseError(
+    `unknown field '${field}' (use importance, timestamp, category, scope, tags or metadata.<key>)`,
+    expression
+  );
+}
+
+/**
+ * Convert a literal token to a typed value. Timestamps also accept ISO dates
+ * (`2026-01-31`, `2026-01-31T12:00:00Z`), converted to epoch milliseconds.
+ */
+function parseValue(token: Token | undefined, field: string, expression: string): FilterValue {
+  if (!token || token.kind === "op" || token.kind === "punct") {
+    throw new FilterParseError(`expected a value for '${field}'`, expression);
+  }
+
+  let value: FilterValue;
+  if (token.kind === "string") {
+    value = token.text;
+  } else if (/^-?\d+(\.\d+)?$/.test(token.text)) {
+    value = Number(token.text);
+  } else if (token.text === "true" || token.text === "false") {
+    value = token.text === "true";
+  } else if (token.text === "null") {
+    value = null;
+  } else {
+    value = token.text;
+  }
+
+  if (field === "timestamp" && typeof value === "string") {
+    const ms = Date.parse(value);
+    if (!Number.isFinite(ms)) {
+      throw new FilterParseError(`'${value}' is not a date or epoch milliseconds`, expression);
+    }
+    value = ms;
+  }
+
+  if (NUMERIC_COLUMNS.has(field) && (typeof value !== "number" || !Number.isFinite(value))) {
+    throw new FilterParseError(`'${field}' needs a number`, expression);
+  }
+  if (STRING_COLUMNS.has(field) && typeof value !== "string") {
+    throw new FilterParseError(`'${field}' needs a string`, expression);
+  }
+  if (field === TAGS_FIELD) {
+    const tag = normalizeTag(value === null ? "" : String(value));
+    if (!tag) {
+      throw new FilterParseError(`'${String(value)}' is not a valid tag`, expression);
+    }
+    value = tag;
+  }
+
+  return value;
+}
+
+/**
+ * Parse a filter expression. Conditions are joined with AND:
+ *
+ *   metadata.type = "session-summary" AND importance >= 0.8
+ *   timestamp between 2026-01-01 and 2026-02-01
+ *   category in (fact, decision)
+ *   metadata.source exists
+ *   tags = infra AND tags in (project-x, project-y)
+ */
+export function parseFilterExpression(expression: string): MemoryFilter {
+  const tokens = tokenize(expression);
+  const conditions: FilterCondition[] = [];
+  let pos = 0;
+
+  while (pos < tokens.length) {
+    const fieldToken = tokens[pos++];
+    if (fieldToken.kind !== "word") {
+      throw new FilterParseError("expected a field name", expression);
+    }
+    const field = validateField(fieldToken.text, expression);
+    const opToken = tokens[pos++];
+
+    if (opToken?.kind === "op") {
+      const value = parseValue(tokens[pos++], field, expression);
+      conditions.push({ field, op: opToken.text as FilterOperator, value });
+    } else if (isKeyword(opToken, "between")) {
+      const low = parseValue(tokens[pos++], field, expression);
+      if (!isKeyword(tokens[pos++], "and")) {
+        throw new FilterParseError("expected 'and' in between", expression);
+      }
+      const high = parseValue(tokens[pos++], field, expression);
+      conditions.push({ field, op: "between", value: [low, high] });
+    } else if (isKeyword(opToken, "in")) {
+      if (tokens[pos++]?.text !== "(") {
+        throw new FilterParseError("expected '(' after in", expression);
+      }
+      const values: FilterValue[] = [];
+      while (pos < tokens.length && tokens[pos].text !== ")") {
+        values.push(parseValue(tokens[pos++], field, expression));
+        if (tokens[pos]?.text === ",") pos++;
+      }
+      if (tokens[pos++]?.text !== ")" || values.length === 0) {
+        throw new FilterParseError("expected a non-empty list in in (...)", expression);
+      }
+      conditions.push({ field, op: "in", value: values });
+    } else if (isKeyword(opToken, "exists")) {
+      conditions.push({ field, op: "exists" });
+    } else {
+      throw new FilterParseError(`expected an operator after '${field}'`, expression);
+    }
+
+    const last = conditions[conditions.length - 1];
+    if (field === TAGS_FIELD && !TAG_OPERATORS.has(last.op)) {
+      throw new FilterParseError("tags supports =, !=, in (...) and exists", expression);
+    }
+
+    if (pos < tokens.length) {
+      if (!isKeyword(tokens[pos], "and")) {
+        throw new FilterParseError("conditions must be joined with AND", expression);
+      }
+      pos++;
+      if (pos >= tokens.length) {
+        throw new FilterParseError("dangling AND", expression);
+      }
+    }
+  }
+
+  return { conditions };
+}
+
+/**
+ * Tag conditions: `any` matches memories carrying at least one of the tags,
+ * `all` requires every tag.
+ */
+export function tagsFilter(tags: string[] | undefined, mode: "any" | "all" = "any"): MemoryFilter | undefined {
+  const normalized = normalizeTags(tags);
+  if (normalized.length === 0) return undefined;
+
+  if (mode === "all") {
+    return { conditions: normalized.map(tag => ({ field: TAGS_FIELD, op: "=" as const, value: tag })) };
+  }
+  return { conditions: [{ field: TAGS_FIELD, op: "in", value: normalized }] };
+}
+
+/** Combine filters (e.g. a parsed expression plus a category shortcut). */
+export function mergeFilters(...filters: Array<MemoryFilter | undefined>): MemoryFilter | undefined {
+  const conditions = filters.flatMap(f => f?.conditions ?? []);
+  return conditions.length > 0 ? { conditions } : undefined;
+}
+
+// ============================================================================
+// LanceDB Translation
+// ============================================================================
+
+function sqlLiteral(value: FilterValue): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Non-finite number in filter: ${value}`);
+    return String(value);
+  }
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (value === null) return "NULL";
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Superset match on the JSON tags column; exact matching happens in matchesFilter() */
+function tagsClause(condition: FilterCondition): string | null {
+  const { op, value } = condition;
+  if (op === "=") return tagLikeClause(value as string);
+  if (op === "in") return `(${(value as FilterValue[]).map(v => tagLikeClause(String(v))).join(" OR ")})`;
+  return null;
+}
+
+function columnClause(condition: FilterCondition): string | null {
+  const { field, op, value } = condition;
+  if (field === TAGS_FIELD) {
+    return tagsClause(condition);
+  }
+  if (!NUMERIC_COLUMNS.has(field) && !STRING_COLUMNS.has(field)) {
+    return null;
+  }
+
+  switch (op) {
+    case "between": {
+      const [low, high] = value as FilterValue[];
+      return `(${field} >= ${sqlLiteral(low)} AND ${field} <= ${sqlLiteral(high)})`;
+    }
+    case "in":
+      return `${field} IN (${(value as FilterValue[]).map(sqlLiteral).join(", ")})`;
+    case "exists":
+      return `${field} IS NOT NULL`;
+    default:
+      return `${field} ${op} ${sqlLiteral(value as FilterValue)}`;
+  }
+}
+
+/**
+ * Where clause for the conditions LanceDB can evaluate (column fields).
+ * Metadata conditions are left to matchesFilter(). Values are always emitted
+ * as escaped literals, never interpolated raw.
+ */
+export function toWhereClause(filter?: MemoryFilter): string | undefined {
+  if (!filter) return undefined;
+  const clauses = filter.conditions
+    .map(columnClause)
+    .filter((c): c is string => c !== null);
+  return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+}
+
+/** Whether any condition must be evaluated in-process. */
+export function hasMetadataConditions(filter?: MemoryFilter): boolean {
+  return !!filter?.conditions.some(c => c.field.startsWith(METADATA_PREFIX) || c.field === TAGS_FIELD);
+}
+
+// ============================================================================
+// In-Process Matching
+// ============================================================================
+
+function parseMetadata(metadata: unknown): Record<string, unknown> {
+  if (typeof metadata !== "string" || !metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+type FilterableEntry = Pick<MemoryEntry, "importance" | "timestamp" | "category" | "scope" | "metadata" | "tags">;
+
+function resolveField(entry: FilterableEntry, field: string, metadata: () => Record<string, unknown>): unknown {
+  if (field === TAGS_FIELD) {
+    // Untagged counts as missing, so `tags exists` means "has at least one tag"
+    return entry.tags && entry.tags.length > 0 ? entry.tags : undefined;
+  }
+  if (!field.startsWith(METADATA_PREFIX)) {
+    return entry[field as "importance" | "timestamp" | "category" | "scope"];
+  }
+
+  let current: unknown = metadata();
+  for (const key of field.slice(METADATA_PREFIX.length).split(".")) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compare(actual: unknown, expected: FilterValue): number | null {
+  if (typeof expected === "number") {
+    const num = typeof actual === "number" ? actual : typeof actual === "string" ? Number(actual) : NaN;
+    return Number.isFinite(num) ? num - expected : null;
+  }
+  if (typeof expected === "string" && typeof actual === "string") {
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  }
+  return null;
+}
+
+function equals(actual: unknown, expected: FilterValue): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  if (Array.isArray(actual)) return actual.some(item => equals(item, expected));
+  if (typeof expected === "number") return compare(actual, expected) === 0;
+  return actual === expected;
+}
+
+function matchesCondition(actual: unknown, condition: FilterCondition): boolean {
+  const { op, value } = condition;
+
+  switch (op) {
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "=":
+      return equals(actual, value as FilterValue);
+    case "!=":
+      return !equals(actual, value as FilterValue);
+    case "in":
+      return (value as FilterValue[]).some(v => equals(actual, v));
+    case "between": {
+      const [low, high] = value as FilterValue[];
+      const lo = compare(actual, low);
+      const hi = compare(actual, high);
+      return lo !== null && hi !== null && lo >= 0 && hi <= 0;
+    }
+    default: {
+      const cmp = compare(actual, value as FilterValue);
+      if (cmp === null) return false;
+      if (op === ">") return cmp > 0;
+      if (op === ">=") return cmp >= 0;
+      if (op === "<") return cmp < 0;
+      return cmp <= 0;
+    }
+  }
+}
+
+/**
+ * Evaluate every condition against an entry. Used for metadata keys and as
+ * an application-layer double check after the LanceDB query.
+ */
+export function matchesFilter(
+  entry: FilterableEntry,
+  filter?: MemoryFilter
+): boolean {
+  if (!filter || filter.conditions.length === 0) return true;
+
+  let metadataCache: Record<string, unknown> | undefined;
+  const metadata = () => (metadataCache ??= parseMetadata(entry.metadata));
+
+  return filter.conditions.every(condition =>
+    matchesCondition(resolveField(entry, condition.field, metadata), condition)
+  );
+}
+
+/** Human-readable form, e.g. for logs and tool output. */
+export function formatFilter(filter?: MemoryFilter): string {
+  if (!filter) return "";
+  return filter.conditions
+    .map(({ field, op, value }) => {
+      if (op === "exists") return `${field} exists`;
+      if (op === "between") return `${field} between ${JSON.stringify((value as FilterValue[])[0])} and ${JSON.stringify((value as FilterValue[])[1])}`;
+      if (op === "in") return `${field} in (${(value as FilterValue[]).map(v => JSON.stringify(v)).join(", ")})`;
+      return `${field} ${op} ${JSON.stringify(value)}`;
+    })
+    .join(" AND ");
+}
@@ -0,0 +1,103 @@
+/**
+ * Memory Relationship Graph
+ * Typed, directed links between memory ids:
+ * - source supersedes / relates_to / derived_from / about_entity target
+ * - Stored in a `memory_links` table next to `memories`
+ * - Neighbourhood walks for the CLI graph view and link-aware recall
+ */
+
+import type { MemoryEntry, MemoryLink, MemoryStore } from "./store.js";
+
+// ============================================================================
+// Link Types
+// ============================================================================
+
+export const LINK_TYPES = ["supersedes", "relates_to", "derived_from", "about_entity"] as const;
+
+export type LinkType = typeof LINK_TYPES[number];
+
+/** How a link reads from its target's side */
+const INVERSE_LABELS: Record<LinkType, string> = {
+  supersedes: "superseded_by",
+  relates_to: "relates_to",
+  derived_from: "source_of",
+  about_entity: "mentioned_by",
+};
+
+export function isLinkType(value: unknown): value is LinkType {
+  return typeof value === "string" && (LINK_TYPES as readonly string[]).includes(value);
+}
+
+/** Link label as seen from `memoryId`, e.g. `derived_from` or `source_of` */
+export function linkLabel(link: MemoryLink, memoryId: string): string {
+  return link.sourceId === memoryId ? link.type : INVERSE_LABELS[link.type];
+}
+
+/** The memory on the other end of a link */
+export function otherEnd(link: MemoryLink, memoryId: string): string {
+  return link.sourceId === memoryId ? link.targetId : link.sourceId;
+}
+
+// ============================================================================
+// Graph Walk
+// ============================================================================
+
+export interface MemoryGraph {
+  root: MemoryEntry;
+  /** Live, accessible memories reached (root included), keyed by id */
+  nodes: Map<string, { entry: MemoryEntry; depth: number }>;
+  /** Links between nodes */
+  links: MemoryLink[];
+}
+
+export interface GraphWalkOptions {
+  /** Hops from the root (default: 1) */
+  depth?: number;
+  scopeFilter?: string[];
+  /** Stop adding memories past this many nodes (default: 100) */
+  maxNodes?: number;
+}
+
+/**
+ * Breadth-first walk from a memory over links in both directions. Links to
+ * trashed or inaccessible memories are left out.
+ */
+export async function collectGraph(
+  store: MemoryStore,
+  id: string,
+  options: GraphWalkOptions = {}
+): Promise<MemoryGraph | null> {
+  const { depth = 1, scopeFilter, maxNodes = 100 } = options;
+
+  const root = await store.getById(id);
+  if (!root) return null;
+  if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(root.scope)) {
+    throw new Error(`Memory ${id} is outside accessible scopes`);
+  }
+
+  const nodes = new Map<string, { entry: MemoryEntry; depth: number }>([[root.id, { entry: root, depth: 0 }]]);
+  const links = new Map<string, MemoryLink>();
+  let frontier = [root.id];
+
+  for (let hop = 1; hop <= depth && frontier.length > 0 && nodes.size < maxNodes; hop++) {
+    const found = await store.getLinks(frontier);
+    const unseen = new Set<string>();
+    for (const link of found) {
+      for (const end of [link.sourceId, link.targetId]) {
+        if (!nodes.has(end)) unseen.add(end);
+      }
+    }
+
+    const entries = await store.getByIds(Array.from(unseen).slice(0, maxNodes - nodes.size), scopeFilter);
+    for (const entry of entries) {
+      nodes.set(entry.id, { entry, depth: hop });
+    }
+
+    for (const link of found) {
+      if (nodes.has(link.sourceId) && nodes.has(link.targetId)) links.set(link.id, link);
+    }
+    frontier = entries.map(e => e.id);
+  }
+
+  return { root, nodes, links: Array.from(links.values()) };
+}
@@ -0,0 +1,219 @@
+/**
+ * Lightweight Local Reranker
+ * Offline, in-process relevance scoring used for `rerank: "lightweight"` and as
+ * a fallback when the cross-encoder API is unreachable.
+ * - Query term overlap
+ * - Phrase proximity (tightest window covering the matched terms)
+ * - Exact entity / number matches
+ * - Vector cosine similarity
+ */
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface LightweightRerankWeights {
+  termOverlap: number;
+  proximity: number;
+  exactMatch: number;
+  cosine: number;
+}
+
+export interface LightweightRerankDocument {
+  text: string;
+  vector?: unknown;
+}
+
+export const DEFAULT_LIGHTWEIGHT_WEIGHTS: LightweightRerankWeights = {
+  termOverlap: 0.3,
+  proximity: 0.15,
+  exactMatch: 0.15,
+  cosine: 0.4,
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with",
+  "is", "are", "was", "were", "be", "been", "do", "does", "did", "i", "my", "me",
+  "you", "your", "we", "our", "it", "its", "this", "that", "what", "which", "who",
+  "how", "when", "where", "why", "about", "from", "as", "by", "any", "some",
+  "的", "了", "是", "在", "我", "你", "吗", "呢",
+]);
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Split text into lowercase terms. CJK runs are split into single characters
+ * since they carry no whitespace word boundaries.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff\uac00-\ud7af]|[\p{L}\p{N}_][\p{L}\p{N}_.@'-]*/gu) || [];
+
+  for (const raw of matches) {
+    // Trim possessives and trailing punctuation kept by the inner character class (e.g. "v2.")
+    const token = raw.replace(/'s$/, "").replace(/[.'@-]+$/, "");
+    if (token) tokens.push(token);
+  }
+
+  return tokens;
+}
+
+function contentTerms(text: string): string[] {
+  return tokenize(text).filter(t => !STOPWORDS.has(t));
+}
+
+/**
+ * Extract tokens that should match verbatim: numbers, emails, URLs, paths,
+ * capitalized names and quoted phrases.
+ */
+export function extractExactTerms(query: string): string[] {
+  const patterns = [
+    /"([^"]+)"|'([^']+)'|“([^”]+)”/g,
+    /https?:\/\/\S+/g,
+    /[\w.-]+@[\w.-]+\.\w+/g,
+    /\d[\d.:\/-]*\d|\d/g,
+    /\b[A-Z][\w-]*[A-Z0-9][\w-]*\b|\b[A-Z][a-z]{2,}\b/g,
+  ];
+
+  const terms = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of query.matchAll(pattern)) {
+      const value = (match[1] ?? match[2] ?? match[3] ?? match[0]).trim().toLowerCase();
+      if (value && !STOPWORDS.has(value)) terms.add(value);
+    }
+  }
+
+  return Array.from(terms);
+}
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/**
+ * LanceDB returns Arrow Vector objects, which don't support index access.
+ * Materialize to a plain array before doing math on them.
+ */
+export function toNumberArray(vector: unknown): number[] {
+  if (Array.isArray(vector)) return vector;
+  if (vector && typeof (vector as Iterable<number>)[Symbol.iterator] === "function") {
+    return Array.from(vector as Iterable<number>);
+  }
+  return [];
+}
+
+/** Cosine similarity; 0 for empty, zero-norm or dimension-mismatched vectors. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// ============================================================================
+// Scoring Signals
+// ============================================================================
+
+/** Fraction of distinct query terms present in the document. */
+function termOverlapScore(queryTerms: string[], docTerms: Set<string>): number {
+  const unique = Array.from(new Set(queryTerms));
+  if (unique.length === 0) return 0;
+  return unique.filter(t => docTerms.has(t)).length / unique.length;
+}
+
+/**
+ * Shortest window in the document containing every matched query term,
+ * scored as matched / windowLength (1.0 when the terms appear adjacent).
+ */
+function proximityScore(queryTerms: string[], docTokens: string[]): number {
+  const wanted = new Set(queryTerms.filter(t => docTokens.includes(t)));
+  if (wanted.size === 0) return 0;
+  if (wanted.size === 1) return 1;
+
+  const counts = new Map<string, number>();
+  let covered = 0;
+  let best = Infinity;
+  let left = 0;
+
+  for (let right = 0; right < docTokens.length; right++) {
+    const term = docTokens[right];
+    if (!wanted.has(term)) continue;
+
+    counts.set(term, (counts.get(term) || 0) + 1);
+    if (counts.get(term) === 1) covered++;
+
+    while (covered === wanted.size) {
+      best = Math.min(best, right - left + 1);
+      const leftTerm = docTokens[left];
+      if (wanted.has(leftTerm)) {
+        counts.set(leftTerm, counts.get(leftTerm)! - 1);
+        if (counts.get(leftTerm) === 0) covered--;
+      }
+      left++;
+    }
+  }
+
+  return best === Infinity ? 0 : wanted.size / best;
+}
+
+function exactMatchScore(exactTerms: string[], docLower: string): number {
+  if (exactTerms.length === 0) return 0;
+  return exactTerms.filter(t => docLower.includes(t)).length / exactTerms.length;
+}
+
+// ============================================================================
+// Reranker
+// ============================================================================
+
+/**
+ * Score documents against a query without any network access.
+ * Returns one score in [0, 1] per document, in input order. Signals that
+ * don't apply (no exact terms in the query, no vectors) are left out and the
+ * remaining weights are renormalized.
+ */
+export function lightweightRerank(
+  query: string,
+  documents: LightweightRerankDocument[],
+  queryVector?: number[],
+  weights: LightweightRerankWeights = DEFAULT_LIGHTWEIGHT_WEIGHTS
+): number[] {
+  const queryTerms = contentTerms(query);
+  const exactTerms = extractExactTerms(query);
+  const hasQueryVector = Array.isArray(queryVector) && queryVector.length > 0;
+
+  return documents.map(doc => {
+    const docTokens = tokenize(doc.text);
+    const docTerms = new Set(docTokens);
+    const docVector = hasQueryVector ? toNumberArray(doc.vector) : [];
+
+    const signals: Array<[number, number]> = [];
+
+    if (queryTerms.length > 0) {
+      signals.push([termOverlapScore(queryTerms, docTerms), weights.termOverlap]);
+      signals.push([proximityScore(queryTerms, docTokens), weights.proximity]);
+    }
+    if (exactTerms.length > 0) {
+      signals.push([exactMatchScore(exactTerms, doc.text.toLowerCase()), weights.exactMatch]);
+    }
+    if (hasQueryVector && docVector.length === queryVector!.length) {
+      signals.push([Math.max(0, cosineSimilarity(queryVector!, docVector)), weights.cosine]);
+    }
+
+    const totalWeight = signals.reduce((sum, [, w]) => sum + w, 0);
+    if (totalWeight <= 0) return 0;
+
+    const score = signals.reduce((sum, [value, w]) => sum + value * w, 0) / totalWeight;
+    return Math.min(1, Math.max(0, score));
+  });
+}
@@ -0,0 +1,577 @@
+/**
+ * Markdown Sync
+ * Keeps agent workspace notes and the memory store in step:
+ * - Bullets from MEMORY.md and sections from memory/*.md are imported into `agent:<id>`,
+ *   keyed by a stable hash of their text, so re-syncing only picks up new or edited notes
+ * - The store renders back to MEMORY.md grouped by category, with a marker per memory,
+ *   so edits made in an editor update the memory they came from
+ * - An optional watcher imports files as they change
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import { copyFile, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { MemoryEntry, MemoryStore } from "./store.js";
+import type { Embedder } from "./embedder.js";
+import type { MemoryDeduplicator } from "./dedupe.js";
+import type { SensitiveDataScanner } from "./sensitive.js";
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export interface MarkdownItem {
+  text: string;
+  category: MemoryEntry["category"];
+  importance: number;
+  /** Path relative to the workspace, e.g. `MEMORY.md` or `memory/2026-01-15.md` */
+  file: string;
+  /** Memory id from a `<!-- memory:<id> -->` marker written by a previous render */
+  memoryId?: string;
+  /** Date from a daily note's file name */
+  timestamp?: number;
+}
+
+export interface AgentWorkspace {
+  agentId: string;
+  path: string;
+}
+
+export interface MarkdownSyncContext {
+  store: MemoryStore;
+  embedder: Pick<Embedder, "embedPassage">;
+  dedupe: MemoryDeduplicator;
+  /** Secret/PII policy applied to new and edited notes */
+  sensitiveData?: SensitiveDataScanner;
+}
+
+export interface MarkdownSyncOptions {
+  /** Move memories to the trash when their bullet was removed from a file that still exists */
+  prune?: boolean;
+  /** Count changes without writing */
+  dryRun?: boolean;
+  changedBy?: string;
+}
+
+export interface MarkdownSyncReport {
+  agentId: string;
+  scope: string;
+  files: number;
+  items: number;
+  imported: number;
+  /** Marked bullets whose text or section changed */
+  updated: number;
+  unchanged: number;
+  /** Merged into, or skipped as a duplicate of, an existing memory */
+  deduplicated: number;
+  pruned: number;
+  /** Notes not imported because the sensitive data policy blocks them */
+  blocked: number;
+  failures: Array<{ file: string; error: string }>;
+}
+
+export const MEMORY_MD = "MEMORY.md";
+export const DAILY_NOTES_DIR = "memory";
+
+const SYNC_NOTICE = "<!-- Synced with memory-lancedb-pro. Edit freely; keep the memory markers so edits update the same memory. -->";
+const MARKER_PATTERN = /\s*<!--\s*memory:([0-9a-f-]{8,})\s*-->\s*$/i;
+
+/** Rendered section headings, in order; also read back as categories on import */
+const CATEGORY_HEADINGS: Array<[MemoryEntry["category"], string]> = [
+  ["preference", "Preferences"],
+  ["fact", "Facts"],
+  ["decision", "Decisions"],
+  ["entity", "Entities"],
+  ["other", "Other"],
+];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Stable key of a note: the hash of its whitespace-normalized text */
+export function markdownKey(text: string): string {
+  return createHash("sha256").update(text.replace(/\s+/g, " ").trim()).digest("hex").slice(0, 16);
+}
+
+function categoryForHeading(heading: string): MemoryEntry["category"] | undefined {
+  const normalized = heading.trim().toLowerCase();
+  return CATEGORY_HEADINGS.find(([, title]) => title.toLowerCase() === normalized)?.[0];
+}
+
+function stripMarker(text: string): { text: string; memoryId?: string } {
+  const match = MARKER_PATTERN.exec(text);
+  return match ? { text: text.slice(0, match.index).trim(), memoryId: match[1].toLowerCase() } : { text: text.trim() };
+}
+
+/**
+ * List items of a MEMORY.md, each with its continuation lines. Items under a
+ * category heading (`## Facts`, ...) take that category; others are
+ * classified by keywords.
+ */
+export function parseMemoryMd(content: string, file = MEMORY_MD): MarkdownItem[] {
+  const items: MarkdownItem[] = [];
+  let sectionCategory: MemoryEntry["category"] | undefined;
+  let current: string[] = [];
+
+  const flushItem = () => {
+    if (current.length === 0) return;
+    const { text, memoryId } = stripMarker(current.join("\n"));
+    current = [];
+    if (text.length <= 10) return; // too short to be worth a memory
+
+    let category: MemoryEntry["category"] = "other";
+    let importance = 0.7;
+    if (/rule|原则|规则|best practice|最佳实践|must|必须|应该|不要|avoid/i.test(text)) {
+      category = "decision";
+      importance = 0.85;
+    } else if (/已完成|completed|项目|project|system|配置|config|service/i.test(text)) {
+      category = "fact";
+      importance = 0.8;
+    }
+
+    items.push({ text, category: sectionCategory ?? category, importance, file, memoryId });
+  };
+
+  for (const line of content.split("\n")) {
+    if (line.startsWith("## ")) {
+      flushItem();
+      sectionCategory = categoryForHeading(line.slice(3));
+      continue;
+    }
+
+    if (/^[-*]\s/.test(line) || /^\d+\.\s/.test(line)) {
+      flushItem();
+      current.push(line.replace(/^[-*]\s*|^\d+\.\s*/, ""));
+      continue;
+    }
+
+    if (current.length > 0 && line.trim() && !line.startsWith("#")) {
+      current.push(line.trim());
+    }
+  }
+  flushItem();
+
+  return items;
+}
+
+/**
+ * Sections (`###` / `####`) of a daily note, each prefixed with its title.
+ * A date in the file name (`2026-01-15.md`) becomes the memory timestamp.
+ */
+export function parseDailyMemory(content: string, file: string): MarkdownItem[] {
+  const items: MarkdownItem[] = [];
+  const dateMatch = /(\d{4}-\d{2}-\d{2})/.exec(file);
+  const timestamp = dateMatch ? Date.parse(dateMatch[1]) : NaN;
+  let current: string[] = [];
+  let sectionTitle = "";
+
+  const flushSection = () => {
+    if (current.length === 0) return;
+    const { text: body, memoryId } = stripMarker(current.join("\n"));
+    current = [];
+    const title = sectionTitle;
+    sectionTitle = "";
+    if (body.length <= 20) return; // too short to be worth a memory
+
+    let category: MemoryEntry["category"] = "other";
+    let importance = 0.6;
+    if (/决定|decided|结论|conclusion|方案|solution/i.test(body)) {
+      category = "decision";
+      importance = 0.75;
+    } else if (/配置|config|部署|deploy|修复|fix|创建|create/i.test(body)) {
+      category = "fact";
+      importance = 0.7;
+    }
+
+    items.push({
+      text: title ? `${title}: ${body}` : body,
+      category,
+      importance,
+      file,
+      memoryId,
+      timestamp: Number.isFinite(timestamp) ? timestamp : undefined,
+    });
+  };
+
+  for (const line of content.split("\n")) {
+    if (line.startsWith("### ") || line.startsWith("#### ")) {
+      flushSection();
+      sectionTitle = line.replace(/^#+\s*/, "").trim();
+      continue;
+    }
+    if (line.trim() && !line.startsWith("#") && !line.startsWith("---")) {
+      current.push(line.trim());
+    }
+  }
+  flushSection();
+
+  return items;
+}
+
+/** All notes of a workspace: MEMORY.md, then memory/*.md in name order. */
+export async function readWorkspaceNotes(workspacePath: string): Promise<{ files: string[]; items: MarkdownItem[] }> {
+  const files: string[] = [];
+  const items: MarkdownItem[] = [];
+
+  const memoryMdPath = join(workspacePath, MEMORY_MD);
+  if (existsSync(memoryMdPath)) {
+    files.push(MEMORY_MD);
+    items.push(...parseMemoryMd(await readFile(memoryMdPath, "utf-8")));
+  }
+
+  const dailyDir = join(workspacePath, DAILY_NOTES_DIR);
+  if (existsSync(dailyDir)) {
+    for (const name of (await readdir(dailyDir)).filter(f => f.endsWith(".md")).sort()) {
+      const file = `${DAILY_NOTES_DIR}/${name}`;
+      files.push(file);
+      items.push(...parseDailyMemory(await readFile(join(dailyDir, name), "utf-8"), file));
+    }
+  }
+
+  return { files, items };
+}
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+export function getDefaultOpenClawDir(): string {
+  return join(homedir(), ".openclaw");
+}
+
+/** `workspace` belongs to the main agent, `workspace-<id>` to agent `<id>` */
+export function resolveAgentWorkspace(agentId: string, baseDir = getDefaultOpenClawDir()): AgentWorkspace {
+  return { agentId, path: join(baseDir, agentId === "main" ? "workspace" : `workspace-${agentId}`) };
+}
+
+export async function discoverAgentWorkspaces(baseDir = getDefaultOpenClawDir()): Promise<AgentWorkspace[]> {
+  if (!existsSync(baseDir)) return [];
+
+  const workspaces: AgentWorkspace[] = [];
+  for (const entry of await readdir(baseDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    if (entry.name === "workspace") {
+      workspaces.push({ agentId: "main", path: join(baseDir, entry.name) });
+    } else if (entry.name.startsWith("workspace-") && entry.name.length > "workspace-".length) {
+      workspaces.push({ agentId: entry.name.slice("workspace-".length), path: join(baseDir, entry.name) });
+    }
+  }
+  return workspaces.sort((a, b) => a.agentId.localeCompare(b.agentId));
+}
+
+// ============================================================================
+// Markdown → Store
+// ============================================================================
+
+function parseMetadata(metadata: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(metadata || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function syncMetadata(metadata: Record<string, unknown>, item: MarkdownItem, key: string): string {
+  return JSON.stringify({ ...metadata, source: "markdown", mdFile: item.file, mdKey: key });
+}
+
+/**
+ * Import new and edited notes of one workspace into `agent:<id>`. Bullets
+ * carrying a memory marker update that memory in place; other notes are
+ * matched by key and only new ones are embedded and written (through the
+ * dedupe policy).
+ */
+export async function syncFromMarkdown(
+  workspace: AgentWorkspace,
+  context: MarkdownSyncContext,
+  options: MarkdownSyncOptions = {}
+): Promise<MarkdownSyncReport> {
+  const { store, embedder, dedupe, sensitiveData } = context;
+  const scope = `agent:${workspace.agentId}`;
+  const changedBy = options.changedBy ?? "markdown-sync";
+  const { files, items } = await readWorkspaceNotes(workspace.path);
+
+  const report: MarkdownSyncReport = {
+    agentId: workspace.agentId,
+    scope,
+    files: files.length,
+    items: items.length,
+    imported: 0,
+    updated: 0,
+    unchanged: 0,
+    deduplicated: 0,
+    pruned: 0,
+    blocked: 0,
+    failures: [],
+  };
+
+  /** Text to store for a note, or null when the policy blocks it */
+  const screen = async (text: string): Promise<string | null> => {
+    if (!sensitiveData) return text;
+    const result = options.dryRun ? sensitiveData.evaluate(text) : await sensitiveData.scan(text, { source: changedBy, scope });
+    if (result.action !== "block") return result.text;
+    report.blocked++;
+    return null;
+  };
+
+  // Existing memories of the scope, without vectors
+  const byId = new Map<string, Pick<MemoryEntry, "id" | "text" | "category" | "metadata">>();
+  const byKey = new Map<string, string>();
+  for await (const entry of store.iterate([scope])) {
+    if (entry.scope !== scope) continue;
+    byId.set(entry.id, { id: entry.id, text: entry.text, category: entry.category, metadata: entry.metadata });
+    const key = parseMetadata(entry.metadata).mdKey;
+    if (typeof key === "string") byKey.set(key, entry.id);
+  }
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    const key = markdownKey(item.text);
+    try {
+      const marked = item.memoryId ? byId.get(item.memoryId) : undefined;
+      if (marked) {
+        seen.add(marked.id);
+        const metadata = parseMetadata(marked.metadata);
+        // A note synced before keeps its key, even if the stored text was redacted
+        let textChanged = metadata.mdKey !== key && markdownKey(marked.text) !== key;
+        let text = item.text;
+        if (textChanged) {
+          const screened = await screen(item.text);
+          if (screened === null) continue;
+          text = screened;
+          textChanged = text !== marked.text;
+        }
+        const categoryChanged = item.file === MEMORY_MD && marked.category !== item.category;
+        if (!textChanged && !categoryChanged && metadata.mdKey === key && metadata.mdFile === item.file) {
+          report.unchanged++;
+          continue;
+        }
+
+        if (!options.dryRun) {
+          await store.update(marked.id, {
+            text: textChanged ? text : undefined,
+            vector: textChanged ? await embedder.embedPassage(text) : undefined,
+            category: categoryChanged ? item.category : undefined,
+            metadata: syncMetadata(metadata, item, key),
+          }, [scope], { changedBy });
+        }
+        if (textChanged || categoryChanged) report.updated++;
+        else report.unchanged++;
+        continue;
+      }
+
+      const existingId = byKey.get(key);
+      if (existingId) {
+        seen.add(existingId);
+        report.unchanged++;
+        continue;
+      }
+
+      const text = await screen(item.text);
+      if (text === null) continue;
+      if (options.dryRun) {
+        report.imported++;
+        continue;
+      }
+
+      const result = await dedupe.write({
+        id: randomUUID(),
+        text,
+        vector: await embedder.embedPassage(text),
+        category: item.category,
+        scope,
+        importance: item.importance,
+        timestamp: item.timestamp ?? Date.now(),
+        metadata: syncMetadata({}, item, key),
+      }, { changedBy });
+      seen.add(result.entry.id);
+      byKey.set(key, result.entry.id);
+      if (result.action === "created") report.imported++;
+      else report.deduplicated++;
+    } catch (error) {
+      report.failures.push({ file: item.file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (options.prune) {
+    const synced = new Set(files);
+    for (const entry of byId.values()) {
+      const metadata = parseMetadata(entry.metadata);
+      if (metadata.source !== "markdown" || typeof metadata.mdFile !== "string") continue;
+      if (!synced.has(metadata.mdFile) || seen.has(entry.id)) continue;
+
+      if (!options.dryRun) {
+        await store.delete(entry.id, [scope]);
+      }
+      report.pruned++;
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// Store → Markdown
+// ============================================================================
+
+/**
+ * MEMORY.md content for a set of memories: one section per category, one
+ * bullet per memory with its id marker. Memories imported from daily notes
+ * are left out; they stay editable in their own file.
+ */
+export function renderMemoryMd(entries: Array<Pick<MemoryEntry, "id" | "text" | "category" | "timestamp" | "metadata">>, title: string): string {
+  const lines = [`# ${title}`, "", SYNC_NOTICE];
+
+  for (const [category, heading] of CATEGORY_HEADINGS) {
+    const section = entries
+      .filter(entry => entry.category === category)
+      .filter(entry => {
+        const mdFile = parseMetadata(entry.metadata).mdFile;
+        return typeof mdFile !== "string" || !mdFile.startsWith(`${DAILY_NOTES_DIR}/`);
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (section.length === 0) continue;
+
+    lines.push("", `## ${heading}`, "");
+    for (const entry of section) {
+      const text = entry.text.trim().split("\n").map(line => line.trim()).filter(Boolean).join("\n  ");
+      lines.push(`- ${text} <!-- memory:${entry.id} -->`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Rewrite the workspace's MEMORY.md from the store. A MEMORY.md that was not
+ * written by a previous render is kept as MEMORY.md.bak first.
+ */
+export async function renderToMarkdown(
+  workspace: AgentWorkspace,
+  store: MemoryStore,
+  options: { dryRun?: boolean } = {}
+): Promise<{ path: string; count: number; backup?: string }> {
+  const scope = `agent:${workspace.agentId}`;
+  const entries: Array<Pick<MemoryEntry, "id" | "text" | "category" | "timestamp" | "metadata">> = [];
+  for await (const entry of store.iterate([scope])) {
+    if (entry.scope !== scope) continue;
+    entries.push({ id: entry.id, text: entry.text, category: entry.category, timestamp: entry.timestamp, metadata: entry.metadata });
+  }
+
+  const path = join(workspace.path, MEMORY_MD);
+  const content = renderMemoryMd(entries, `Memories (${scope})`);
+  const count = content.match(/<!-- memory:/g)?.length ?? 0;
+  if (options.dryRun) {
+    return { path, count };
+  }
+
+  let backup: string | undefined;
+  if (existsSync(path) && !(await readFile(path, "utf-8")).includes(SYNC_NOTICE)) {
+    backup = `${path}.bak`;
+    await copyFile(path, backup);
+  }
+
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, content);
+  await rename(tmpPath, path);
+  return { path, count, backup };
+}
+
+// ============================================================================
+// Watcher
+// ============================================================================
+
+export interface MarkdownSyncWatcherConfig {
+  workspaces: AgentWorkspace[];
+  /** Quiet period after the last change before a workspace is synced (default: 2000) */
+  debounceMs: number;
+  prune: boolean;
+  onSynced?: (report: MarkdownSyncReport) => void;
+  onError?: (workspace: AgentWorkspace, error: unknown) => void;
+}
+
+/**
+ * Imports a workspace's notes shortly after MEMORY.md or a daily note
+ * changes. Only imports; rendering back stays an explicit command, so the
+ * watcher never reacts to its own writes.
+ */
+export class MarkdownSyncWatcher {
+  private watchers: FSWatcher[] = [];
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, Promise<void>>();
+
+  constructor(private readonly context: MarkdownSyncContext, private readonly config: MarkdownSyncWatcherConfig) {}
+
+  start(): void {
+    for (const workspace of this.config.workspaces) {
+      const onChange = (_event: string, filename: string | Buffer | null) => {
+        const name = filename ? String(filename) : "";
+        if (!name || name.endsWith(".md")) this.schedule(workspace);
+      };
+
+      for (const dir of [workspace.path, join(workspace.path, DAILY_NOTES_DIR)]) {
+        if (!existsSync(dir)) continue;
+        try {
+          const watcher = watch(dir, { persistent: false }, onChange);
+          watcher.on("error", error => this.config.onError?.(workspace, error));
+          this.watchers.push(watcher);
+        } catch (error) {
+          this.config.onError?.(workspace, error);
+        }
+      }
+    }
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private schedule(workspace: AgentWorkspace): void {
+    const existing = this.timers.get(workspace.path);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(workspace.path);
+      void this.sync(workspace);
+    }, this.config.debounceMs);
+    timer.unref?.();
+    this.timers.set(workspace.path, timer);
+  }
+
+  private async sync(workspace: AgentWorkspace): Promise<void> {
+    // One sync per workspace at a time; a change during a sync schedules another
+    const previous = this.running.get(workspace.path);
+    if (previous) {
+      await previous;
+    }
+
+    const run = syncFromMarkdown(workspace, this.context, { prune: this.config.prune, changedBy: "markdown-watch" })
+      .then(report => this.config.onSynced?.(report))
+      .catch(error => this.config.onError?.(workspace, error))
+      .finally(() => this.running.delete(workspace.path));
+    this.running.set(workspace.path, run);
+    await run;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createMarkdownSyncWatcher(
+  context: MarkdownSyncContext,
+  config: Partial<MarkdownSyncWatcherConfig> & Pick<MarkdownSyncWatcherConfig, "workspaces">
+): MarkdownSyncWatcher {
+  return new MarkdownSyncWatcher(context, {
+    ...config,
+    debounceMs: config.debounceMs ?? 2000,
+    prune: config.prune ?? false,
+  });
+}
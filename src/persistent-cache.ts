@@ -1,6 +1,7 @@
 /**
  * Persistent Embedding Cache with SQLite Backend
  * Provides LRU caching with disk persistence across restarts
+ * With a cipher (encryption at rest), keys are keyed hashes and the text column is encrypted
  */
 
 import DatabaseConstructor from 'better-sqlite3';
@@ -9,6 +10,7 @@ import { createHash } from 'node:crypto';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
 import { mkdirSync, existsSync } from 'node:fs';
+import { ENCRYPTED_PREFIX, type FieldCipher } from './encryption.js';
 
 // ============================================================================
 // Types
@@ -44,6 +46,8 @@ interface PersistentCacheConfig {
   persistToDisk: boolean;
   /** Batch size for cleanup operations */
   cleanupBatchSize: number;
+  /** Encrypts stored text and keys entries by keyed hash (see encryption.ts) */
+  cipher?: FieldCipher;
 }
 
 // ============================================================================
@@ -75,7 +79,7 @@ function deserializeVector(data: string): number[] {
   return JSON.parse(data);
 }
 
-function getDefaultDbPath(): string {
+export function getDefaultCacheDbPath(): string {
   const home = homedir();
   const dbDir = join(home, '.openclaw', 'memory', 'cache');
   
@@ -116,12 +120,13 @@ export class PersistentEmbeddingCache {
 
     try {
       if (this.config.persistToDisk) {
-        const dbPath = this.config.dbPath || getDefaultDbPath();
+        const dbPath = this.config.dbPath || getDefaultCacheDbPath();
         this.db = new DatabaseConstructor(dbPath) as unknown as Database;
         (this.db as any).pragma('journal_mode = WAL');
         (this.db as any).pragma('cache_size = -64000'); // 64MB cache
         
         this.createTables();
+        this.purgePlaintextEntries();
         this.loadFromDisk();
         this.cleanupOldEntries();
       }
@@ -159,6 +164,20 @@ export class PersistentEmbeddingCache {
     `);
   }
 
+  /** With encryption enabled, drop entries written in plaintext (their keys are plain hashes of the text too) */
+  private purgePlaintextEntries(): void {
+    if (!this.db || !this.config.cipher) return;
+
+    try {
+      const result = this.db.prepare('DELETE FROM embedding_cache WHERE text NOT LIKE ?').run(`${ENCRYPTED_PREFIX}%`);
+      if (result.changes > 0) {
+        console.log(`[PersistentEmbeddingCache] Removed ${result.changes} unencrypted entries`);
+      }
+    } catch (error) {
+      console.warn('[PersistentEmbeddingCache] Failed to remove unencrypted entries:', error);
+    }
+  }
+
   private loadFromDisk(): void {
     if (!this.db) return;
 
@@ -191,8 +210,14 @@ export class PersistentEmbeddingCache {
   // Core Cache Operations
   // ============================================================================
 
+  private keyFor(text: string, task?: string): string {
+    return this.config.cipher
+      ? this.config.cipher.digest(`${task || ''}:${text}`, 24)
+      : computeTextHash(text, task);
+  }
+
   get(text: string, task?: string): number[] | undefined {
-    const key = computeTextHash(text, task);
+    const key = this.keyFor(text, task);
     const entry = this.memoryCache.get(key);
 
     if (!entry) {
@@ -234,7 +259,7 @@ export class PersistentEmbeddingCache {
   }
 
   set(text: string, task: string | undefined, vector: number[]): void {
-    const key = computeTextHash(text, task);
+    const key = this.keyFor(text, task);
     
     // Check if already exists
     if (this.memoryCache.has(key)) {
@@ -265,7 +290,8 @@ export class PersistentEmbeddingCache {
           (text_hash, text, vector, created_at, access_count, last_accessed_at)
           VALUES (?, ?, ?, ?, ?, ?)
         `);
-        stmt.run(key, text, serializeVector(vector), entry.createdAt, entry.accessCount, entry.lastAccessedAt);
+        const storedText = this.config.cipher ? this.config.cipher.encrypt(text) : text;
+        stmt.run(key, storedText, serializeVector(vector), entry.createdAt, entry.accessCount, entry.lastAccessedAt);
       } catch (error) {
         console.warn('[PersistentEmbeddingCache] Failed to persist entry:', error);
       }
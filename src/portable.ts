@@ -0,0 +1,587 @@
+/**
+ * Portable Export Format
+ * Versioned NDJSON for moving memories between databases and machines:
+ * - A header line (format, version, embedding fingerprint), one line per memory, a footer with the count
+ * - Vectors are optional, and reused on import when the embedding fingerprint matches
+ * - Streams in both directions, so exports of any size run in bounded memory
+ * - The footer carries a digest of every memory, to verify a file against itself or a live table
+ * - Reads gzipped files, and the legacy JSON export and JSONL backups
+ * - Backups of an encrypted store seal each memory's text and metadata with the store's key
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import { createGunzip, gunzipSync } from "node:zlib";
+import type { MemoryEntry, MemoryStore } from "./store.js";
+import type { Embedder, EmbeddingModelInfo } from "./embedder.js";
+import type { MemoryDeduplicator } from "./dedupe.js";
+import type { PendingWriteQueue } from "./write-queue.js";
+import type { SensitiveDataScanner } from "./sensitive.js";
+import type { MemoryFilter } from "./filters.js";
+import { encryptedKeyId, isEncryptedValue, type FieldCipher } from "./encryption.js";
+import { validateScopeFormat } from "./scopes.js";
+import { normalizeTags } from "./tags.js";
+import { isExpired } from "./expiry.js";
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export const EXPORT_FORMAT = "openclaw-memory-export";
+export const EXPORT_FORMAT_VERSION = 3;
+/** Version of exports without sealed memories; earlier releases read it, version 3 only adds `encryption` */
+const PLAINTEXT_EXPORT_VERSION = 2;
+
+const CATEGORIES: ReadonlyArray<MemoryEntry["category"]> = ["preference", "fact", "decision", "entity", "other"];
+
+export interface ExportHeader {
+  type: "header";
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Model that produced the vectors; null when unknown */
+  embedding: (EmbeddingModelInfo & { fingerprint: string }) | null;
+  /** Whether memory lines carry vectors */
+  vectors: boolean;
+  filters?: { scope?: string; category?: string };
+  /** Key that sealed each memory's text and metadata; absent when they're plaintext */
+  encryption?: { keyId: string };
+}
+
+export interface ExportedMemory {
+  type: "memory";
+  id: string;
+  text: string;
+  category: MemoryEntry["category"];
+  scope: string;
+  importance: number;
+  timestamp: number;
+  metadata: string;
+  tags: string[];
+  supersededBy?: string;
+  expiresAt?: number;
+  vector?: number[];
+}
+
+export interface ExportFooter {
+  type: "footer";
+  count: number;
+  /** sha256 over the memoryHash() of every memory line, in file order */
+  sha256?: string;
+}
+
+/**
+ * - merge: new ids, through the dedupe policy (near-duplicates are skipped or merged)
+ * - preserve-ids: keep exported ids; memories whose id already exists are left alone
+ */
+export type ImportMode = "merge" | "preserve-ids";
+
+export const IMPORT_MODES: readonly ImportMode[] = ["merge", "preserve-ids"];
+
+export interface ImportOptions {
+  mode: ImportMode;
+  /** Put every memory into this scope */
+  scope?: string;
+  /** Exported scope → target scope; unmapped scopes are kept */
+  scopeMap?: Map<string, string>;
+  /** Only import memories from these exported scopes */
+  onlyScopes?: string[];
+  /** preserve-ids: take memories that are in the trash back out instead of counting them as existing */
+  untrash?: boolean;
+  /** Validate and count without writing or embedding */
+  dryRun?: boolean;
+  /** Recorded in version history when a merge changes an existing memory */
+  changedBy?: string;
+}
+
+export interface ImportContext {
+  store: MemoryStore;
+  dedupe: MemoryDeduplicator;
+  /** Needed for memories without a reusable vector */
+  embedder?: Pick<Embedder, "embedPassage" | "getModelInfo">;
+  /** Merge-mode memories that fail to embed are queued here */
+  pendingWrites?: PendingWriteQueue;
+  /** Secret/PII policy applied to each memory's text */
+  sensitiveData?: SensitiveDataScanner;
+  /** Opens the memories of an encrypted export (needs the key named in its header) */
+  cipher?: FieldCipher;
+}
+
+export interface ImportReport {
+  format: "ndjson" | "legacy-json";
+  version: number;
+  /** Memory lines read */
+  read: number;
+  imported: number;
+  /** Merged into an existing near-duplicate */
+  merged: number;
+  /** Dropped as a duplicate by the dedupe policy */
+  skipped: number;
+  /** preserve-ids: id already present (live or in the trash) */
+  existing: number;
+  /** Outside the selected scopes */
+  excluded: number;
+  /** preserve-ids with untrash: restored from the trash */
+  untrashed: number;
+  expired: number;
+  /** Embedding failed; queued for the background retry */
+  queued: number;
+  /** Not imported: the text has secrets or PII the policy blocks */
+  blocked: number;
+  /** Imported with secrets or PII redacted (always re-embedded) */
+  redacted: number;
+  reusedVectors: number;
+  embedded: number;
+  failures: Array<{ line: number; error: string }>;
+  /** The footer is missing or its count doesn't match: the file was probably cut off */
+  truncated: boolean;
+}
+
+// ============================================================================
+// Embedding Fingerprint
+// ============================================================================
+
+/** Short id of an embedding space; equal fingerprints mean vectors can be reused */
+export function embeddingFingerprint(info: EmbeddingModelInfo): string {
+  const key = `${info.provider}/${info.model}:${info.dimensions ?? "?"}:${info.taskPassage ?? ""}:${info.normalized ?? ""}`;
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export function toExportedMemory(entry: MemoryEntry, includeVector: boolean): ExportedMemory {
+  return {
+    type: "memory",
+    id: entry.id,
+    text: entry.text,
+    category: entry.category,
+    scope: entry.scope,
+    importance: entry.importance,
+    timestamp: entry.timestamp,
+    metadata: entry.metadata || "{}",
+    tags: entry.tags ?? [],
+    supersededBy: entry.supersededBy || undefined,
+    expiresAt: entry.expiresAt || undefined,
+    vector: includeVector ? Array.from(entry.vector) : undefined,
+  };
+}
+
+/**
+ * Content hash of an exported memory (vector excluded, so re-embedding doesn't
+ * count as a change). Live entries hash the same through toExportedMemory().
+ */
+export function memoryHash(memory: ExportedMemory): string {
+  const canonical = [
+    memory.id,
+    memory.text,
+    memory.category,
+    memory.scope,
+    memory.importance,
+    memory.timestamp,
+    memory.metadata || "{}",
+    memory.tags ?? [],
+    memory.supersededBy ?? null,
+    memory.expiresAt ?? null,
+  ];
+  return createHash("sha256").update(JSON.stringify(canonical)).digest("hex").slice(0, 32);
+}
+
+/**
+ * Write live memories as NDJSON lines (without trailing newlines) through
+ * `write`, which may return a promise to apply backpressure. With a cipher,
+ * text and metadata are sealed under its active key; the digest stays over
+ * the plaintext, so a sealed file verifies against the live table. Returns
+ * how many memories were written.
+ */
+export async function exportMemories(
+  store: MemoryStore,
+  write: (line: string) => void | Promise<void>,
+  options: {
+    scopeFilter?: string[];
+    filter?: MemoryFilter;
+    includeVectors?: boolean;
+    embedding?: EmbeddingModelInfo | null;
+    filters?: ExportHeader["filters"];
+    cipher?: FieldCipher;
+  } = {}
+): Promise<number> {
+  const { cipher } = options;
+  const header: ExportHeader = {
+    type: "header",
+    format: EXPORT_FORMAT,
+    version: cipher ? EXPORT_FORMAT_VERSION : PLAINTEXT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    embedding: options.embedding ? { ...options.embedding, fingerprint: embeddingFingerprint(options.embedding) } : null,
+    vectors: !!options.includeVectors,
+    filters: options.filters,
+    encryption: cipher ? { keyId: cipher.activeKeyId } : undefined,
+  };
+  await write(JSON.stringify(header));
+
+  let count = 0;
+  const digest = createHash("sha256");
+  for await (const entry of store.iterate(options.scopeFilter, options.filter)) {
+    const memory = toExportedMemory(entry, !!options.includeVectors);
+    digest.update(memoryHash(memory));
+    await write(JSON.stringify(cipher
+      ? { ...memory, text: cipher.encrypt(memory.text), metadata: cipher.encrypt(memory.metadata) }
+      : memory));
+    count++;
+  }
+
+  const footer: ExportFooter = { type: "footer", count, sha256: digest.digest("hex") };
+  await write(JSON.stringify(footer));
+  return count;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+export interface ExportLine {
+  /** 1-based line number (entry number for legacy files) */
+  line: number;
+  record?: any;
+  error?: string;
+}
+
+function legacyHeader(exportedAt?: string) {
+  return { type: "header", format: EXPORT_FORMAT, version: 1, exportedAt, embedding: null, vectors: false };
+}
+
+/**
+ * Records of an export file (gzipped if it ends in `.gz`), line by line.
+ * NDJSON is streamed. Older formats are presented as a version 1 header
+ * followed by memory records: JSONL backups (one memory per line, no header)
+ * stream too, a legacy JSON export (`{"memories": [...]}`) is read whole.
+ */
+export async function* readExport(path: string): AsyncGenerator<ExportLine> {
+  const source = createReadStream(path);
+  const input = path.endsWith(".gz") ? source.pipe(createGunzip()) : source;
+  input.setEncoding("utf-8");
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+  let sawHeader = false;
+  let headerless = false;
+  let memories = 0;
+
+  for await (const text of lines) {
+    lineNumber++;
+    if (!text.trim()) continue;
+
+    let record: any;
+    try {
+      record = JSON.parse(text);
+    } catch (error) {
+      if (!sawHeader) {
+        // Not a complete JSON value on one line: a pretty-printed legacy export
+        lines.close();
+        source.destroy();
+        yield* readLegacyExport(path);
+        return;
+      }
+      yield { line: lineNumber, error: `invalid JSON (${error instanceof Error ? error.message : String(error)})` };
+      continue;
+    }
+
+    if (!sawHeader) {
+      sawHeader = true;
+      if (record?.type !== "header") {
+        if (typeof record?.text !== "string") {
+          lines.close();
+          source.destroy();
+          yield* readLegacyExport(path);
+          return;
+        }
+        headerless = true;
+        yield { line: 0, record: legacyHeader() };
+      }
+    }
+
+    if (headerless) {
+      memories++;
+      yield { line: lineNumber, record: { ...record, type: "memory" } };
+    } else {
+      yield { line: lineNumber, record };
+    }
+  }
+
+  if (headerless) {
+    yield { line: lineNumber + 1, record: { type: "footer", count: memories } };
+  }
+}
+
+async function* readLegacyExport(path: string): AsyncGenerator<ExportLine> {
+  const raw = await readFile(path);
+  const data = JSON.parse((path.endsWith(".gz") ? gunzipSync(raw) : raw).toString("utf-8"));
+  if (!data || !Array.isArray(data.memories)) {
+    throw new Error("Invalid import file format: expected an NDJSON export or a JSON export with a \"memories\" array");
+  }
+
+  yield { line: 0, record: legacyHeader(data.exportedAt) };
+  for (let i = 0; i < data.memories.length; i++) {
+    yield { line: i + 1, record: { ...data.memories[i], type: "memory" } };
+  }
+  yield { line: data.memories.length + 1, record: { type: "footer", count: data.memories.length } };
+}
+
+/** `["agent:old=agent:new", ...]` → map. Both sides must be valid scope names. */
+export function parseScopeMap(specs: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const spec of specs) {
+    const eq = spec.indexOf("=");
+    const from = spec.slice(0, eq).trim();
+    const to = spec.slice(eq + 1).trim();
+    if (eq <= 0 || !to) {
+      throw new Error(`Invalid scope mapping "${spec}" (expected from=to)`);
+    }
+    const validation = validateScopeFormat(to);
+    if (!validation.valid) {
+      throw new Error(`Invalid target scope "${to}": ${validation.error}`);
+    }
+    map.set(from, to);
+  }
+  return map;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+/** Throws unless `cipher` can open an export whose header names `encryption` */
+export function checkExportCipher(header: Pick<ExportHeader, "encryption">, cipher?: FieldCipher): void {
+  if (header.encryption && !cipher) {
+    throw new Error(
+      `Export is encrypted with key ${header.encryption.keyId}; enable encryption with the keyring that holds it to read it`
+    );
+  }
+}
+
+function openField(value: unknown, field: string, cipher?: FieldCipher): unknown {
+  if (!isEncryptedValue(value)) return value;
+  if (!cipher) throw new Error(`"${field}" is encrypted with key ${encryptedKeyId(value)}; encryption is not enabled`);
+  return cipher.decrypt(value);
+}
+
+/**
+ * Validate one exported memory (v1 to v3) and fill defaults, opening sealed
+ * text and metadata with `cipher`. Throws with a reason.
+ */
+export function toImportedMemory(record: any, cipher?: FieldCipher): ExportedMemory {
+  const raw = { ...record, text: openField(record.text, "text", cipher), metadata: openField(record.metadata, "metadata", cipher) };
+  if (typeof raw.text !== "string" || raw.text.trim().length < 2) {
+    throw new Error("missing or too short \"text\"");
+  }
+
+  const category = raw.category ?? "other";
+  if (!CATEGORIES.includes(category)) {
+    throw new Error(`unknown category "${category}"`);
+  }
+
+  const importance = raw.importance ?? 0.7;
+  if (typeof importance !== "number" || !Number.isFinite(importance) || importance < 0 || importance > 1) {
+    throw new Error(`invalid importance ${JSON.stringify(raw.importance)}`);
+  }
+
+  const metadata = raw.metadata === undefined || raw.metadata === null
+    ? "{}"
+    : typeof raw.metadata === "string" ? raw.metadata : JSON.stringify(raw.metadata);
+
+  if (raw.vector !== undefined && (!Array.isArray(raw.vector) || raw.vector.some((v: unknown) => typeof v !== "number"))) {
+    throw new Error("\"vector\" must be an array of numbers");
+  }
+
+  return {
+    type: "memory",
+    id: typeof raw.id === "string" ? raw.id : "",
+    text: raw.text,
+    category,
+    scope: typeof raw.scope === "string" && raw.scope ? raw.scope : "global",
+    importance,
+    timestamp: toTime(raw.timestamp) ?? toTime(raw.createdAt) ?? Date.now(),
+    metadata,
+    tags: normalizeTags(raw.tags),
+    supersededBy: typeof raw.supersededBy === "string" && raw.supersededBy ? raw.supersededBy : undefined,
+    expiresAt: toTime(raw.expiresAt) || undefined,
+    vector: raw.vector,
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Import an NDJSON (or legacy JSON) export. Each memory line succeeds or
+ * fails on its own; failures are reported with their line number and don't
+ * stop the import.
+ */
+export async function importMemories(path: string, context: ImportContext, options: ImportOptions): Promise<ImportReport> {
+  const { store, dedupe, embedder, pendingWrites, sensitiveData, cipher } = context;
+  const changedBy = options.changedBy ?? "import";
+  const targetFingerprint = embedder ? embeddingFingerprint(embedder.getModelInfo()) : null;
+
+  const report: ImportReport = {
+    format: "ndjson",
+    version: EXPORT_FORMAT_VERSION,
+    read: 0,
+    imported: 0,
+    merged: 0,
+    skipped: 0,
+    existing: 0,
+    excluded: 0,
+    untrashed: 0,
+    expired: 0,
+    queued: 0,
+    blocked: 0,
+    redacted: 0,
+    reusedVectors: 0,
+    embedded: 0,
+    failures: [],
+    truncated: true,
+  };
+  let reuseVectors = false;
+
+  for await (const { line, record, error } of readExport(path)) {
+    if (error) {
+      report.failures.push({ line, error });
+      continue;
+    }
+
+    if (record?.type === "header") {
+      if (record.format !== EXPORT_FORMAT || typeof record.version !== "number") {
+        throw new Error(`Not a memory export (format ${JSON.stringify(record.format)})`);
+      }
+      if (record.version > EXPORT_FORMAT_VERSION) {
+        throw new Error(`Export format version ${record.version} is newer than supported (${EXPORT_FORMAT_VERSION})`);
+      }
+      checkExportCipher(record, cipher);
+      report.version = record.version;
+      report.format = record.version === 1 ? "legacy-json" : "ndjson";
+      reuseVectors = !!record.vectors && !!targetFingerprint && record.embedding?.fingerprint === targetFingerprint;
+      continue;
+    }
+    if (record?.type === "footer") {
+      report.truncated = record.count !== report.read;
+      continue;
+    }
+    if (record?.type !== "memory") {
+      report.failures.push({ line, error: `unknown record type ${JSON.stringify(record?.type)}` });
+      continue;
+    }
+
+    report.read++;
+    try {
+      const memory = toImportedMemory(record, cipher);
+      if (options.onlyScopes && !options.onlyScopes.includes(memory.scope)) {
+        report.excluded++;
+        continue;
+      }
+      if (isExpired(memory.expiresAt)) {
+        report.expired++;
+        continue;
+      }
+
+      const scope = options.scope ?? options.scopeMap?.get(memory.scope) ?? memory.scope;
+      const scopeCheck = validateScopeFormat(scope);
+      if (!scopeCheck.valid) {
+        throw new Error(`invalid scope "${scope}": ${scopeCheck.error}`);
+      }
+
+      if (options.mode === "preserve-ids") {
+        if (!memory.id) throw new Error("preserve-ids needs an \"id\" on every memory");
+        if (await store.hasId(memory.id)) {
+          const trashed = options.untrash && (await store.getByIds([memory.id])).length === 0;
+          if (trashed && (options.dryRun || await store.restore(memory.id))) report.untrashed++;
+          else report.existing++;
+          continue;
+        }
+      }
+
+      if (sensitiveData) {
+        const screened = options.dryRun
+          ? sensitiveData.evaluate(memory.text)
+          : await sensitiveData.scan(memory.text, { source: changedBy, scope });
+        if (screened.action === "block") {
+          report.blocked++;
+          continue;
+        }
+        if (screened.action === "redact") {
+          memory.text = screened.text;
+          memory.vector = undefined;
+          report.redacted++;
+        }
+      }
+
+      const reusable = reuseVectors && memory.vector?.length === store.vectorDim;
+      if (options.dryRun) {
+        if (!reusable && !embedder) throw new Error("needs embedding, but no embedder is available");
+        if (reusable) report.reusedVectors++;
+        report.imported++;
+        continue;
+      }
+
+      let vector: number[];
+      if (reusable) {
+        vector = memory.vector!;
+        report.reusedVectors++;
+      } else {
+        if (!embedder) throw new Error("needs embedding, but no embedder is available");
+        try {
+          vector = await embedder.embedPassage(memory.text);
+          report.embedded++;
+        } catch (embedError) {
+          // A queued write gets a new id, so only merge-mode memories can wait for embedding
+          if (options.mode !== "merge" || !pendingWrites) throw embedError;
+          pendingWrites.enqueue({
+            text: memory.text,
+            category: memory.category,
+            scope,
+            importance: memory.importance,
+            metadata: memory.metadata,
+            tags: memory.tags,
+            expiresAt: memory.expiresAt,
+            source: "import",
+          }, embedError);
+          report.queued++;
+          continue;
+        }
+      }
+
+      const entry = {
+        text: memory.text,
+        vector,
+        category: memory.category,
+        scope,
+        importance: memory.importance,
+        timestamp: memory.timestamp,
+        metadata: memory.metadata,
+        tags: memory.tags,
+        expiresAt: memory.expiresAt,
+      };
+
+      if (options.mode === "preserve-ids") {
+        await store.importEntry({ ...entry, id: memory.id, supersededBy: memory.supersededBy });
+        report.imported++;
+      } else {
+        const result = await dedupe.write({ ...entry, id: randomUUID() }, { changedBy });
+        if (result.action === "created") report.imported++;
+        else if (result.action === "merged") report.merged++;
+        else report.skipped++;
+      }
+    } catch (lineError) {
+      report.failures.push({ line, error: lineError instanceof Error ? lineError.message : String(lineError) });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,321 @@
+/**
+ * Cross-Encoder Reranker Providers
+ * - Common Reranker interface used by MemoryRetriever
+ * - Provider registry with request/response adapters
+ * - Per-provider default endpoint, model and timeout
+ * - Timeout and retry handling for transient failures
+ */
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export type RerankProvider = "jina" | "siliconflow" | "pinecone" | "cohere" | "voyage" | "tei";
+
+export interface RerankScore {
+  /** Index into the documents array passed to rerank() */
+  index: number;
+  /** Relevance score, normalized to [0, 1] by the provider */
+  score: number;
+}
+
+export interface Reranker {
+  readonly provider: string;
+  readonly model?: string;
+  rerank(query: string, documents: string[]): Promise<RerankScore[]>;
+}
+
+export interface RerankerConfig {
+  provider: RerankProvider | string;
+  apiKey?: string;
+  model?: string;
+  endpoint?: string;
+  /** Request timeout in ms (default: provider-specific) */
+  timeoutMs?: number;
+  /** Extra attempts after a transient failure (timeout, network, 429, 5xx) */
+  retries?: number;
+}
+
+/**
+ * Adapter describing one provider's wire format.
+ * Register custom providers with registerRerankProvider().
+ */
+export interface RerankProviderAdapter {
+  defaultEndpoint?: string;
+  defaultModel?: string;
+  defaultTimeoutMs: number;
+  /** Keyless providers (self-hosted servers) can run without rerankApiKey */
+  requiresApiKey: boolean;
+  buildRequest(
+    config: RerankerConfig,
+    query: string,
+    documents: string[]
+  ): { headers: Record<string, string>; body: unknown };
+  parseResponse(data: unknown): RerankScore[];
+}
+
+const DEFAULT_RETRIES = 1;
+const RETRY_BASE_DELAY_MS = 250;
+
+// ============================================================================
+// Provider Adapters
+// ============================================================================
+
+function bearerHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+  return headers;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** `data[key]` when the response body is an object */
+function responseField(data: unknown, key: string): unknown {
+  return isRecord(data) ? data[key] : undefined;
+}
+
+/**
+ * Map `[{ index, <scoreField> }]` to scores. Anything else parses to nothing
+ * and malformed entries get NaN, which rerank() filters out.
+ */
+function parseResultsArray(items: unknown, scoreField: string): RerankScore[] {
+  if (!Array.isArray(items)) return [];
+  return items.map((item: unknown) => {
+    const index = responseField(item, "index");
+    const score = responseField(item, scoreField);
+    return {
+      index: typeof index === "number" ? index : NaN,
+      score: typeof score === "number" ? score : NaN,
+    };
+  });
+}
+
+/** Jina-style request: { model, query, documents: string[], top_n } */
+function jinaStyleRequest(config: RerankerConfig, query: string, documents: string[]) {
+  return {
+    headers: bearerHeaders(config.apiKey),
+    body: {
+      model: config.model,
+      query,
+      documents,
+      top_n: documents.length,
+    },
+  };
+}
+
+const RERANK_PROVIDERS = new Map<string, RerankProviderAdapter>([
+  ["jina", {
+    defaultEndpoint: "https://api.jina.ai/v1/rerank",
+    defaultModel: "jina-reranker-v2-base-multilingual",
+    defaultTimeoutMs: 5000,
+    requiresApiKey: true,
+    buildRequest: jinaStyleRequest,
+    parseResponse: (data) => parseResultsArray(responseField(data, "results"), "relevance_score"),
+  }],
+  ["siliconflow", {
+    defaultEndpoint: "https://api.siliconflow.com/v1/rerank",
+    defaultModel: "BAAI/bge-reranker-v2-m3",
+    defaultTimeoutMs: 8000,
+    requiresApiKey: true,
+    buildRequest: jinaStyleRequest,
+    parseResponse: (data) => parseResultsArray(responseField(data, "results"), "relevance_score"),
+  }],
+  ["pinecone", {
+    defaultEndpoint: "https://api.pinecone.io/rerank",
+    defaultModel: "bge-reranker-v2-m3",
+    defaultTimeoutMs: 5000,
+    requiresApiKey: true,
+    buildRequest: (config, query, documents) => ({
+      headers: {
+        "Content-Type": "application/json",
+        "Api-Key": config.apiKey || "",
+        "X-Pinecone-API-Version": "2024-10",
+      },
+      body: {
+        model: config.model,
+        query,
+        documents: documents.map(text => ({ text })),
+        top_n: documents.length,
+      },
+    }),
+    parseResponse: (data) => parseResultsArray(responseField(data, "data"), "score"),
+  }],
+  ["cohere", {
+    defaultEndpoint: "https://api.cohere.com/v2/rerank",
+    defaultModel: "rerank-v3.5",
+    defaultTimeoutMs: 5000,
+    requiresApiKey: true,
+    buildRequest: jinaStyleRequest,
+    parseResponse: (data) => parseResultsArray(responseField(data, "results"), "relevance_score"),
+  }],
+  ["voyage", {
+    defaultEndpoint: "https://api.voyageai.com/v1/rerank",
+    defaultModel: "rerank-2",
+    defaultTimeoutMs: 5000,
+    requiresApiKey: true,
+    buildRequest: (config, query, documents) => ({
+      headers: bearerHeaders(config.apiKey),
+      body: {
+        model: config.model,
+        query,
+        documents,
+        top_k: documents.length,
+      },
+    }),
+    parseResponse: (data) => parseResultsArray(responseField(data, "data"), "relevance_score"),
+  }],
+  // Self-hosted servers: HuggingFace TEI expects `texts` and returns a bare array,
+  // vLLM expects `documents` and returns Jina-style `results`. Send both, accept both.
+  ["tei", {
+    defaultEndpoint: "http://localhost:8080/rerank",
+    defaultTimeoutMs: 10000,
+    requiresApiKey: false,
+    buildRequest: (config, query, documents) => ({
+      headers: bearerHeaders(config.apiKey),
+      body: {
+        ...(config.model ? { model: config.model } : {}),
+        query,
+        texts: documents,
+        documents,
+        raw_scores: false,
+      },
+    }),
+    parseResponse: (data) => Array.isArray(data)
+      ? parseResultsArray(data, "score")
+      : parseResultsArray(responseField(data, "results"), "relevance_score"),
+  }],
+]);
+
+export function registerRerankProvider(name: string, adapter: RerankProviderAdapter): void {
+  RERANK_PROVIDERS.set(name, adapter);
+}
+
+export function getRerankProvider(name: string): RerankProviderAdapter | undefined {
+  return RERANK_PROVIDERS.get(name);
+}
+
+export function listRerankProviders(): string[] {
+  return Array.from(RERANK_PROVIDERS.keys());
+}
+
+// ============================================================================
+// HTTP Reranker
+// ============================================================================
+
+class RerankHttpError extends Error {
+  constructor(readonly status: number, statusText: string) {
+    super(`Rerank API error: ${status} ${statusText}`);
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof RerankHttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Timeouts (AbortError) and network failures (TypeError from fetch)
+  return true;
+}
+
+export class HttpReranker implements Reranker {
+  readonly provider: string;
+  readonly model?: string;
+  private config: RerankerConfig;
+  private adapter: RerankProviderAdapter;
+  private endpoint: string;
+  private timeoutMs: number;
+  private retries: number;
+
+  constructor(config: RerankerConfig, adapter: RerankProviderAdapter) {
+    this.provider = config.provider;
+    this.model = config.model || adapter.defaultModel;
+    this.config = { ...config, model: this.model };
+    this.adapter = adapter;
+
+    const endpoint = config.endpoint || adapter.defaultEndpoint;
+    if (!endpoint) {
+      throw new Error(`Reranker provider '${config.provider}' requires rerankEndpoint`);
+    }
+    this.endpoint = endpoint;
+    this.timeoutMs = config.timeoutMs && config.timeoutMs > 0 ? config.timeoutMs : adapter.defaultTimeoutMs;
+    this.retries = Math.max(0, Math.floor(config.retries ?? DEFAULT_RETRIES));
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const { headers, body } = this.adapter.buildRequest(this.config, query, documents);
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
+
+      try {
+        const data = await this.post(headers, body);
+        return this.adapter
+          .parseResponse(data)
+          .filter(s => Number.isInteger(s.index) && s.index >= 0 && s.index < documents.length && Number.isFinite(s.score));
+      } catch (error) {
+        lastError = error;
+        if (!isRetryable(error)) break;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async post(headers: Record<string, string>, body: unknown): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new RerankHttpError(response.status, response.statusText);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Rerank request to ${this.provider} timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Build a reranker for the configured provider.
+ * Returns null when the provider needs an API key and none is configured.
+ */
+export function createReranker(config: RerankerConfig): Reranker | null {
+  const adapter = RERANK_PROVIDERS.get(config.provider);
+  if (!adapter) {
+    throw new Error(
+      `Unknown reranker provider: ${config.provider}. Available: ${listRerankProviders().join(", ")}`
+    );
+  }
+
+  if (adapter.requiresApiKey && !config.apiKey) {
+    return null;
+  }
+
+  return new HttpReranker(config, adapter);
+}
@@ -3,11 +3,20 @@
  * - Dynamic RRF weight adjustment based on query type
  * - Performance monitoring and logging
  * - Multi-stage scoring pipeline
+ * - Optional one-hop expansion over memory links
+ * - Access tracking with reinforcement of frequently recalled memories
+ * - Explain mode: score after every stage, and which candidates were dropped where
  */
 
 import type { MemoryStore, MemorySearchResult } from "./store.js";
 import type { Embedder } from "./embedder.js";
+import type { AccessTracker } from "./access-tracker.js";
 import { filterNoise } from "./noise-filter.js";
+import { cosineSimilarity, lightweightRerank, toNumberArray } from "./lightweight-reranker.js";
+import { createReranker, type Reranker, type RerankProvider } from "./rerankers.js";
+import { formatFilter, matchesFilter, mergeFilters, type MemoryFilter } from "./filters.js";
+import { linkLabel, otherEnd } from "./graph.js";
+import { effectiveImportance } from "./feedback.js";
 import { getLogger } from "./logger.js";
 
 // ============================================================================
@@ -27,19 +36,48 @@ export interface RetrievalConfig {
   rerankApiKey?: string;
   rerankModel?: string;
   rerankEndpoint?: string;
-  rerankProvider?: "jina" | "siliconflow" | "pinecone";
+  rerankProvider?: RerankProvider;
+  /** Share of the final score taken from the reranker (default: 0.6) */
+  rerankBlendWeight: number;
+  /** Reranker request timeout in ms (default: provider-specific) */
+  rerankTimeoutMs?: number;
+  /** Retries after a transient reranker failure (default: 1) */
+  rerankRetries?: number;
   lengthNormAnchor: number;
   hardMinScore: number;
   timeDecayHalfLifeDays: number;
   /** Enable dynamic RRF weight adjustment (default: true) */
   dynamicWeights: boolean;
+  /** MMR relevance/diversity trade-off: 1 = pure relevance, 0 = pure diversity (default: 0.7) */
+  mmrLambda: number;
+  /** Memories replaced by a newer one: "demote" scales their score, "hide" drops them (default: "demote") */
+  supersededMode: "demote" | "hide";
+  /** Score multiplier for superseded memories in "demote" mode (default: 0.5) */
+  supersededPenalty: number;
+  /** Add memories linked to the top hits (one hop) after the main results (default: false) */
+  graphExpansion: boolean;
+  /** Max linked memories added per retrieval (default: 3) */
+  graphExpansionLimit: number;
+  /** Linked memory score as a share of the score of the hit it was reached from (default: 0.5) */
+  graphScoreFactor: number;
+  /** Max score boost for frequently recalled memories, e.g. 0.2 = up to +20%; 0 disables (default: 0.2) */
+  reinforcementWeight: number;
+  /** Reinforcement halves for every this many days since the last recall; 0 = no decay (default: 30) */
+  accessHalfLifeDays: number;
 }
 
+/** The part of the embedder retrieval needs; evaluation runs substitute offline implementations */
+export type QueryEmbedder = Pick<Embedder, "embedQuery">;
+
 export interface RetrievalContext {
   query: string;
   limit: number;
   scopeFilter?: string[];
   category?: string;
+  /** Structured conditions over columns and metadata keys (see filters.ts) */
+  filter?: MemoryFilter;
+  /** Count returned memories as accessed (default: true; off for lookups and health checks) */
+  trackAccess?: boolean;
 }
 
 export interface RetrievalResult extends MemorySearchResult {
@@ -48,7 +86,44 @@ export interface RetrievalResult extends MemorySearchResult {
     bm25?: { score: number; rank: number };
     fused?: { score: number };
     reranked?: { score: number };
+    mmr?: { similarity: number; penalty: number };
+    /** Reached through a link from `from`; `link` reads from the linked memory's side */
+    graph?: { from: string; link: string };
+    reinforcement?: { accessCount: number; factor: number };
   };
+  /** Score after each pipeline stage; only set by explain() */
+  trace?: ScoreTraceStep[];
+}
+
+/** Score of a candidate after one pipeline stage */
+export interface ScoreTraceStep {
+  stage: string;
+  score: number;
+  /** Stage detail, e.g. a rank or factor */
+  note?: string;
+}
+
+/** A candidate that was found but didn't make it into the results */
+export interface DroppedCandidate {
+  id: string;
+  text: string;
+  /** Stage that removed it: superseded, hardMinScore, mmr, limit or noise */
+  stage: string;
+  reason: string;
+  /** Score when it was dropped */
+  score: number;
+  trace: ScoreTraceStep[];
+}
+
+export interface RetrievalExplanation {
+  query: string;
+  weights: { vectorWeight: number; bm25Weight: number; dynamic: boolean };
+  /** Candidates returned by each search (the vector search already leaves out scores below minScore) */
+  candidates: { vector: number; bm25: number };
+  thresholds: { minScore: number; hardMinScore: number };
+  /** Final results, each with its trace */
+  results: RetrievalResult[];
+  dropped: DroppedCandidate[];
 }
 
 // ============================================================================
@@ -65,14 +140,24 @@ export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   recencyHalfLifeDays: 14,
   recencyWeight: 0.10,
   filterNoise: true,
-  rerankModel: "jina-reranker-v2-base-multilingual",
-  rerankEndpoint: "https://api.jina.ai/v1/rerank",
+  rerankBlendWeight: 0.6,
   lengthNormAnchor: 500,
   hardMinScore: 0.35,
   timeDecayHalfLifeDays: 60,
   dynamicWeights: true,
+  mmrLambda: 0.7,
+  supersededMode: "demote",
+  supersededPenalty: 0.5,
+  graphExpansion: false,
+  graphExpansionLimit: 3,
+  graphScoreFactor: 0.5,
+  reinforcementWeight: 0.2,
+  accessHalfLifeDays: 30,
 };
 
+/** Access count at which reinforcement reaches its maximum */
+const ACCESS_SATURATION = 20;
+
 // ============================================================================
 // Query Type Detection for Dynamic Weights
 // ============================================================================
@@ -117,23 +202,21 @@ function clamp01(value: number, fallback: number): number {
   return Math.min(1, Math.max(0, value));
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error("Vector dimensions must match");
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
+/** Record a result's score after a stage; no-op outside explain mode */
+function traceStep(result: RetrievalResult, stage: string, note?: string): void {
+  result.trace?.push({ stage, score: result.score, note });
+}
 
-  if (normA === 0 || normB === 0) return 0;
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+/** Record a candidate removed by a stage; no-op outside explain mode */
+function dropCandidate(dropped: DroppedCandidate[] | null, result: RetrievalResult, stage: string, reason: string): void {
+  dropped?.push({
+    id: result.entry.id,
+    text: result.entry.text,
+    stage,
+    reason,
+    score: result.score,
+    trace: result.trace ?? [],
+  });
 }
 
 // ============================================================================
@@ -143,13 +226,27 @@ function cosineSimilarity(a: number[], b: number[]): number {
 export class MemoryRetriever {
   private config: RetrievalConfig;
   private store: MemoryStore;
-  private embedder: Embedder;
+  private embedder: QueryEmbedder;
+  private reranker: Reranker | null = null;
+  private accessTracker: AccessTracker | null;
   private logger = getLogger();
 
-  constructor(store: MemoryStore, embedder: Embedder, config: Partial<RetrievalConfig> = {}) {
+  constructor(store: MemoryStore, embedder: QueryEmbedder, config: Partial<RetrievalConfig> = {}, accessTracker?: AccessTracker) {
     this.store = store;
     this.embedder = embedder;
     this.config = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+    this.accessTracker = accessTracker ?? null;
+
+    if (this.config.rerank === 'cross-encoder') {
+      this.reranker = createReranker({
+        provider: this.config.rerankProvider || 'jina',
+        apiKey: this.config.rerankApiKey,
+        model: this.config.rerankModel,
+        endpoint: this.config.rerankEndpoint,
+        timeoutMs: this.config.rerankTimeoutMs,
+        retries: this.config.rerankRetries,
+      });
+    }
   }
 
   getConfig(): RetrievalConfig {
@@ -161,16 +258,52 @@ export class MemoryRetriever {
   // ============================================================================
 
   async retrieve(context: RetrievalContext): Promise<RetrievalResult[]> {
+    return (await this.run(context, null)).results;
+  }
+
+  /**
+   * Same as retrieve(), but every result carries its score after each
+   * pipeline stage, and candidates removed along the way are listed with the
+   * stage and reason.
+   */
+  async explain(context: RetrievalContext): Promise<RetrievalExplanation> {
+    const dropped: DroppedCandidate[] = [];
+    const { results, weights, candidates } = await this.run(context, dropped);
+
+    return {
+      query: context.query,
+      weights: { ...weights, dynamic: this.config.dynamicWeights },
+      candidates,
+      thresholds: { minScore: this.config.minScore, hardMinScore: this.config.hardMinScore },
+      results,
+      dropped,
+    };
+  }
+
+  /** The retrieval pipeline; collects dropped candidates and traces when `dropped` is given */
+  private async run(
+    context: RetrievalContext,
+    dropped: DroppedCandidate[] | null
+  ): Promise<{
+    results: RetrievalResult[];
+    weights: { vectorWeight: number; bm25Weight: number };
+    candidates: { vector: number; bm25: number };
+  }> {
     const timerId = this.logger.perfStart('MemoryRetriever', 'retrieve');
     
     try {
       const { query, limit, scopeFilter, category } = context;
+      const filter = mergeFilters(
+        context.filter,
+        category ? { conditions: [{ field: 'category', op: '=', value: category }] } : undefined
+      );
 
       this.logger.debug('MemoryRetriever', 'Starting retrieval', {
         query: query.slice(0, 50),
         limit,
         scopeFilter,
         category,
+        filter: filter ? formatFilter(filter) : undefined,
         mode: this.config.mode,
       });
 
@@ -182,11 +315,12 @@ export class MemoryRetriever {
         queryVector,
         this.config.candidatePoolSize,
         this.config.minScore,
-        scopeFilter
+        scopeFilter,
+        filter
       );
 
       const bm25Results = this.config.mode === 'hybrid'
-        ? await this.store.bm25Search(query, this.config.candidatePoolSize, scopeFilter)
+        ? await this.store.bm25Search(query, this.config.candidatePoolSize, scopeFilter, filter)
         : [];
 
       this.logger.debug('MemoryRetriever', 'Search completed', {
@@ -195,10 +329,23 @@ export class MemoryRetriever {
       });
 
       // Step 3: Fusion and scoring
-      let results = await this.fuseAndScore(vectorResults, bm25Results, query);
+      const weights = this.config.dynamicWeights
+        ? computeDynamicWeights(query)
+        : { vectorWeight: this.config.vectorWeight, bm25Weight: this.config.bm25Weight };
+      let results = await this.fuseAndScore(vectorResults, bm25Results, query, queryVector, weights, dropped);
 
       // Step 4: Apply filters and limits
-      results = this.applyFinalProcessing(results, limit);
+      results = this.applyFinalProcessing(results, limit, dropped);
+
+      // Step 5: Expand top hits with linked memories
+      if (this.config.graphExpansion && results.length > 0) {
+        results = await this.expandWithLinks(results, scopeFilter, filter);
+      }
+
+      // Step 6: Count hits (buffered, written in the background)
+      if (this.accessTracker && context.trackAccess !== false) {
+        this.accessTracker.record(results.map(r => r.entry.id));
+      }
 
       const duration = this.logger.perfEnd(timerId);
       this.logger.trackRetrieval(duration);
@@ -207,7 +354,11 @@ export class MemoryRetriever {
         duration,
       });
 
-      return results;
+      return {
+        results,
+        weights,
+        candidates: { vector: vectorResults.length, bm25: bm25Results.length },
+      };
     } catch (error) {
       this.logger.perfEnd(timerId);
       this.logger.error('MemoryRetriever', 'Retrieval failed', error);
@@ -222,13 +373,11 @@ export class MemoryRetriever {
   private async fuseAndScore(
     vectorResults: MemorySearchResult[],
     bm25Results: MemorySearchResult[],
-    query: string
+    query: string,
+    queryVector: number[],
+    weights: { vectorWeight: number; bm25Weight: number },
+    dropped: DroppedCandidate[] | null
   ): Promise<RetrievalResult[]> {
-    // Compute dynamic weights if enabled
-    const weights = this.config.dynamicWeights 
-      ? computeDynamicWeights(query)
-      : { vectorWeight: this.config.vectorWeight, bm25Weight: this.config.bm25Weight };
-
     this.logger.debug('MemoryRetriever', 'Using weights', {
       vectorWeight: weights.vectorWeight,
       bm25Weight: weights.bm25Weight,
@@ -247,6 +396,7 @@ export class MemoryRetriever {
           sources: {
             vector: { score: result.score, rank: idx + 1 },
           },
+          trace: dropped ? [{ stage: 'vector', score: result.score, note: `rank ${idx + 1}` }] : undefined,
         },
         vectorRank: idx + 1,
       });
@@ -259,6 +409,7 @@ export class MemoryRetriever {
         // Already in vector results - boost score
         existing.result.score += result.score * weights.bm25Weight;
         existing.result.sources.bm25 = { score: result.score, rank: idx + 1 };
+        existing.result.trace?.push({ stage: 'bm25', score: result.score, note: `rank ${idx + 1}` });
         existing.bm25Rank = idx + 1;
       } else {
         // Only in BM25 results
@@ -269,6 +420,7 @@ export class MemoryRetriever {
             sources: {
               bm25: { score: result.score, rank: idx + 1 },
             },
+            trace: dropped ? [{ stage: 'bm25', score: result.score, note: `rank ${idx + 1}` }] : undefined,
           },
           bm25Rank: idx + 1,
         });
@@ -278,34 +430,68 @@ export class MemoryRetriever {
     // Convert to array and apply multi-stage scoring
     let results = Array.from(combined.values()).map(item => {
       const result = item.result;
+      traceStep(result, 'fusion', `vector ×${weights.vectorWeight.toFixed(2)}, bm25 ×${weights.bm25Weight.toFixed(2)}`);
       
       // Apply recency boost
       result.score = this.applyRecencyBoost(result, item.result.entry.timestamp);
+      traceStep(result, 'recency');
       
-      // Apply importance weight
-      result.score *= (0.7 + 0.3 * result.entry.importance);
+      // Apply importance weight (including relevance feedback)
+      const importance = effectiveImportance(result.entry);
+      result.score *= (0.7 + 0.3 * importance);
+      traceStep(result, 'importance', `effective ${importance.toFixed(2)}`);
+
+      // Apply reinforcement from past recalls
+      result.score = this.applyReinforcement(result);
+      traceStep(result, 'reinforcement', result.sources.reinforcement ? `${result.sources.reinforcement.accessCount} recalls` : undefined);
       
       // Apply length normalization
       result.score = this.applyLengthNormalization(result, result.entry.text.length);
+      traceStep(result, 'lengthNorm', `${result.entry.text.length} chars`);
       
       return result;
     });
 
     // Apply reranking if enabled
-    if (this.config.rerank === 'cross-encoder' && this.config.rerankApiKey) {
-      results = await this.applyReranking(results, query);
+    if (this.config.rerank === 'cross-encoder' && this.reranker) {
+      results = await this.applyReranking(results, query, queryVector);
+    } else if (this.config.rerank === 'lightweight') {
+      results = this.applyLightweightReranking(results, query, queryVector);
+    }
+    if (this.config.rerank !== 'none') {
+      results.forEach(result => traceStep(result, 'rerank', result.sources.reranked ? `reranker ${result.sources.reranked.score.toFixed(3)}` : undefined));
     }
 
     // Apply time decay
     results.forEach(result => {
       result.score = this.applyTimeDecay(result, result.entry.timestamp);
+      traceStep(result, 'timeDecay');
     });
 
+    // Hide or demote memories a newer one has replaced (after reranking, which would undo a demotion)
+    if (this.config.supersededMode === 'hide') {
+      results = results.filter(result => {
+        if (!result.entry.supersededBy) return true;
+        dropCandidate(dropped, result, 'superseded', `superseded by ${result.entry.supersededBy.slice(0, 8)}`);
+        return false;
+      });
+    } else {
+      results.forEach(result => {
+        if (!result.entry.supersededBy) return;
+        result.score *= this.config.supersededPenalty;
+        traceStep(result, 'superseded', `by ${result.entry.supersededBy.slice(0, 8)}`);
+      });
+    }
+
     // Apply hard minimum score cutoff
-    results = results.filter(result => result.score >= this.config.hardMinScore);
+    results = results.filter(result => {
+      if (result.score >= this.config.hardMinScore) return true;
+      dropCandidate(dropped, result, 'hardMinScore', `score ${result.score.toFixed(3)} below hardMinScore ${this.config.hardMinScore}`);
+      return false;
+    });
 
     // Apply MMR for diversity
-    results = this.applyMMR(results, query);
+    results = this.applyMMR(results, dropped);
 
     return results;
   }
@@ -325,6 +511,26 @@ export class MemoryRetriever {
     return result.score * (1 + boostFactor);
   }
 
+  /**
+   * Boost memories that keep being recalled: grows with log(accessCount) up
+   * to ACCESS_SATURATION and decays with time since the last recall, so a
+   * memory that stops being used drifts back to its base score.
+   */
+  private applyReinforcement(result: RetrievalResult): number {
+    const accessCount = result.entry.accessCount || 0;
+    if (this.config.reinforcementWeight <= 0 || accessCount <= 0) {
+      return result.score;
+    }
+
+    const usage = Math.min(1, Math.log1p(accessCount) / Math.log1p(ACCESS_SATURATION));
+    const idleDays = (Date.now() - (result.entry.lastAccessedAt || result.entry.timestamp)) / (1000 * 60 * 60 * 24);
+    const decay = this.config.accessHalfLifeDays > 0 ? Math.pow(0.5, Math.max(0, idleDays) / this.config.accessHalfLifeDays) : 1;
+    const factor = 1 + this.config.reinforcementWeight * usage * decay;
+
+    result.sources.reinforcement = { accessCount, factor };
+    return result.score * factor;
+  }
+
   private applyLengthNormalization(result: RetrievalResult, textLength: number): number {
     if (this.config.lengthNormAnchor <= 0) {
       return result.score;
@@ -347,161 +553,220 @@ export class MemoryRetriever {
     return result.score * decayFactor;
   }
 
-  private async applyReranking(results: RetrievalResult[], query: string): Promise<RetrievalResult[]> {
-    if (!this.config.rerankApiKey || results.length === 0) {
+  private async applyReranking(results: RetrievalResult[], query: string, queryVector: number[]): Promise<RetrievalResult[]> {
+    if (!this.reranker || results.length === 0) {
       return results;
     }
 
     const timerId = this.logger.perfStart('MemoryRetriever', 'rerank');
-    
+
     try {
       const documents = results.map(r => r.entry.text);
-      
-      // Build rerank request based on provider
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      let body: any;
-      switch (this.config.rerankProvider) {
-        case 'pinecone':
-          headers['Api-Key'] = this.config.rerankApiKey;
-          headers['X-Pinecone-API-Version'] = '2024-10';
-          body = {
-            model: this.config.rerankModel,
-            query,
-            documents: documents.map(text => ({ text })),
-            top_n: documents.length,
-          };
-          break;
-        case 'siliconflow':
-        case 'jina':
-        default:
-          headers['Authorization'] = `Bearer ${this.config.rerankApiKey}`;
-          body = {
-            model: this.config.rerankModel,
-            query,
-            documents,
-            top_n: documents.length,
-          };
-      }
+      const rerankScores = await this.reranker.rerank(query, documents);
 
-      const response = await fetch(this.config.rerankEndpoint || 'https://api.jina.ai/v1/rerank', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Rerank API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      // Parse response based on provider
-      let rerankScores: Array<{ index: number; score: number }>;
-      if (this.config.rerankProvider === 'pinecone') {
-        rerankScores = (data.data || []).map((item: any) => ({
-          index: item.index,
-          score: item.score,
-        }));
-      } else {
-        rerankScores = (data.results || []).map((item: any) => ({
-          index: item.index,
-          score: item.relevance_score,
-        }));
-      }
-
-      // Apply rerank scores (60% rerank + 40% original)
       rerankScores.forEach(({ index, score }) => {
-        if (results[index]) {
-          results[index].sources.reranked = { score };
-          results[index].score = score * 0.6 + results[index].score * 0.4;
-        }
+        results[index].sources.reranked = { score };
+        results[index].score = this.blendRerankScore(score, results[index].score);
       });
 
       const duration = this.logger.perfEnd(timerId);
       this.logger.trackRerank(documents.length);
-      this.logger.debug('MemoryRetriever', `Reranking completed in ${duration.toFixed(2)}ms`);
+      this.logger.debug('MemoryRetriever', `Reranking (${this.reranker.provider}) completed in ${duration.toFixed(2)}ms`);
 
       return results.sort((a, b) => b.score - a.score);
     } catch (error) {
       this.logger.perfEnd(timerId);
-      this.logger.warn('MemoryRetriever', 'Reranking failed, using original scores', error);
-      return results.sort((a, b) => b.score - a.score);
+      this.logger.warn('MemoryRetriever', 'Reranking failed, falling back to lightweight reranker', error);
+      return this.applyLightweightReranking(results, query, queryVector);
+    }
+  }
+
+  private blendRerankScore(rerankScore: number, originalScore: number): number {
+    const weight = clamp01(this.config.rerankBlendWeight, DEFAULT_RETRIEVAL_CONFIG.rerankBlendWeight);
+    return rerankScore * weight + originalScore * (1 - weight);
+  }
+
+  private applyLightweightReranking(results: RetrievalResult[], query: string, queryVector: number[]): RetrievalResult[] {
+    if (results.length === 0) {
+      return results;
     }
+
+    const timerId = this.logger.perfStart('MemoryRetriever', 'rerank-lightweight');
+
+    const scores = lightweightRerank(
+      query,
+      results.map(r => ({ text: r.entry.text, vector: r.entry.vector })),
+      queryVector
+    );
+
+    results.forEach((result, index) => {
+      const score = scores[index];
+      result.sources.reranked = { score };
+      result.score = this.blendRerankScore(score, result.score);
+    });
+
+    const duration = this.logger.perfEnd(timerId);
+    this.logger.debug('MemoryRetriever', `Lightweight reranking completed in ${duration.toFixed(2)}ms`);
+
+    return results.sort((a, b) => b.score - a.score);
   }
 
-  private applyMMR(results: RetrievalResult[], query: string, similarityThreshold: number = 0.85): RetrievalResult[] {
+  /**
+   * Maximal Marginal Relevance: greedily pick the candidate maximizing
+   * lambda * relevance - (1 - lambda) * maxSimilarity(selected), using cosine
+   * similarity of the stored vectors. Near-duplicates above the threshold are dropped.
+   */
+  private applyMMR(
+    results: RetrievalResult[],
+    dropped: DroppedCandidate[] | null = null,
+    similarityThreshold: number = 0.85
+  ): RetrievalResult[] {
     if (results.length <= 1) {
+      results.forEach(result => {
+        result.sources.mmr = { similarity: 0, penalty: 0 };
+        traceStep(result, 'mmr', 'rank 1');
+      });
       return results;
     }
 
+    const lambda = clamp01(this.config.mmrLambda, DEFAULT_RETRIEVAL_CONFIG.mmrLambda);
+    const vectors = new Map(results.map(r => [r.entry.id, toNumberArray(r.entry.vector)]));
+
     const selected: RetrievalResult[] = [];
-    const remaining = [...results];
+    let remaining = [...results].sort((a, b) => b.score - a.score);
 
-    while (remaining.length > 0 && selected.length < results.length) {
-      if (selected.length === 0) {
-        // Select highest scoring result
-        selected.push(remaining.shift()!);
-      } else {
-        // Find next diverse result
-        let bestIdx = -1;
-        let bestScore = -1;
-
-        for (let i = 0; i < remaining.length; i++) {
-          const candidate = remaining[i];
-          const similarity = this.computeMaxSimilarity(candidate, selected);
-          
-          if (similarity < similarityThreshold) {
-            // Diverse enough - consider for selection
-            if (candidate.score > bestScore) {
-              bestScore = candidate.score;
-              bestIdx = i;
-            }
-          }
+    // Highest scoring result always goes first, with nothing to be penalized against
+    const first = remaining.shift()!;
+    first.sources.mmr = { similarity: 0, penalty: 0 };
+    selected.push(first);
+
+    while (remaining.length > 0) {
+      let best: { result: RetrievalResult; mmr: number; similarity: number } | null = null;
+      const stillDiverse: RetrievalResult[] = [];
+
+      for (const candidate of remaining) {
+        const similarity = this.computeMaxSimilarity(vectors.get(candidate.entry.id)!, selected, vectors);
+
+        // Near-duplicate of something already selected
+        if (similarity >= similarityThreshold) {
+          dropCandidate(dropped, candidate, 'mmr', `near-duplicate of a higher-ranked memory (similarity ${similarity.toFixed(2)})`);
+          continue;
         }
 
-        if (bestIdx >= 0) {
-          selected.push(remaining.splice(bestIdx, 1)[0]);
-        } else {
-          // No diverse results left
-          break;
+        stillDiverse.push(candidate);
+        const mmr = lambda * candidate.score - (1 - lambda) * similarity;
+        if (!best || mmr > best.mmr) {
+          best = { result: candidate, mmr, similarity };
         }
       }
+
+      if (!best) {
+        break;
+      }
+
+      best.result.sources.mmr = {
+        similarity: best.similarity,
+        penalty: (1 - lambda) * best.similarity,
+      };
+      selected.push(best.result);
+      remaining = stillDiverse.filter(r => r !== best!.result);
     }
 
+    selected.forEach((result, i) => traceStep(result, 'mmr', `rank ${i + 1}`));
     return selected;
   }
 
-  private computeMaxSimilarity(result: RetrievalResult, selected: RetrievalResult[]): number {
+  private computeMaxSimilarity(
+    vector: number[],
+    selected: RetrievalResult[],
+    vectors: Map<string, number[]>
+  ): number {
     let maxSim = 0;
-    
+
     for (const selectedResult of selected) {
-      // Simplified: use entry text length as proxy (real MMR would compare vectors)
-      const lenDiff = Math.abs(result.entry.text.length - selectedResult.entry.text.length);
-      const similarity = 1 - (lenDiff / Math.max(result.entry.text.length, selectedResult.entry.text.length));
-      maxSim = Math.max(maxSim, similarity);
+      const other = vectors.get(selectedResult.entry.id)!;
+      // Entries without a usable vector (e.g. BM25-only rows from an older table) can't be compared
+      if (vector.length === 0 || other.length !== vector.length) continue;
+      maxSim = Math.max(maxSim, cosineSimilarity(vector, other));
     }
-    
+
     return maxSim;
   }
 
-  private applyFinalProcessing(results: RetrievalResult[], limit: number): RetrievalResult[] {
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+  private applyFinalProcessing(results: RetrievalResult[], limit: number, dropped: DroppedCandidate[] | null = null): RetrievalResult[] {
+    // Results are already in MMR selection order; re-sorting by score would undo diversification
 
     // Apply limit
+    results.slice(limit).forEach((result, i) => dropCandidate(dropped, result, 'limit', `rank ${limit + i + 1} beyond limit ${limit}`));
     results = results.slice(0, limit);
 
     // Filter noise if enabled
     if (this.config.filterNoise) {
-      results = filterNoise(results, r => r.entry.text);
+      const kept = filterNoise(results, r => r.entry.text);
+      results.filter(r => !kept.includes(r)).forEach(result => dropCandidate(dropped, result, 'noise', 'noise filter (meta-question, denial or boilerplate)'));
+      results = kept;
     }
 
     return results;
   }
 
+  /**
+   * Append memories one link away from the hits, scored as a share of the
+   * best hit that reaches them. Scope, filter and superseded handling match
+   * the main results.
+   */
+  private async expandWithLinks(
+    results: RetrievalResult[],
+    scopeFilter?: string[],
+    filter?: MemoryFilter
+  ): Promise<RetrievalResult[]> {
+    try {
+      const hits = new Map(results.map(r => [r.entry.id, r]));
+      const links = await this.store.getLinks(Array.from(hits.keys()));
+
+      const reached = new Map<string, { from: RetrievalResult; link: string }>();
+      for (const link of links) {
+        for (const hit of [hits.get(link.sourceId), hits.get(link.targetId)]) {
+          if (!hit) continue;
+          const neighbourId = otherEnd(link, hit.entry.id);
+          if (hits.has(neighbourId)) continue;
+
+          const current = reached.get(neighbourId);
+          if (!current || hit.score > current.from.score) {
+            reached.set(neighbourId, { from: hit, link: linkLabel(link, neighbourId) });
+          }
+        }
+      }
+      if (reached.size === 0) {
+        return results;
+      }
+
+      const factor = clamp01(this.config.graphScoreFactor, DEFAULT_RETRIEVAL_CONFIG.graphScoreFactor);
+      const expanded = (await this.store.getByIds(Array.from(reached.keys()), scopeFilter))
+        .filter(entry => matchesFilter(entry, filter))
+        .filter(entry => !(entry.supersededBy && this.config.supersededMode === 'hide'))
+        .map((entry): RetrievalResult => {
+          const { from, link } = reached.get(entry.id)!;
+          const penalty = entry.supersededBy ? this.config.supersededPenalty : 1;
+          const score = from.score * factor * penalty;
+          return {
+            entry,
+            score,
+            sources: { graph: { from: from.entry.id, link } },
+            trace: from.trace ? [{ stage: 'graph', score, note: `${link} ${from.entry.id.slice(0, 8)}` }] : undefined,
+          };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(0, this.config.graphExpansionLimit));
+
+      this.logger.debug('MemoryRetriever', 'Graph expansion', { linked: reached.size, added: expanded.length });
+      return [...results, ...expanded];
+    } catch (error) {
+      this.logger.warn('MemoryRetriever', 'Graph expansion failed, returning direct hits only', error);
+      return results;
+    }
+  }
+
   // ============================================================================
   // Health Check / Test Method
   // ============================================================================
@@ -517,6 +782,7 @@ export class MemoryRetriever {
       const results = await this.retrieve({
         query: 'test',
         limit: 1,
+        trackAccess: false,
       });
 
       return {
@@ -541,8 +807,9 @@ export class MemoryRetriever {
 
 export function createRetriever(
   store: MemoryStore,
-  embedder: Embedder,
-  config: Partial<RetrievalConfig> = {}
+  embedder: QueryEmbedder,
+  config: Partial<RetrievalConfig> = {},
+  accessTracker?: AccessTracker
 ): MemoryRetriever {
-  return new MemoryRetriever(store, embedder, config);
+  return new MemoryRetriever(store, embedder, config, accessTracker);
 }
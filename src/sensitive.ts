@@ -0,0 +1,333 @@
+/**
+ * Secret & PII Detection
+ * Screens text before it is embedded or stored, on every write path (tool,
+ * auto-capture, session memory, import, Markdown sync):
+ * - Secrets: private keys, API keys with known prefixes, password assignments, high-entropy tokens
+ * - PII: emails, phone numbers, payment card numbers, US SSNs, IP addresses
+ * - Per-class policy: block the write, redact the match, or allow it
+ * - Every decision on text with findings is logged (never the matched value itself)
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SensitiveDataEvent } from "./store.js";
+
+// ============================================================================
+// Classes & Configuration
+// ============================================================================
+
+export const SECRET_CLASSES = ["private-key", "api-key", "password", "high-entropy"] as const;
+export const PII_CLASSES = ["email", "phone", "credit-card", "ssn", "ip-address"] as const;
+export const SENSITIVE_CLASSES = [...SECRET_CLASSES, ...PII_CLASSES] as const;
+
+export type SensitiveClass = typeof SENSITIVE_CLASSES[number];
+
+export const SENSITIVE_ACTIONS = ["block", "redact", "allow"] as const;
+
+export type SensitiveAction = typeof SENSITIVE_ACTIONS[number];
+
+export function isSensitiveClass(value: unknown): value is SensitiveClass {
+  return typeof value === "string" && (SENSITIVE_CLASSES as readonly string[]).includes(value);
+}
+
+export function isSensitiveAction(value: unknown): value is SensitiveAction {
+  return typeof value === "string" && (SENSITIVE_ACTIONS as readonly string[]).includes(value);
+}
+
+export interface SensitiveDataConfig {
+  /** Scan text before it is stored (default: true) */
+  enabled: boolean;
+  /** What to do per class */
+  policy: Record<SensitiveClass, SensitiveAction>;
+  /** Shannon entropy (bits per character) at or above which a token counts as a secret (default: 4.0) */
+  entropyThreshold: number;
+  /** Shortest token checked for entropy (default: 24) */
+  minTokenLength: number;
+}
+
+/**
+ * Emails and phone numbers are allowed by default: capture triggers on them on
+ * purpose, and they are how agents remember contacts.
+ */
+export const DEFAULT_SENSITIVE_POLICY: Record<SensitiveClass, SensitiveAction> = {
+  "private-key": "block",
+  "api-key": "block",
+  "password": "redact",
+  "high-entropy": "redact",
+  "email": "allow",
+  "phone": "allow",
+  "credit-card": "redact",
+  "ssn": "redact",
+  "ip-address": "allow",
+};
+
+/** Plugin config: every field optional, policy overrides merged over the defaults */
+export type SensitiveDataOptions = Partial<Omit<SensitiveDataConfig, "policy">> & {
+  policy?: Partial<Record<SensitiveClass, SensitiveAction>>;
+};
+
+export const DEFAULT_SENSITIVE_DATA_CONFIG: SensitiveDataConfig = {
+  enabled: true,
+  policy: DEFAULT_SENSITIVE_POLICY,
+  entropyThreshold: 4.0,
+  minTokenLength: 24,
+};
+
+export interface SensitiveFinding {
+  class: SensitiveClass;
+  /** Which detector matched, e.g. "github-token" */
+  detector: string;
+  start: number;
+  end: number;
+}
+
+export interface SensitiveScanResult {
+  action: SensitiveAction;
+  /** Text to store: redacted matches replaced, the rest unchanged */
+  text: string;
+  findings: SensitiveFinding[];
+  /** Classes found, per the action the policy took for them */
+  blocked: SensitiveClass[];
+  redacted: SensitiveClass[];
+  allowed: SensitiveClass[];
+}
+
+/** Where the text came from, for the decision log */
+export interface SensitiveScanContext {
+  /** Write path, e.g. "tool:memory_store", "auto-capture", "import" */
+  source: string;
+  scope?: string;
+}
+
+export type SensitiveDataLogger = (event: SensitiveDataEvent) => void | Promise<void>;
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+interface Detector {
+  name: string;
+  class: SensitiveClass;
+  /** Global regex; with two groups, group 1 is a kept prefix and group 2 the sensitive value */
+  pattern: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+/** Luhn checksum, for payment card numbers */
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** In priority order: where matches overlap, the earlier detector wins */
+const DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    class: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+  },
+  { name: "anthropic-key", class: "api-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", class: "api-key", pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github-token", class: "api-key", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "gitlab-token", class: "api-key", pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { name: "slack-token", class: "api-key", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "aws-access-key", class: "api-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "google-api-key", class: "api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "stripe-key", class: "api-key", pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{20,}/g },
+  { name: "npm-token", class: "api-key", pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { name: "huggingface-token", class: "api-key", pattern: /\bhf_[A-Za-z0-9]{30,}/g },
+  { name: "jwt", class: "api-key", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: "bearer-token", class: "api-key", pattern: /(\b(?:Bearer|Basic)\s+)([A-Za-z0-9._~+/-]{16,}=*)/g },
+  { name: "url-credentials", class: "password", pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)([^\s@/]+)(?=@)/gi },
+  {
+    name: "password-assignment",
+    class: "password",
+    pattern: /(\b(?:password|passwd|pwd|passphrase|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)["']?\s*[:=]\s*)("[^"\n]+"|'[^'\n]+'|[^\s,;]+)/gi,
+  },
+  { name: "password-phrase", class: "password", pattern: /(\b(?:my\s+)?password\s+is\s+)(\S+)/gi },
+  { name: "password-zh", class: "password", pattern: /(密码\s*(?:是|为|[:：])\s*)(\S+)/g },
+  { name: "credit-card", class: "credit-card", pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: luhnValid },
+  {
+    name: "us-ssn",
+    class: "ssn",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: value => !/^(?:000|666|9\d\d)/.test(value) && !value.includes("-00-") && !value.endsWith("-0000"),
+  },
+  { name: "email", class: "email", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g },
+  {
+    name: "phone",
+    class: "phone",
+    pattern: /(?:\+\d[\d\s().-]{7,}\d|\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b|\b1[3-9]\d{9}\b)/g,
+    validate: value => digitCount(value) >= 9 && digitCount(value) <= 15,
+  },
+  {
+    name: "ipv4",
+    class: "ip-address",
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+];
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+export class SensitiveDataScanner {
+  constructor(
+    readonly config: SensitiveDataConfig = DEFAULT_SENSITIVE_DATA_CONFIG,
+    private readonly logger?: SensitiveDataLogger
+  ) {}
+
+  /** All findings, in text order, without overlaps */
+  detect(text: string): SensitiveFinding[] {
+    const findings: SensitiveFinding[] = [];
+    const overlaps = (start: number, end: number) => findings.some(f => start < f.end && end > f.start);
+
+    const detectors: Detector[] = [
+      ...DETECTORS,
+      {
+        name: "high-entropy-token",
+        class: "high-entropy",
+        pattern: new RegExp(`[A-Za-z0-9+/_=-]{${Math.max(8, this.config.minTokenLength)},}`, "g"),
+        validate: token =>
+          /[a-z]/.test(token) && /[A-Z]/.test(token) && /\d/.test(token) &&
+          shannonEntropy(token) >= this.config.entropyThreshold,
+      },
+    ];
+
+    for (const detector of detectors) {
+      for (const match of text.matchAll(detector.pattern)) {
+        const value = match[2] ?? match[0];
+        const start = match.index! + (match[2] !== undefined ? match[1].length : 0);
+        const end = start + value.length;
+        if (detector.validate && !detector.validate(value)) continue;
+        if (overlaps(start, end)) continue;
+        findings.push({ class: detector.class, detector: detector.name, start, end });
+      }
+    }
+
+    return findings.sort((a, b) => a.start - b.start);
+  }
+
+  /** Apply the policy to text, without logging. Blocking wins over redacting. */
+  evaluate(text: string): SensitiveScanResult {
+    if (!this.config.enabled) {
+      return { action: "allow", text, findings: [], blocked: [], redacted: [], allowed: [] };
+    }
+
+    const findings = this.detect(text);
+    const classesBy = (action: SensitiveAction) =>
+      Array.from(new Set(findings.filter(f => this.policyFor(f.class) === action).map(f => f.class)));
+
+    const result: SensitiveScanResult = {
+      action: "allow",
+      text,
+      findings,
+      blocked: classesBy("block"),
+      redacted: classesBy("redact"),
+      allowed: classesBy("allow"),
+    };
+
+    if (result.blocked.length > 0) {
+      result.action = "block";
+    } else if (result.redacted.length > 0) {
+      result.action = "redact";
+      result.text = maskFindings(text, findings.filter(f => this.policyFor(f.class) === "redact"), f => `[REDACTED:${f.class}]`);
+    }
+    return result;
+  }
+
+  /** Apply the policy to text about to be stored; a result with findings is logged whatever the action. */
+  async scan(text: string, context: SensitiveScanContext): Promise<SensitiveScanResult> {
+    const result = this.evaluate(text);
+    if (result.findings.length > 0) {
+      await this.log(text, result, context);
+    }
+    return result;
+  }
+
+  policyFor(sensitiveClass: SensitiveClass): SensitiveAction {
+    return this.config.policy[sensitiveClass] ?? DEFAULT_SENSITIVE_POLICY[sensitiveClass];
+  }
+
+  private async log(text: string, result: SensitiveScanResult, context: SensitiveScanContext): Promise<void> {
+    if (!this.logger) return;
+
+    const event: SensitiveDataEvent = {
+      id: randomUUID(),
+      createdAt: Date.now(),
+      source: context.source,
+      scope: context.scope ?? "",
+      action: result.action,
+      classes: Array.from(new Set(result.findings.map(f => f.class))),
+      detectors: Array.from(new Set(result.findings.map(f => f.detector))),
+      findings: result.findings.length,
+      preview: sensitivePreview(text, result.findings),
+    };
+
+    try {
+      await this.logger(event);
+    } catch (err) {
+      console.warn("Failed to log sensitive data decision:", err);
+    }
+  }
+}
+
+function maskFindings(text: string, findings: SensitiveFinding[], replacement: (finding: SensitiveFinding) => string): string {
+  let masked = "";
+  let cursor = 0;
+  for (const finding of findings) {
+    masked += text.slice(cursor, finding.start) + replacement(finding);
+    cursor = finding.end;
+  }
+  return masked + text.slice(cursor);
+}
+
+/** Start of the text with every finding masked, whatever the policy, for logs */
+export function sensitivePreview(text: string, findings: SensitiveFinding[], length = 120): string {
+  const masked = maskFindings(text, findings, f => `[${f.class}]`).replace(/\s+/g, " ").trim();
+  return masked.length > length ? `${masked.slice(0, length)}...` : masked;
+}
+
+/** Human-readable reason for a blocked write */
+export function describeBlock(result: SensitiveScanResult): string {
+  return `contains ${result.blocked.join(", ")} (blocked by the sensitive data policy)`;
+}
+
+export function createSensitiveDataScanner(
+  config: SensitiveDataOptions = {},
+  logger?: SensitiveDataLogger
+): SensitiveDataScanner {
+  return new SensitiveDataScanner({
+    enabled: config.enabled ?? DEFAULT_SENSITIVE_DATA_CONFIG.enabled,
+    policy: { ...DEFAULT_SENSITIVE_POLICY, ...config.policy },
+    entropyThreshold: config.entropyThreshold ?? DEFAULT_SENSITIVE_DATA_CONFIG.entropyThreshold,
+    minTokenLength: config.minTokenLength ?? DEFAULT_SENSITIVE_DATA_CONFIG.minTokenLength,
+  }, logger);
+}
@@ -0,0 +1,85 @@
+/**
+ * Snapshots
+ * Named points in the memories table's LanceDB version history:
+ * - Every write creates a table version; a snapshot names one (`memory_snapshots` table)
+ * - Versions listed with row counts, diffed by id and content hash
+ * - Rollback makes an old version the latest again (the versions after it stay available)
+ * - Bulk CLI commands take one automatically before they write
+ *
+ * Only the memories table is versioned here: version history, links, feedback
+ * and snapshots themselves are not rolled back. Table versions are kept until
+ * the table is cleaned up, which this plugin only does on `memory rekey --purge-history`.
+ */
+
+import type { MemorySnapshot, MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SnapshotDiff {
+  fromVersion: number;
+  toVersion: number;
+  /** Live at `to`, not at `from` (new, restored from the trash or rolled back in) */
+  added: string[];
+  /** Live at `from`, not at `to` (deleted, purged or expired) */
+  removed: string[];
+  /** Live at both, content changed (access counts and feedback don't count) */
+  changed: string[];
+  unchanged: number;
+}
+
+// ============================================================================
+// References
+// ============================================================================
+
+/**
+ * A snapshot name, a table version number (`12` or `v12`), or `latest`.
+ * Names win over numbers, so a snapshot called "12" is still reachable.
+ */
+export async function resolveSnapshotRef(
+  store: MemoryStore,
+  ref: string
+): Promise<{ version: number; snapshot?: MemorySnapshot }> {
+  const snapshot = await store.getSnapshot(ref);
+  if (snapshot) {
+    return { version: snapshot.version, snapshot };
+  }
+  if (ref === "latest") {
+    return { version: await store.tableVersion() };
+  }
+
+  const match = /^v?(\d+)$/i.exec(ref.trim());
+  if (!match) {
+    throw new Error(`No snapshot named "${ref}" (and not a version number)`);
+  }
+  return { version: parseInt(match[1], 10) };
+}
+
+/** `pre-delete-bulk-2026-10-19T08-15-00-000Z` */
+export function autoSnapshotName(reason: string, now = new Date()): string {
+  const slug = reason.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `pre-${slug || "change"}-${now.toISOString().replace(/[:.]/g, "-")}`;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/** Compare the live memories of two table versions (`to` defaults to latest). */
+export async function diffVersions(store: MemoryStore, fromVersion: number, toVersion?: number): Promise<SnapshotDiff> {
+  const to = toVersion ?? await store.tableVersion();
+  const before = await store.versionDigests(fromVersion);
+  const after = await store.versionDigests(to);
+
+  const diff: SnapshotDiff = { fromVersion, toVersion: to, added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [id, hash] of after) {
+    const previous = before.get(id);
+    if (previous === undefined) diff.added.push(id);
+    else if (previous !== hash) diff.changed.push(id);
+    else diff.unchanged++;
+  }
+  diff.removed = Array.from(before.keys()).filter(id => !after.has(id));
+
+  return diff;
+}
@@ -3,7 +3,15 @@
  */
 
 import type * as LanceDB from "@lancedb/lancedb";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
+import { matchesFilter, toWhereClause, type MemoryFilter } from "./filters.js";
+import { extractTagTerms, normalizeTags, parseTags, serializeTags, tagLikeClause } from "./tags.js";
+import type { LinkType } from "./graph.js";
+import { extractEntities, normalizeEntityName, type EntityKind } from "./entities.js";
+import { toExpiresAt } from "./expiry.js";
+import { clampFeedbackScore, FEEDBACK_ADJUSTMENTS, type FeedbackVerdict, type ReviewResolution } from "./feedback.js";
+import type { SensitiveAction, SensitiveClass } from "./sensitive.js";
+import { encryptedKeyId, ENCRYPTED_PREFIX, isEncryptedValue, type FieldCipher } from "./encryption.js";
 
 // ============================================================================
 // Types
@@ -18,6 +26,13 @@ export interface MemoryEntry {
   importance: number;
   timestamp: number;
   metadata: string; // JSON string for extensible metadata
+  deletedAt?: number; // Tombstone time in ms; 0/absent = live
+  tags?: string[]; // Normalized topic labels; stored as a JSON string column
+  supersededBy?: string; // Id of the newer memory that replaces this one; ""/absent = current
+  expiresAt?: number; // Expiry time in ms; 0/absent = never expires
+  accessCount?: number; // Times returned by retrieval
+  lastAccessedAt?: number; // Last time returned by retrieval, in ms; 0/absent = never
+  feedbackScore?: number; // Importance adjustment from relevance feedback (see feedback.ts)
   [key: string]: unknown; // Index signature for LanceDB compatibility
 }
 
@@ -26,9 +41,132 @@ export interface MemorySearchResult {
   score: number;
 }
 
+/** Snapshot of a memory's values before an update */
+export interface MemoryVersion {
+  id: string;
+  memoryId: string;
+  /** 1-based; version 1 is the memory as originally stored */
+  version: number;
+  text: string;
+  vector: number[];
+  category: MemoryEntry["category"];
+  scope: string;
+  importance: number;
+  timestamp: number;
+  metadata: string;
+  tags: string[];
+  /** Expiry time in ms; 0 = never expires */
+  expiresAt: number;
+  /** When these values were replaced */
+  changedAt: number;
+  /** Agent or tool that made the change (e.g. "agent:main", "tool:memory_update", "cli") */
+  changedBy: string;
+  /** What replaced these values: a regular update or a revert */
+  action: "update" | "revert";
+  [key: string]: unknown;
+}
+
+/** Directed, typed relationship: `sourceId` <type> `targetId` */
+export interface MemoryLink {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: LinkType;
+  createdAt: number;
+  /** Agent or tool that created the link */
+  createdBy: string;
+  [key: string]: unknown;
+}
+
+/** A relevance verdict on a memory for a query (see feedback.ts) */
+export interface MemoryFeedback {
+  id: string;
+  memoryId: string;
+  /** Query or message the memory was recalled for ("" if unknown) */
+  query: string;
+  verdict: FeedbackVerdict;
+  note: string;
+  scope: string;
+  /** Memory text when the feedback was given */
+  memoryText: string;
+  createdAt: number;
+  /** Agent or tool that gave the feedback */
+  createdBy: string;
+  /** When a "wrong" verdict was reviewed; 0 = open (always 0 for other verdicts) */
+  resolvedAt: number;
+  resolution: ReviewResolution | "";
+  [key: string]: unknown;
+}
+
+/** A policy decision on text with secrets or PII (see sensitive.ts) */
+export interface SensitiveDataEvent {
+  id: string;
+  createdAt: number;
+  /** Write path, e.g. "tool:memory_store", "auto-capture", "import" */
+  source: string;
+  /** Target scope ("" if unknown) */
+  scope: string;
+  action: SensitiveAction;
+  classes: SensitiveClass[];
+  detectors: string[];
+  findings: number;
+  /** Start of the text with every finding masked */
+  preview: string;
+  [key: string]: unknown;
+}
+
+/** A named point in the memories table's version history (see snapshots.ts) */
+export interface MemorySnapshot {
+  id: string;
+  name: string;
+  /** LanceDB table version the snapshot points at */
+  version: number;
+  createdAt: number;
+  /** Agent, tool or command that took the snapshot */
+  createdBy: string;
+  /** Why, e.g. the bulk command it preceded */
+  reason: string;
+  /** Rows at that version, trashed ones included */
+  rowCount: number;
+  liveCount: number;
+  [key: string]: unknown;
+}
+
+/** Row counts of one version of the memories table */
+export interface TableVersionInfo {
+  version: number;
+  rowCount: number;
+  liveCount: number;
+  /** Names of snapshots pointing at this version */
+  snapshots: string[];
+}
+
+/** Entities found in a memory, as indexed (see entities.ts) */
+export interface EntityIndexMatch {
+  key: string;
+  /** Most frequent spelling of the entity */
+  name: string;
+  /** Other keys the entity is known by */
+  aliases: string[];
+  kinds: EntityKind[];
+  memoryIds: string[];
+}
+
+export interface UpdateOptions {
+  changedBy?: string;
+  action?: MemoryVersion["action"];
+}
+
+/** Rows of a table by the key their values are encrypted with ("plaintext" = not encrypted) */
+export type KeyUsage = Record<string, Record<string, number>>;
+
 export interface StoreConfig {
   dbPath: string;
   vectorDim: number;
+  /** Encrypts text and metadata columns (see encryption.ts); unset = plaintext */
+  cipher?: FieldCipher;
+  /** Called after a memory is written with a new vector, e.g. to track vectors from a fallback embedding model */
+  onVectorWrite?: (id: string, vector: number[]) => void;
 }
 
 // ============================================================================
@@ -66,19 +204,183 @@ function escapeSqlLiteral(value: string): string {
 // ============================================================================
 
 const TABLE_NAME = "memories";
+const VERSIONS_TABLE_NAME = "memory_versions";
+const LINKS_TABLE_NAME = "memory_links";
+const ENTITIES_TABLE_NAME = "memory_entities";
+const FEEDBACK_TABLE_NAME = "memory_feedback";
+const SNAPSHOTS_TABLE_NAME = "memory_snapshots";
+const SENSITIVE_LOG_TABLE_NAME = "memory_sensitive_log";
+
+/** Rows that haven't been moved to the trash. camelCase columns need backticks in filters. */
+const LIVE_FILTER = "`deletedAt` = 0";
+
+/**
+ * Columns added after the original schema, with the SQL default used to
+ * backfill existing tables. Numeric defaults must be DOUBLE to match the
+ * Float64 columns LanceDB infers from JS numbers.
+ */
+const COLUMN_MIGRATIONS: Array<{ name: string; valueSql: string }> = [
+  { name: "deletedAt", valueSql: "CAST(0 AS DOUBLE)" },
+  { name: "tags", valueSql: "'[]'" },
+  { name: "supersededBy", valueSql: "''" },
+  { name: "expiresAt", valueSql: "CAST(0 AS DOUBLE)" },
+  { name: "accessCount", valueSql: "CAST(0 AS DOUBLE)" },
+  { name: "lastAccessedAt", valueSql: "CAST(0 AS DOUBLE)" },
+  { name: "feedbackScore", valueSql: "CAST(0 AS DOUBLE)" },
+  { name: "textHash", valueSql: "''" },
+  { name: "textTokens", valueSql: "''" },
+];
+
+const VERSION_COLUMN_MIGRATIONS: Array<{ name: string; valueSql: string }> = [
+  { name: "tags", valueSql: "'[]'" },
+  { name: "expiresAt", valueSql: "CAST(0 AS DOUBLE)" },
+];
+
+const ENTITY_COLUMN_MIGRATIONS: Array<{ name: string; valueSql: string }> = [
+  { name: "aliasIndex", valueSql: "''" },
+];
+
+/** Score of a keyword hit that matched only through a tag name */
+const TAG_MATCH_SCORE = 0.7;
+/** Added to a full-text hit's score per query term that is also one of its tags */
+const TAG_MATCH_BOOST = 0.15;
+
+/** Row as written to LanceDB: tags are serialized to the JSON string column */
+function toRow<T extends { tags?: string[] }>(entry: T): Omit<T, "tags"> & { tags: string } {
+  return { ...entry, tags: serializeTags(entry.tags) };
+}
+
+/** Memory row for LanceDB, with defaults for columns every row must carry */
+function toMemoryRow(entry: MemoryEntry): Record<string, unknown> {
+  return {
+    ...toRow(entry),
+    supersededBy: entry.supersededBy ?? "",
+    expiresAt: entry.expiresAt ?? 0,
+    accessCount: entry.accessCount ?? 0,
+    lastAccessedAt: entry.lastAccessedAt ?? 0,
+    feedbackScore: entry.feedbackScore ?? 0,
+    textHash: "",
+    textTokens: "",
+  };
+}
+
+/** Encrypted columns per table, for rekeying */
+const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  [TABLE_NAME]: ["text", "metadata"],
+  [VERSIONS_TABLE_NAME]: ["text", "metadata"],
+  [FEEDBACK_TABLE_NAME]: ["query", "memoryText"],
+  [SENSITIVE_LOG_TABLE_NAME]: ["preview"],
+  [ENTITIES_TABLE_NAME]: ["name", "aliases"],
+};
+
+/** Projection keeping column names as they are (camelCase names need backticks, which select() would keep in the output) */
+function quotedColumns(columns: string[]): Record<string, string> {
+  return Object.fromEntries(columns.map(c => [c, `\`${c}\``]));
+}
+
+function rowToFeedback(row: any, reveal: (value: unknown) => string): MemoryFeedback {
+  return {
+    id: row.id as string,
+    memoryId: row.memoryId as string,
+    query: reveal(row.query),
+    verdict: row.verdict as FeedbackVerdict,
+    note: (row.note as string) || "",
+    scope: (row.scope as string) || "global",
+    memoryText: reveal(row.memoryText),
+    createdAt: Number(row.createdAt),
+    createdBy: row.createdBy as string,
+    resolvedAt: Number(row.resolvedAt) || 0,
+    resolution: (row.resolution as ReviewResolution) || "",
+  };
+}
+
+function rowToSensitiveEvent(row: any, reveal: (value: unknown) => string): SensitiveDataEvent {
+  const parseList = (value: unknown): string[] => {
+    try {
+      const list = JSON.parse(String(value || "[]"));
+      return Array.isArray(list) ? list.map(String) : [];
+    } catch {
+      return [];
+    }
+  };
+  return {
+    id: row.id as string,
+    createdAt: Number(row.createdAt),
+    source: row.source as string,
+    scope: (row.scope as string) || "",
+    action: row.action as SensitiveAction,
+    classes: parseList(row.classes) as SensitiveClass[],
+    detectors: parseList(row.detectors),
+    findings: Number(row.findings) || 0,
+    preview: reveal(row.preview),
+  };
+}
+
+function rowToLink(row: any): MemoryLink {
+  return {
+    id: row.id as string,
+    sourceId: row.sourceId as string,
+    targetId: row.targetId as string,
+    type: row.type as LinkType,
+    createdAt: Number(row.createdAt),
+    createdBy: row.createdBy as string,
+  };
+}
+
+/** Rows without an expiry, or whose expiry hasn't passed yet */
+function notExpired(now = Date.now()): string {
+  return `(\`expiresAt\` = 0 OR \`expiresAt\` > ${now})`;
+}
+
+function liveWhere(condition?: string): string {
+  return condition ? `(${condition}) AND ${LIVE_FILTER}` : LIVE_FILTER;
+}
+
+/** Live, unexpired rows in the given scopes (NULL scope = legacy rows) matching the filter's column conditions */
+function buildWhere(scopeFilter?: string[], filter?: MemoryFilter): string {
+  const conditions: string[] = [];
+
+  if (scopeFilter && scopeFilter.length > 0) {
+    const scopeConditions = scopeFilter
+      .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+      .join(" OR ");
+    conditions.push(`((${scopeConditions}) OR scope IS NULL)`);
+  }
+
+  const filterClause = toWhereClause(filter);
+  if (filterClause) {
+    conditions.push(`(${filterClause})`);
+  }
+
+  conditions.push(LIVE_FILTER, notExpired());
+  return conditions.join(" AND ");
+}
 
 export class MemoryStore {
   private db: LanceDB.Connection | null = null;
   private table: LanceDB.Table | null = null;
+  private versionsTable: LanceDB.Table | null = null;
+  private linksTable: LanceDB.Table | null = null;
+  private entitiesTable: LanceDB.Table | null = null;
+  private feedbackTable: LanceDB.Table | null = null;
+  private snapshotsTable: LanceDB.Table | null = null;
+  private sensitiveLogTable: LanceDB.Table | null = null;
   private initPromise: Promise<void> | null = null;
   private ftsIndexCreated = false;
+  private cipher: FieldCipher | undefined;
 
-  constructor(private readonly config: StoreConfig) {}
+  constructor(private readonly config: StoreConfig) {
+    this.cipher = config.cipher;
+  }
 
   get dbPath(): string {
     return this.config.dbPath;
   }
 
+  get vectorDim(): number {
+    return this.config.vectorDim;
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (this.table) {
       return;
@@ -125,10 +427,12 @@ export class MemoryStore {
         importance: 0,
         timestamp: 0,
         metadata: "{}",
+        deletedAt: 0,
+        tags: [],
       };
 
       try {
-        table = await db.createTable(TABLE_NAME, [schemaEntry]);
+        table = await db.createTable(TABLE_NAME, [toMemoryRow(schemaEntry)]);
         await table.delete('id = "__schema__"');
       } catch (createErr) {
         // Race: another caller (or eventual consistency) created the table
@@ -141,6 +445,8 @@ export class MemoryStore {
       }
     }
 
+    await this.migrateColumns(table, COLUMN_MIGRATIONS);
+
     // Validate vector dimensions
     // Note: LanceDB returns Arrow Vector objects, not plain JS arrays.
     // Array.isArray() returns false for Arrow Vectors, so use .length instead.
@@ -154,19 +460,110 @@ export class MemoryStore {
       }
     }
 
-    // Create FTS index for BM25 search (graceful fallback if unavailable)
-    try {
-      await this.createFtsIndex(table);
-      this.ftsIndexCreated = true;
-    } catch (err) {
-      console.warn("Failed to create FTS index, falling back to vector-only search:", err);
+    await this.checkEncryption(table);
+
+    // Create FTS index for BM25 search (graceful fallback if unavailable).
+    // An index over ciphertext is useless: encrypted stores search the hashed word index instead.
+    if (this.cipher) {
+      console.warn("Memory text is encrypted: keyword search uses the hashed word index (whole words only, no BM25 ranking)");
       this.ftsIndexCreated = false;
+    } else {
+      try {
+        await this.createFtsIndex(table);
+        this.ftsIndexCreated = true;
+      } catch (err) {
+        console.warn("Failed to create FTS index, falling back to vector-only search:", err);
+        this.ftsIndexCreated = false;
+      }
     }
 
     this.db = db;
     this.table = table;
   }
 
+  /** Backfill columns added in later versions so add() sees a matching schema */
+  private async migrateColumns(table: LanceDB.Table, migrations: Array<{ name: string; valueSql: string }>): Promise<void> {
+    const schema = await table.schema();
+    const existing = new Set(schema.fields.map((f: any) => f.name as string));
+    const missing = migrations.filter(c => !existing.has(c.name));
+
+    if (missing.length > 0) {
+      console.warn(`Adding columns for backward compatibility: ${missing.map(c => c.name).join(", ")}`);
+      await table.addColumns(missing);
+    }
+  }
+
+  /**
+   * Refuse to open encrypted memories without a key that reads them, and
+   * report memories written before encryption was enabled.
+   */
+  private async checkEncryption(table: LanceDB.Table): Promise<void> {
+    const encrypted = await table.query().select(["text"]).where(`text LIKE '${ENCRYPTED_PREFIX}%'`).limit(1).toArray();
+    if (!this.cipher) {
+      if (encrypted.length > 0) {
+        throw new Error(`Memories in ${this.config.dbPath} are encrypted; enable encryption with the passphrase they were written with`);
+      }
+      return;
+    }
+
+    if (encrypted.length > 0) {
+      this.cipher.decrypt(encrypted[0].text as string);
+    }
+    const plaintext = await table.countRows(`text NOT LIKE '${ENCRYPTED_PREFIX}%'`);
+    if (plaintext > 0) {
+      console.warn(`${plaintext} memories are not encrypted yet; run \`openclaw memory rekey --no-rotate\` to encrypt them`);
+    }
+  }
+
+  /** Column value as read: decrypted when encrypted, as is otherwise */
+  private reveal = (value: unknown): string => {
+    const text = typeof value === "string" ? value : value == null ? "" : String(value);
+    return this.cipher ? this.cipher.decrypt(text) : text;
+  };
+
+  /** Column value to write: encrypted when a cipher is configured (empty values stay empty) */
+  private seal(value: string): string {
+    return this.cipher && value ? this.cipher.encrypt(value) : value;
+  }
+
+  /**
+   * Memory row as read back: decrypted text and metadata, parsed tags, and
+   * optional columns that older tables (or legacy rows) may lack. Vectors are
+   * left out (empty) unless asked for, since list views don't need them.
+   */
+  private rowToEntry(row: any, { withVector }: { withVector: boolean }): MemoryEntry {
+    return {
+      id: row.id as string,
+      text: this.reveal(row.text),
+      vector: withVector ? Array.from(row.vector as Iterable<number>) : [],
+      category: row.category as MemoryEntry["category"],
+      scope: (row.scope as string | undefined) ?? "global",
+      importance: Number(row.importance),
+      timestamp: Number(row.timestamp) || Number(row.createdAt) || 0,
+      metadata: this.reveal(row.metadata) || "{}",
+      deletedAt: Number(row.deletedAt) || undefined,
+      tags: parseTags(row.tags),
+      supersededBy: (row.supersededBy as string) || undefined,
+      expiresAt: toExpiresAt(row.expiresAt),
+      accessCount: Number(row.accessCount) || 0,
+      lastAccessedAt: Number(row.lastAccessedAt) || undefined,
+      feedbackScore: Number(row.feedbackScore) || 0,
+    };
+  }
+
+  /** Memory row as written, with encrypted text and metadata and their hashed indexes */
+  private toStoredRow(entry: MemoryEntry): Record<string, unknown> {
+    const row = toMemoryRow(entry);
+    if (!this.cipher) return row;
+    return {
+      ...row,
+      text: this.cipher.encrypt(entry.text),
+      metadata: this.cipher.encrypt(entry.metadata || "{}"),
+      textHash: this.cipher.textHash(entry.text),
+      textTokens: this.cipher.tokenIndex(entry.text),
+    };
+  }
+
   private async createFtsIndex(table: LanceDB.Table): Promise<void> {
     try {
       // Check if FTS index already exists
@@ -204,9 +601,13 @@ export class MemoryStore {
       id: randomUUID(),
       timestamp: Date.now(),
       metadata: entry.metadata ?? "{}",
+      deletedAt: 0,
+      tags: normalizeTags(entry.tags),
     });
 
-    await this.table!.add([fullEntry]);
+    await this.table!.add([this.toStoredRow(fullEntry)]);
+    this.config.onVectorWrite?.(fullEntry.id, fullEntry.vector);
+    await this.indexEntities([fullEntry]);
     return fullEntry;
   }
 
@@ -235,9 +636,13 @@ export class MemoryStore {
       importance: Number.isFinite(entry.importance) ? entry.importance : 0.7,
       timestamp: Number.isFinite(entry.timestamp) ? entry.timestamp : Date.now(),
       metadata: entry.metadata || "{}",
+      deletedAt: Number.isFinite(entry.deletedAt) ? entry.deletedAt : 0,
+      tags: normalizeTags(entry.tags),
     };
 
-    await this.table!.add([full]);
+    await this.table!.add([this.toStoredRow(full)]);
+    this.config.onVectorWrite?.(full.id, full.vector);
+    await this.indexEntities([full]);
     return full;
   }
 
@@ -248,21 +653,31 @@ export class MemoryStore {
     return res.length > 0;
   }
 
-  async vectorSearch(vector: number[], limit = 5, minScore = 0.3, scopeFilter?: string[]): Promise<MemorySearchResult[]> {
+  /** IDs of memories whose text matches exactly (e.g. to refresh their vectors) */
+  async findIdsByText(text: string): Promise<string[]> {
+    await this.ensureInitialized();
+    const safeText = escapeSqlLiteral(text);
+    // Encrypted rows are matched by keyed hash; rows not encrypted yet by their text
+    const where = this.cipher
+      ? `\`textHash\` = '${this.cipher.textHash(text)}' OR text = '${safeText}'`
+      : `text = '${safeText}'`;
+    const res = await this.table!.query().select(["id"]).where(where).toArray();
+    return res.map((row: any) => row.id as string);
+  }
+
+  async vectorSearch(
+    vector: number[],
+    limit = 5,
+    minScore = 0.3,
+    scopeFilter?: string[],
+    filter?: MemoryFilter
+  ): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
 
     const safeLimit = clampInt(limit, 1, 20);
-    const fetchLimit = Math.min(safeLimit * 10, 200); // Over-fetch for scope filtering
+    const fetchLimit = Math.min(safeLimit * 10, 200); // Over-fetch for scope/metadata filtering
 
-    let query = this.table!.vectorSearch(vector).limit(fetchLimit);
-
-    // Apply scope filter if provided
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      query = query.where(`(${scopeConditions}) OR scope IS NULL`); // NULL for backward compatibility
-    }
+    const query = this.table!.vectorSearch(vector).limit(fetchLimit).where(buildWhere(scopeFilter, filter));
 
     const results = await query.toArray();
     const mapped: MemorySearchResult[] = [];
@@ -280,19 +695,12 @@ export class MemoryStore {
         continue;
       }
 
-      mapped.push({
-        entry: {
-          id: row.id as string,
-          text: row.text as string,
-          vector: row.vector as number[],
-          category: row.category as MemoryEntry["category"],
-          scope: rowScope,
-          importance: row.importance as number,
-          timestamp: (row.timestamp as number) || (row.createdAt as number) || Date.now(),
-          metadata: (row.metadata as string) || "{}",
-        },
-        score,
-      });
+      const entry = this.rowToEntry(row, { withVector: true });
+
+      // Metadata keys live in a JSON string column, so they're matched here
+      if (!matchesFilter(entry, filter)) continue;
+
+      mapped.push({ entry, score });
 
       if (mapped.length >= safeLimit) break;
     }
@@ -300,27 +708,32 @@ export class MemoryStore {
     return mapped;
   }
 
-  async bm25Search(query: string, limit = 5, scopeFilter?: string[]): Promise<MemorySearchResult[]> {
+  /**
+   * Keyword search: full-text (BM25) hits plus tag matches. Tag names in the
+   * query work as keyword terms even when the FTS index is unavailable.
+   */
+  async bm25Search(query: string, limit = 5, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
 
-    if (!this.ftsIndexCreated) {
-      return []; // Fallback to vector-only if FTS unavailable
-    }
-
     const safeLimit = clampInt(limit, 1, 20);
 
+    // Without FTS only tag matches remain (empty → vector-only retrieval)
+    const textHits = this.cipher
+      ? await this.hashedWordSearch(query, safeLimit, scopeFilter, filter)
+      : this.ftsIndexCreated
+        ? await this.fullTextSearch(query, safeLimit, scopeFilter, filter)
+        : [];
+
+    return this.applyTagMatches(query, textHits, safeLimit, scopeFilter, filter);
+  }
+
+  private async fullTextSearch(query: string, safeLimit: number, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]> {
     try {
       // Use FTS search - search with string query returns Promise<VectorQuery>
       const searchQuery = await this.table!.search(query);
       searchQuery.limit(safeLimit);
 
-      // Apply scope filter if provided
-      if (scopeFilter && scopeFilter.length > 0) {
-        const scopeConditions = scopeFilter
-          .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-          .join(" OR ");
-        searchQuery.where(`(${scopeConditions}) OR scope IS NULL`);
-      }
+      searchQuery.where(buildWhere(scopeFilter, filter));
 
       const results = await searchQuery.toArray();
       const mapped: MemorySearchResult[] = [];
@@ -337,19 +750,11 @@ export class MemoryStore {
         const rawScore = typeof row._score === "number" ? row._score : 0;
         const normalizedScore = rawScore > 0 ? 1 / (1 + Math.exp(-rawScore / 5)) : 0.5;
 
-        mapped.push({
-          entry: {
-            id: row.id as string,
-            text: row.text as string,
-            vector: row.vector as number[],
-            category: row.category as MemoryEntry["category"],
-            scope: rowScope,
-            importance: row.importance as number,
-            timestamp: (row.timestamp as number) || (row.createdAt as number) || Date.now(),
-            metadata: (row.metadata as string) || "{}",
-          },
-          score: normalizedScore,
-        });
+        const entry = this.rowToEntry(row, { withVector: true });
+
+        if (!matchesFilter(entry, filter)) continue;
+
+        mapped.push({ entry, score: normalizedScore });
       }
 
       return mapped;
@@ -359,6 +764,112 @@ export class MemoryStore {
     }
   }
 
+  /**
+   * Keyword search over encrypted text: memories sharing hashed words with the
+   * query, scored by the share of query words they contain. Whole words only
+   * (CJK by character pairs); no stemming and no BM25 weighting.
+   */
+  private async hashedWordSearch(query: string, safeLimit: number, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]> {
+    const terms = this.cipher!.tokenHashes(query).slice(0, 32);
+    if (terms.length === 0) return [];
+
+    try {
+      const termClause = terms.map(term => `\`textTokens\` LIKE '% ${term} %'`).join(" OR ");
+      const results = await this.table!
+        .query()
+        .where(`(${termClause}) AND ${buildWhere(scopeFilter, filter)}`)
+        .limit(safeLimit * 10)
+        .toArray();
+      const mapped: MemorySearchResult[] = [];
+
+      for (const row of results) {
+        const rowScope = (row.scope as string | undefined) ?? "global";
+        if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+          continue;
+        }
+
+        const rowTerms = new Set(String(row.textTokens || "").trim().split(" "));
+        const matched = terms.filter(term => rowTerms.has(term)).length;
+        if (matched === 0) continue;
+
+        const entry = this.rowToEntry(row, { withVector: true });
+
+        if (!matchesFilter(entry, filter)) continue;
+
+        // Same 0.5-1 range as normalized BM25 scores
+        mapped.push({ entry, score: 0.5 + 0.5 * (matched / terms.length) });
+      }
+
+      return mapped.sort((a, b) => b.score - a.score).slice(0, safeLimit);
+    } catch (err) {
+      console.warn("Hashed word search failed, falling back to empty results:", err);
+      return [];
+    }
+  }
+
+  /**
+   * Boost full-text hits carrying a tag named in the query, and add tagged
+   * memories the full-text index didn't return.
+   */
+  private async applyTagMatches(
+    query: string,
+    hits: MemorySearchResult[],
+    safeLimit: number,
+    scopeFilter?: string[],
+    filter?: MemoryFilter
+  ): Promise<MemorySearchResult[]> {
+    const terms = new Set(extractTagTerms(query));
+    if (terms.size === 0) return hits;
+
+    const countMatches = (tags: string[] | undefined) => (tags ?? []).filter(tag => terms.has(tag)).length;
+    const merged = new Map<string, MemorySearchResult>();
+
+    for (const hit of hits) {
+      const matched = countMatches(hit.entry.tags);
+      merged.set(hit.entry.id, matched > 0
+        ? { entry: hit.entry, score: Math.min(1, hit.score + TAG_MATCH_BOOST * matched) }
+        : hit);
+    }
+
+    let rows: any[];
+    try {
+      const tagClause = Array.from(terms).map(tagLikeClause).join(" OR ");
+      rows = await this.table!
+        .query()
+        .where(`(${tagClause}) AND ${buildWhere(scopeFilter, filter)}`)
+        .limit(safeLimit * 5)
+        .toArray();
+    } catch (err) {
+      console.warn("Tag search failed, using full-text results only:", err);
+      return hits;
+    }
+
+    for (const row of rows) {
+      if (merged.has(row.id as string)) continue;
+
+      const rowScope = (row.scope as string | undefined) ?? "global";
+      if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+        continue;
+      }
+
+      const entry = this.rowToEntry(row, { withVector: true });
+
+      // LIKE treats `_` as a wildcard; count exact tag matches
+      const matched = countMatches(entry.tags);
+      if (matched === 0 || !matchesFilter(entry, filter)) continue;
+
+      merged.set(entry.id, { entry, score: Math.min(1, TAG_MATCH_SCORE + TAG_MATCH_BOOST * (matched - 1)) });
+    }
+
+    return Array.from(merged.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, safeLimit);
+  }
+
+  /**
+   * Move a memory to the trash. It stays restorable until purged by the
+   * retention policy (see purgeDeleted()).
+   */
   async delete(id: string, scopeFilter?: string[]): Promise<boolean> {
     await this.ensureInitialized();
 
@@ -374,10 +885,10 @@ export class MemoryStore {
 
     let candidates: any[];
     if (isFullId) {
-      candidates = await this.table!.query().where(`id = '${id}'`).limit(1).toArray();
+      candidates = await this.table!.query().where(liveWhere(`id = '${id}'`)).limit(1).toArray();
     } else {
       // Prefix match: fetch candidates and filter in app layer
-      const all = await this.table!.query().select(["id", "scope"]).limit(1000).toArray();
+      const all = await this.table!.query().select(["id", "scope"]).where(LIVE_FILTER).limit(1000).toArray();
       candidates = all.filter((r: any) => (r.id as string).startsWith(id));
       if (candidates.length > 1) {
         throw new Error(`Ambiguous prefix "${id}" matches ${candidates.length} memories. Use a longer prefix or full ID.`);
@@ -395,51 +906,58 @@ export class MemoryStore {
       throw new Error(`Memory ${resolvedId} is outside accessible scopes`);
     }
 
-    await this.table!.delete(`id = '${resolvedId}'`);
+    await this.table!.update({ deletedAt: String(Date.now()) }, { where: `id = '${escapeSqlLiteral(resolvedId)}'` });
     return true;
   }
 
-  async list(scopeFilter?: string[], category?: string, limit = 20, offset = 0): Promise<MemoryEntry[]> {
+  async list(
+    scopeFilter?: string[],
+    category?: string,
+    limit = 20,
+    offset = 0,
+    filter?: MemoryFilter
+  ): Promise<MemoryEntry[]> {
     await this.ensureInitialized();
 
-    let query = this.table!.query();
-
-    // Build where conditions
-    const conditions: string[] = [];
-
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      conditions.push(`((${scopeConditions}) OR scope IS NULL)`);
-    }
-
+    let where = buildWhere(scopeFilter, filter);
     if (category) {
-      conditions.push(`category = '${escapeSqlLiteral(category)}'`);
-    }
-
-    if (conditions.length > 0) {
-      query = query.where(conditions.join(" AND "));
+      where = `category = '${escapeSqlLiteral(category)}' AND ${where}`;
     }
 
     // Fetch all matching rows - use selectAll to avoid column existence issues
-    const results = await query.toArray();
+    const results = await this.table!.query().where(where).toArray();
 
     return results
-      .map((row): MemoryEntry => ({
-        id: row.id as string,
-        text: row.text as string,
-        vector: [], // Don't include vectors in list results for performance
-        category: row.category as MemoryEntry["category"],
-        scope: (row.scope as string | undefined) ?? "global",
-        importance: row.importance as number,
-        timestamp: (row.timestamp as number) || (row.createdAt as number) || 0,
-        metadata: (row.metadata as string) || "{}",
-      }))
+      .map(row => this.rowToEntry(row, { withVector: false }))
+      .filter(entry => matchesFilter(entry, filter))
       .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
       .slice(offset, offset + limit);
   }
 
+  /** Every live memory in the scopes, vectors included (for whole-table scans like dedupe). */
+  async listWithVectors(scopeFilter?: string[]): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+
+    const results = await this.table!.query().where(buildWhere(scopeFilter)).toArray();
+
+    return results.map(row => this.rowToEntry(row, { withVector: true }));
+  }
+
+  /**
+   * Live memories with vectors, read one record batch at a time, so callers
+   * like export can walk any number of rows in bounded memory.
+   */
+  async *iterate(scopeFilter?: string[], filter?: MemoryFilter): AsyncGenerator<MemoryEntry> {
+    await this.ensureInitialized();
+
+    for await (const batch of this.table!.query().where(buildWhere(scopeFilter, filter))) {
+      for (const row of batch.toArray()) {
+        const entry = this.rowToEntry(row, { withVector: true });
+        if (matchesFilter(entry, filter)) yield entry;
+      }
+    }
+  }
+
   async stats(scopeFilter?: string[]): Promise<{
     totalCount: number;
     scopeCounts: Record<string, number>;
@@ -447,16 +965,7 @@ export class MemoryStore {
   }> {
     await this.ensureInitialized();
 
-    let query = this.table!.query();
-
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      query = query.where(`((${scopeConditions}) OR scope IS NULL)`);
-    }
-
-    const results = await query.select(["scope", "category"]).toArray();
+    const results = await this.table!.query().where(buildWhere(scopeFilter)).select(["scope", "category"]).toArray();
 
     const scopeCounts: Record<string, number> = {};
     const categoryCounts: Record<string, number> = {};
@@ -476,14 +985,27 @@ export class MemoryStore {
     };
   }
 
-  async update(
-    id: string,
-    updates: { text?: string; vector?: number[]; importance?: number; category?: MemoryEntry["category"]; metadata?: string },
-    scopeFilter?: string[]
-  ): Promise<MemoryEntry | null> {
+  /** Tags in use with how many live memories carry each, most used first. */
+  async listTags(scopeFilter?: string[]): Promise<Array<{ tag: string; count: number }>> {
+    await this.ensureInitialized();
+
+    const results = await this.table!.query().where(buildWhere(scopeFilter)).select(["tags"]).toArray();
+
+    const counts = new Map<string, number>();
+    for (const row of results) {
+      for (const tag of parseTags(row.tags)) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /** Look up a raw row by full UUID or short prefix (8+ hex chars), same as delete() */
+  private async findRow(id: string): Promise<any | null> {
     await this.ensureInitialized();
 
-    // Support both full UUID and short prefix (8+ hex chars), same as delete()
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     const prefixRegex = /^[0-9a-f]{8,}$/i;
     const isFullId = uuidRegex.test(id);
@@ -496,80 +1018,1381 @@ export class MemoryStore {
     let rows: any[];
     if (isFullId) {
       const safeId = escapeSqlLiteral(id);
-      rows = await this.table!.query().where(`id = '${safeId}'`).limit(1).toArray();
+      rows = await this.table!.query().where(liveWhere(`id = '${safeId}'`)).limit(1).toArray();
     } else {
       // Prefix match
-      const all = await this.table!.query().select(["id", "text", "vector", "category", "scope", "importance", "timestamp", "metadata"]).limit(1000).toArray();
+      const all = await this.table!.query().where(LIVE_FILTER).limit(1000).toArray();
       rows = all.filter((r: any) => (r.id as string).startsWith(id));
       if (rows.length > 1) {
         throw new Error(`Ambiguous prefix "${id}" matches ${rows.length} memories. Use a longer prefix or full ID.`);
       }
     }
 
-    if (rows.length === 0) return null;
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getById(id: string): Promise<MemoryEntry | null> {
+    const row = await this.findRow(id);
+    if (!row) return null;
 
-    const row = rows[0];
-    const rowScope = (row.scope as string | undefined) ?? "global";
+    return this.rowToEntry(row, { withVector: true });
+  }
+
+  /** Live memories with the given full ids, vectors included. Missing or inaccessible ids are skipped. */
+  async getByIds(ids: string[], scopeFilter?: string[]): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+    if (ids.length === 0) return [];
+
+    const rows: any[] = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      const idList = ids.slice(i, i + 100).map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      const where = `id IN (${idList}) AND ${buildWhere(scopeFilter)}`;
+      rows.push(...await this.table!.query().where(where).toArray());
+    }
+
+    return rows.map(row => this.rowToEntry(row, { withVector: true }));
+  }
+
+  async update(
+    id: string,
+    updates: { text?: string; vector?: number[]; importance?: number; category?: MemoryEntry["category"]; metadata?: string; tags?: string[]; expiresAt?: number },
+    scopeFilter?: string[],
+    options: UpdateOptions = {}
+  ): Promise<MemoryEntry | null> {
+    const row = await this.findRow(id);
+    if (!row) return null;
+
+    const current = this.rowToEntry(row, { withVector: true });
 
     // Check scope permissions
-    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(current.scope)) {
       throw new Error(`Memory ${id} is outside accessible scopes`);
     }
 
     // Build updated entry, preserving original timestamp
     const updated: MemoryEntry = {
-      id: row.id as string,
-      text: updates.text ?? (row.text as string),
-      vector: updates.vector ?? (Array.from(row.vector as Iterable<number>)),
-      category: updates.category ?? (row.category as MemoryEntry["category"]),
-      scope: rowScope,
-      importance: updates.importance ?? (row.importance as number),
-      timestamp: (row.timestamp as number) || (row.createdAt as number) || Date.now(), // preserve original
-      metadata: updates.metadata ?? ((row.metadata as string) || "{}"),
+      ...current,
+      text: updates.text ?? current.text,
+      vector: updates.vector ?? current.vector,
+      category: updates.category ?? current.category,
+      importance: updates.importance ?? current.importance,
+      timestamp: current.timestamp || Date.now(), // preserve original
+      metadata: updates.metadata ?? current.metadata,
+      deletedAt: 0,
+      tags: updates.tags ? normalizeTags(updates.tags) : current.tags,
+      expiresAt: updates.expiresAt !== undefined ? toExpiresAt(updates.expiresAt) : current.expiresAt,
     };
 
+    // Keep the previous values unless only the vector changed (re-embedding isn't an edit)
+    const contentChanged =
+      updated.text !== current.text ||
+      updated.category !== current.category ||
+      updated.importance !== current.importance ||
+      updated.metadata !== current.metadata ||
+      serializeTags(updated.tags) !== serializeTags(current.tags) ||
+      (updated.expiresAt ?? 0) !== (current.expiresAt ?? 0);
+    if (contentChanged) {
+      await this.recordVersion(row, options);
+    }
+
     // LanceDB doesn't support in-place update; delete + re-add
     const resolvedId = escapeSqlLiteral(row.id as string);
     await this.table!.delete(`id = '${resolvedId}'`);
-    await this.table!.add([updated]);
+    await this.table!.add([this.toStoredRow(updated)]);
+    if (updates.vector) {
+      this.config.onVectorWrite?.(updated.id, updates.vector);
+    }
+    if (updated.text !== current.text) {
+      await this.indexEntities([updated]);
+    }
 
     return updated;
   }
 
-  async bulkDelete(scopeFilter: string[], beforeTimestamp?: number): Promise<number> {
-    await this.ensureInitialized();
-
-    const conditions: string[] = [];
-
-    if (scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      conditions.push(`(${scopeConditions})`);
-    }
+  // ==========================================================================
+  // Version History
+  // ==========================================================================
 
-    if (beforeTimestamp) {
-      conditions.push(`timestamp < ${beforeTimestamp}`);
-    }
-
-    if (conditions.length === 0) {
-      throw new Error("Bulk delete requires at least scope or timestamp filter for safety");
+  private async getVersionsTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.versionsTable) {
+      return this.versionsTable;
     }
 
-    const whereClause = conditions.join(" AND ");
-
+    try {
+      const table = await this.db!.openTable(VERSIONS_TABLE_NAME);
+      await this.migrateColumns(table, VERSION_COLUMN_MIGRATIONS);
+      this.versionsTable = table;
+    } catch (_openErr) {
+      const schemaEntry: MemoryVersion = {
+        id: "__schema__",
+        memoryId: "",
+        version: 0,
+        text: "",
+        vector: Array.from({ length: this.config.vectorDim }).fill(0) as number[],
+        category: "other",
+        scope: "global",
+        importance: 0,
+        timestamp: 0,
+        metadata: "{}",
+        tags: [],
+        expiresAt: 0,
+        changedAt: 0,
+        changedBy: "",
+        action: "update",
+      };
+
+      try {
+        this.versionsTable = await this.db!.createTable(VERSIONS_TABLE_NAME, [toRow(schemaEntry)]);
+        await this.versionsTable.delete('id = "__schema__"');
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.versionsTable = await this.db!.openTable(VERSIONS_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.versionsTable;
+  }
+
+  private async recordVersion(row: any, options: UpdateOptions): Promise<void> {
+    const table = await this.getVersionsTable();
+    const memoryId = row.id as string;
+    const existing = await table
+      .query()
+      .select(["version"])
+      .where(`\`memoryId\` = '${escapeSqlLiteral(memoryId)}'`)
+      .toArray();
+    const nextVersion = existing.reduce((max: number, r: any) => Math.max(max, Number(r.version)), 0) + 1;
+
+    const version: MemoryVersion = {
+      id: randomUUID(),
+      memoryId,
+      version: nextVersion,
+      text: this.seal(this.reveal(row.text)),
+      vector: Array.from(row.vector as Iterable<number>),
+      category: row.category as MemoryEntry["category"],
+      scope: (row.scope as string | undefined) ?? "global",
+      importance: row.importance as number,
+      timestamp: (row.timestamp as number) || Date.now(),
+      metadata: this.seal(this.reveal(row.metadata) || "{}"),
+      tags: parseTags(row.tags),
+      expiresAt: toExpiresAt(row.expiresAt) ?? 0,
+      changedAt: Date.now(),
+      changedBy: options.changedBy || "unknown",
+      action: options.action || "update",
+    };
+
+    await table.add([toRow(version)]);
+  }
+
+  /**
+   * Past versions of a memory, oldest first. Accepts a full id or an 8+ char
+   * prefix of a memory that still exists.
+   */
+  async getHistory(id: string, scopeFilter?: string[]): Promise<{ current: MemoryEntry; versions: MemoryVersion[] } | null> {
+    const current = await this.getById(id);
+    if (!current) return null;
+
+    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(current.scope)) {
+      throw new Error(`Memory ${id} is outside accessible scopes`);
+    }
+
+    const table = await this.getVersionsTable();
+    const rows = await table
+      .query()
+      .where(`\`memoryId\` = '${escapeSqlLiteral(current.id)}'`)
+      .toArray();
+
+    const versions = rows
+      .map((row: any): MemoryVersion => ({
+        id: row.id as string,
+        memoryId: row.memoryId as string,
+        version: Number(row.version),
+        text: this.reveal(row.text),
+        vector: Array.from(row.vector as Iterable<number>),
+        category: row.category as MemoryEntry["category"],
+        scope: row.scope as string,
+        importance: Number(row.importance),
+        timestamp: Number(row.timestamp),
+        metadata: this.reveal(row.metadata) || "{}",
+        tags: parseTags(row.tags),
+        expiresAt: toExpiresAt(row.expiresAt) ?? 0,
+        changedAt: Number(row.changedAt),
+        changedBy: row.changedBy as string,
+        action: row.action as MemoryVersion["action"],
+      }))
+      .sort((a, b) => a.version - b.version);
+
+    return { current, versions };
+  }
+
+  /**
+   * Restore the values of a past version. The values being replaced are
+   * recorded as a new version, so a revert can itself be undone.
+   */
+  async revert(id: string, version: number, scopeFilter?: string[], changedBy?: string): Promise<MemoryEntry | null> {
+    const history = await this.getHistory(id, scopeFilter);
+    if (!history) return null;
+
+    const target = history.versions.find(v => v.version === version);
+    if (!target) {
+      throw new Error(`Memory ${history.current.id} has no version ${version}`);
+    }
+
+    return this.update(
+      history.current.id,
+      {
+        text: target.text,
+        vector: target.vector,
+        category: target.category,
+        importance: target.importance,
+        metadata: target.metadata,
+        tags: target.tags,
+        expiresAt: target.expiresAt,
+      },
+      scopeFilter,
+      { changedBy, action: "revert" }
+    );
+  }
+
+  // ==========================================================================
+  // Supersession
+  // ==========================================================================
+
+  /**
+   * Mark memories as replaced by a newer one and record `supersedes` links.
+   * Returns how many live memories were marked; the newer memory itself is
+   * never marked.
+   */
+  async markSuperseded(ids: string[], supersededBy: string, scopeFilter?: string[], createdBy = "supersession"): Promise<number> {
+    await this.ensureInitialized();
+
+    let marked = 0;
+    for (const id of ids) {
+      if (id === supersededBy) continue;
+      const row = await this.findRow(id);
+      if (!row || row.id === supersededBy) continue;
+
+      const rowScope = (row.scope as string | undefined) ?? "global";
+      if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+        throw new Error(`Memory ${id} is outside accessible scopes`);
+      }
+
+      await this.table!.update(
+        { supersededBy: `'${escapeSqlLiteral(supersededBy)}'` },
+        { where: `id = '${escapeSqlLiteral(row.id as string)}'` }
+      );
+      await this.insertLink(supersededBy, row.id as string, "supersedes", createdBy);
+      marked++;
+    }
+    return marked;
+  }
+
+  /** Make a superseded memory current again, removing the `supersedes` links to it. */
+  async clearSuperseded(id: string, scopeFilter?: string[]): Promise<boolean> {
+    const row = await this.findRow(id);
+    if (!row) return false;
+
+    const rowScope = (row.scope as string | undefined) ?? "global";
+    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+      throw new Error(`Memory ${id} is outside accessible scopes`);
+    }
+
+    const safeId = escapeSqlLiteral(row.id as string);
+    await this.table!.update({ supersededBy: "''" }, { where: `id = '${safeId}'` });
+    const links = await this.getLinksTable();
+    await links.delete(`\`targetId\` = '${safeId}' AND type = 'supersedes'`);
+    return true;
+  }
+
+  // ==========================================================================
+  // Links
+  // ==========================================================================
+
+  private async getLinksTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.linksTable) {
+      return this.linksTable;
+    }
+
+    try {
+      this.linksTable = await this.db!.openTable(LINKS_TABLE_NAME);
+    } catch (_openErr) {
+      const schemaLink: MemoryLink = {
+        id: "__schema__",
+        sourceId: "",
+        targetId: "",
+        type: "relates_to",
+        createdAt: 0,
+        createdBy: "",
+      };
+
+      try {
+        this.linksTable = await this.db!.createTable(LINKS_TABLE_NAME, [schemaLink]);
+        await this.linksTable.delete('id = "__schema__"');
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.linksTable = await this.db!.openTable(LINKS_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.linksTable;
+  }
+
+  private async insertLink(sourceId: string, targetId: string, type: LinkType, createdBy: string): Promise<MemoryLink> {
+    const table = await this.getLinksTable();
+    const existing = await table
+      .query()
+      .where(`\`sourceId\` = '${escapeSqlLiteral(sourceId)}' AND \`targetId\` = '${escapeSqlLiteral(targetId)}' AND type = '${type}'`)
+      .limit(1)
+      .toArray();
+    if (existing.length > 0) {
+      return rowToLink(existing[0]);
+    }
+
+    const link: MemoryLink = { id: randomUUID(), sourceId, targetId, type, createdAt: Date.now(), createdBy };
+    await table.add([link]);
+    return link;
+  }
+
+  /**
+   * Link two live memories (full ids or 8+ char prefixes). Linking the same
+   * pair with the same type twice returns the existing link. A `supersedes`
+   * link also marks the target as superseded. Returns null if either memory
+   * doesn't exist.
+   */
+  async addLink(
+    sourceId: string,
+    targetId: string,
+    type: LinkType,
+    options: { createdBy?: string; scopeFilter?: string[] } = {}
+  ): Promise<MemoryLink | null> {
+    const { createdBy = "unknown", scopeFilter } = options;
+    const source = await this.findRow(sourceId);
+    const target = await this.findRow(targetId);
+    if (!source || !target) return null;
+
+    for (const row of [source, target]) {
+      const rowScope = (row.scope as string | undefined) ?? "global";
+      if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+        throw new Error(`Memory ${row.id} is outside accessible scopes`);
+      }
+    }
+    if (source.id === target.id) {
+      throw new Error("A memory cannot be linked to itself");
+    }
+
+    if (type === "supersedes") {
+      await this.markSuperseded([target.id as string], source.id as string, scopeFilter, createdBy);
+    }
+    return this.insertLink(source.id as string, target.id as string, type, createdBy);
+  }
+
+  /**
+   * Remove links from `sourceId` to `targetId` (of one type, or all types).
+   * Removing a `supersedes` link makes the target current again. Returns how
+   * many links were removed.
+   */
+  async removeLink(sourceId: string, targetId: string, type?: LinkType, scopeFilter?: string[]): Promise<number> {
+    const source = await this.findRow(sourceId);
+    const target = await this.findRow(targetId);
+    if (!source || !target) return 0;
+
+    for (const row of [source, target]) {
+      const rowScope = (row.scope as string | undefined) ?? "global";
+      if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+        throw new Error(`Memory ${row.id} is outside accessible scopes`);
+      }
+    }
+
+    const table = await this.getLinksTable();
+    let where = `\`sourceId\` = '${escapeSqlLiteral(source.id as string)}' AND \`targetId\` = '${escapeSqlLiteral(target.id as string)}'`;
+    if (type) {
+      where += ` AND type = '${type}'`;
+    }
+
+    const removed = await table.query().where(where).toArray();
+    if (removed.length === 0) return 0;
+
+    await table.delete(where);
+    if (removed.some((r: any) => r.type === "supersedes") && target.supersededBy === source.id) {
+      await this.table!.update({ supersededBy: "''" }, { where: `id = '${escapeSqlLiteral(target.id as string)}'` });
+    }
+    return removed.length;
+  }
+
+  /** Links touching any of the given full ids, in either direction. */
+  async getLinks(ids: string[]): Promise<MemoryLink[]> {
+    if (ids.length === 0) return [];
+    const table = await this.getLinksTable();
+
+    const links: MemoryLink[] = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      const idList = ids.slice(i, i + 100).map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      const rows = await table.query().where(`\`sourceId\` IN (${idList}) OR \`targetId\` IN (${idList})`).toArray();
+      links.push(...rows.map(rowToLink));
+    }
+
+    const seen = new Set<string>();
+    return links.filter(link => !seen.has(link.id) && seen.add(link.id));
+  }
+
+  // ==========================================================================
+  // Entity Index
+  // ==========================================================================
+
+  private async getEntitiesTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.entitiesTable) {
+      return this.entitiesTable;
+    }
+
+    try {
+      const table = await this.db!.openTable(ENTITIES_TABLE_NAME);
+      await this.migrateColumns(table, ENTITY_COLUMN_MIGRATIONS);
+      this.entitiesTable = table;
+    } catch (_openErr) {
+      const schemaRow = { id: "__schema__", memoryId: "", entity: "", name: "", kind: "name", aliases: "[]", aliasIndex: "", scope: "global" };
+
+      try {
+        const table = await this.db!.createTable(ENTITIES_TABLE_NAME, [schemaRow]);
+        await table.delete('id = "__schema__"');
+        this.entitiesTable = table;
+
+        // Memories stored before the index existed (trashed ones too, so a restore finds them)
+        const existing = await this.table!.query().select(["id", "text", "scope"]).toArray();
+        if (existing.length > 0) {
+          console.warn(`Building entity index for ${existing.length} existing memories`);
+          await this.indexEntities(existing.map((r: any) => ({ id: r.id, text: this.reveal(r.text), scope: r.scope ?? "global" })), false);
+        }
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.entitiesTable = await this.db!.openTable(ENTITIES_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.entitiesTable!;
+  }
+
+  /**
+   * (Re)index the entities mentioned by memories. The index is derived data,
+   * so failures are logged instead of failing the write.
+   */
+  private async indexEntities(entries: Array<Pick<MemoryEntry, "id" | "text" | "scope">>, replace = true): Promise<void> {
+    try {
+      const table = await this.getEntitiesTable();
+
+      const rows = entries.flatMap(entry =>
+        extractEntities(entry.text).map(mention => ({
+          id: randomUUID(),
+          memoryId: entry.id,
+          entity: this.entityLookupKey(mention.key),
+          name: this.seal(mention.name),
+          kind: mention.kind,
+          aliases: this.seal(JSON.stringify(mention.aliases)),
+          aliasIndex: this.aliasIndex(mention.aliases),
+          scope: entry.scope || "global",
+        }))
+      );
+
+      if (replace) {
+        const ids = entries.map(e => `'${escapeSqlLiteral(e.id)}'`);
+        for (let i = 0; i < ids.length; i += 100) {
+          await table.delete(`\`memoryId\` IN (${ids.slice(i, i + 100).join(", ")})`);
+        }
+      }
+      for (let i = 0; i < rows.length; i += 500) {
+        await table.add(rows.slice(i, i + 500));
+      }
+    } catch (err) {
+      console.warn("Failed to update entity index:", err);
+    }
+  }
+
+  /** `entity` column value: the key itself, or a keyed hash of it when encrypted */
+  private entityLookupKey(key: string): string {
+    return this.cipher ? this.cipher.digest(`entity:${key}`) : key;
+  }
+
+  /** `aliasIndex` column value: space-delimited alias hashes (encrypted stores only; plaintext ones search `aliases`) */
+  private aliasIndex(aliases: string[]): string {
+    return this.cipher && aliases.length > 0 ? ` ${aliases.map(alias => this.entityLookupKey(alias)).join(" ")} ` : "";
+  }
+
+  /** Where clause matching entity rows for a key, both encrypted rows and rows not encrypted yet */
+  private entityKeyWhere(keys: string[]): string {
+    const values = keys.flatMap(key => this.cipher ? [this.entityLookupKey(key), key] : [key]);
+    return `entity IN (${values.map(v => `'${escapeSqlLiteral(v)}'`).join(", ")})`;
+  }
+
+  /** Plaintext key of an entity row; encrypted rows only store its hash, so it's derived from the name */
+  private entityRowKey(row: any): string {
+    return isEncryptedValue(row.name) ? normalizeEntityName(this.reveal(row.name)) : row.entity as string;
+  }
+
+  /**
+   * Index rows for an entity, looked up by name or alias (one alias hop).
+   * Only live memories in the scopes count. Returns null when none mention it.
+   */
+  async findEntity(name: string, scopeFilter?: string[]): Promise<EntityIndexMatch | null> {
+    const key = normalizeEntityName(name);
+    if (!key) return null;
+
+    const table = await this.getEntitiesTable();
+    const scopeWhere = scopeFilter && scopeFilter.length > 0
+      ? ` AND (${scopeFilter.map(scope => `scope = '${escapeSqlLiteral(scope)}'`).join(" OR ")})`
+      : "";
+    const aliasLike = escapeSqlLiteral(JSON.stringify(key));
+    const aliasWhere = this.cipher
+      ? `\`aliasIndex\` LIKE '% ${this.entityLookupKey(key)} %' OR aliases LIKE '%${aliasLike}%'`
+      : `aliases LIKE '%${aliasLike}%'`;
+
+    const direct = await table
+      .query()
+      .where(`(${this.entityKeyWhere([key])} OR ${aliasWhere})${scopeWhere}`)
+      .toArray();
+    if (direct.length === 0) return null;
+
+    const keys = new Set<string>([key]);
+    for (const row of direct) {
+      keys.add(this.entityRowKey(row));
+      for (const alias of JSON.parse(this.reveal(row.aliases) || "[]") as string[]) keys.add(alias);
+    }
+
+    const rows = await table.query().where(`${this.entityKeyWhere(Array.from(keys))}${scopeWhere}`).toArray();
+
+    const live = new Set((await this.getByIds(Array.from(new Set(rows.map((r: any) => r.memoryId as string))), scopeFilter)).map(e => e.id));
+    const liveRows = rows
+      .filter((r: any) => live.has(r.memoryId as string))
+      .map((r: any) => ({ key: this.entityRowKey(r), name: this.reveal(r.name), kind: r.kind as EntityKind }));
+    if (liveRows.length === 0) return null;
+
+    // Looked up by an alias nobody uses as a name: report the entity it points to
+    const primary = liveRows.some(r => r.key === key) ? key : liveRows[0].key;
+    const spellings = new Map<string, number>();
+    for (const row of liveRows) {
+      if (row.key === primary) {
+        spellings.set(row.name, (spellings.get(row.name) || 0) + 1);
+      }
+    }
+
+    return {
+      key: primary,
+      name: Array.from(spellings).sort((a, b) => b[1] - a[1])[0][0],
+      aliases: Array.from(keys).filter(k => k !== primary).sort(),
+      kinds: Array.from(new Set(liveRows.map(r => r.kind))),
+      memoryIds: Array.from(live),
+    };
+  }
+
+  /** Indexed entities with how many live memories mention each, most mentioned first. */
+  async listEntities(scopeFilter?: string[]): Promise<Array<{ key: string; name: string; kind: EntityKind; count: number }>> {
+    const table = await this.getEntitiesTable();
+    const rows = await table.query().toArray();
+
+    const liveIds = new Set(
+      (await this.table!.query().select(["id"]).where(buildWhere(scopeFilter)).toArray()).map((r: any) => r.id as string)
+    );
+
+    const entities = new Map<string, { key: string; name: string; kind: EntityKind; memoryIds: Set<string> }>();
+    for (const row of rows) {
+      if (!liveIds.has(row.memoryId as string)) continue;
+      const key = this.entityRowKey(row);
+      const entity = entities.get(key) ?? { key, name: this.reveal(row.name), kind: row.kind as EntityKind, memoryIds: new Set<string>() };
+      entity.memoryIds.add(row.memoryId as string);
+      entities.set(key, entity);
+    }
+
+    return Array.from(entities.values())
+      .map(({ key, name, kind, memoryIds }) => ({ key, name, kind, count: memoryIds.size }))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  }
+
+  // ==========================================================================
+  // Access Tracking
+  // ==========================================================================
+
+  /**
+   * Add retrieval hits to `accessCount` and set `lastAccessedAt`. Ids with the
+   * same increment share one UPDATE, so a batch costs a few table writes.
+   */
+  async recordAccess(accesses: Map<string, { count: number; lastAccessedAt: number }>): Promise<void> {
+    await this.ensureInitialized();
+
+    const groups = new Map<string, string[]>();
+    for (const [id, { count, lastAccessedAt }] of accesses) {
+      const key = `${count}:${lastAccessedAt}`;
+      const ids = groups.get(key) ?? [];
+      ids.push(`'${escapeSqlLiteral(id)}'`);
+      groups.set(key, ids);
+    }
+
+    for (const [key, ids] of groups) {
+      const [count, lastAccessedAt] = key.split(":");
+      for (let i = 0; i < ids.length; i += 100) {
+        await this.table!.update(
+          { accessCount: `\`accessCount\` + ${Number(count)}`, lastAccessedAt: String(Number(lastAccessedAt)) },
+          { where: `id IN (${ids.slice(i, i + 100).join(", ")})` }
+        );
+      }
+    }
+  }
+
+  /**
+   * Most and least used live memories. Least used are those with the fewest
+   * accesses, longest unused (or oldest, if never used) first.
+   */
+  async accessStats(scopeFilter?: string[], limit = 5): Promise<{
+    totalAccesses: number;
+    neverAccessed: number;
+    mostUsed: MemoryEntry[];
+    leastUsed: MemoryEntry[];
+  }> {
+    const entries = await this.list(scopeFilter, undefined, Number.MAX_SAFE_INTEGER);
+    const lastUsed = (e: MemoryEntry) => e.lastAccessedAt || e.timestamp;
+
+    return {
+      totalAccesses: entries.reduce((sum, e) => sum + (e.accessCount || 0), 0),
+      neverAccessed: entries.filter(e => !e.accessCount).length,
+      mostUsed: entries
+        .filter(e => (e.accessCount || 0) > 0)
+        .sort((a, b) => (b.accessCount || 0) - (a.accessCount || 0) || lastUsed(b) - lastUsed(a))
+        .slice(0, limit),
+      leastUsed: entries
+        .slice()
+        .sort((a, b) => (a.accessCount || 0) - (b.accessCount || 0) || lastUsed(a) - lastUsed(b))
+        .slice(0, limit),
+    };
+  }
+
+  // ==========================================================================
+  // Relevance Feedback
+  // ==========================================================================
+
+  private async getFeedbackTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.feedbackTable) {
+      return this.feedbackTable;
+    }
+
+    try {
+      this.feedbackTable = await this.db!.openTable(FEEDBACK_TABLE_NAME);
+    } catch (_openErr) {
+      const schemaRow: MemoryFeedback = {
+        id: "__schema__",
+        memoryId: "",
+        query: "",
+        verdict: "helpful",
+        note: "",
+        scope: "global",
+        memoryText: "",
+        createdAt: 0,
+        createdBy: "",
+        resolvedAt: 0,
+        resolution: "",
+      };
+
+      try {
+        this.feedbackTable = await this.db!.createTable(FEEDBACK_TABLE_NAME, [schemaRow]);
+        await this.feedbackTable.delete('id = "__schema__"');
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.feedbackTable = await this.db!.openTable(FEEDBACK_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.feedbackTable;
+  }
+
+  /**
+   * Record a verdict on a live memory (full id or 8+ char prefix) and apply
+   * its importance adjustment. Returns null if the memory doesn't exist.
+   */
+  async addFeedback(
+    memoryId: string,
+    verdict: FeedbackVerdict,
+    options: { query?: string; note?: string; createdBy?: string; scopeFilter?: string[] } = {}
+  ): Promise<{ feedback: MemoryFeedback; entry: MemoryEntry } | null> {
+    const { query = "", note = "", createdBy = "unknown", scopeFilter } = options;
+    const row = await this.findRow(memoryId);
+    if (!row) return null;
+
+    const rowScope = (row.scope as string | undefined) ?? "global";
+    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+      throw new Error(`Memory ${row.id} is outside accessible scopes`);
+    }
+
+    const feedback: MemoryFeedback = {
+      id: randomUUID(),
+      memoryId: row.id as string,
+      query,
+      verdict,
+      note,
+      scope: rowScope,
+      memoryText: this.reveal(row.text),
+      createdAt: Date.now(),
+      createdBy,
+      resolvedAt: 0,
+      resolution: "",
+    };
+    await (await this.getFeedbackTable()).add([{
+      ...feedback,
+      query: this.seal(feedback.query),
+      memoryText: this.seal(feedback.memoryText),
+    }]);
+
+    const feedbackScore = clampFeedbackScore((Number(row.feedbackScore) || 0) + FEEDBACK_ADJUSTMENTS[verdict]);
+    await this.table!.update({ feedbackScore: String(feedbackScore) }, { where: `id = '${escapeSqlLiteral(row.id as string)}'` });
+
+    const entry = await this.getById(row.id as string);
+    return { feedback, entry: entry! };
+  }
+
+  /** Feedback log, newest first. Scope filtering uses the memory's scope at feedback time. */
+  async listFeedback(options: {
+    memoryId?: string;
+    verdict?: FeedbackVerdict;
+    scopeFilter?: string[];
+    since?: number;
+    limit?: number;
+  } = {}): Promise<MemoryFeedback[]> {
+    const table = await this.getFeedbackTable();
+
+    const conditions: string[] = [];
+    if (options.memoryId) conditions.push(`\`memoryId\` = '${escapeSqlLiteral(options.memoryId)}'`);
+    if (options.verdict) conditions.push(`verdict = '${options.verdict}'`);
+    if (options.since) conditions.push(`\`createdAt\` >= ${Math.floor(options.since)}`);
+    if (options.scopeFilter && options.scopeFilter.length > 0) {
+      conditions.push(`scope IN (${options.scopeFilter.map(s => `'${escapeSqlLiteral(s)}'`).join(", ")})`);
+    }
+
+    const query = table.query();
+    const rows = conditions.length > 0 ? await query.where(conditions.join(" AND ")).toArray() : await query.toArray();
+    return rows
+      .map(row => rowToFeedback(row, this.reveal))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, options.limit ?? Number.MAX_SAFE_INTEGER);
+  }
+
+  /** Live memories with open "wrong" verdicts, most reported first. */
+  async listReviewQueue(scopeFilter?: string[]): Promise<Array<{ entry: MemoryEntry; feedback: MemoryFeedback[] }>> {
+    const table = await this.getFeedbackTable();
+    const rows = (await table.query().where(`verdict = 'wrong' AND \`resolvedAt\` = 0`).toArray()).map(row => rowToFeedback(row, this.reveal));
+
+    const byMemory = new Map<string, MemoryFeedback[]>();
+    for (const feedback of rows) {
+      byMemory.set(feedback.memoryId, [...(byMemory.get(feedback.memoryId) ?? []), feedback]);
+    }
+
+    const entries = await this.getByIds(Array.from(byMemory.keys()), scopeFilter);
+    return entries
+      .map(entry => ({
+        entry: { ...entry, vector: [] },
+        feedback: byMemory.get(entry.id)!.sort((a, b) => a.createdAt - b.createdAt),
+      }))
+      .sort((a, b) => b.feedback.length - a.feedback.length || a.feedback[0].createdAt - b.feedback[0].createdAt);
+  }
+
+  /**
+   * Close the review of a memory reported as wrong. "kept" takes back the
+   * penalty of the open verdicts; "forgotten" moves the memory to the trash.
+   * Returns how many verdicts were resolved (0 if none were open).
+   */
+  async resolveReview(memoryId: string, resolution: ReviewResolution, scopeFilter?: string[]): Promise<number> {
+    const row = await this.findRow(memoryId);
+    if (!row) return 0;
+
+    const rowScope = (row.scope as string | undefined) ?? "global";
+    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
+      throw new Error(`Memory ${row.id} is outside accessible scopes`);
+    }
+
+    const table = await this.getFeedbackTable();
+    const where = `\`memoryId\` = '${escapeSqlLiteral(row.id as string)}' AND verdict = 'wrong' AND \`resolvedAt\` = 0`;
+    const open = await table.query().where(where).toArray();
+    if (open.length === 0) return 0;
+
+    await table.update({ resolvedAt: String(Date.now()), resolution: `'${resolution}'` }, { where });
+
+    if (resolution === "forgotten") {
+      await this.delete(row.id as string, scopeFilter);
+    } else {
+      const feedbackScore = clampFeedbackScore((Number(row.feedbackScore) || 0) - open.length * FEEDBACK_ADJUSTMENTS.wrong);
+      await this.table!.update({ feedbackScore: String(feedbackScore) }, { where: `id = '${escapeSqlLiteral(row.id as string)}'` });
+    }
+    return open.length;
+  }
+
+  // ==========================================================================
+  // Expiry
+  // ==========================================================================
+
+  /**
+   * Live memories with an expiry before `now + withinMs`, soonest first.
+   * Includes memories that already expired but haven't been purged yet.
+   */
+  async listExpiring(withinMs: number, scopeFilter?: string[]): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+
+    const conditions = [`\`expiresAt\` > 0`, `\`expiresAt\` <= ${Math.floor(Date.now() + withinMs)}`, LIVE_FILTER];
+    if (scopeFilter && scopeFilter.length > 0) {
+      const scopeConditions = scopeFilter
+        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+        .join(" OR ");
+      conditions.push(`((${scopeConditions}) OR scope IS NULL)`);
+    }
+
+    const results = await this.table!.query().where(conditions.join(" AND ")).toArray();
+
+    return results
+      .map(row => this.rowToEntry(row, { withVector: false }))
+      .sort((a, b) => (a.expiresAt || 0) - (b.expiresAt || 0));
+  }
+
+  async bulkDelete(scopeFilter: string[], beforeTimestamp?: number): Promise<number> {
+    await this.ensureInitialized();
+
+    const conditions: string[] = [];
+
+    if (scopeFilter.length > 0) {
+      const scopeConditions = scopeFilter
+        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+        .join(" OR ");
+      conditions.push(`(${scopeConditions})`);
+    }
+
+    if (beforeTimestamp) {
+      conditions.push(`timestamp < ${beforeTimestamp}`);
+    }
+
+    if (conditions.length === 0) {
+      throw new Error("Bulk delete requires at least scope or timestamp filter for safety");
+    }
+
+    const whereClause = liveWhere(conditions.join(" AND "));
+
     // Count first
-    const countResults = await this.table!.query().where(whereClause).toArray();
-    const deleteCount = countResults.length;
+    const deleteCount = await this.table!.countRows(whereClause);
 
-    // Then delete
+    // Then move to trash
     if (deleteCount > 0) {
-      await this.table!.delete(whereClause);
+      await this.table!.update({ deletedAt: String(Date.now()) }, { where: whereClause });
     }
 
     return deleteCount;
   }
 
+  // ==========================================================================
+  // Sensitive Data Log
+  // ==========================================================================
+
+  private async getSensitiveLogTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.sensitiveLogTable) {
+      return this.sensitiveLogTable;
+    }
+
+    try {
+      this.sensitiveLogTable = await this.db!.openTable(SENSITIVE_LOG_TABLE_NAME);
+    } catch (_openErr) {
+      const schemaRow = {
+        id: "__schema__",
+        createdAt: 0,
+        source: "",
+        scope: "",
+        action: "",
+        classes: "[]",
+        detectors: "[]",
+        findings: 0,
+        preview: "",
+      };
+
+      try {
+        this.sensitiveLogTable = await this.db!.createTable(SENSITIVE_LOG_TABLE_NAME, [schemaRow]);
+        await this.sensitiveLogTable.delete('id = "__schema__"');
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.sensitiveLogTable = await this.db!.openTable(SENSITIVE_LOG_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.sensitiveLogTable;
+  }
+
+  async recordSensitiveEvent(event: SensitiveDataEvent): Promise<void> {
+    await (await this.getSensitiveLogTable()).add([{
+      ...event,
+      preview: this.seal(event.preview),
+      classes: JSON.stringify(event.classes),
+      detectors: JSON.stringify(event.detectors),
+    }]);
+  }
+
+  /** Sensitive data decisions, newest first */
+  async listSensitiveEvents(options: {
+    action?: SensitiveAction;
+    source?: string;
+    since?: number;
+    limit?: number;
+  } = {}): Promise<SensitiveDataEvent[]> {
+    const table = await this.getSensitiveLogTable();
+
+    const conditions: string[] = [];
+    if (options.action) conditions.push(`action = '${escapeSqlLiteral(options.action)}'`);
+    if (options.source) conditions.push(`source = '${escapeSqlLiteral(options.source)}'`);
+    if (options.since) conditions.push(`\`createdAt\` >= ${Math.floor(options.since)}`);
+
+    const query = table.query();
+    const rows = conditions.length > 0 ? await query.where(conditions.join(" AND ")).toArray() : await query.toArray();
+    return rows
+      .map(row => rowToSensitiveEvent(row, this.reveal))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, options.limit ?? Number.MAX_SAFE_INTEGER);
+  }
+
+  // ==========================================================================
+  // Encryption
+  // ==========================================================================
+
+  /** Whether text and metadata are written encrypted (see encryption.ts) */
+  get isEncrypted(): boolean {
+    return !!this.cipher;
+  }
+
+  private async encryptedTables(): Promise<Array<{ name: string; table: LanceDB.Table }>> {
+    await this.ensureInitialized();
+    return [
+      { name: TABLE_NAME, table: this.table! },
+      { name: VERSIONS_TABLE_NAME, table: await this.getVersionsTable() },
+      { name: FEEDBACK_TABLE_NAME, table: await this.getFeedbackTable() },
+      { name: SENSITIVE_LOG_TABLE_NAME, table: await this.getSensitiveLogTable() },
+      { name: ENTITIES_TABLE_NAME, table: await this.getEntitiesTable() },
+    ];
+  }
+
+  /** Rows of each table with encrypted columns, by the key they were written with */
+  async keyUsage(): Promise<KeyUsage> {
+    const usage: KeyUsage = {};
+
+    for (const { name, table } of await this.encryptedTables()) {
+      const columns = ENCRYPTED_COLUMNS[name];
+      const counts: Record<string, number> = {};
+      for await (const batch of table.query().select(quotedColumns(columns))) {
+        for (const row of batch.toArray()) {
+          const keys = new Set(columns.filter(c => row[c]).map(c => encryptedKeyId(row[c]) ?? "plaintext"));
+          for (const key of keys) counts[key] = (counts[key] || 0) + 1;
+        }
+      }
+      usage[name] = counts;
+    }
+
+    return usage;
+  }
+
+  /**
+   * Rewrite every encrypted column value not under `cipher`'s active key
+   * (plaintext included) and refresh the hashed indexes of those memories.
+   * The store writes with `cipher` from then on. Returns the rows rewritten
+   * per table (on a dry run, the rows that would be).
+   */
+  async reencrypt(cipher: FieldCipher, options: { dryRun?: boolean } = {}): Promise<Record<string, number>> {
+    const tables = await this.encryptedTables();
+    if (!options.dryRun) {
+      this.cipher = cipher;
+    }
+
+    const rewritten: Record<string, number> = {};
+    for (const { name, table } of tables) {
+      const columns = ENCRYPTED_COLUMNS[name];
+      const stale: any[] = [];
+      for await (const batch of table.query().select(quotedColumns(["id", ...columns]))) {
+        for (const row of batch.toArray()) {
+          if (columns.some(c => row[c] && !cipher.isCurrent(row[c]))) {
+            stale.push(Object.fromEntries(["id", ...columns].map(c => [c, (row[c] as string) ?? ""])));
+          }
+        }
+      }
+
+      rewritten[name] = stale.length;
+      if (options.dryRun) continue;
+
+      // One UPDATE per row: each row is replaced atomically, so an interrupted rekey loses nothing
+      for (const row of stale) {
+        const values: Record<string, string> = {};
+        for (const column of columns) {
+          const plaintext = cipher.decrypt(row[column]);
+          values[column] = `'${plaintext ? cipher.encrypt(plaintext) : ""}'`;
+        }
+        if (name === TABLE_NAME) {
+          const text = cipher.decrypt(row.text);
+          values.textHash = `'${cipher.textHash(text)}'`;
+          values.textTokens = `'${cipher.tokenIndex(text)}'`;
+        }
+        if (name === ENTITIES_TABLE_NAME) {
+          values.entity = `'${escapeSqlLiteral(this.entityLookupKey(normalizeEntityName(cipher.decrypt(row.name))))}'`;
+          values.aliasIndex = `'${escapeSqlLiteral(this.aliasIndex(JSON.parse(cipher.decrypt(row.aliases) || "[]")))}'`;
+        }
+        await table.update(values, { where: `id = '${escapeSqlLiteral(row.id)}'` });
+      }
+    }
+
+    return rewritten;
+  }
+
+  /**
+   * Clean up the old versions of the tables with encrypted columns,
+   * so copies written before encryption (or under retired keys) are deleted
+   * from disk. Snapshots of removed versions are deleted too; returns how many.
+   */
+  async purgeHistory(): Promise<number> {
+    const cutoff = new Date();
+    for (const { table } of await this.encryptedTables()) {
+      await table.optimize({ cleanupOlderThan: cutoff });
+    }
+
+    let deleted = 0;
+    for (const snapshot of await this.listSnapshots()) {
+      try {
+        await this.openTableVersion(snapshot.version);
+      } catch {
+        await this.deleteSnapshot(snapshot.name);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // ==========================================================================
+  // Snapshots
+  // ==========================================================================
+
+  private async getSnapshotsTable(): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    if (this.snapshotsTable) {
+      return this.snapshotsTable;
+    }
+
+    try {
+      this.snapshotsTable = await this.db!.openTable(SNAPSHOTS_TABLE_NAME);
+    } catch (_openErr) {
+      const schemaRow: MemorySnapshot = {
+        id: "__schema__",
+        name: "",
+        version: 0,
+        createdAt: 0,
+        createdBy: "",
+        reason: "",
+        rowCount: 0,
+        liveCount: 0,
+      };
+
+      try {
+        this.snapshotsTable = await this.db!.createTable(SNAPSHOTS_TABLE_NAME, [schemaRow]);
+        await this.snapshotsTable.delete('id = "__schema__"');
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          this.snapshotsTable = await this.db!.openTable(SNAPSHOTS_TABLE_NAME);
+        } else {
+          throw createErr;
+        }
+      }
+    }
+
+    return this.snapshotsTable;
+  }
+
+  /**
+   * A separate handle on the memories table, checked out at `version` (latest
+   * when omitted). Checkouts are in place, so the store's own handle is never used.
+   */
+  private async openTableVersion(version?: number): Promise<LanceDB.Table> {
+    await this.ensureInitialized();
+    const table = await this.db!.openTable(TABLE_NAME);
+    if (version !== undefined) {
+      try {
+        await table.checkout(version);
+      } catch {
+        throw new Error(`Table version ${version} is not available (it may have been cleaned up)`);
+      }
+    }
+    return table;
+  }
+
+  /** Current version of the memories table */
+  async tableVersion(): Promise<number> {
+    return (await this.openTableVersion()).version();
+  }
+
+  /** Name the current table version. Names are unique. */
+  async createSnapshot(name: string, options: { reason?: string; createdBy?: string } = {}): Promise<MemorySnapshot> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Snapshot name is required");
+    }
+    if (await this.getSnapshot(trimmed)) {
+      throw new Error(`Snapshot "${trimmed}" already exists`);
+    }
+
+    const table = await this.openTableVersion();
+    const snapshot: MemorySnapshot = {
+      id: randomUUID(),
+      name: trimmed,
+      version: await table.version(),
+      createdAt: Date.now(),
+      createdBy: options.createdBy ?? "",
+      reason: options.reason ?? "",
+      rowCount: await table.countRows(),
+      liveCount: await table.countRows(LIVE_FILTER),
+    };
+
+    await (await this.getSnapshotsTable()).add([snapshot]);
+    return snapshot;
+  }
+
+  /** Snapshots, newest first */
+  async listSnapshots(): Promise<MemorySnapshot[]> {
+    const rows = await (await this.getSnapshotsTable()).query().toArray();
+    return rows
+      .map((row: any): MemorySnapshot => ({
+        id: row.id as string,
+        name: row.name as string,
+        version: Number(row.version),
+        createdAt: Number(row.createdAt),
+        createdBy: (row.createdBy as string) || "",
+        reason: (row.reason as string) || "",
+        rowCount: Number(row.rowCount),
+        liveCount: Number(row.liveCount),
+      }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getSnapshot(name: string): Promise<MemorySnapshot | null> {
+    return (await this.listSnapshots()).find(s => s.name === name) ?? null;
+  }
+
+  async deleteSnapshot(name: string): Promise<boolean> {
+    const table = await this.getSnapshotsTable();
+    const where = `name = '${escapeSqlLiteral(name)}'`;
+    if ((await table.countRows(where)) === 0) return false;
+    await table.delete(where);
+    return true;
+  }
+
+  /**
+   * Row counts of the most recent table versions, newest first. Versions that
+   * were cleaned up are skipped.
+   */
+  async listTableVersions(limit = 20): Promise<TableVersionInfo[]> {
+    const current = await this.tableVersion();
+    const snapshots = await this.listSnapshots();
+    const table = await this.openTableVersion();
+    const versions: TableVersionInfo[] = [];
+
+    for (let version = current; version >= 1 && versions.length < limit; version--) {
+      try {
+        await table.checkout(version);
+      } catch {
+        continue;
+      }
+      versions.push({
+        version,
+        rowCount: await table.countRows(),
+        liveCount: await table.countRows(await this.liveFilterAt(table)),
+        snapshots: snapshots.filter(s => s.version === version).map(s => s.name),
+      });
+    }
+
+    return versions;
+  }
+
+  /**
+   * Content hash per live memory at a table version (latest when omitted).
+   * Access counters and feedback aren't content, so they don't change the hash.
+   */
+  async versionDigests(version?: number): Promise<Map<string, string>> {
+    const table = await this.openTableVersion(version);
+    const digests = new Map<string, string>();
+    const liveFilter = await this.liveFilterAt(table);
+
+    for await (const batch of liveFilter ? table.query().where(liveFilter) : table.query()) {
+      for (const row of batch.toArray()) {
+        const entry = this.rowToEntry(row, { withVector: false });
+        const content = [
+          entry.text,
+          entry.category,
+          entry.scope,
+          entry.importance,
+          entry.metadata,
+          serializeTags(entry.tags),
+          entry.supersededBy || "",
+          entry.expiresAt ?? 0,
+        ];
+        digests.set(entry.id, createHash("sha256").update(JSON.stringify(content)).digest("hex").slice(0, 32));
+      }
+    }
+
+    return digests;
+  }
+
+  /**
+   * Make `version` the latest version of the memories table (a new version;
+   * the versions in between stay available). The entity index follows; version
+   * history, links and feedback are left as they are. Returns the new version.
+   */
+  async rollbackToVersion(version: number): Promise<number> {
+    const target = await this.openTableVersion(version);
+    const before = await this.rowTexts(await this.openTableVersion());
+    const after = await this.rowTexts(target);
+
+    await target.restore();
+    await this.table!.checkoutLatest();
+
+    // The restored version may predate columns added since; bring the schema back up to date
+    await this.migrateColumns(this.table!, COLUMN_MIGRATIONS);
+    if (this.ftsIndexCreated) {
+      try {
+        await this.createFtsIndex(this.table!);
+      } catch (err) {
+        console.warn("Failed to rebuild FTS index after rollback, falling back to vector-only search:", err);
+        this.ftsIndexCreated = false;
+      }
+    }
+
+    const removed = Array.from(before.keys()).filter(id => !after.has(id));
+    try {
+      const entities = await this.getEntitiesTable();
+      for (let i = 0; i < removed.length; i += 100) {
+        const idList = removed.slice(i, i + 100).map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+        await entities.delete(`\`memoryId\` IN (${idList})`);
+      }
+    } catch (err) {
+      console.warn("Failed to update entity index:", err);
+    }
+    const reindex = Array.from(after.values()).filter(row => before.get(row.id)?.text !== row.text);
+    if (reindex.length > 0) {
+      await this.indexEntities(reindex);
+    }
+
+    return this.tableVersion();
+  }
+
+  /**
+   * Live-row filter for a checked-out version. Versions from before soft
+   * delete have no `deletedAt` column, and every row in them is live.
+   */
+  private async liveFilterAt(table: LanceDB.Table): Promise<string | undefined> {
+    const schema = await table.schema();
+    return schema.fields.some((f: any) => f.name === "deletedAt") ? LIVE_FILTER : undefined;
+  }
+
+  private async rowTexts(table: LanceDB.Table): Promise<Map<string, Pick<MemoryEntry, "id" | "text" | "scope">>> {
+    const rows = new Map<string, Pick<MemoryEntry, "id" | "text" | "scope">>();
+    for await (const batch of table.query().select(["id", "text", "scope"])) {
+      for (const row of batch.toArray()) {
+        rows.set(row.id as string, { id: row.id as string, text: this.reveal(row.text), scope: (row.scope as string | undefined) ?? "global" });
+      }
+    }
+    return rows;
+  }
+
+  // ==========================================================================
+  // Trash
+  // ==========================================================================
+
+  /** Trashed memories, most recently deleted first. */
+  async listDeleted(scopeFilter?: string[], limit = 50, offset = 0): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+
+    const conditions = ["`deletedAt` > 0"];
+    if (scopeFilter && scopeFilter.length > 0) {
+      const scopeConditions = scopeFilter
+        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+        .join(" OR ");
+      conditions.push(`((${scopeConditions}) OR scope IS NULL)`);
+    }
+
+    const results = await this.table!.query().where(conditions.join(" AND ")).toArray();
+
+    return results
+      .map(row => this.rowToEntry(row, { withVector: false }))
+      .sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0))
+      .slice(offset, offset + limit);
+  }
+
+  /** Bring a trashed memory back. Accepts a full id or an 8+ char prefix. */
+  async restore(id: string, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    await this.ensureInitialized();
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const prefixRegex = /^[0-9a-f]{8,}$/i;
+    if (!uuidRegex.test(id) && !prefixRegex.test(id)) {
+      throw new Error(`Invalid memory ID format: ${id}`);
+    }
+
+    const trashed = await this.listDeleted(scopeFilter, Number.MAX_SAFE_INTEGER);
+    const matches = trashed.filter(m => m.id === id || m.id.startsWith(id));
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous prefix "${id}" matches ${matches.length} trashed memories. Use a longer prefix or full ID.`);
+    }
+    if (matches.length === 0) return null;
+
+    const entry = matches[0];
+    await this.table!.update({ deletedAt: "0" }, { where: `id = '${escapeSqlLiteral(entry.id)}'` });
+    return { ...entry, deletedAt: 0 };
+  }
+
+  /**
+   * Permanently remove trashed memories deleted before `cutoff` (ms epoch),
+   * along with their version history, links and entity index rows. Returns how many were purged.
+   */
+  async purgeDeleted(cutoff: number = Number.MAX_SAFE_INTEGER): Promise<number> {
+    return this.purgeWhere(`\`deletedAt\` > 0 AND \`deletedAt\` < ${Math.floor(cutoff)}`);
+  }
+
+  /** Permanently remove memories (live or trashed) whose expiry has passed. Returns how many were purged. */
+  async purgeExpired(now = Date.now()): Promise<number> {
+    return this.purgeWhere(`\`expiresAt\` > 0 AND \`expiresAt\` <= ${Math.floor(now)}`);
+  }
+
+  private async purgeWhere(whereClause: string): Promise<number> {
+    await this.ensureInitialized();
+
+    const rows = await this.table!.query().select(["id"]).where(whereClause).toArray();
+    if (rows.length === 0) return 0;
+
+    await this.table!.delete(whereClause);
+
+    const versions = await this.getVersionsTable();
+    const links = await this.getLinksTable();
+    const entities = await this.getEntitiesTable();
+    const feedback = await this.getFeedbackTable();
+    const ids = rows.map((r: any) => `'${escapeSqlLiteral(r.id as string)}'`);
+    for (let i = 0; i < ids.length; i += 100) {
+      const idList = ids.slice(i, i + 100).join(", ");
+      await versions.delete(`\`memoryId\` IN (${idList})`);
+      await entities.delete(`\`memoryId\` IN (${idList})`);
+      await feedback.delete(`\`memoryId\` IN (${idList})`);
+      await links.delete(`\`sourceId\` IN (${idList}) OR \`targetId\` IN (${idList})`);
+    }
+
+    return rows.length;
+  }
+
   get hasFtsSupport(): boolean {
     return this.ftsIndexCreated;
   }
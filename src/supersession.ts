@@ -0,0 +1,156 @@
+/**
+ * Contradiction & Supersession Detection
+ * - New preference/decision/entity memories are compared with close memories in the same scope
+ * - Likely contradictions: opposite negation, or the same subject with a different value
+ * - A newer memory can mark older ones as superseded (demoted or hidden at recall)
+ */
+
+import type { MemoryEntry, MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface SupersessionConfig {
+  /** Look for contradictions when preference/decision/entity memories are written (default: true) */
+  enabled: boolean;
+  /** Minimum vector similarity (0-1) for two memories to be about the same thing (default: 0.75) */
+  threshold: number;
+  /** Mark likely contradictions as superseded without being asked (default: false, flag only) */
+  autoSupersede: boolean;
+}
+
+export const DEFAULT_SUPERSESSION_CONFIG: SupersessionConfig = {
+  enabled: true,
+  threshold: 0.75,
+  autoSupersede: false,
+};
+
+/** Categories where a newer statement replaces an older one */
+export const SUPERSEDABLE_CATEGORIES: ReadonlyArray<MemoryEntry["category"]> = ["preference", "decision", "entity"];
+
+export interface ConflictCandidate {
+  entry: MemoryEntry;
+  similarity: number;
+  /** "negation": one states the opposite; "changed-value": same subject, different details */
+  reason: "negation" | "changed-value";
+}
+
+// ============================================================================
+// Heuristics
+// ============================================================================
+
+const NEGATION_PATTERN =
+  /\b(not|never|no longer|don't|doesn't|didn't|won't|isn't|aren't|wasn't|can't|stop(?:ped)?|instead of)\b|不再|不要|不|没有|别/gi;
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "is", "are", "was", "were", "be", "to", "of", "and", "or", "in", "on", "for",
+  "with", "my", "i", "we", "our", "it", "this", "that", "as", "at", "by", "me", "use", "using",
+]);
+
+function negationCount(text: string): number {
+  return (text.match(NEGATION_PATTERN) || []).length;
+}
+
+/** Content tokens; CJK runs are split into character bigrams. */
+function contentTokens(text: string): Set<string> {
+  const tokens = new Set<string>();
+  const cleaned = text.toLowerCase().replace(NEGATION_PATTERN, " ");
+
+  for (const word of cleaned.split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+    if (/[\u4e00-\u9fff\u3040-\u30ff\uac00-\ud7af]/.test(word)) {
+      for (let i = 0; i + 1 < word.length; i++) tokens.add(word.slice(i, i + 2));
+      if (word.length === 1) tokens.add(word);
+    } else if (word.length > 1 && !STOP_WORDS.has(word)) {
+      tokens.add(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Why two similar statements likely contradict, or null when they look
+ * compatible (e.g. one just adds detail to the other).
+ */
+export function contradictionReason(newText: string, oldText: string): ConflictCandidate["reason"] | null {
+  if (negationCount(newText) % 2 !== negationCount(oldText) % 2) {
+    return "negation";
+  }
+
+  const a = contentTokens(newText);
+  const b = contentTokens(oldText);
+  if (a.size === 0 || b.size === 0) return null;
+
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  const onlyNew = a.size - shared;
+  const onlyOld = b.size - shared;
+
+  // Same subject (half the smaller statement is shared) but each side says something the other doesn't
+  const overlap = shared / Math.min(a.size, b.size);
+  return overlap >= 0.5 && onlyNew > 0 && onlyOld > 0 ? "changed-value" : null;
+}
+
+// ============================================================================
+// Supersession Manager
+// ============================================================================
+
+export class SupersessionManager {
+  readonly config: SupersessionConfig;
+
+  constructor(private readonly store: MemoryStore, config: Partial<SupersessionConfig> = {}) {
+    this.config = {
+      enabled: config.enabled ?? DEFAULT_SUPERSESSION_CONFIG.enabled,
+      threshold: config.threshold ?? DEFAULT_SUPERSESSION_CONFIG.threshold,
+      autoSupersede: config.autoSupersede ?? DEFAULT_SUPERSESSION_CONFIG.autoSupersede,
+    };
+  }
+
+  /**
+   * Current memories of the same category and scope that the new memory
+   * likely contradicts, most similar first.
+   */
+  async findConflicts(
+    candidate: Pick<MemoryEntry, "text" | "vector" | "category" | "scope">,
+    excludeIds: string[] = []
+  ): Promise<ConflictCandidate[]> {
+    if (!this.config.enabled || !SUPERSEDABLE_CATEGORIES.includes(candidate.category)) {
+      return [];
+    }
+
+    const similar = await this.store.vectorSearch(candidate.vector, 10, this.config.threshold, [candidate.scope]);
+    const conflicts: ConflictCandidate[] = [];
+
+    for (const { entry, score } of similar) {
+      if (excludeIds.includes(entry.id) || entry.supersededBy) continue;
+      if (entry.category !== candidate.category || entry.text === candidate.text) continue;
+
+      const reason = contradictionReason(candidate.text, entry.text);
+      if (reason) {
+        conflicts.push({ entry, similarity: score, reason });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /** Mark older memories as superseded by `newId`. Returns the ids actually marked. */
+  async supersede(oldIds: string[], newId: string, scopeFilter?: string[]): Promise<string[]> {
+    const marked: string[] = [];
+    for (const id of oldIds) {
+      if (await this.store.markSuperseded([id], newId, scopeFilter)) {
+        marked.push(id);
+      }
+    }
+    return marked;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createSupersessionManager(store: MemoryStore, config?: Partial<SupersessionConfig>): SupersessionManager {
+  return new SupersessionManager(store, config);
+}
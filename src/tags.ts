@@ -0,0 +1,100 @@
+/**
+ * Memory Tags
+ * Topic labels like `project-x` or `infra`:
+ * - Normalization (lowercase, hyphenated, deduplicated)
+ * - Storage as a JSON string column in LanceDB
+ * - Matching query terms against tag names for keyword search
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 64;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/** `"Project X"` → `"project-x"`. Returns "" for values with nothing usable. */
+export function normalizeTag(tag: unknown): string {
+  if (typeof tag !== "string") return "";
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_\-.:/]/gu, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/** Normalize a tag list: drops empty/invalid entries, removes duplicates, keeps order. */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const result: string[] = [];
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+    if (result.length >= MAX_TAGS) break;
+  }
+  return result;
+}
+
+/** Parse a comma-separated list, e.g. from a CLI flag. */
+export function parseTagList(value: string | undefined): string[] {
+  return value ? normalizeTags(value.split(",")) : [];
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/** Column value for LanceDB; tags are stored as a JSON array string. */
+export function serializeTags(tags: unknown): string {
+  return JSON.stringify(normalizeTags(tags));
+}
+
+/** Read the tags column back. Missing (legacy rows) or malformed values yield []. */
+export function parseTags(value: unknown): string[] {
+  if (Array.isArray(value)) return normalizeTags(value);
+  if (typeof value !== "string" || !value) return [];
+  try {
+    return normalizeTags(JSON.parse(value));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * LIKE condition matching rows tagged with `tag`. Normalized tags contain no
+ * quotes, so the JSON-encoded form is an exact substring; `_` still acts as a
+ * wildcard, so callers re-check matches in-process.
+ */
+export function tagLikeClause(tag: string): string {
+  return `tags LIKE '%${JSON.stringify(normalizeTag(tag)).replace(/'/g, "''")}%'`;
+}
+
+// ============================================================================
+// Query Matching
+// ============================================================================
+
+/**
+ * Candidate tag names in a search query: each word, plus adjacent word pairs
+ * joined with `-` so "project x" matches the tag `project-x`.
+ */
+export function extractTagTerms(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_\-.:/]+/u)
+    .map(w => normalizeTag(w.replace(/^[-.:/]+|[-.:/]+$/g, "")))
+    .filter(Boolean);
+
+  const terms = new Set(words.filter(w => w.length > 1));
+  for (let i = 0; i + 1 < words.length; i++) {
+    terms.add(`${words[i]}-${words[i + 1]}`);
+  }
+  return Array.from(terms).slice(0, MAX_TAGS * 2);
+}
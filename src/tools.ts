@@ -7,10 +7,19 @@ import { Type } from "@sinclair/typebox";
 import { stringEnum } from "openclaw/plugin-sdk";
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import type { MemoryRetriever, RetrievalResult } from "./retriever.js";
-import type { MemoryStore } from "./store.js";
+import type { MemoryEntry, MemoryStore } from "./store.js";
 import { isNoise } from "./noise-filter.js";
 import type { MemoryScopeManager } from "./scopes.js";
 import type { Embedder } from "./embedder.js";
+import type { PendingWriteQueue } from "./write-queue.js";
+import type { MemoryDeduplicator } from "./dedupe.js";
+import { FilterParseError, mergeFilters, parseFilterExpression, tagsFilter, type MemoryFilter } from "./filters.js";
+import { normalizeTags } from "./tags.js";
+import { LINK_TYPES, type LinkType } from "./graph.js";
+import { buildEntityProfile } from "./entities.js";
+import { formatExpiry, parseExpiry } from "./expiry.js";
+import { effectiveImportance, FEEDBACK_VERDICTS, type FeedbackVerdict } from "./feedback.js";
+import { describeBlock, type SensitiveDataScanner } from "./sensitive.js";
 
 // ============================================================================
 // Types
@@ -18,11 +27,25 @@ import type { Embedder } from "./embedder.js";
 
 export const MEMORY_CATEGORIES = ["preference", "fact", "decision", "entity", "other"] as const;
 
+const TAGS_DESCRIPTION = 'Topic tags, e.g. ["project-x", "infra"] (lowercased; spaces become "-")';
+
+const EXPIRES_DESCRIPTION =
+  'When the memory stops being true: ISO date/time ("2026-03-01T18:00") or duration from now ("12h", "3d", "2w"). Expired memories are no longer recalled and are purged.';
+
+const FILTER_DESCRIPTION =
+  'Filter expression, conditions joined with AND. Fields: importance, timestamp, category, scope, tags, metadata.<key>. ' +
+  'Operators: = != > >= < <= between..and, in (...), exists. ' +
+  'Example: metadata.type = "session-summary" AND importance >= 0.8 AND timestamp between 2026-01-01 and 2026-02-01';
+
 interface ToolContext {
   retriever: MemoryRetriever;
   store: MemoryStore;
   scopeManager: MemoryScopeManager;
   embedder: Embedder;
+  pendingWrites?: PendingWriteQueue;
+  dedupe: MemoryDeduplicator;
+  /** Secret/PII policy applied before anything is embedded or stored */
+  sensitiveData: SensitiveDataScanner;
   agentId?: string;
 }
 
@@ -40,6 +63,25 @@ function clamp01(value: number, fallback = 0.7): number {
   return Math.min(1, Math.max(0, value));
 }
 
+/** Parse an optional filter param; returns an error result for invalid expressions */
+function parseFilterParam(filter: string | undefined): {
+  filter?: MemoryFilter;
+  error?: { content: Array<{ type: "text"; text: string }>; details: Record<string, unknown> };
+} {
+  if (!filter || !filter.trim()) return {};
+  try {
+    return { filter: parseFilterExpression(filter) };
+  } catch (err) {
+    if (!(err instanceof FilterParseError)) throw err;
+    return {
+      error: {
+        content: [{ type: "text", text: err.message }],
+        details: { error: "invalid_filter", message: err.message, filter },
+      },
+    };
+  }
+}
+
 function sanitizeMemoryForSerialization(results: RetrievalResult[]) {
   return results.map(r => ({
     id: r.entry.id,
@@ -47,8 +89,12 @@ function sanitizeMemoryForSerialization(results: RetrievalResult[]) {
     category: r.entry.category,
     scope: r.entry.scope,
     importance: r.entry.importance,
+    tags: r.entry.tags ?? [],
+    supersededBy: r.entry.supersededBy,
+    expiresAt: r.entry.expiresAt,
     score: r.score,
     sources: r.sources,
+    trace: r.trace,
   }));
 }
 
@@ -67,17 +113,28 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
         limit: Type.Optional(Type.Number({ description: "Max results to return (default: 5, max: 20)" })),
         scope: Type.Optional(Type.String({ description: "Specific memory scope to search in (optional)" })),
         category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
+        filter: Type.Optional(Type.String({ description: FILTER_DESCRIPTION })),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Only return memories with these tags" })),
+        tagMode: Type.Optional(stringEnum(["any", "all"] as const)),
+        explain: Type.Optional(Type.Boolean({ description: "Include per-stage scores and dropped candidates in the details (for debugging ranking)" })),
       }),
       async execute(_toolCallId, params) {
-        const { query, limit = 5, scope, category } = params as {
+        const { query, limit = 5, scope, category, filter, tags, tagMode = "any", explain = false } = params as {
           query: string;
           limit?: number;
           scope?: string;
           category?: string;
+          filter?: string;
+          tags?: string[];
+          tagMode?: "any" | "all";
+          explain?: boolean;
         };
 
         try {
           const safeLimit = clampInt(limit, 1, 20);
+          const parsedFilter = parseFilterParam(filter);
+          if (parsedFilter.error) return parsedFilter.error;
+          const recallFilter = mergeFilters(parsedFilter.filter, tagsFilter(tags, tagMode));
 
           // Determine accessible scopes
           let scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
@@ -92,17 +149,28 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
             }
           }
 
-          const results = await context.retriever.retrieve({
+          const retrievalContext = {
             query,
             limit: safeLimit,
             scopeFilter,
             category,
-          });
+            filter: recallFilter,
+          };
+          const explanation = explain ? await context.retriever.explain(retrievalContext) : null;
+          const results = explanation ? explanation.results : await context.retriever.retrieve(retrievalContext);
+          const explainDetails = explanation
+            ? {
+                weights: explanation.weights,
+                candidates: explanation.candidates,
+                thresholds: explanation.thresholds,
+                dropped: explanation.dropped,
+              }
+            : undefined;
 
           if (results.length === 0) {
             return {
               content: [{ type: "text", text: "No relevant memories found." }],
-              details: { count: 0, query, scopes: scopeFilter },
+              details: { count: 0, query, scopes: scopeFilter, filter, tags, tagMode, explanation: explainDetails },
             };
           }
 
@@ -112,8 +180,12 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
               if (r.sources.vector) sources.push("vector");
               if (r.sources.bm25) sources.push("BM25");
               if (r.sources.reranked) sources.push("reranked");
+              if (r.sources.graph) sources.push(`linked: ${r.sources.graph.link} ${r.sources.graph.from.slice(0, 8)}`);
 
-              return `${i + 1}. [${r.entry.category}:${r.entry.scope}] ${r.entry.text} (${(r.score * 100).toFixed(0)}%${sources.length > 0 ? `, ${sources.join('+')}` : ''})`;
+              const tagText = r.entry.tags && r.entry.tags.length > 0 ? ` #${r.entry.tags.join(" #")}` : "";
+              const supersededText = r.entry.supersededBy ? ` [superseded by ${r.entry.supersededBy.slice(0, 8)}]` : "";
+              const expiryText = r.entry.expiresAt ? ` [expires ${formatExpiry(r.entry.expiresAt)}]` : "";
+              return `${i + 1}. [${r.entry.category}:${r.entry.scope}] ${r.entry.text}${tagText}${supersededText}${expiryText} (${(r.score * 100).toFixed(0)}%${sources.length > 0 ? `, ${sources.join('+')}` : ''})`;
             })
             .join("\n");
 
@@ -124,7 +196,11 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
               memories: sanitizeMemoryForSerialization(results),
               query,
               scopes: scopeFilter,
+              filter,
+              tags,
+              tagMode,
               retrievalMode: context.retriever.getConfig().mode,
+              explanation: explainDetails,
             },
           };
         } catch (error) {
@@ -150,18 +226,27 @@ export function registerMemoryStoreTool(api: OpenClawPluginApi, context: ToolCon
         importance: Type.Optional(Type.Number({ description: "Importance score 0-1 (default: 0.7)" })),
         category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
         scope: Type.Optional(Type.String({ description: "Memory scope (optional, defaults to agent scope)" })),
+        tags: Type.Optional(Type.Array(Type.String(), { description: TAGS_DESCRIPTION })),
+        supersedes: Type.Optional(Type.Array(Type.String(), { description: "IDs of older memories this one replaces (e.g. a changed preference); they are demoted in recall" })),
+        expiresAt: Type.Optional(Type.String({ description: EXPIRES_DESCRIPTION })),
       }),
       async execute(_toolCallId, params) {
         const {
-          text,
+          text: rawText,
           importance = 0.7,
           category = "other",
           scope,
+          tags,
+          supersedes,
+          expiresAt,
         } = params as {
           text: string;
           importance?: number;
           category?: string;
           scope?: string;
+          tags?: string[];
+          supersedes?: string[];
+          expiresAt?: string;
         };
 
         try {
@@ -177,53 +262,153 @@ export function registerMemoryStoreTool(api: OpenClawPluginApi, context: ToolCon
           }
 
           // Reject noise before wasting an embedding API call
-          if (isNoise(text)) {
+          if (isNoise(rawText)) {
             return {
               content: [{ type: "text", text: `Skipped: text detected as noise (greeting, boilerplate, or meta-question)` }],
-              details: { action: "noise_filtered", text: text.slice(0, 60) },
+              details: { action: "noise_filtered", text: rawText.slice(0, 60) },
+            };
+          }
+
+          // Secrets and PII never reach the embedding API or the queue
+          const screened = await context.sensitiveData.scan(rawText, {
+            source: context.agentId ? `agent:${context.agentId}` : "tool:memory_store",
+            scope: targetScope,
+          });
+          if (screened.action === "block") {
+            return {
+              content: [{ type: "text", text: `Not stored: the text ${describeBlock(screened)}. Leave the secret out and store the rest.` }],
+              details: { action: "blocked", classes: screened.blocked },
             };
           }
+          const text = screened.text;
 
           const safeImportance = clamp01(importance, 0.7);
-          const vector = await context.embedder.embedPassage(text);
+          const safeTags = normalizeTags(tags);
+          let safeExpiresAt: number | undefined;
+          try {
+            safeExpiresAt = parseExpiry(expiresAt) || undefined;
+          } catch (err) {
+            return {
+              content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+              details: { error: "invalid_expiry", expiresAt },
+            };
+          }
+
+          let vector: number[];
+          try {
+            vector = await context.embedder.embedPassage(text);
+          } catch (embedError) {
+            if (!context.pendingWrites) throw embedError;
 
-          // Check for duplicates using raw vector similarity (bypasses importance/recency weighting)
-          const existing = await context.store.vectorSearch(vector, 1, 0.1, [targetScope]);
+            // Keep the memory: persist raw text now, embed once the API is back
+            const pending = context.pendingWrites.enqueue({
+              text,
+              category: category as any,
+              scope: targetScope,
+              importance: safeImportance,
+              tags: safeTags,
+              expiresAt: safeExpiresAt,
+              source: "tool",
+            }, embedError);
 
-          if (existing.length > 0 && existing[0].score > 0.98) {
             return {
-              content: [
-                {
-                  type: "text",
-                  text: `Similar memory already exists: "${existing[0].entry.text}"`,
-                },
-              ],
+              content: [{ type: "text", text: `Queued: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}" in scope '${targetScope}' (pending embedding, will be stored automatically)` }],
               details: {
-                action: "duplicate",
-                existingId: existing[0].entry.id,
-                existingText: existing[0].entry.text,
-                existingScope: existing[0].entry.scope,
-                similarity: existing[0].score,
+                action: "queued",
+                id: pending.id,
+                scope: pending.scope,
+                category: pending.category,
+                importance: pending.importance,
+                tags: pending.tags,
+                expiresAt: pending.expiresAt,
+                reason: embedError instanceof Error ? embedError.message : String(embedError),
               },
             };
           }
 
-          const entry = await context.store.store({
+          // Shared dedupe policy: skip or merge into a near-identical memory
+          const result = await context.dedupe.write({
             text,
             vector,
             importance: safeImportance,
             category: category as any,
             scope: targetScope,
+            tags: safeTags,
+            expiresAt: safeExpiresAt,
+          }, {
+            changedBy: context.agentId ? `agent:${context.agentId}` : "tool:memory_store",
+            supersedes,
+            scopeFilter: context.scopeManager.getAccessibleScopes(context.agentId),
           });
 
+          if (result.action === "skipped" && result.duplicateOf) {
+            const existing = result.duplicateOf;
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Similar memory already exists: "${existing.entry.text}"`,
+                },
+              ],
+              details: {
+                action: "duplicate",
+                existingId: existing.entry.id,
+                existingText: existing.entry.text,
+                existingScope: existing.entry.scope,
+                similarity: existing.score,
+              },
+            };
+          }
+
+          const entry = result.entry;
+
+          if (result.action === "merged") {
+            return {
+              content: [{ type: "text", text: `Merged into existing memory ${entry.id.slice(0, 8)}...: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}"` }],
+              details: {
+                action: "merged",
+                id: entry.id,
+                scope: entry.scope,
+                category: entry.category,
+                importance: entry.importance,
+                tags: entry.tags,
+                similarity: result.duplicateOf?.score,
+                superseded: result.superseded,
+              },
+            };
+          }
+
+          const notes: string[] = [];
+          if (result.superseded.length > 0) {
+            notes.push(`Superseded: ${result.superseded.map(id => id.slice(0, 8)).join(", ")}`);
+          }
+          const unresolved = result.conflicts.filter(c => !result.superseded.includes(c.entry.id));
+          if (unresolved.length > 0) {
+            notes.push(
+              `Possible contradiction with:\n` +
+              unresolved.map(c => `- [${c.entry.id.slice(0, 8)}] ${c.entry.text.slice(0, 80)}${c.entry.text.length > 80 ? '...' : ''}`).join("\n") +
+              `\nIf this replaces them, store again with supersedes: [ids] or ask the user.`
+            );
+          }
+
           return {
-            content: [{ type: "text", text: `Stored: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}" in scope '${targetScope}'` }],
+            content: [{ type: "text", text: `Stored: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}" in scope '${targetScope}'${entry.expiresAt ? ` (expires ${new Date(entry.expiresAt).toISOString()})` : ""}${notes.length > 0 ? `\n\n${notes.join("\n\n")}` : ""}` }],
             details: {
               action: "created",
               id: entry.id,
               scope: entry.scope,
               category: entry.category,
               importance: entry.importance,
+              tags: entry.tags,
+              expiresAt: entry.expiresAt,
+              superseded: result.superseded,
+              redacted: screened.redacted.length > 0 ? screened.redacted : undefined,
+              conflicts: result.conflicts.map(c => ({
+                id: c.entry.id,
+                text: c.entry.text,
+                similarity: c.similarity,
+                reason: c.reason,
+              })),
             },
           };
         } catch (error) {
@@ -243,7 +428,7 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
     {
       name: "memory_forget",
       label: "Memory Forget",
-      description: "Delete specific memories. Supports both search-based and direct ID-based deletion.",
+      description: "Delete specific memories. Supports both search-based and direct ID-based deletion. Deleted memories go to the trash and can be restored until the retention period ends.",
       parameters: Type.Object({
         query: Type.Optional(Type.String({ description: "Search query to find memory to delete" })),
         memoryId: Type.Optional(Type.String({ description: "Specific memory ID to delete" })),
@@ -274,8 +459,8 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
             const deleted = await context.store.delete(memoryId, scopeFilter);
             if (deleted) {
               return {
-                content: [{ type: "text", text: `Memory ${memoryId} forgotten.` }],
-                details: { action: "deleted", id: memoryId },
+                content: [{ type: "text", text: `Memory ${memoryId} forgotten (moved to trash, restorable).` }],
+                details: { action: "deleted", id: memoryId, recoverable: true },
               };
             } else {
               return {
@@ -290,6 +475,7 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
               query,
               limit: 5,
               scopeFilter,
+              trackAccess: false,
             });
 
             if (results.length === 0) {
@@ -303,8 +489,8 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
               const deleted = await context.store.delete(results[0].entry.id, scopeFilter);
               if (deleted) {
                 return {
-                  content: [{ type: "text", text: `Forgotten: "${results[0].entry.text}"` }],
-                  details: { action: "deleted", id: results[0].entry.id },
+                  content: [{ type: "text", text: `Forgotten: "${results[0].entry.text}" (moved to trash, restorable)` }],
+                  details: { action: "deleted", id: results[0].entry.id, recoverable: true },
                 };
               }
             }
@@ -358,23 +544,37 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
         text: Type.Optional(Type.String({ description: "New text content (triggers re-embedding)" })),
         importance: Type.Optional(Type.Number({ description: "New importance score 0-1" })),
         category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
+        tags: Type.Optional(Type.Array(Type.String(), { description: `Replaces the memory's tags; [] removes them. ${TAGS_DESCRIPTION}` })),
+        expiresAt: Type.Optional(Type.String({ description: `${EXPIRES_DESCRIPTION} "never" removes the expiry.` })),
       }),
       async execute(_toolCallId, params) {
-        const { memoryId, text, importance, category } = params as {
+        const { memoryId, text, importance, category, tags, expiresAt } = params as {
           memoryId: string;
           text?: string;
           importance?: number;
           category?: string;
+          tags?: string[];
+          expiresAt?: string;
         };
 
         try {
-          if (!text && importance === undefined && !category) {
+          if (!text && importance === undefined && !category && tags === undefined && !expiresAt) {
             return {
-              content: [{ type: "text", text: "Nothing to update. Provide at least one of: text, importance, category." }],
+              content: [{ type: "text", text: "Nothing to update. Provide at least one of: text, importance, category, tags, expiresAt." }],
               details: { error: "no_updates" },
             };
           }
 
+          let newExpiresAt: number | undefined;
+          try {
+            newExpiresAt = parseExpiry(expiresAt);
+          } catch (err) {
+            return {
+              content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+              details: { error: "invalid_expiry", expiresAt },
+            };
+          }
+
           // Determine accessible scopes
           const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
 
@@ -387,6 +587,7 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
               query: memoryId,
               limit: 3,
               scopeFilter,
+              trackAccess: false,
             });
             if (results.length === 0) {
               return {
@@ -408,6 +609,7 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
           }
 
           // If text changed, re-embed; reject noise
+          let newText: string | undefined;
           let newVector: number[] | undefined;
           if (text) {
             if (isNoise(text)) {
@@ -416,16 +618,30 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
                 details: { action: "noise_filtered" },
               };
             }
-            newVector = await context.embedder.embedPassage(text);
+            const screened = await context.sensitiveData.scan(text, {
+              source: context.agentId ? `agent:${context.agentId}` : "tool:memory_update",
+            });
+            if (screened.action === "block") {
+              return {
+                content: [{ type: "text", text: `Not updated: the new text ${describeBlock(screened)}. Leave the secret out and update again.` }],
+                details: { action: "blocked", classes: screened.blocked },
+              };
+            }
+            newText = screened.text;
+            newVector = await context.embedder.embedPassage(newText);
           }
 
           const updates: Record<string, any> = {};
-          if (text) updates.text = text;
+          if (newText) updates.text = newText;
           if (newVector) updates.vector = newVector;
           if (importance !== undefined) updates.importance = clamp01(importance, 0.7);
           if (category) updates.category = category;
+          if (tags !== undefined) updates.tags = normalizeTags(tags);
+          if (newExpiresAt !== undefined) updates.expiresAt = newExpiresAt;
 
-          const updated = await context.store.update(resolvedId, updates, scopeFilter);
+          const updated = await context.store.update(resolvedId, updates, scopeFilter, {
+            changedBy: context.agentId ? `agent:${context.agentId}` : "tool:memory_update",
+          });
 
           if (!updated) {
             return {
@@ -442,6 +658,8 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
               scope: updated.scope,
               category: updated.category,
               importance: updated.importance,
+              tags: updated.tags,
+              expiresAt: updated.expiresAt,
               fieldsUpdated: Object.keys(updates),
             },
           };
@@ -457,6 +675,314 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
   );
 }
 
+// ============================================================================
+// History Tool
+// ============================================================================
+
+export function registerMemoryHistoryTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_history",
+      label: "Memory History",
+      description: "Show past versions of a memory (previous text, importance and category before each update). Use before correcting a memory, or to check whether a memory was changed.",
+      parameters: Type.Object({
+        memoryId: Type.String({ description: "ID of the memory (full UUID or 8+ char prefix)" }),
+        limit: Type.Optional(Type.Number({ description: "Max versions to return, most recent first (default: 10, max: 50)" })),
+      }),
+      async execute(_toolCallId, params) {
+        const { memoryId, limit = 10 } = params as { memoryId: string; limit?: number };
+
+        try {
+          const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          const history = await context.store.getHistory(memoryId, scopeFilter);
+
+          if (!history) {
+            return {
+              content: [{ type: "text", text: `Memory ${memoryId} not found.` }],
+              details: { error: "not_found", id: memoryId },
+            };
+          }
+
+          const { current, versions } = history;
+          const shown = versions.slice().reverse().slice(0, clampInt(limit, 1, 50));
+
+          if (shown.length === 0) {
+            return {
+              content: [{ type: "text", text: `Memory ${current.id.slice(0, 8)}... has never been updated.` }],
+              details: { id: current.id, count: 0, versions: [] },
+            };
+          }
+
+          const lines = shown.map(v => {
+            const date = new Date(v.changedAt).toISOString().replace("T", " ").slice(0, 19);
+            return `v${v.version} [${v.category}, importance ${v.importance}] ${v.text.slice(0, 100)}${v.text.length > 100 ? '...' : ''}\n   replaced ${date} by ${v.changedBy}${v.action === "revert" ? " (revert)" : ""}`;
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: `Current: [${current.category}, importance ${current.importance}] ${current.text.slice(0, 100)}${current.text.length > 100 ? '...' : ''}\n\nPrevious versions (${versions.length}):\n${lines.join("\n")}`,
+            }],
+            details: {
+              id: current.id,
+              count: versions.length,
+              versions: shown.map(v => ({
+                version: v.version,
+                text: v.text,
+                category: v.category,
+                importance: v.importance,
+                expiresAt: v.expiresAt || undefined,
+                changedAt: v.changedAt,
+                changedBy: v.changedBy,
+                action: v.action,
+              })),
+            },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Failed to get memory history: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "history_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_history" }
+  );
+}
+
+// ============================================================================
+// Link Tools
+// ============================================================================
+
+export function registerMemoryLinkTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_link",
+      label: "Memory Link",
+      description: "Record a typed relationship between two memories. Types: supersedes (source replaces target), relates_to (same topic), derived_from (source was concluded from target), about_entity (source is about the entity memory target). Linked memories can be pulled into recall results together.",
+      parameters: Type.Object({
+        sourceId: Type.String({ description: "ID of the memory the link starts from (full UUID or 8+ char prefix)" }),
+        targetId: Type.String({ description: "ID of the memory the link points to (full UUID or 8+ char prefix)" }),
+        type: stringEnum(LINK_TYPES),
+      }),
+      async execute(_toolCallId, params) {
+        const { sourceId, targetId, type } = params as { sourceId: string; targetId: string; type: LinkType };
+
+        try {
+          const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          const link = await context.store.addLink(sourceId, targetId, type, {
+            createdBy: context.agentId ? `agent:${context.agentId}` : "tool:memory_link",
+            scopeFilter,
+          });
+
+          if (!link) {
+            return {
+              content: [{ type: "text", text: `Memory ${sourceId} or ${targetId} not found.` }],
+              details: { error: "not_found", sourceId, targetId },
+            };
+          }
+
+          return {
+            content: [{ type: "text", text: `Linked ${link.sourceId.slice(0, 8)} ${link.type} ${link.targetId.slice(0, 8)}` }],
+            details: { action: "linked", ...link },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Memory link failed: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "link_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_link" }
+  );
+}
+
+export function registerMemoryUnlinkTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_unlink",
+      label: "Memory Unlink",
+      description: "Remove a relationship between two memories. Without a type, every link from source to target is removed. Removing a supersedes link makes the target current again.",
+      parameters: Type.Object({
+        sourceId: Type.String({ description: "ID of the memory the link starts from (full UUID or 8+ char prefix)" }),
+        targetId: Type.String({ description: "ID of the memory the link points to (full UUID or 8+ char prefix)" }),
+        type: Type.Optional(stringEnum(LINK_TYPES)),
+      }),
+      async execute(_toolCallId, params) {
+        const { sourceId, targetId, type } = params as { sourceId: string; targetId: string; type?: LinkType };
+
+        try {
+          const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          const removed = await context.store.removeLink(sourceId, targetId, type, scopeFilter);
+
+          if (removed === 0) {
+            return {
+              content: [{ type: "text", text: `No ${type ? `${type} ` : ""}link from ${sourceId} to ${targetId}.` }],
+              details: { action: "none", sourceId, targetId, type },
+            };
+          }
+
+          return {
+            content: [{ type: "text", text: `Removed ${removed} link${removed === 1 ? "" : "s"} from ${sourceId.slice(0, 8)} to ${targetId.slice(0, 8)}` }],
+            details: { action: "unlinked", removed, sourceId, targetId, type },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Memory unlink failed: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "unlink_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_unlink" }
+  );
+}
+
+// ============================================================================
+// Entity Tool
+// ============================================================================
+
+export function registerMemoryEntityTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_entity",
+      label: "Memory Entity",
+      description: "Everything remembered about a person, project, tool or contact, grouped by category and ordered by time. Accepts a name or alias (e.g. \"Bob\" for \"Robert Smith (aka Bob)\").",
+      parameters: Type.Object({
+        name: Type.String({ description: "Entity name or alias" }),
+        scope: Type.Optional(Type.String({ description: "Specific memory scope to look in (optional)" })),
+        limit: Type.Optional(Type.Number({ description: "Max memories shown per category, most recent kept (default: 10, max: 50)" })),
+      }),
+      async execute(_toolCallId, params) {
+        const { name, scope, limit = 10 } = params as { name: string; scope?: string; limit?: number };
+
+        try {
+          let scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          if (scope) {
+            if (context.scopeManager.isAccessible(scope, context.agentId)) {
+              scopeFilter = [scope];
+            } else {
+              return {
+                content: [{ type: "text", text: `Access denied to scope: ${scope}` }],
+                details: { error: "scope_access_denied", requestedScope: scope },
+              };
+            }
+          }
+
+          const profile = await buildEntityProfile(context.store, name, scopeFilter);
+          if (!profile) {
+            return {
+              content: [{ type: "text", text: `No memories mention "${name}".` }],
+              details: { count: 0, name, scopes: scopeFilter },
+            };
+          }
+
+          const perCategory = clampInt(limit, 1, 50);
+          const sections = Object.entries(profile.categories).map(([category, entries]) => {
+            const lines = entries!.slice(-perCategory).map(e => {
+              const date = new Date(e.timestamp).toISOString().split("T")[0];
+              return `- ${date} [${e.id.slice(0, 8)}] ${e.text}${e.supersededBy ? " [superseded]" : ""}`;
+            });
+            return `${category} (${entries!.length}):\n${lines.join("\n")}`;
+          });
+
+          const aliasText = profile.aliases.length > 0 ? ` (also: ${profile.aliases.join(", ")})` : "";
+          return {
+            content: [{
+              type: "text",
+              text: `${profile.name}${aliasText}: ${profile.total} memories\n\n${sections.join("\n\n")}`,
+            }],
+            details: {
+              key: profile.key,
+              name: profile.name,
+              aliases: profile.aliases,
+              kinds: profile.kinds,
+              count: profile.total,
+              firstSeen: profile.firstSeen,
+              lastSeen: profile.lastSeen,
+              categories: Object.fromEntries(
+                Object.entries(profile.categories).map(([category, entries]) => [
+                  category,
+                  entries!.slice(-perCategory).map(e => ({
+                    id: e.id,
+                    text: e.text,
+                    scope: e.scope,
+                    importance: e.importance,
+                    timestamp: e.timestamp,
+                    tags: e.tags ?? [],
+                    supersededBy: e.supersededBy,
+                  })),
+                ])
+              ),
+            },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Entity lookup failed: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "entity_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_entity" }
+  );
+}
+
+// ============================================================================
+// Feedback Tool
+// ============================================================================
+
+export function registerMemoryFeedbackTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_feedback",
+      label: "Memory Feedback",
+      description: "Report whether a recalled memory was useful for a query. helpful: relevant and correct; unhelpful: not relevant here; wrong: incorrect or outdated (queued for review). Feedback adjusts how strongly the memory is ranked in future recalls.",
+      parameters: Type.Object({
+        memoryId: Type.String({ description: "ID of the recalled memory (full UUID or 8+ char prefix)" }),
+        verdict: stringEnum(FEEDBACK_VERDICTS),
+        query: Type.Optional(Type.String({ description: "Query or user message the memory was recalled for" })),
+        note: Type.Optional(Type.String({ description: "Why, e.g. what is wrong about it" })),
+      }),
+      async execute(_toolCallId, params) {
+        const { memoryId, verdict, query, note } = params as { memoryId: string; verdict: FeedbackVerdict; query?: string; note?: string };
+
+        try {
+          const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          const result = await context.store.addFeedback(memoryId, verdict, {
+            query,
+            note,
+            createdBy: context.agentId ? `agent:${context.agentId}` : "tool:memory_feedback",
+            scopeFilter,
+          });
+
+          if (!result) {
+            return {
+              content: [{ type: "text", text: `Memory ${memoryId} not found.` }],
+              details: { error: "not_found", memoryId },
+            };
+          }
+
+          const { feedback, entry } = result;
+          const importance = effectiveImportance(entry);
+          const review = verdict === "wrong" ? " Queued for review." : "";
+          return {
+            content: [{ type: "text", text: `Recorded ${verdict} feedback for [${entry.id.slice(0, 8)}]; effective importance now ${importance.toFixed(2)}.${review}` }],
+            details: { action: "recorded", ...feedback, effectiveImportance: importance, queuedForReview: verdict === "wrong" },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Memory feedback failed: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "feedback_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_feedback" }
+  );
+}
+
 // ============================================================================
 // Management Tools (Optional)
 // ============================================================================
@@ -490,10 +1016,14 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
           const stats = await context.store.stats(scopeFilter);
           const scopeManagerStats = context.scopeManager.getStats();
           const retrievalConfig = context.retriever.getConfig();
+          const pendingCount = context.pendingWrites?.count(scopeFilter) ?? 0;
+          const usage = await context.store.accessStats(scopeFilter, 3);
+          const usageLine = (m: MemoryEntry) => `  • ${m.accessCount || 0}× [${m.id.slice(0, 8)}] ${m.text.slice(0, 60)}`;
 
           const text = [
             `Memory Statistics:`,
             `• Total memories: ${stats.totalCount}`,
+            `• Pending embedding: ${pendingCount}`,
             `• Available scopes: ${scopeManagerStats.totalScopes}`,
             `• Retrieval mode: ${retrievalConfig.mode}`,
             `• FTS support: ${context.store.hasFtsSupport ? 'Yes' : 'No'}`,
@@ -503,6 +1033,10 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
             ``,
             `Memories by category:`,
             ...Object.entries(stats.categoryCounts).map(([c, count]) => `  • ${c}: ${count}`),
+            ``,
+            `Usage: ${usage.totalAccesses} recalls, ${usage.neverAccessed} never recalled`,
+            ...(usage.mostUsed.length > 0 ? [`Most used:`, ...usage.mostUsed.map(usageLine)] : []),
+            ...(usage.leastUsed.length > 0 ? [`Least used:`, ...usage.leastUsed.map(usageLine)] : []),
           ].join('\n');
 
           return {
@@ -515,6 +1049,13 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
                 rerankApiKey: retrievalConfig.rerankApiKey ? "***" : undefined,
               },
               hasFtsSupport: context.store.hasFtsSupport,
+              pendingCount,
+              usage: {
+                totalAccesses: usage.totalAccesses,
+                neverAccessed: usage.neverAccessed,
+                mostUsed: usage.mostUsed.map(m => ({ id: m.id, text: m.text, accessCount: m.accessCount || 0, lastAccessedAt: m.lastAccessedAt })),
+                leastUsed: usage.leastUsed.map(m => ({ id: m.id, text: m.text, accessCount: m.accessCount || 0, lastAccessedAt: m.lastAccessedAt })),
+              },
             },
           };
         } catch (error) {
@@ -540,6 +1081,7 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
         scope: Type.Optional(Type.String({ description: "Filter by specific scope (optional)" })),
         category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
         offset: Type.Optional(Type.Number({ description: "Number of memories to skip (default: 0)" })),
+        filter: Type.Optional(Type.String({ description: FILTER_DESCRIPTION })),
       }),
       async execute(_toolCallId, params) {
         const {
@@ -547,16 +1089,20 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
           scope,
           category,
           offset = 0,
+          filter,
         } = params as {
           limit?: number;
           scope?: string;
           category?: string;
           offset?: number;
+          filter?: string;
         };
 
         try {
           const safeLimit = clampInt(limit, 1, 50);
           const safeOffset = clampInt(offset, 0, 1000);
+          const parsedFilter = parseFilterParam(filter);
+          if (parsedFilter.error) return parsedFilter.error;
 
           // Determine accessible scopes
           let scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
@@ -571,35 +1117,44 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
             }
           }
 
-          const entries = await context.store.list(scopeFilter, category, safeLimit, safeOffset);
+          const entries = await context.store.list(scopeFilter, category, safeLimit, safeOffset, parsedFilter.filter);
+          const pendingCount = context.pendingWrites?.count(scopeFilter) ?? 0;
+          const pendingNote = pendingCount > 0 ? `\n\n${pendingCount} more pending embedding (not yet searchable).` : "";
 
           if (entries.length === 0) {
             return {
-              content: [{ type: "text", text: "No memories found." }],
-              details: { count: 0, filters: { scope, category, limit: safeLimit, offset: safeOffset } },
+              content: [{ type: "text", text: `No memories found.${pendingNote}` }],
+              details: { count: 0, pendingCount, filters: { scope, category, filter, limit: safeLimit, offset: safeOffset } },
             };
           }
 
           const text = entries
             .map((entry, i) => {
               const date = new Date(entry.timestamp).toISOString().split('T')[0];
-              return `${safeOffset + i + 1}. [${entry.category}:${entry.scope}] ${entry.text.slice(0, 100)}${entry.text.length > 100 ? '...' : ''} (${date})`;
+              const tagText = entry.tags && entry.tags.length > 0 ? ` #${entry.tags.join(" #")}` : "";
+              const supersededText = entry.supersededBy ? ` [superseded by ${entry.supersededBy.slice(0, 8)}]` : "";
+              const expiryText = entry.expiresAt ? ` [expires ${formatExpiry(entry.expiresAt)}]` : "";
+              return `${safeOffset + i + 1}. [${entry.category}:${entry.scope}] ${entry.text.slice(0, 100)}${entry.text.length > 100 ? '...' : ''}${tagText}${supersededText}${expiryText} (${date})`;
             })
             .join('\n');
 
           return {
-            content: [{ type: "text", text: `Recent memories (showing ${entries.length}):\n\n${text}` }],
+            content: [{ type: "text", text: `Recent memories (showing ${entries.length}):\n\n${text}${pendingNote}` }],
             details: {
               count: entries.length,
+              pendingCount,
               memories: entries.map(e => ({
                 id: e.id,
                 text: e.text,
                 category: e.category,
                 scope: e.scope,
                 importance: e.importance,
+                tags: e.tags ?? [],
+                supersededBy: e.supersededBy,
+                expiresAt: e.expiresAt,
                 timestamp: e.timestamp,
               })),
-              filters: { scope, category, limit: safeLimit, offset: safeOffset },
+              filters: { scope, category, filter, limit: safeLimit, offset: safeOffset },
             },
           };
         } catch (error) {
@@ -630,6 +1185,11 @@ export function registerAllMemoryTools(
   registerMemoryStoreTool(api, context);
   registerMemoryForgetTool(api, context);
   registerMemoryUpdateTool(api, context);
+  registerMemoryHistoryTool(api, context);
+  registerMemoryLinkTool(api, context);
+  registerMemoryUnlinkTool(api, context);
+  registerMemoryEntityTool(api, context);
+  registerMemoryFeedbackTool(api, context);
 
   // Management tools (optional)
   if (options.enableManagementTools) {
@@ -0,0 +1,590 @@
+/**
+ * Durable Pending-Writes Queue
+ * Write-ahead queue for memories whose embedding failed:
+ * - Raw text, scope, category and importance persisted immediately (SQLite)
+ * - Stable memory id assigned at enqueue time
+ * - Drained by a background service once embedding works again
+ * - Entries that keep failing are parked after a number of attempts
+ * - Ids of memories embedded by a fallback model, re-embedded once the primary recovers
+ * - Shares the embedding cache database; rows are namespaced by LanceDB path
+ * - With a cipher (encryption at rest), text and metadata are stored encrypted
+ */
+
+import DatabaseConstructor from 'better-sqlite3';
+import type { Database } from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import type { MemoryEntry, MemoryStore } from './store.js';
+import type { Embedder } from './embedder.js';
+import type { MemoryDeduplicator } from './dedupe.js';
+import { getDefaultCacheDbPath } from './persistent-cache.js';
+import { encryptedKeyId, type FieldCipher } from './encryption.js';
+import { parseTags, serializeTags } from './tags.js';
+import { isExpired } from './expiry.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PendingWriteSource = 'tool' | 'auto-capture' | 'import' | 'session';
+
+export interface PendingWrite {
+  /** Memory id the entry will be stored under once embedded */
+  id: string;
+  text: string;
+  category: MemoryEntry['category'];
+  scope: string;
+  importance: number;
+  metadata: string;
+  tags: string[];
+  /** Expiry time in ms, if the memory has one */
+  expiresAt?: number;
+  /** Original write time, kept as the memory timestamp */
+  timestamp: number;
+  source: PendingWriteSource;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: number;
+}
+
+export interface PendingWriteQueueConfig {
+  /** Namespace for rows, normally the resolved LanceDB path */
+  namespace: string;
+  /** SQLite database path (default: the embedding cache database) */
+  dbPath?: string;
+  /** Encrypts stored text and metadata (see encryption.ts) */
+  cipher?: FieldCipher;
+  /** Failed attempts after which an entry is parked and no longer drained (default: 10) */
+  maxAttempts?: number;
+}
+
+export interface DrainResult {
+  stored: number;
+  /** Dropped or merged by the dedupe policy */
+  deduplicated: number;
+  failed: number;
+  /** Entries that reached the attempt limit during this drain */
+  parked: number;
+  remaining: number;
+}
+
+export interface ReembedResult {
+  reembedded: number;
+  /** Queued ids whose memory was deleted or trashed since */
+  skipped: number;
+  remaining: number;
+  /** Why re-embedding stopped early, if the primary failed */
+  error?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Rows queued before encryption was enabled are plaintext; decrypt passes them through */
+function rowToPendingWrite(row: any, cipher?: FieldCipher): PendingWrite {
+  const open = (value: string) => (cipher ? cipher.decrypt(value) : value);
+  return {
+    id: row.id,
+    text: open(row.text),
+    category: row.category,
+    scope: row.scope,
+    importance: row.importance,
+    metadata: open(row.metadata || '{}'),
+    tags: parseTags(row.tags),
+    expiresAt: row.expires_at ?? undefined,
+    timestamp: row.created_at,
+    source: row.source,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    lastAttemptAt: row.last_attempt_at ?? undefined,
+  };
+}
+
+// ============================================================================
+// Pending Write Queue
+// ============================================================================
+
+export class PendingWriteQueue {
+  private db: Database | null = null;
+  /** Used only when the SQLite database can't be opened */
+  private memoryQueue = new Map<string, PendingWrite>();
+  private memoryReembed = new Map<string, number>();
+  private initialized = false;
+
+  constructor(private readonly config: PendingWriteQueueConfig) {}
+
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      this.db = new DatabaseConstructor(this.config.dbPath || getDefaultCacheDbPath()) as unknown as Database;
+      (this.db as any).pragma('journal_mode = WAL');
+      this.createTables();
+    } catch (error) {
+      console.warn('[PendingWriteQueue] Failed to open database, pending writes will not survive a restart:', error);
+      this.db = null;
+    }
+
+    this.initialized = true;
+  }
+
+  get maxAttempts(): number {
+    return this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private seal(value: string): string {
+    return this.config.cipher ? this.config.cipher.encrypt(value) : value;
+  }
+
+  private createTables(): void {
+    if (!this.db) return;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_writes (
+        id TEXT PRIMARY KEY,
+        namespace TEXT NOT NULL,
+        text TEXT NOT NULL,
+        category TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        importance REAL NOT NULL,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        tags TEXT NOT NULL DEFAULT '[]',
+        expires_at INTEGER,
+        source TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        last_attempt_at INTEGER
+      )
+    `);
+
+    // Queues created before tags/expiry existed
+    const columns = this.db.prepare('PRAGMA table_info(pending_writes)').all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === 'tags')) {
+      this.db.exec(`ALTER TABLE pending_writes ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'`);
+    }
+    if (!columns.some(c => c.name === 'expires_at')) {
+      this.db.exec(`ALTER TABLE pending_writes ADD COLUMN expires_at INTEGER`);
+    }
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_pending_writes_namespace
+      ON pending_writes(namespace, created_at)
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_reembeds (
+        id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, id)
+      )
+    `);
+  }
+
+  // ============================================================================
+  // Queue Operations
+  // ============================================================================
+
+  /** Persist a memory that couldn't be embedded. Returns the queued entry. */
+  enqueue(
+    entry: {
+      text: string;
+      category: MemoryEntry['category'];
+      scope: string;
+      importance: number;
+      metadata?: string;
+      tags?: string[];
+      expiresAt?: number;
+      source: PendingWriteSource;
+    },
+    error?: unknown
+  ): PendingWrite {
+    this.initialize();
+
+    const pending: PendingWrite = {
+      id: randomUUID(),
+      text: entry.text,
+      category: entry.category,
+      scope: entry.scope,
+      importance: entry.importance,
+      metadata: entry.metadata ?? '{}',
+      tags: parseTags(entry.tags),
+      expiresAt: entry.expiresAt,
+      timestamp: Date.now(),
+      source: entry.source,
+      attempts: error === undefined ? 0 : 1,
+      lastError: error === undefined ? undefined : errorMessage(error),
+      lastAttemptAt: error === undefined ? undefined : Date.now(),
+    };
+
+    if (!this.db) {
+      this.memoryQueue.set(pending.id, pending);
+      return pending;
+    }
+
+    this.db.prepare(`
+      INSERT INTO pending_writes
+      (id, namespace, text, category, scope, importance, metadata, tags, expires_at, source, created_at, attempts, last_error, last_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      pending.id,
+      this.config.namespace,
+      this.seal(pending.text),
+      pending.category,
+      pending.scope,
+      pending.importance,
+      this.seal(pending.metadata),
+      serializeTags(pending.tags),
+      pending.expiresAt ?? null,
+      pending.source,
+      pending.timestamp,
+      pending.attempts,
+      pending.lastError ?? null,
+      pending.lastAttemptAt ?? null
+    );
+
+    return pending;
+  }
+
+  /** Oldest pending entries first, optionally restricted to scopes. */
+  list(scopeFilter?: string[], limit = 100): PendingWrite[] {
+    this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryQueue.values())
+        .filter(p => this.inScope(p, scopeFilter))
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(0, limit);
+    }
+
+    const { clause, params } = this.scopeClause(scopeFilter);
+    const rows = this.db.prepare(
+      `SELECT * FROM pending_writes WHERE namespace = ?${clause} ORDER BY created_at ASC LIMIT ?`
+    ).all(this.config.namespace, ...params, limit) as any[];
+
+    return rows.map(row => rowToPendingWrite(row, this.config.cipher));
+  }
+
+  /** Oldest entries still below the attempt limit, i.e. the ones a drain retries. */
+  listDrainable(limit = 100): PendingWrite[] {
+    this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryQueue.values())
+        .filter(p => p.attempts < this.maxAttempts)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(0, limit);
+    }
+
+    const rows = this.db.prepare(
+      'SELECT * FROM pending_writes WHERE namespace = ? AND attempts < ? ORDER BY created_at ASC LIMIT ?'
+    ).all(this.config.namespace, this.maxAttempts, limit) as any[];
+
+    return rows.map(row => rowToPendingWrite(row, this.config.cipher));
+  }
+
+  count(scopeFilter?: string[]): number {
+    this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryQueue.values()).filter(p => this.inScope(p, scopeFilter)).length;
+    }
+
+    const { clause, params } = this.scopeClause(scopeFilter);
+    const row = this.db.prepare(
+      `SELECT COUNT(*) AS count FROM pending_writes WHERE namespace = ?${clause}`
+    ).get(this.config.namespace, ...params) as { count: number };
+
+    return row.count;
+  }
+
+  /** Entries parked after reaching the attempt limit; they stay queued but aren't drained. */
+  parkedCount(): number {
+    this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryQueue.values()).filter(p => p.attempts >= this.maxAttempts).length;
+    }
+
+    const row = this.db.prepare(
+      'SELECT COUNT(*) AS count FROM pending_writes WHERE namespace = ? AND attempts >= ?'
+    ).get(this.config.namespace, this.maxAttempts) as { count: number };
+
+    return row.count;
+  }
+
+  /** Keys the queued rows are encrypted with; a retired key still in use must stay in the keyring */
+  keyIds(): Set<string> {
+    this.initialize();
+
+    const keyIds = new Set<string>();
+    if (!this.db) return keyIds;
+
+    const rows = this.db.prepare(
+      'SELECT text, metadata FROM pending_writes WHERE namespace = ?'
+    ).all(this.config.namespace) as Array<{ text: string; metadata: string }>;
+    for (const row of rows) {
+      for (const value of [row.text, row.metadata]) {
+        const keyId = encryptedKeyId(value);
+        if (keyId) keyIds.add(keyId);
+      }
+    }
+    return keyIds;
+  }
+
+  remove(id: string): void {
+    this.initialize();
+    this.memoryQueue.delete(id);
+    this.db?.prepare('DELETE FROM pending_writes WHERE id = ? AND namespace = ?').run(id, this.config.namespace);
+  }
+
+  /** Count a failed attempt. Returns true once the entry reached the attempt limit and is parked. */
+  recordFailure(id: string, error: unknown): boolean {
+    this.initialize();
+    const now = Date.now();
+
+    const pending = this.memoryQueue.get(id);
+    if (pending) {
+      pending.attempts++;
+      pending.lastError = errorMessage(error);
+      pending.lastAttemptAt = now;
+      return pending.attempts >= this.maxAttempts;
+    }
+
+    if (!this.db) return false;
+
+    this.db.prepare(`
+      UPDATE pending_writes
+      SET attempts = attempts + 1, last_error = ?, last_attempt_at = ?
+      WHERE id = ? AND namespace = ?
+    `).run(errorMessage(error), now, id, this.config.namespace);
+
+    const row = this.db.prepare(
+      'SELECT attempts FROM pending_writes WHERE id = ? AND namespace = ?'
+    ).get(id, this.config.namespace) as { attempts: number } | undefined;
+    return !!row && row.attempts >= this.maxAttempts;
+  }
+
+  // ============================================================================
+  // Fallback Re-embedding
+  // ============================================================================
+
+  /** Record a memory whose stored vector came from a fallback embedding model. */
+  markForReembed(id: string): void {
+    this.initialize();
+
+    if (!this.db) {
+      if (!this.memoryReembed.has(id)) this.memoryReembed.set(id, Date.now());
+      return;
+    }
+
+    this.db.prepare(
+      'INSERT OR IGNORE INTO pending_reembeds (id, namespace, created_at) VALUES (?, ?, ?)'
+    ).run(id, this.config.namespace, Date.now());
+  }
+
+  /** Forget a memory, e.g. once it was re-embedded or written with a primary vector. */
+  clearReembed(id: string): void {
+    this.initialize();
+    this.memoryReembed.delete(id);
+    this.db?.prepare('DELETE FROM pending_reembeds WHERE id = ? AND namespace = ?').run(id, this.config.namespace);
+  }
+
+  /** Memory ids waiting for a primary-model vector, oldest first. */
+  listReembeds(limit = 100): string[] {
+    this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryReembed.entries())
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, limit)
+        .map(([id]) => id);
+    }
+
+    const rows = this.db.prepare(
+      'SELECT id FROM pending_reembeds WHERE namespace = ? ORDER BY created_at ASC LIMIT ?'
+    ).all(this.config.namespace, limit) as Array<{ id: string }>;
+
+    return rows.map(row => row.id);
+  }
+
+  reembedCount(): number {
+    this.initialize();
+
+    if (!this.db) {
+      return this.memoryReembed.size;
+    }
+
+    const row = this.db.prepare(
+      'SELECT COUNT(*) AS count FROM pending_reembeds WHERE namespace = ?'
+    ).get(this.config.namespace) as { count: number };
+
+    return row.count;
+  }
+
+  private inScope(pending: PendingWrite, scopeFilter?: string[]): boolean {
+    return !scopeFilter || scopeFilter.length === 0 || scopeFilter.includes(pending.scope);
+  }
+
+  private scopeClause(scopeFilter?: string[]): { clause: string; params: string[] } {
+    if (!scopeFilter || scopeFilter.length === 0) {
+      return { clause: '', params: [] };
+    }
+    return { clause: ` AND scope IN (${scopeFilter.map(() => '?').join(', ')})`, params: scopeFilter };
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  close(): void {
+    if (this.db) {
+      try {
+        this.db.close();
+      } catch (error) {
+        console.warn('[PendingWriteQueue] Failed to close database:', error);
+      }
+      this.db = null;
+    }
+    this.initialized = false;
+  }
+}
+
+// ============================================================================
+// Drain
+// ============================================================================
+
+/**
+ * Embed and store queued memories, oldest first. Stops at the first embedding
+ * failure since the remaining entries would hit the same outage; a failed
+ * store write only skips that entry. Parked entries are left alone. With a
+ * deduplicator, entries go through the same dedupe policy as direct writes.
+ */
+export async function drainPendingWrites(
+  queue: PendingWriteQueue,
+  store: MemoryStore,
+  embedder: Embedder,
+  batchSize = 50,
+  dedupe?: MemoryDeduplicator
+): Promise<DrainResult> {
+  let stored = 0;
+  let deduplicated = 0;
+  let failed = 0;
+  let parked = 0;
+
+  for (const pending of queue.listDrainable(batchSize)) {
+    // A crash between store and remove leaves the memory already written
+    if (await store.hasId(pending.id)) {
+      queue.remove(pending.id);
+      continue;
+    }
+
+    // Expired while waiting for the embedding API
+    if (isExpired(pending.expiresAt)) {
+      queue.remove(pending.id);
+      continue;
+    }
+
+    let vector: number[];
+    try {
+      vector = await embedder.embedPassage(pending.text);
+    } catch (error) {
+      if (queue.recordFailure(pending.id, error)) parked++;
+      failed++;
+      break;
+    }
+
+    const entry = {
+      id: pending.id,
+      text: pending.text,
+      vector,
+      category: pending.category,
+      scope: pending.scope,
+      importance: pending.importance,
+      timestamp: pending.timestamp,
+      metadata: pending.metadata,
+      tags: pending.tags,
+      expiresAt: pending.expiresAt,
+    };
+
+    try {
+      if (dedupe) {
+        const result = await dedupe.write(entry, { changedBy: `queue:${pending.source}` });
+        if (result.action === 'created') stored++;
+        else deduplicated++;
+      } else {
+        await store.importEntry(entry);
+        stored++;
+      }
+    } catch (error) {
+      if (queue.recordFailure(pending.id, error)) parked++;
+      failed++;
+      continue;
+    }
+    queue.remove(pending.id);
+  }
+
+  return { stored, deduplicated, failed, parked, remaining: queue.count() };
+}
+
+/**
+ * Replace vectors written through a fallback model with the primary's, by
+ * memory id. Does nothing while the primary's circuit is open, and stops at
+ * the first failure, returning its message.
+ */
+export async function reembedFallbackVectors(
+  queue: PendingWriteQueue,
+  store: MemoryStore,
+  embedder: Pick<Embedder, 'isPrimaryAvailable' | 'embedPassageWithPrimary'>,
+  batchSize = 50
+): Promise<ReembedResult> {
+  let reembedded = 0;
+  let skipped = 0;
+  let error: string | undefined;
+
+  if (!embedder.isPrimaryAvailable()) {
+    return { reembedded, skipped, remaining: queue.reembedCount() };
+  }
+
+  for (const id of queue.listReembeds(batchSize)) {
+    const entry = await store.getById(id);
+    if (!entry) {
+      queue.clearReembed(id);
+      skipped++;
+      continue;
+    }
+
+    let vector: number[];
+    try {
+      vector = await embedder.embedPassageWithPrimary(entry.text);
+    } catch (err) {
+      error = errorMessage(err);
+      break;
+    }
+
+    await store.update(id, { vector });
+    queue.clearReembed(id);
+    reembedded++;
+  }
+
+  return { reembedded, skipped, remaining: queue.reembedCount(), error };
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createPendingWriteQueue(config: PendingWriteQueueConfig): PendingWriteQueue {
+  const queue = new PendingWriteQueue(config);
+  queue.initialize();
+  return queue;
+}
@@ -0,0 +1,96 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { backupKeyIds, createBackup, isBackupIntact, resolveBackupConfig, verifyBackup, type BackupConfig } from "../src/backup.js";
+import { FieldCipher } from "../src/encryption.js";
+import { toImportedMemory } from "../src/portable.js";
+import type { MemoryEntry, MemoryStore } from "../src/store.js";
+
+function entry(id: string, text: string): MemoryEntry {
+  return {
+    id,
+    text,
+    vector: [0.1, 0.2, 0.3],
+    category: "preference",
+    scope: "global",
+    importance: 0.8,
+    timestamp: 1767225600000,
+    metadata: JSON.stringify({ source: "chat" }),
+    tags: ["drinks"],
+  };
+}
+
+/** Store stub serving fixed live memories; backups only iterate the table */
+function storeWith(entries: MemoryEntry[]): MemoryStore {
+  return {
+    async *iterate() {
+      yield* entries;
+    },
+  } as unknown as MemoryStore;
+}
+
+const cipherFor = (keyId: string) => new FieldCipher(new Map([[keyId, randomBytes(32)]]), keyId);
+
+describe("encrypted backups", () => {
+  const entries = [entry("m1", "User prefers green tea"), entry("m2", "Deploys run nightly")];
+  let dir: string;
+  let config: BackupConfig;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-backup-test-"));
+    config = resolveBackupConfig(join(dir, "db"), { dir, gzip: false });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("seals text and metadata and names the key in the header", async () => {
+    const cipher = cipherFor("k1");
+    const { file } = await createBackup(storeWith(entries), config, null, cipher);
+    const [header, first] = (await readFile(file.path, "utf8")).split("\n").map(line => JSON.parse(line || "null"));
+
+    expect(header).toMatchObject({ version: 3, encryption: { keyId: "k1" } });
+    expect(first.text).toMatch(/^enc:v1:k1:/);
+    expect(first.metadata).toMatch(/^enc:v1:k1:/);
+    expect(first.vector).toEqual([0.1, 0.2, 0.3]);
+    expect(toImportedMemory(first, cipher)).toMatchObject({ id: "m1", text: "User prefers green tea", metadata: '{"source":"chat"}' });
+  });
+
+  it("verifies against the live table with the cipher", async () => {
+    const cipher = cipherFor("k1");
+    const { file } = await createBackup(storeWith(entries), config, null, cipher);
+    const result = await verifyBackup(file.path, storeWith(entries), cipher);
+
+    expect(isBackupIntact(result)).toBe(true);
+    expect(result.digestValid).toBe(true);
+    expect(result.live).toEqual({ matching: 2, changed: [], missing: [], added: 0 });
+  });
+
+  it("refuses to verify without a cipher, and fails lines under an unknown key", async () => {
+    const { file } = await createBackup(storeWith(entries), config, null, cipherFor("k1"));
+
+    await expect(verifyBackup(file.path, storeWith(entries))).rejects.toThrow(/encrypted with key k1/);
+    const result = await verifyBackup(file.path, storeWith(entries), cipherFor("k2"));
+    expect(result.invalidLines).toHaveLength(2);
+    expect(result.invalidLines[0].error).toMatch(/key k1 is not in the keyring/);
+  });
+
+  it("writes plaintext version 2 backups without a cipher", async () => {
+    const { file } = await createBackup(storeWith(entries), config);
+    const [header, first] = (await readFile(file.path, "utf8")).split("\n").map(line => JSON.parse(line || "null"));
+
+    expect(header.version).toBe(2);
+    expect(header.encryption).toBeUndefined();
+    expect(first.text).toBe("User prefers green tea");
+  });
+
+  it("lists the keys backups are sealed with", async () => {
+    await createBackup(storeWith(entries), config, null, cipherFor("k1"));
+    await createBackup(storeWith(entries), { ...config, gzip: true }, null, cipherFor("k2"));
+
+    expect(await backupKeyIds(dir)).toEqual(new Set(["k1", "k2"]));
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Embedder } from "../src/embedder.js";
+import { EmbeddingFailoverChain } from "../src/embedding-failover.js";
+import type { EmbeddingInputType, EmbeddingProvider } from "../src/embedding-providers.js";
+
+/** Backend stub returning `vector` for every text, or throwing while `failing` is set */
+function stubBackend(model: string, vector: number[] = [1, 0, 0]) {
+  const backend = {
+    name: "ollama" as const,
+    model,
+    failing: false,
+    calls: 0,
+    /** Resolves the next call only when released, to hold a half-open probe in flight */
+    gate: null as Promise<void> | null,
+    async embed(texts: string[], _inputType: EmbeddingInputType) {
+      backend.calls++;
+      if (backend.gate) await backend.gate;
+      if (backend.failing) throw new Error(`${model} unavailable`);
+      return texts.map(() => [...vector]);
+    },
+  };
+  return backend;
+}
+
+vi.mock("../src/persistent-cache.js", () => ({
+  getPersistentCache: async () => {
+    throw new Error("no disk cache in tests");
+  },
+}));
+
+const backends = vi.hoisted(() => new Map<string, EmbeddingProvider>());
+vi.mock("../src/embedding-providers.js", async importOriginal => ({
+  ...(await importOriginal<typeof import("../src/embedding-providers.js")>()),
+  createEmbeddingProvider: (config: { model: string; baseURL?: string }) => backends.get(config.baseURL ?? config.model),
+}));
+
+describe("EmbeddingFailoverChain", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens a backend's circuit after the failure threshold and stops calling it", async () => {
+    const primary = stubBackend("primary");
+    const fallback = stubBackend("fallback");
+    const chain = new EmbeddingFailoverChain([primary, fallback], { failureThreshold: 2, cooldownMs: 1000 });
+    primary.failing = true;
+
+    await chain.embed(["a"], "passage");
+    expect(chain.getStatus()[0]).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+    await chain.embed(["a"], "passage");
+    expect(chain.getStatus()[0]).toMatchObject({ state: "open", consecutiveFailures: 2, lastError: "primary unavailable" });
+    expect(chain.isPrimaryAvailable()).toBe(false);
+    expect(chain.activeIndex()).toBe(1);
+
+    await chain.embed(["a"], "passage");
+    expect(primary.calls).toBe(2);
+    expect(fallback.calls).toBe(3);
+  });
+
+  it("admits a single half-open probe after the cooldown and closes on success", async () => {
+    const primary = stubBackend("primary");
+    const fallback = stubBackend("fallback");
+    const chain = new EmbeddingFailoverChain([primary, fallback], { failureThreshold: 1, cooldownMs: 1000 });
+    primary.failing = true;
+    await chain.embed(["a"], "passage");
+
+    vi.setSystemTime(1000);
+    expect(chain.getStatus()[0].state).toBe("half-open");
+
+    primary.failing = false;
+    let release!: () => void;
+    primary.gate = new Promise(resolve => (release = resolve));
+    const probe = chain.embed(["a"], "passage");
+    const concurrent = await chain.embed(["b"], "passage");
+    expect(concurrent.backendIndex).toBe(1);
+    expect(primary.calls).toBe(2);
+
+    release();
+    expect((await probe).backendIndex).toBe(0);
+    expect(chain.getStatus()[0]).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("reopens the circuit when the half-open probe fails", async () => {
+    const primary = stubBackend("primary");
+    const chain = new EmbeddingFailoverChain([primary, stubBackend("fallback")], { failureThreshold: 1, cooldownMs: 1000 });
+    primary.failing = true;
+    await chain.embed(["a"], "passage");
+
+    vi.setSystemTime(1000);
+    await chain.embed(["a"], "passage");
+    expect(primary.calls).toBe(2);
+    expect(chain.getStatus()[0].state).toBe("open");
+  });
+
+  it("falls through the chain in order and reports every failure when all fail", async () => {
+    const first = stubBackend("first");
+    const second = stubBackend("second");
+    const third = stubBackend("third");
+    const chain = new EmbeddingFailoverChain([first, second, third]);
+    first.failing = true;
+    second.failing = true;
+
+    expect(await chain.embed(["a"], "query")).toEqual({ vectors: [[1, 0, 0]], backendIndex: 2 });
+
+    third.failing = true;
+    await expect(chain.embed(["a"], "query")).rejects.toThrow(
+      "All embedding backends failed: ollama/first: first unavailable; ollama/second: second unavailable; ollama/third: third unavailable"
+    );
+  });
+
+  it("still tries the primary when every circuit is open", async () => {
+    const primary = stubBackend("primary");
+    const fallback = stubBackend("fallback");
+    const chain = new EmbeddingFailoverChain([primary, fallback], { failureThreshold: 1, cooldownMs: 1000 });
+    primary.failing = true;
+    fallback.failing = true;
+    await expect(chain.embed(["a"], "passage")).rejects.toThrow();
+
+    primary.failing = false;
+    expect((await chain.embed(["a"], "passage")).backendIndex).toBe(0);
+    expect(fallback.calls).toBe(1);
+  });
+
+  it("counts a backend returning the wrong dimension as a failure", async () => {
+    const chain = new EmbeddingFailoverChain([stubBackend("primary", [1, 0]), stubBackend("fallback")], {}, 3);
+
+    expect((await chain.embed(["a"], "passage")).backendIndex).toBe(1);
+    expect(chain.getStatus()[0].lastError).toBe("Embedding backend ollama/primary returned 2 dimensions, expected 3");
+  });
+});
+
+describe("Embedder fallback vectors", () => {
+  afterEach(() => {
+    backends.clear();
+  });
+
+  function embedderWith(fallbackModel: string) {
+    const primary = stubBackend("primary", [1, 0, 0]);
+    backends.set("primary", primary);
+    backends.set("http://fallback", stubBackend(fallbackModel, [0, 1, 0]));
+    const embedder = new Embedder({
+      provider: "ollama",
+      apiKey: "",
+      model: "primary",
+      dimensions: 3,
+      fallbacks: [{ provider: "ollama", apiKey: "", model: fallbackModel, baseURL: "http://fallback", dimensions: 3 }],
+    });
+    return { embedder, primary };
+  }
+
+  it("marks passages embedded by a fallback with a different model", async () => {
+    const { embedder, primary } = embedderWith("fallback");
+
+    const fromPrimary = await embedder.embedPassage("first");
+    primary.failing = true;
+    const fromFallback = await embedder.embedPassage("second");
+    const [batched] = await embedder.embedBatchPassage(["third"]);
+
+    expect(embedder.isFallbackVector(fromPrimary)).toBe(false);
+    expect(fromFallback).toEqual([0, 1, 0]);
+    expect(embedder.isFallbackVector(fromFallback)).toBe(true);
+    expect(embedder.isFallbackVector(batched)).toBe(true);
+    expect(embedder.isFallbackVector([...fromFallback])).toBe(false);
+  });
+
+  it("does not mark passages from a fallback serving the same model", async () => {
+    const { embedder, primary } = embedderWith("primary");
+    primary.failing = true;
+
+    const passage = await embedder.embedPassage("passage");
+    expect(passage).toEqual([0, 1, 0]);
+    expect(embedder.isFallbackVector(passage)).toBe(false);
+  });
+
+  it("does not mark fallback queries", async () => {
+    const { embedder, primary } = embedderWith("fallback");
+    primary.failing = true;
+
+    const query = await embedder.embedQuery("query");
+    expect(query).toEqual([0, 1, 0]);
+    expect(embedder.isFallbackVector(query)).toBe(false);
+  });
+});
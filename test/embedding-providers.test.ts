@@ -0,0 +1,162 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import type { EmbeddingBackendConfig } from "../src/embedder.js";
+import { createEmbeddingProvider } from "../src/embedding-providers.js";
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+interface TestServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+const servers: TestServer[] = [];
+
+/** Answers every request with the same status and JSON body */
+async function startServer(status: number, body: unknown): Promise<TestServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw) });
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const handle: TestServer = {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+  servers.push(handle);
+  return handle;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+});
+
+function providerFor(server: TestServer, config: Partial<EmbeddingBackendConfig> & Pick<EmbeddingBackendConfig, "provider">) {
+  return createEmbeddingProvider({ apiKey: "test-key", model: "test-model", baseURL: server.url, ...config });
+}
+
+const VECTORS = [[0.1, 0.2], [0.3, 0.4]];
+
+describe("ollama embedding provider", () => {
+  it("posts to /api/embed and reads embeddings", async () => {
+    const server = await startServer(200, { model: "nomic-embed-text", embeddings: VECTORS });
+    const provider = providerFor(server, { provider: "ollama", model: "nomic-embed-text", dimensions: 2 });
+
+    expect(await provider.embed(["a", "b"], "passage")).toEqual(VECTORS);
+    const [request] = server.requests;
+    expect(request.url).toBe("/api/embed");
+    expect(request.headers.authorization).toBe("Bearer test-key");
+    expect(request.body).toEqual({ model: "nomic-embed-text", input: ["a", "b"], dimensions: 2 });
+  });
+
+  it("accepts an OpenAI-style /v1 base URL and sends no key for a local server", async () => {
+    const server = await startServer(200, { embeddings: [[1, 0]] });
+    const provider = providerFor(server, { provider: "ollama", apiKey: "", baseURL: `${server.url}/v1/` });
+
+    await provider.embed(["a"], "query");
+    expect(server.requests[0].url).toBe("/api/embed");
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it("reports API errors with the status and response body", async () => {
+    const server = await startServer(500, { error: "model not loaded" });
+    const provider = providerFor(server, { provider: "ollama" });
+
+    await expect(provider.embed(["a"], "query")).rejects.toThrow(
+      'ollama embedding API error: 500 Internal Server Error - {"error":"model not loaded"}'
+    );
+  });
+});
+
+describe("gemini embedding provider", () => {
+  it("sends one batchEmbedContents request per call with the task type per input type", async () => {
+    const server = await startServer(200, { embeddings: VECTORS.map(values => ({ values })) });
+    const provider = providerFor(server, { provider: "gemini", model: "models/gemini-embedding-001", dimensions: 2 });
+
+    expect(await provider.embed(["a", "b"], "passage")).toEqual(VECTORS);
+    await provider.embed(["a", "b"], "query");
+
+    const [passage, query] = server.requests;
+    expect(passage.url).toBe("/models/gemini-embedding-001:batchEmbedContents");
+    expect(passage.headers["x-goog-api-key"]).toBe("test-key");
+    expect(passage.body.requests[0]).toEqual({
+      model: "models/gemini-embedding-001",
+      content: { parts: [{ text: "a" }] },
+      taskType: "RETRIEVAL_DOCUMENT",
+      outputDimensionality: 2,
+    });
+    expect(query.body.requests.map((r: { taskType: string }) => r.taskType)).toEqual(["RETRIEVAL_QUERY", "RETRIEVAL_QUERY"]);
+  });
+
+  it("strips the OpenAI-compatible suffix from the base URL", async () => {
+    const server = await startServer(200, { embeddings: [{ values: [1, 0] }] });
+    const provider = providerFor(server, { provider: "gemini", baseURL: `${server.url}/openai/`, taskQuery: "QUESTION_ANSWERING" });
+
+    await provider.embed(["a"], "query");
+    expect(server.requests[0].url).toBe("/models/test-model:batchEmbedContents");
+    expect(server.requests[0].body.requests[0].taskType).toBe("QUESTION_ANSWERING");
+  });
+
+  it("rejects embeddings without values", async () => {
+    const server = await startServer(200, { embeddings: [{ values: [1, 0] }, {}] });
+    const provider = providerFor(server, { provider: "gemini" });
+
+    await expect(provider.embed(["a", "b"], "query")).rejects.toThrow("Malformed embedding response from gemini");
+  });
+});
+
+describe("cohere embedding provider", () => {
+  it("posts to /embed with input_type and reads float embeddings", async () => {
+    const server = await startServer(200, { id: "x", embeddings: { float: VECTORS } });
+    const provider = providerFor(server, { provider: "cohere", model: "embed-v4.0", dimensions: 256 });
+
+    expect(await provider.embed(["a", "b"], "query")).toEqual(VECTORS);
+    const [request] = server.requests;
+    expect(request.url).toBe("/embed");
+    expect(request.headers.authorization).toBe("Bearer test-key");
+    expect(request.body).toEqual({
+      model: "embed-v4.0",
+      texts: ["a", "b"],
+      input_type: "search_query",
+      embedding_types: ["float"],
+      output_dimension: 256,
+    });
+  });
+
+  it("accepts a bare embeddings array from v1-compatible gateways", async () => {
+    const server = await startServer(200, { embeddings: VECTORS });
+    const provider = providerFor(server, { provider: "cohere" });
+
+    expect(await provider.embed(["a", "b"], "passage")).toEqual(VECTORS);
+    expect(server.requests[0].body.input_type).toBe("search_document");
+  });
+
+  it("rejects a response with fewer vectors than texts", async () => {
+    const server = await startServer(200, { embeddings: { float: [[1, 0]] } });
+    const provider = providerFor(server, { provider: "cohere" });
+
+    await expect(provider.embed(["a", "b"], "passage")).rejects.toThrow(
+      "Empty or incomplete embedding response from cohere (expected 2 vectors)"
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { encryptedKeyId, FieldCipher, indexTokens, isEncryptedValue, Keyring } from "../src/encryption.js";
+import { MemoryStore } from "../src/store.js";
+
+const PASSPHRASE = "correct horse battery staple";
+
+const cipherFor = (keyId: string) => new FieldCipher(new Map([[keyId, randomBytes(32)]]), keyId);
+
+describe("FieldCipher", () => {
+  it("round-trips values and tags them with the key id", () => {
+    const cipher = cipherFor("k1");
+    const sealed = cipher.encrypt("User prefers green tea 🍵");
+
+    expect(isEncryptedValue(sealed)).toBe(true);
+    expect(encryptedKeyId(sealed)).toBe("k1");
+    expect(sealed).not.toContain("green tea");
+    expect(cipher.decrypt(sealed)).toBe("User prefers green tea 🍵");
+    expect(cipher.encrypt("same")).not.toBe(cipher.encrypt("same"));
+  });
+
+  it("passes plaintext through decrypt", () => {
+    expect(cipherFor("k1").decrypt("written before encryption")).toBe("written before encryption");
+    expect(encryptedKeyId("written before encryption")).toBeUndefined();
+  });
+
+  it("rejects ciphertext that was altered", () => {
+    const cipher = cipherFor("k1");
+    const sealed = cipher.encrypt("Deploys run nightly");
+    const prefix = "enc:v1:k1:";
+    const raw = Buffer.from(sealed.slice(prefix.length), "base64");
+    raw[raw.length - 1] ^= 1;
+
+    expect(() => cipher.decrypt(prefix + raw.toString("base64"))).toThrow(/Cannot decrypt value written with key k1/);
+  });
+
+  it("rejects ciphertext relabeled with another key id", () => {
+    const key = randomBytes(32);
+    const cipher = new FieldCipher(new Map([["k1", key], ["k2", key]]), "k1");
+    const relabeled = cipher.encrypt("Deploys run nightly").replace("enc:v1:k1:", "enc:v1:k2:");
+
+    expect(() => cipher.decrypt(relabeled)).toThrow(/written with key k2/);
+  });
+
+  it("names a key missing from the keyring", () => {
+    const sealed = cipherFor("k1").encrypt("secret");
+    expect(() => cipherFor("k2").decrypt(sealed)).toThrow("Cannot decrypt: key k1 is not in the keyring");
+  });
+
+  it("derives blind-index hashes from the active key", () => {
+    const cipher = cipherFor("k1");
+
+    expect(cipher.textHash("green tea")).toBe(cipher.textHash("green tea"));
+    expect(cipher.textHash("green tea")).not.toBe(cipher.textHash("green  tea"));
+    expect(cipherFor("k1").textHash("green tea")).not.toBe(cipher.textHash("green tea"));
+    expect(cipher.tokenIndex("Green tea, green TEA")).toBe(` ${cipher.tokenHashes("green tea").join(" ")} `);
+    expect(cipher.tokenIndex("!")).toBe("");
+  });
+});
+
+describe("indexTokens", () => {
+  it("lowercases, normalizes and drops single letters", () => {
+    expect(indexTokens("User prefers ＧＲＥＥＮ tea, a lot")).toEqual(["user", "prefers", "green", "tea", "lot"]);
+  });
+
+  it("indexes CJK runs as overlapping character pairs", () => {
+    expect(indexTokens("数据库连接")).toEqual(["数据", "据库", "库连", "连接"]);
+    expect(indexTokens("東京タワー")).toEqual(["東京", "京タ", "タワ", "ワー"]);
+    expect(indexTokens("한국어")).toEqual(["한국", "국어"]);
+  });
+
+  it("keeps single CJK characters and splits mixed-script text", () => {
+    expect(indexTokens("用Redis缓存")).toEqual(["用", "redis", "缓存"]);
+  });
+});
+
+describe("Keyring", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-keyring-test-"));
+    path = join(dir, "keyring.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("is created on first open and reopens with the same passphrase", async () => {
+    await expect(Keyring.open(path, PASSPHRASE)).rejects.toThrow(`No encryption keyring at ${path}`);
+
+    const created = await Keyring.open(path, PASSPHRASE, { create: true });
+    const sealed = created.cipher().encrypt("User prefers green tea");
+    const reopened = await Keyring.open(path, PASSPHRASE);
+
+    expect(reopened.activeKeyId).toBe(created.activeKeyId);
+    expect(reopened.cipher().decrypt(sealed)).toBe("User prefers green tea");
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await Keyring.open(path, PASSPHRASE, { create: true });
+    await expect(Keyring.open(path, "wrong horse battery staple")).rejects.toThrow(`Wrong passphrase for encryption keyring ${path}`);
+  });
+
+  it("still decrypts values under a retired key after addKey()", async () => {
+    const keyring = await Keyring.open(path, PASSPHRASE, { create: true });
+    const oldKeyId = keyring.activeKeyId;
+    const sealed = keyring.cipher().encrypt("written under the first key");
+
+    const newKeyId = keyring.addKey();
+    await keyring.save();
+    const cipher = (await Keyring.open(path, PASSPHRASE)).cipher();
+
+    expect(cipher.activeKeyId).toBe(newKeyId);
+    expect(encryptedKeyId(cipher.encrypt("x"))).toBe(newKeyId);
+    expect(cipher.isCurrent(sealed)).toBe(false);
+    expect(cipher.decrypt(sealed)).toBe("written under the first key");
+    expect(keyring.listKeys()).toMatchObject([
+      { id: oldKeyId, active: false, retiredAt: expect.any(Number) },
+      { id: newKeyId, active: true, retiredAt: 0 },
+    ]);
+  });
+
+  it("prunes only retired keys that are not in use", async () => {
+    const keyring = await Keyring.open(path, PASSPHRASE, { create: true });
+    const unused = keyring.activeKeyId;
+    const sealedUnused = keyring.cipher().encrypt("old");
+    const inUse = keyring.addKey();
+    const sealedInUse = keyring.cipher().encrypt("still referenced");
+    const active = keyring.addKey();
+
+    expect(keyring.prune(new Set([inUse]))).toEqual([unused]);
+    expect(keyring.listKeys().map(k => k.id)).toEqual([inUse, active]);
+    expect(keyring.prune(new Set())).toEqual([inUse]);
+    expect(keyring.listKeys().map(k => k.id)).toEqual([active]);
+
+    const cipher = keyring.cipher();
+    expect(() => cipher.decrypt(sealedUnused)).toThrow(`key ${unused} is not in the keyring`);
+    expect(() => cipher.decrypt(sealedInUse)).toThrow(`key ${inUse} is not in the keyring`);
+  });
+
+  it("rewraps every key under a new passphrase", async () => {
+    const keyring = await Keyring.open(path, PASSPHRASE, { create: true });
+    const sealed = keyring.cipher().encrypt("User prefers green tea");
+    keyring.addKey();
+    await keyring.rewrap("a brand new passphrase");
+    await keyring.save();
+
+    await expect(Keyring.open(path, PASSPHRASE)).rejects.toThrow(/Wrong passphrase/);
+    const reopened = await Keyring.open(path, "a brand new passphrase");
+    expect(reopened.listKeys()).toHaveLength(2);
+    expect(reopened.cipher().decrypt(sealed)).toBe("User prefers green tea");
+  });
+});
+
+describe("rekeying a store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-rekey-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const memory = (text: string, vector: number[]) => ({ text, vector, category: "fact" as const, scope: "global", importance: 0.7, metadata: '{"source":"chat"}' });
+
+  it("rewrites rows under the new key and recomputes textHash and textTokens", async () => {
+    const keyring = await Keyring.open(join(dir, "keyring.json"), PASSPHRASE, { create: true });
+    const oldKeyId = keyring.activeKeyId;
+    const dbPath = join(dir, "lancedb");
+    let store = new MemoryStore({ dbPath, vectorDim: 4, cipher: keyring.cipher() });
+    const tea = await store.store(memory("User prefers green tea", [1, 0, 0, 0]));
+    await store.store(memory("数据库连接池的大小是二十", [0, 1, 0, 0]));
+
+    const newKeyId = keyring.addKey();
+    await keyring.save();
+    expect(await store.reencrypt(keyring.cipher(), { dryRun: true })).toMatchObject({ memories: 2 });
+    expect(await store.reencrypt(keyring.cipher())).toMatchObject({ memories: 2 });
+
+    // A fresh process opening the table with the new keyring
+    store = new MemoryStore({ dbPath, vectorDim: 4, cipher: (await Keyring.open(join(dir, "keyring.json"), PASSPHRASE)).cipher() });
+    expect((await store.keyUsage()).memories).toEqual({ [newKeyId]: 2 });
+    expect(await store.findIdsByText("User prefers green tea")).toEqual([tea.id]);
+    expect((await store.bm25Search("green tea", 5)).map(r => r.entry.text)).toEqual(["User prefers green tea"]);
+    expect((await store.bm25Search("连接池", 5)).map(r => r.entry.text)).toEqual(["数据库连接池的大小是二十"]);
+    expect(await store.getById(tea.id)).toMatchObject({ text: "User prefers green tea", metadata: '{"source":"chat"}' });
+    expect(keyring.prune(new Set(Object.keys((await store.keyUsage()).memories)))).toEqual([oldKeyId]);
+  });
+
+  it("encrypts rows written before encryption was enabled", async () => {
+    const dbPath = join(dir, "lancedb");
+    const plain = new MemoryStore({ dbPath, vectorDim: 4 });
+    await plain.store(memory("Staging runs on port 8443", [1, 0, 0, 0]));
+
+    const cipher = cipherFor("k1");
+    const store = new MemoryStore({ dbPath, vectorDim: 4, cipher });
+    expect((await store.keyUsage()).memories).toEqual({ plaintext: 1 });
+    expect(await store.bm25Search("staging", 5)).toEqual([]);
+
+    await store.reencrypt(cipher);
+    expect((await store.keyUsage()).memories).toEqual({ k1: 1 });
+    expect((await store.bm25Search("staging port", 5)).map(r => r.entry.text)).toEqual(["Staging runs on port 8443"]);
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { evaluateRetrieval, HashingEmbedder, parseVariant, scoreCase, type EvalCase } from "../src/eval.js";
+import type { MemoryEntry, MemorySearchResult, MemoryStore } from "../src/store.js";
+
+function evalCase(partial: Partial<EvalCase>): EvalCase {
+  return { query: "q", expectedIds: [], expectedText: [], ...partial };
+}
+
+const doc = (id: string, text = id) => ({ id, text });
+
+describe("scoreCase", () => {
+  it("scores a perfect ranking as 1 on every metric", () => {
+    const result = scoreCase(evalCase({ expectedIds: ["a", "b"] }), [doc("a"), doc("b"), doc("c")], 3);
+    expect(result).toMatchObject({ recall: 1, reciprocalRank: 1, ndcg: 1, returnedIds: ["a", "b", "c"] });
+  });
+
+  it("uses the rank of the first hit for MRR and discounts later hits in nDCG", () => {
+    const result = scoreCase(evalCase({ expectedIds: ["a"] }), [doc("x"), doc("a")], 5);
+    expect(result.recall).toBe(1);
+    expect(result.reciprocalRank).toBe(0.5);
+    expect(result.ndcg).toBeCloseTo(1 / Math.log2(3));
+  });
+
+  it("only looks at the top k", () => {
+    const result = scoreCase(evalCase({ expectedIds: ["a"] }), [doc("x"), doc("y"), doc("a")], 2);
+    expect(result).toMatchObject({ recall: 0, reciprocalRank: 0, ndcg: 0, returnedIds: ["x", "y"] });
+  });
+
+  it("gives partial recall when some targets are missing", () => {
+    const result = scoreCase(evalCase({ expectedIds: ["a", "b"] }), [doc("a"), doc("x")], 2);
+    expect(result.recall).toBe(0.5);
+    expect(result.ndcg).toBeCloseTo(1 / (1 + 1 / Math.log2(3)));
+  });
+
+  it("matches id prefixes of 8+ characters only", () => {
+    const id = "0123456789abcdef";
+    expect(scoreCase(evalCase({ expectedIds: ["01234567"] }), [doc(id)], 1).recall).toBe(1);
+    expect(scoreCase(evalCase({ expectedIds: ["0123"] }), [doc(id)], 1).recall).toBe(0);
+  });
+
+  it("matches expected text case-insensitively and counts each target once", () => {
+    const result = scoreCase(
+      evalCase({ expectedText: ["dark mode"] }),
+      [doc("a", "Prefers Dark Mode"), doc("b", "dark mode everywhere")],
+      2
+    );
+    expect(result.recall).toBe(1);
+    expect(result.reciprocalRank).toBe(1);
+    expect(result.ndcg).toBe(1);
+  });
+
+  it("treats ids and texts as separate targets", () => {
+    const result = scoreCase(
+      evalCase({ expectedIds: ["a"], expectedText: ["coffee"] }),
+      [doc("a", "likes coffee"), doc("b", "coffee again")],
+      2
+    );
+    expect(result.recall).toBe(1);
+    expect(result.ndcg).toBe(1);
+  });
+
+  it("scores a case without targets as 0", () => {
+    expect(scoreCase(evalCase({}), [doc("a")], 1)).toMatchObject({ recall: 0, ndcg: 0 });
+  });
+});
+
+describe("HashingEmbedder", () => {
+  const embedder = new HashingEmbedder();
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+  it("is deterministic and L2-normalized", () => {
+    const a = embedder.embed("The deploy pipeline runs nightly");
+    expect(embedder.embed("The deploy pipeline runs nightly")).toEqual(a);
+    expect(a).toHaveLength(embedder.dimensions);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it("honours the configured dimensions", () => {
+    expect(new HashingEmbedder(32).embed("hello world")).toHaveLength(32);
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(embedder.embed("Dark mode, please!")).toEqual(embedder.embed("dark MODE please"));
+  });
+
+  it("returns a zero vector for text without tokens", () => {
+    expect(embedder.embed("  ... ").every(v => v === 0)).toBe(true);
+  });
+
+  it("places related text closer than unrelated text", () => {
+    const query = embedder.embed("deployment pipeline");
+    const related = embedder.embed("the deploy pipeline runs nightly");
+    const unrelated = embedder.embed("favourite coffee is a flat white");
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("embeds queries and passages the same way", async () => {
+    expect(await embedder.embedQuery("tabs vs spaces")).toEqual(await embedder.embedPassage("tabs vs spaces"));
+  });
+});
+
+describe("evaluateRetrieval", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const embedder = new HashingEmbedder();
+  const entry = (id: string, text: string): MemoryEntry => ({
+    id,
+    text,
+    vector: embedder.embed(text),
+    category: "fact",
+    scope: "global",
+    importance: 0.7,
+    timestamp: Date.now(),
+    metadata: "{}",
+  });
+  const hits: MemorySearchResult[] = [
+    { entry: entry("coffee-0001", "Favourite coffee is a flat white"), score: 0.9 },
+    { entry: entry("deploy-0001", "The deploy pipeline runs nightly"), score: 0.6 },
+  ];
+  const store = {
+    vectorSearch: async () => hits,
+    bm25Search: async () => [],
+  } as unknown as MemoryStore;
+
+  it("reports metrics per variant", async () => {
+    const reports = await evaluateRetrieval(
+      store,
+      embedder,
+      { mode: "vector", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false },
+      [{ name: "current", overrides: {} }],
+      [evalCase({ query: "coffee", expectedIds: ["coffee-0001"] })],
+      1
+    );
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ variant: "current", k: 1, recallAtK: 1, mrr: 1, ndcg: 1 });
+  });
+
+  it("keeps a variant from re-enabling the rerank API when offline", async () => {
+    const fetch = vi.fn(async () => {
+      throw new Error("network disabled in tests");
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const reports = await evaluateRetrieval(
+      store,
+      embedder,
+      { mode: "vector", rerank: "none", rerankApiKey: "test", minScore: 0, hardMinScore: 0, filterNoise: false },
+      [parseVariant("ce:rerank=cross-encoder", "variant1")],
+      [evalCase({ query: "coffee", expectedIds: ["coffee-0001"] })],
+      2,
+      { offline: true }
+    );
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(reports[0].variant).toBe("ce");
+  });
+
+  it("calls the rerank API for a cross-encoder variant when online", async () => {
+    const fetch = vi.fn(async () => {
+      throw new Error("network disabled in tests");
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    await evaluateRetrieval(
+      store,
+      embedder,
+      { mode: "vector", rerank: "none", rerankApiKey: "test", rerankRetries: 0, minScore: 0, hardMinScore: 0, filterNoise: false },
+      [parseVariant("ce:rerank=cross-encoder", "variant1")],
+      [evalCase({ query: "coffee", expectedIds: ["coffee-0001"] })],
+      2
+    );
+
+    expect(fetch).toHaveBeenCalled();
+  });
+});
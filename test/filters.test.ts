@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  FilterParseError,
+  formatFilter,
+  matchesFilter,
+  parseFilterExpression,
+  toWhereClause,
+} from "../src/filters.js";
+
+describe("parseFilterExpression", () => {
+  it("parses comparisons joined with AND", () => {
+    expect(parseFilterExpression('metadata.type = "session-summary" AND importance >= 0.8')).toEqual({
+      conditions: [
+        { field: "metadata.type", op: "=", value: "session-summary" },
+        { field: "importance", op: ">=", value: 0.8 },
+      ],
+    });
+  });
+
+  it("normalizes operator aliases and keyword case", () => {
+    expect(parseFilterExpression("importance <> 1 and importance == 0.5").conditions).toEqual([
+      { field: "importance", op: "!=", value: 1 },
+      { field: "importance", op: "=", value: 0.5 },
+    ]);
+  });
+
+  it("types bare values", () => {
+    const { conditions } = parseFilterExpression(
+      "metadata.n = -3 AND metadata.flag = true AND metadata.gone = null AND metadata.word = draft"
+    );
+    expect(conditions.map(c => c.value)).toEqual([-3, true, null, "draft"]);
+  });
+
+  it("reads quoted strings with either quote and backslash escapes", () => {
+    const { conditions } = parseFilterExpression(
+      `metadata.a = 'it\\'s' AND metadata.b = "say \\"hi\\"" AND metadata.c = "a AND b = (c)"`
+    );
+    expect(conditions.map(c => c.value)).toEqual(["it's", 'say "hi"', "a AND b = (c)"]);
+  });
+
+  it("keeps quoted numbers as strings", () => {
+    expect(parseFilterExpression('metadata.code = "007"').conditions[0].value).toBe("007");
+  });
+
+  it("parses between, converting ISO dates for timestamp", () => {
+    expect(parseFilterExpression("timestamp between 2026-01-01 and 2026-02-01").conditions[0]).toEqual({
+      field: "timestamp",
+      op: "between",
+      value: [Date.parse("2026-01-01"), Date.parse("2026-02-01")],
+    });
+    expect(parseFilterExpression("importance BETWEEN 0.2 AND 0.6").conditions[0].value).toEqual([0.2, 0.6]);
+  });
+
+  it("parses in lists with or without commas", () => {
+    expect(parseFilterExpression("category in (fact, decision)").conditions[0]).toEqual({
+      field: "category",
+      op: "in",
+      value: ["fact", "decision"],
+    });
+    expect(parseFilterExpression('scope IN ("a" "b")').conditions[0].value).toEqual(["a", "b"]);
+  });
+
+  it("parses exists", () => {
+    expect(parseFilterExpression("metadata.source exists AND tags exists").conditions).toEqual([
+      { field: "metadata.source", op: "exists" },
+      { field: "tags", op: "exists" },
+    ]);
+  });
+
+  it("normalizes tag values", () => {
+    expect(parseFilterExpression('tags = "Project X"').conditions[0].value).toBe("project-x");
+  });
+
+  it("accepts nested metadata paths", () => {
+    expect(parseFilterExpression("metadata.source.kind = web").conditions[0].field).toBe("metadata.source.kind");
+  });
+
+  it.each([
+    ["unknown field", "text = hello", /unknown field 'text'/],
+    ["bad metadata path", "metadata.1abc = x", /unknown field/],
+    ["empty metadata path", "metadata. = x", /unknown field/],
+    ["missing operator", "importance", /expected an operator after 'importance'/],
+    ["unknown operator", "importance like 0.5", /expected an operator/],
+    ["missing value", "importance >=", /expected a value for 'importance'/],
+    ["non-numeric number column", "importance > high", /'importance' needs a number/],
+    ["non-string string column", "category = 3", /'category' needs a string/],
+    ["bad date", "timestamp > yesterday", /not a date/],
+    ["unterminated string", 'metadata.a = "open', /unterminated string/],
+    ["unexpected character", "importance > 1 AND !", /unexpected character '!'/],
+    ["between without and", "importance between 0.1 0.2", /expected 'and' in between/],
+    ["in without parenthesis", "category in fact", /expected '\(' after in/],
+    ["empty in list", "category in ()", /non-empty list/],
+    ["unclosed in list", "category in (fact", /non-empty list/],
+    ["OR instead of AND", "importance > 0.1 OR importance < 0.05", /joined with AND/],
+    ["dangling AND", "importance > 0.1 AND", /dangling AND/],
+    ["range operator on tags", "tags > infra", /tags supports/],
+    ["empty tag", 'tags = "!!"', /not a valid tag/],
+    ["leading operator", "= 1", /expected a field name/],
+  ])("rejects %s", (_name, expression, message) => {
+    let error: unknown;
+    try {
+      parseFilterExpression(expression);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(FilterParseError);
+    expect((error as FilterParseError).expression).toBe(expression);
+    expect((error as Error).message).toMatch(message);
+  });
+});
+
+describe("toWhereClause", () => {
+  const where = (expression: string) => toWhereClause(parseFilterExpression(expression));
+
+  it("returns undefined without column conditions", () => {
+    expect(toWhereClause(undefined)).toBeUndefined();
+    expect(toWhereClause({ conditions: [] })).toBeUndefined();
+    expect(where('metadata.type = "note"')).toBeUndefined();
+  });
+
+  it("translates comparisons on columns", () => {
+    expect(where("importance >= 0.8 AND category != fact")).toBe("importance >= 0.8 AND category != 'fact'");
+  });
+
+  it("leaves metadata conditions to in-process matching", () => {
+    expect(where('metadata.type = "note" AND scope = global')).toBe("scope = 'global'");
+  });
+
+  it("escapes single quotes in string literals", () => {
+    expect(where(`scope = "agent:o'brien"`)).toBe("scope = 'agent:o''brien'");
+    expect(where(`scope = "x' OR 1=1 --"`)).toBe("scope = 'x'' OR 1=1 --'");
+  });
+
+  it("translates between, in and exists", () => {
+    expect(where("importance between 0.2 and 0.6")).toBe("(importance >= 0.2 AND importance <= 0.6)");
+    expect(where("category in (fact, 'it\\'s')")).toBe("category IN ('fact', 'it''s')");
+    expect(where("scope exists")).toBe("scope IS NOT NULL");
+  });
+
+  it("emits epoch milliseconds for timestamps", () => {
+    expect(where("timestamp < 2026-01-01")).toBe(`timestamp < ${Date.parse("2026-01-01")}`);
+  });
+
+  it("prefilters tags with LIKE and skips tag conditions it can't express", () => {
+    expect(where("tags = infra")).toBe(`tags LIKE '%"infra"%'`);
+    expect(where("tags in (a, b)")).toBe(`(tags LIKE '%"a"%' OR tags LIKE '%"b"%')`);
+    expect(where("tags != infra")).toBeUndefined();
+    expect(where("tags exists")).toBeUndefined();
+  });
+
+  it("rejects non-finite numbers built outside the parser", () => {
+    expect(() => toWhereClause({ conditions: [{ field: "importance", op: ">", value: Infinity }] })).toThrow(/Non-finite/);
+  });
+});
+
+describe("matchesFilter", () => {
+  const entry = {
+    importance: 0.8,
+    timestamp: Date.parse("2026-01-15"),
+    category: "fact" as const,
+    scope: "global",
+    metadata: JSON.stringify({ type: "note", source: { kind: "web" }, count: "3" }),
+    tags: ["infra", "project-x"],
+  };
+  const matches = (expression: string) => matchesFilter(entry, parseFilterExpression(expression));
+
+  it("evaluates columns, nested metadata and tags", () => {
+    expect(matches("importance >= 0.8 AND metadata.source.kind = web AND tags = infra")).toBe(true);
+    expect(matches("timestamp between 2026-01-01 and 2026-02-01")).toBe(true);
+    expect(matches("metadata.count > 2")).toBe(true);
+    expect(matches("tags in (other, project-x)")).toBe(true);
+    expect(matches("tags != infra")).toBe(false);
+    expect(matches("metadata.missing exists")).toBe(false);
+    expect(matches("metadata.missing = null")).toBe(true);
+  });
+
+  it("treats unparseable metadata as empty", () => {
+    expect(matchesFilter({ ...entry, metadata: "{oops" }, parseFilterExpression("metadata.type exists"))).toBe(false);
+  });
+});
+
+describe("formatFilter", () => {
+  it("round-trips through the parser", () => {
+    const filter = parseFilterExpression(
+      'metadata.type = "a \\"b\\"" AND importance between 0.1 and 0.5 AND category in (fact, decision) AND tags exists'
+    );
+    expect(parseFilterExpression(formatFilter(filter))).toEqual(filter);
+  });
+});
@@ -0,0 +1,212 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FieldCipher } from "../src/encryption.js";
+import { checkExportCipher, EXPORT_FORMAT, readExport, toImportedMemory, type ExportLine } from "../src/portable.js";
+
+describe("toImportedMemory", () => {
+  it("fills defaults for a bare record", () => {
+    const before = Date.now();
+    const memory = toImportedMemory({ text: "Deploys run nightly" });
+
+    expect(memory).toEqual({
+      type: "memory",
+      id: "",
+      text: "Deploys run nightly",
+      category: "other",
+      scope: "global",
+      importance: 0.7,
+      timestamp: expect.any(Number),
+      metadata: "{}",
+      tags: [],
+      supersededBy: undefined,
+      expiresAt: undefined,
+      vector: undefined,
+    });
+    expect(memory.timestamp).toBeGreaterThanOrEqual(before);
+  });
+
+  it("reads legacy fields: ISO dates, createdAt and metadata objects", () => {
+    const memory = toImportedMemory({
+      id: "m1",
+      text: "User prefers green tea",
+      category: "preference",
+      scope: "",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      expiresAt: "2026-02-01T00:00:00.000Z",
+      metadata: { source: "chat" },
+      tags: [" Drinks ", "drinks", 7, "Morning Routine"],
+      supersededBy: "",
+    });
+
+    expect(memory).toMatchObject({
+      id: "m1",
+      scope: "global",
+      timestamp: Date.parse("2026-01-01T00:00:00.000Z"),
+      expiresAt: Date.parse("2026-02-01T00:00:00.000Z"),
+      metadata: '{"source":"chat"}',
+      tags: ["drinks", "morning-routine"],
+      supersededBy: undefined,
+    });
+  });
+
+  it("prefers timestamp over createdAt and treats a zero expiry as none", () => {
+    expect(toImportedMemory({ text: "Deploys run nightly", timestamp: 1000, createdAt: 2000, expiresAt: 0 })).toMatchObject({
+      timestamp: 1000,
+      expiresAt: undefined,
+    });
+  });
+
+  it.each([
+    ["no text", {}, 'missing or too short "text"'],
+    ["one-character text", { text: " x " }, 'missing or too short "text"'],
+    ["non-string text", { text: 42 }, 'missing or too short "text"'],
+    ["unknown category", { text: "Deploys run nightly", category: "todo" }, 'unknown category "todo"'],
+    ["importance above 1", { text: "Deploys run nightly", importance: 1.5 }, "invalid importance 1.5"],
+    ["string importance", { text: "Deploys run nightly", importance: "high" }, 'invalid importance "high"'],
+    ["vector with strings", { text: "Deploys run nightly", vector: [0.1, "0.2"] }, '"vector" must be an array of numbers'],
+    ["vector that isn't an array", { text: "Deploys run nightly", vector: "0.1,0.2" }, '"vector" must be an array of numbers'],
+  ])("rejects %s", (_case, record, error) => {
+    expect(() => toImportedMemory(record)).toThrow(error);
+  });
+});
+
+describe("sealed exports", () => {
+  const cipher = new FieldCipher(new Map([["k1", randomBytes(32)]]), "k1");
+  const sealed = { id: "m1", text: cipher.encrypt("User prefers green tea"), metadata: cipher.encrypt('{"source":"chat"}') };
+
+  it("opens sealed text and metadata with the cipher", () => {
+    expect(toImportedMemory(sealed, cipher)).toMatchObject({ id: "m1", text: "User prefers green tea", metadata: '{"source":"chat"}' });
+  });
+
+  it("reads plaintext records with a cipher", () => {
+    expect(toImportedMemory({ text: "Deploys run nightly", metadata: "{}" }, cipher)).toMatchObject({ text: "Deploys run nightly" });
+  });
+
+  it("names the key when a sealed record is read without a cipher", () => {
+    expect(() => toImportedMemory(sealed)).toThrow('"text" is encrypted with key k1; encryption is not enabled');
+    expect(() => toImportedMemory({ ...sealed, text: "User prefers green tea" })).toThrow('"metadata" is encrypted with key k1');
+  });
+
+  it("requires a cipher only for headers that name a key", () => {
+    expect(() => checkExportCipher({ encryption: { keyId: "k1" } })).toThrow(
+      "Export is encrypted with key k1; enable encryption with the keyring that holds it to read it"
+    );
+    expect(() => checkExportCipher({ encryption: { keyId: "k1" } }, cipher)).not.toThrow();
+    expect(() => checkExportCipher({})).not.toThrow();
+  });
+});
+
+describe("readExport", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-portable-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function read(name: string, content: string): Promise<ExportLine[]> {
+    const path = join(dir, name);
+    await writeFile(path, content);
+    const lines: ExportLine[] = [];
+    for await (const line of readExport(path)) lines.push(line);
+    return lines;
+  }
+
+  const header = { type: "header", format: EXPORT_FORMAT, version: 2, exportedAt: "2026-01-01T00:00:00.000Z", embedding: null, vectors: false };
+  const legacyHeader = { type: "header", format: EXPORT_FORMAT, version: 1, embedding: null, vectors: false };
+
+  it("streams NDJSON records with their line numbers, skipping blank lines", async () => {
+    const lines = await read("export.ndjson", [
+      JSON.stringify(header),
+      JSON.stringify({ type: "memory", id: "m1", text: "User prefers green tea" }),
+      "",
+      JSON.stringify({ type: "footer", count: 1 }),
+    ].join("\n") + "\n");
+
+    expect(lines).toEqual([
+      { line: 1, record: header },
+      { line: 2, record: { type: "memory", id: "m1", text: "User prefers green tea" } },
+      { line: 4, record: { type: "footer", count: 1 } },
+    ]);
+  });
+
+  it("reports an invalid line and keeps reading", async () => {
+    const lines = await read("export.ndjson", [
+      JSON.stringify(header),
+      '{"type":"memory","text":"cut off',
+      JSON.stringify({ type: "memory", text: "Deploys run nightly" }),
+    ].join("\n"));
+
+    expect(lines[1]).toEqual({ line: 2, error: expect.stringMatching(/^invalid JSON \(/) });
+    expect(lines[2]).toEqual({ line: 3, record: { type: "memory", text: "Deploys run nightly" } });
+  });
+
+  it.each([
+    ["pretty-printed", (data: unknown) => JSON.stringify(data, null, 2)],
+    ["single-line", (data: unknown) => JSON.stringify(data)],
+  ])("presents a %s legacy JSON export as version 1 records", async (_case, format) => {
+    const lines = await read("export.json", format({
+      version: "1.0",
+      exportedAt: "2025-06-01T00:00:00.000Z",
+      count: 2,
+      memories: [
+        { id: "m1", text: "User prefers green tea", category: "preference", createdAt: "2025-05-01T00:00:00.000Z" },
+        { id: "m2", text: "Deploys run nightly" },
+      ],
+    }));
+
+    expect(lines).toEqual([
+      { line: 0, record: { ...legacyHeader, exportedAt: "2025-06-01T00:00:00.000Z" } },
+      { line: 1, record: { type: "memory", id: "m1", text: "User prefers green tea", category: "preference", createdAt: "2025-05-01T00:00:00.000Z" } },
+      { line: 2, record: { type: "memory", id: "m2", text: "Deploys run nightly" } },
+      { line: 3, record: { type: "footer", count: 2 } },
+    ]);
+    expect(toImportedMemory(lines[1].record).timestamp).toBe(Date.parse("2025-05-01T00:00:00.000Z"));
+  });
+
+  it("presents a JSONL backup without a header as version 1 records with a footer", async () => {
+    const lines = await read("backup.jsonl", [
+      JSON.stringify({ id: "m1", text: "User prefers green tea" }),
+      JSON.stringify({ id: "m2", text: "Deploys run nightly" }),
+    ].join("\n") + "\n");
+
+    expect(lines).toEqual([
+      { line: 0, record: legacyHeader },
+      { line: 1, record: { type: "memory", id: "m1", text: "User prefers green tea" } },
+      { line: 2, record: { type: "memory", id: "m2", text: "Deploys run nightly" } },
+      { line: 3, record: { type: "footer", count: 2 } },
+    ]);
+  });
+
+  it("reads gzipped NDJSON and legacy JSON", async () => {
+    const ndjsonPath = join(dir, "export.ndjson.gz");
+    await writeFile(ndjsonPath, gzipSync([JSON.stringify(header), JSON.stringify({ type: "footer", count: 0 })].join("\n")));
+    const jsonPath = join(dir, "export.json.gz");
+    await writeFile(jsonPath, gzipSync(JSON.stringify({ memories: [{ text: "Deploys run nightly" }] }, null, 2)));
+
+    const records = async (path: string) => {
+      const result: unknown[] = [];
+      for await (const { record } of readExport(path)) result.push(record);
+      return result;
+    };
+    expect(await records(ndjsonPath)).toEqual([header, { type: "footer", count: 0 }]);
+    expect(await records(jsonPath)).toEqual([
+      legacyHeader,
+      { type: "memory", text: "Deploys run nightly" },
+      { type: "footer", count: 1 },
+    ]);
+  });
+
+  it("rejects a JSON document without memories", async () => {
+    await expect(read("export.json", JSON.stringify({ entries: [] }, null, 2))).rejects.toThrow(
+      'Invalid import file format: expected an NDJSON export or a JSON export with a "memories" array'
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createReranker, getRerankProvider, listRerankProviders, type Reranker } from "../src/rerankers.js";
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/** One reply per request, in order; the last one repeats. `null` never answers. */
+type Reply = { status: number; body?: unknown } | null;
+
+interface TestServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+const servers: TestServer[] = [];
+
+async function startServer(replies: Reply[]): Promise<TestServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw) });
+      const reply = replies[Math.min(requests.length, replies.length) - 1];
+      if (!reply) return;
+      res.writeHead(reply.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const handle: TestServer = {
+    url: `http://127.0.0.1:${port}/rerank`,
+    requests,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+  servers.push(handle);
+  return handle;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+});
+
+function rerankerFor(provider: string, server: TestServer, extra: { retries?: number; timeoutMs?: number } = {}): Reranker {
+  const reranker = createReranker({ provider, apiKey: "test-key", endpoint: server.url, ...extra });
+  if (!reranker) throw new Error(`no reranker for ${provider}`);
+  return reranker;
+}
+
+const DOCUMENTS = ["first document", "second document", "third document"];
+
+/** Successful response body in each provider's wire format, scoring doc 2 above doc 0 */
+const RESPONSES: Record<string, unknown> = {
+  jina: { results: [{ index: 2, relevance_score: 0.9 }, { index: 0, relevance_score: 0.4 }] },
+  siliconflow: { results: [{ index: 2, relevance_score: 0.9 }, { index: 0, relevance_score: 0.4 }] },
+  pinecone: { data: [{ index: 2, score: 0.9, document: { text: "third document" } }, { index: 0, score: 0.4 }] },
+  cohere: { id: "x", results: [{ index: 2, relevance_score: 0.9 }, { index: 0, relevance_score: 0.4 }] },
+  voyage: { object: "list", data: [{ index: 2, relevance_score: 0.9 }, { index: 0, relevance_score: 0.4 }] },
+  tei: [{ index: 2, score: 0.9 }, { index: 0, score: 0.4 }],
+};
+
+const EXPECTED_SCORES = [{ index: 2, score: 0.9 }, { index: 0, score: 0.4 }];
+
+describe("rerank providers", () => {
+  it("registers every built-in provider", () => {
+    expect(listRerankProviders()).toEqual(expect.arrayContaining(Object.keys(RESPONSES)));
+  });
+
+  describe.each(Object.keys(RESPONSES))("%s", provider => {
+    it("posts the provider's request shape and parses its response", async () => {
+      const server = await startServer([{ status: 200, body: RESPONSES[provider] }]);
+      const reranker = rerankerFor(provider, server);
+
+      expect(await reranker.rerank("which document", DOCUMENTS)).toEqual(EXPECTED_SCORES);
+      expect(server.requests).toHaveLength(1);
+
+      const [request] = server.requests;
+      expect(request.method).toBe("POST");
+      expect(request.url).toBe("/rerank");
+      expect(request.headers["content-type"]).toBe("application/json");
+      expect(request.body.query).toBe("which document");
+      expect(request.body.model).toBe(getRerankProvider(provider)!.defaultModel);
+
+      if (provider === "pinecone") {
+        expect(request.headers["api-key"]).toBe("test-key");
+        expect(request.headers["x-pinecone-api-version"]).toBeDefined();
+        expect(request.body.documents).toEqual(DOCUMENTS.map(text => ({ text })));
+        expect(request.body.top_n).toBe(DOCUMENTS.length);
+      } else {
+        expect(request.headers.authorization).toBe("Bearer test-key");
+        expect(request.body.documents).toEqual(DOCUMENTS);
+      }
+      if (provider === "voyage") {
+        expect(request.body.top_k).toBe(DOCUMENTS.length);
+      } else if (provider === "tei") {
+        expect(request.body.texts).toEqual(DOCUMENTS);
+        expect(request.body.raw_scores).toBe(false);
+      } else if (provider !== "pinecone") {
+        expect(request.body.top_n).toBe(DOCUMENTS.length);
+      }
+    });
+
+    it("retries after a 429", async () => {
+      const server = await startServer([{ status: 429 }, { status: 200, body: RESPONSES[provider] }]);
+      expect(await rerankerFor(provider, server, { retries: 1 }).rerank("q", DOCUMENTS)).toEqual(EXPECTED_SCORES);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it("retries after a 5xx and gives up when retries run out", async () => {
+      const server = await startServer([{ status: 503 }]);
+      await expect(rerankerFor(provider, server, { retries: 1 }).rerank("q", DOCUMENTS)).rejects.toThrow(/503/);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it("does not retry a 4xx", async () => {
+      const server = await startServer([{ status: 401 }, { status: 200, body: RESPONSES[provider] }]);
+      await expect(rerankerFor(provider, server, { retries: 2 }).rerank("q", DOCUMENTS)).rejects.toThrow(/401/);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it("times out a request that never answers", async () => {
+      const server = await startServer([null]);
+      await expect(
+        rerankerFor(provider, server, { retries: 0, timeoutMs: 50 }).rerank("q", DOCUMENTS)
+      ).rejects.toThrow(`Rerank request to ${provider} timed out after 50ms`);
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
+
+describe("HttpReranker response handling", () => {
+  it("drops out-of-range indices, non-numeric scores and malformed entries", async () => {
+    const server = await startServer([{
+      status: 200,
+      body: {
+        results: [
+          { index: 1, relevance_score: 0.7 },
+          { index: 3, relevance_score: 0.9 },
+          { index: -1, relevance_score: 0.9 },
+          { index: 0, relevance_score: "0.5" },
+          { index: 0.5, relevance_score: 0.5 },
+          null,
+          "junk",
+        ],
+      },
+    }]);
+    expect(await rerankerFor("jina", server).rerank("q", DOCUMENTS)).toEqual([{ index: 1, score: 0.7 }]);
+  });
+
+  it("parses an unexpected body shape as no scores", async () => {
+    const server = await startServer([{ status: 200, body: { results: "nope" } }]);
+    expect(await rerankerFor("jina", server).rerank("q", DOCUMENTS)).toEqual([]);
+  });
+
+  it("accepts Jina-style results from a self-hosted server", async () => {
+    const server = await startServer([{ status: 200, body: RESPONSES.jina }]);
+    expect(await rerankerFor("tei", server).rerank("q", DOCUMENTS)).toEqual(EXPECTED_SCORES);
+  });
+
+  it("skips the request for an empty document list", async () => {
+    const server = await startServer([{ status: 200, body: RESPONSES.jina }]);
+    expect(await rerankerFor("jina", server).rerank("q", [])).toEqual([]);
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("createReranker", () => {
+  it("returns null without an API key for hosted providers", () => {
+    expect(createReranker({ provider: "jina" })).toBeNull();
+  });
+
+  it("runs keyless providers without an API key", () => {
+    expect(createReranker({ provider: "tei" })?.provider).toBe("tei");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createReranker({ provider: "nope", apiKey: "k" })).toThrow(/Unknown reranker provider: nope/);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { MemoryRetriever } from "../src/retriever.js";
+import type { MemoryEntry, MemorySearchResult, MemoryStore } from "../src/store.js";
+
+function entry(id: string, text: string, vector: number[]): MemoryEntry {
+  return {
+    id,
+    text,
+    vector,
+    category: "fact",
+    scope: "global",
+    importance: 0.7,
+    timestamp: Date.now(),
+    metadata: "{}",
+  };
+}
+
+/** Store stub serving fixed vector hits; MMR only needs the entries and their vectors */
+function storeWith(hits: MemorySearchResult[]): MemoryStore {
+  return {
+    vectorSearch: async () => hits,
+    bm25Search: async () => [],
+  } as unknown as MemoryStore;
+}
+
+function retrieverFor(hits: MemorySearchResult[]): MemoryRetriever {
+  return new MemoryRetriever(
+    storeWith(hits),
+    { embedQuery: async () => [1, 0, 0] },
+    { mode: "vector", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false }
+  );
+}
+
+describe("MemoryRetriever MMR", () => {
+  const original = entry("a", "The deploy pipeline runs on GitHub Actions every night", [1, 0, 0]);
+  const duplicate = entry("b", "The deploy pipeline runs on GitHub Actions each night.", [1, 0, 0]);
+  const unrelated = entry("c", "My favourite coffee is a flat white with oat milk ok", [0, 1, 0]);
+
+  it("drops a same-vector near-duplicate and keeps an unrelated memory", async () => {
+    const retriever = retrieverFor([
+      { entry: original, score: 0.9 },
+      { entry: duplicate, score: 0.88 },
+      { entry: unrelated, score: 0.6 },
+    ]);
+
+    const explanation = await retriever.explain({ query: "deploy pipeline", limit: 5 });
+
+    expect(explanation.results.map(r => r.entry.id)).toEqual(["a", "c"]);
+    expect(explanation.dropped).toHaveLength(1);
+    expect(explanation.dropped[0]).toMatchObject({ id: "b", stage: "mmr" });
+    expect(explanation.dropped[0].reason).toContain("near-duplicate");
+  });
+
+  it("records mmr sources for every selected result, with no penalty on the first", async () => {
+    const retriever = retrieverFor([
+      { entry: original, score: 0.9 },
+      { entry: unrelated, score: 0.6 },
+    ]);
+
+    const results = await retriever.retrieve({ query: "deploy pipeline", limit: 5 });
+
+    expect(results[0].sources.mmr).toEqual({ similarity: 0, penalty: 0 });
+    expect(results[1].sources.mmr).toEqual({ similarity: 0, penalty: 0 });
+  });
+
+  it("penalizes a partially similar candidate by its similarity to the selected set", async () => {
+    const related = entry("d", "Nightly builds also publish the docs site to Pages", [0.6, 0.8, 0]);
+    const retriever = retrieverFor([
+      { entry: original, score: 0.9 },
+      { entry: related, score: 0.7 },
+    ]);
+
+    const results = await retriever.retrieve({ query: "deploy pipeline", limit: 5 });
+
+    expect(results.map(r => r.entry.id)).toEqual(["a", "d"]);
+    expect(results[0].sources.mmr).toEqual({ similarity: 0, penalty: 0 });
+    expect(results[1].sources.mmr?.similarity).toBeCloseTo(0.6);
+    expect(results[1].sources.mmr?.penalty).toBeCloseTo(0.3 * 0.6);
+  });
+});
@@ -0,0 +1,136 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FieldCipher } from "../src/encryption.js";
+import { MemoryStore, type MemoryEntry } from "../src/store.js";
+
+const memory = (text: string, scope = "global") => ({
+  text,
+  vector: [1, 0, 0, 0],
+  category: "fact" as const,
+  scope,
+  importance: 0.7,
+  metadata: "{}",
+});
+
+describe("MemoryStore", () => {
+  let dir: string;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-store-test-"));
+    store = new MemoryStore({ dbPath: join(dir, "lancedb"), vectorDim: 4 });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("soft delete", () => {
+    it("hides trashed memories from reads until they are restored", async () => {
+      const kept = await store.store(memory("Deploys run nightly"));
+      const trashed = await store.store(memory("User prefers green tea"));
+
+      expect(await store.delete(trashed.id)).toBe(true);
+      expect(await store.delete(trashed.id)).toBe(false);
+      expect((await store.list()).map(e => e.id)).toEqual([kept.id]);
+      expect((await store.list(["global"])).map(e => e.id)).toEqual([kept.id]);
+      expect((await store.vectorSearch([1, 0, 0, 0], 5, 0)).map(r => r.entry.id)).toEqual([kept.id]);
+      expect(await store.getById(trashed.id)).toBeNull();
+      expect((await store.stats()).totalCount).toBe(1);
+      expect(await store.hasId(trashed.id)).toBe(true);
+      expect((await store.listDeleted()).map(e => e.id)).toEqual([trashed.id]);
+
+      expect(await store.restore(trashed.id.slice(0, 8))).toMatchObject({ id: trashed.id, deletedAt: 0 });
+      expect(await store.listDeleted()).toEqual([]);
+      expect((await store.list()).map(e => e.id).sort()).toEqual([kept.id, trashed.id].sort());
+      expect((await store.getById(trashed.id))!.text).toBe("User prefers green tea");
+    });
+
+    it("bulk-deletes into the trash and only restores within the scope filter", async () => {
+      await store.store(memory("Deploys run nightly"));
+      const other = await store.store(memory("Standup is at 10am", "agent:other"));
+
+      expect(await store.bulkDelete(["agent:other"])).toBe(1);
+      expect((await store.stats()).scopeCounts).toEqual({ global: 1 });
+      expect(await store.listDeleted(["global"])).toEqual([]);
+      expect(await store.restore(other.id, ["global"])).toBeNull();
+      expect(await store.restore(other.id, ["agent:other"])).toMatchObject({ id: other.id });
+      expect((await store.stats()).scopeCounts).toEqual({ global: 1, "agent:other": 1 });
+    });
+
+    it("purges trashed memories deleted before the cutoff", async () => {
+      const trashed = await store.store(memory("User prefers green tea"));
+      await store.delete(trashed.id);
+
+      expect(await store.purgeDeleted(Date.now() - 60_000)).toBe(0);
+      expect(await store.purgeDeleted()).toBe(1);
+      expect(await store.listDeleted()).toEqual([]);
+      expect(await store.hasId(trashed.id)).toBe(false);
+    });
+  });
+
+  describe("update versions", () => {
+    it("records a version when only the expiry changes, and revert restores it", async () => {
+      const stored = await store.store(memory("On vacation until Friday"));
+      const expiresAt = Date.now() + 86_400_000;
+
+      await store.update(stored.id, { expiresAt });
+      const history = await store.getHistory(stored.id);
+      expect(history!.current.expiresAt).toBe(expiresAt);
+      expect(history!.versions).toMatchObject([{ version: 1, expiresAt: 0 }]);
+
+      const reverted = await store.revert(stored.id, 1);
+      expect(reverted!.expiresAt).toBeUndefined();
+      expect((await store.getHistory(stored.id))!.versions).toMatchObject([
+        { version: 1, expiresAt: 0 },
+        { version: 2, expiresAt, action: "revert" },
+      ]);
+    });
+
+    it("does not record a version for a vector-only change", async () => {
+      const stored = await store.store(memory("Deploys run nightly"));
+
+      await store.update(stored.id, { vector: [0, 1, 0, 0] });
+      expect((await store.getHistory(stored.id))!.versions).toEqual([]);
+    });
+  });
+
+  describe("reading rows", () => {
+    it("maps a row the same way on every read path, decrypting text and metadata", async () => {
+      const cipher = new FieldCipher(new Map([["k1", randomBytes(32)]]), "k1");
+      store = new MemoryStore({ dbPath: join(dir, "encrypted"), vectorDim: 4, cipher });
+      const expiresAt = Date.now() + 86_400_000;
+      const stored = await store.store({ ...memory("User prefers green tea"), metadata: '{"source":"chat"}', tags: ["drinks"], expiresAt });
+      const { vector: _vector, deletedAt: _deletedAt, ...fields } = stored;
+      const expected = { ...fields, scope: "global", tags: ["drinks"], expiresAt, accessCount: 0, feedbackScore: 0 };
+      const withoutVector = ({ vector: _v, ...rest }: MemoryEntry) => rest;
+
+      const reads = [
+        (await store.getById(stored.id))!,
+        ...(await store.getByIds([stored.id])),
+        ...(await store.listWithVectors()),
+        ...(await store.list()),
+        ...(await store.listExpiring(2 * 86_400_000)),
+        ...(await store.vectorSearch([1, 0, 0, 0], 5, 0)).map(r => r.entry),
+        ...(await store.bm25Search("green tea", 5)).map(r => r.entry),
+        ...(await store.bm25Search("drinks", 5)).map(r => r.entry),
+      ];
+
+      expect(reads).toHaveLength(8);
+      for (const entry of reads) {
+        expect(withoutVector(entry)).toMatchObject(expected);
+        expect(entry.deletedAt).toBeUndefined();
+      }
+      expect(Array.from((await store.getById(stored.id))!.vector)).toEqual([1, 0, 0, 0]);
+      expect((await store.list())[0].vector).toEqual([]);
+
+      await store.delete(stored.id);
+      const [trashed] = await store.listDeleted();
+      expect(withoutVector(trashed)).toMatchObject(expected);
+      expect(trashed.deletedAt).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryStore, type MemoryEntry } from "../src/store.js";
+import { contradictionReason, createSupersessionManager } from "../src/supersession.js";
+
+describe("contradictionReason", () => {
+  it.each([
+    ["I don't like coffee", "I like coffee", "negation"],
+    ["I stopped using Docker for local dev", "I use Docker for local dev", "negation"],
+    ["我不喜欢喝茶", "我喜欢喝茶", "negation"],
+    ["Preferred editor is vim", "Preferred editor is emacs", "changed-value"],
+    ["The API runs on port 8080", "The API runs on port 3000", "changed-value"],
+    ["我喜欢喝茶", "我喜欢喝咖啡", "changed-value"],
+  ] as const)("%s vs %s: %s", (newText, oldText, reason) => {
+    expect(contradictionReason(newText, oldText)).toBe(reason);
+  });
+
+  it.each([
+    ["both negated", "I no longer drink coffee", "I never drink coffee"],
+    ["double negation", "I can't say I don't like tea", "I like tea"],
+    ["new statement adds detail", "Deploys run on Fridays at 5pm", "Deploys run on Fridays"],
+    ["old statement had more detail", "Deploys run on Fridays", "Deploys run on Fridays at 5pm"],
+    ["different subjects", "Preferred editor is vim", "Team standup is at 10am"],
+    ["only stop words", "it is what it is", "this is that"],
+  ])("%s: compatible", (_case, newText, oldText) => {
+    expect(contradictionReason(newText, oldText)).toBeNull();
+  });
+});
+
+describe("SupersessionManager", () => {
+  let dir: string;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-supersession-test-"));
+    store = new MemoryStore({ dbPath: join(dir, "lancedb"), vectorDim: 4 });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const memory = (text: string, overrides: Partial<MemoryEntry> = {}) =>
+    store.store({ text, vector: [1, 0, 0, 0], category: "preference", scope: "global", importance: 0.7, metadata: "{}", ...overrides });
+
+  const candidate = (text: string, overrides: Partial<MemoryEntry> = {}) =>
+    ({ text, vector: [1, 0, 0, 0], category: "preference" as const, scope: "global", ...overrides });
+
+  it("flags close memories of the same category and scope that the new one contradicts", async () => {
+    const vim = await memory("Preferred editor is vim");
+    await memory("Preferred editor is emacs");
+    await memory("Preferred editor is vim", { category: "fact" });
+    await memory("Preferred editor is vim", { scope: "agent:other" });
+    await memory("Preferred editor is vim", { vector: [0, 1, 0, 0] });
+    await memory("Preferred editor is emacs, also for email");
+
+    const conflicts = await createSupersessionManager(store).findConflicts(candidate("Preferred editor is emacs"));
+    expect(conflicts).toEqual([{ entry: expect.objectContaining({ id: vim.id }), similarity: expect.closeTo(1), reason: "changed-value" }]);
+  });
+
+  it("skips excluded and already superseded memories", async () => {
+    const vim = await memory("Preferred editor is vim");
+    const nano = await memory("Preferred editor is nano");
+    const emacs = await memory("Preferred editor is emacs");
+    await store.markSuperseded([nano.id], emacs.id);
+
+    const manager = createSupersessionManager(store);
+    expect(await manager.findConflicts(candidate("Preferred editor is helix"), [vim.id, emacs.id])).toEqual([]);
+  });
+
+  it("only checks supersedable categories and can be disabled", async () => {
+    await memory("The API runs on port 3000", { category: "fact" });
+    await memory("Deploy target is staging", { category: "decision" });
+
+    const manager = createSupersessionManager(store);
+    expect(await manager.findConflicts(candidate("The API runs on port 8080", { category: "fact" }))).toEqual([]);
+    expect(await manager.findConflicts(candidate("Deploy target is production", { category: "decision" }))).toHaveLength(1);
+
+    const disabled = createSupersessionManager(store, { enabled: false });
+    expect(await disabled.findConflicts(candidate("Deploy target is production", { category: "decision" }))).toEqual([]);
+  });
+
+  it("marks superseded memories and refuses ones outside the scope filter", async () => {
+    const own = await memory("Preferred editor is vim");
+    const other = await memory("Preferred editor is vim", { scope: "agent:other" });
+    const replacement = await memory("Preferred editor is emacs");
+    const manager = createSupersessionManager(store);
+
+    expect(await manager.supersede([own.id], replacement.id, ["global"])).toEqual([own.id]);
+    await expect(manager.supersede([other.id], replacement.id, ["global"])).rejects.toThrow("outside accessible scopes");
+    expect((await store.getById(own.id))!.supersededBy).toBe(replacement.id);
+    expect((await store.getById(other.id))!.supersededBy).toBeUndefined();
+  });
+});
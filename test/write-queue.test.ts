@@ -0,0 +1,213 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import DatabaseConstructor from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Embedder } from "../src/embedder.js";
+import { FieldCipher } from "../src/encryption.js";
+import { MemoryStore } from "../src/store.js";
+import { createPendingWriteQueue, drainPendingWrites, reembedFallbackVectors, type PendingWriteQueue } from "../src/write-queue.js";
+
+const write = (text: string) => ({
+  text,
+  category: "fact" as const,
+  scope: "global",
+  importance: 0.7,
+  metadata: JSON.stringify({ note: "queued" }),
+  source: "tool" as const,
+});
+
+describe("PendingWriteQueue encryption", () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-queue-test-"));
+    dbPath = join(dir, "cache.db");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function storedRows(): Array<{ text: string; metadata: string }> {
+    const db = new DatabaseConstructor(dbPath);
+    try {
+      return db.prepare("SELECT text, metadata FROM pending_writes ORDER BY created_at").all() as Array<{ text: string; metadata: string }>;
+    } finally {
+      db.close();
+    }
+  }
+
+  it("stores text and metadata encrypted and lists them decrypted", () => {
+    const cipher = new FieldCipher(new Map([["k1", randomBytes(32)]]), "k1");
+    const queue = createPendingWriteQueue({ namespace: "/db", dbPath, cipher });
+    queue.enqueue(write("User prefers green tea"));
+
+    const [row] = storedRows();
+    expect(row.text).toMatch(/^enc:v1:k1:/);
+    expect(row.metadata).toMatch(/^enc:v1:k1:/);
+    expect(queue.list()).toMatchObject([{ text: "User prefers green tea", metadata: '{"note":"queued"}' }]);
+    expect(queue.keyIds()).toEqual(new Set(["k1"]));
+  });
+
+  it("still reads rows queued before encryption was enabled", () => {
+    createPendingWriteQueue({ namespace: "/db", dbPath }).enqueue(write("Queued in plaintext"));
+    const cipher = new FieldCipher(new Map([["k1", randomBytes(32)]]), "k1");
+    const queue = createPendingWriteQueue({ namespace: "/db", dbPath, cipher });
+
+    expect(storedRows()[0].text).toBe("Queued in plaintext");
+    expect(queue.list().map(p => p.text)).toEqual(["Queued in plaintext"]);
+    expect(queue.keyIds().size).toBe(0);
+  });
+});
+
+/** Embedder stub: fixed 4-dim vectors, failing for texts in `failing` */
+function stubEmbedder(failing: Set<string> = new Set()) {
+  const calls: string[] = [];
+  const embedder = {
+    async embedPassage(text: string) {
+      calls.push(text);
+      if (failing.has(text)) throw new Error("embedding API unavailable");
+      return text === "wrong dimensions" ? [1, 0] : [1, 0, 0, 0];
+    },
+  } as unknown as Embedder;
+  return { embedder, calls };
+}
+
+describe("drainPendingWrites", () => {
+  let dir: string;
+  let store: MemoryStore;
+  let queue: PendingWriteQueue;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-drain-test-"));
+    store = new MemoryStore({ dbPath: join(dir, "lancedb"), vectorDim: 4 });
+    queue = createPendingWriteQueue({ namespace: "/db", dbPath: join(dir, "cache.db"), maxAttempts: 2 });
+  });
+
+  afterEach(async () => {
+    queue.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores entries queued on an embedding failure under their queued id", async () => {
+    const pending = queue.enqueue(write("User prefers green tea"), new Error("timeout"));
+    expect(queue.list()).toMatchObject([{ id: pending.id, attempts: 1, lastError: "timeout" }]);
+
+    const result = await drainPendingWrites(queue, store, stubEmbedder().embedder);
+
+    expect(result).toEqual({ stored: 1, deduplicated: 0, failed: 0, parked: 0, remaining: 0 });
+    expect(await store.getById(pending.id)).toMatchObject({ text: "User prefers green tea", timestamp: pending.timestamp });
+  });
+
+  it("removes entries whose id is already stored without embedding them again", async () => {
+    const pending = queue.enqueue(write("Stored before a crash"));
+    await store.importEntry({ ...pending, vector: [0, 1, 0, 0] });
+    const { embedder, calls } = stubEmbedder();
+
+    const result = await drainPendingWrites(queue, store, embedder);
+
+    expect(calls).toEqual([]);
+    expect(result).toMatchObject({ stored: 0, remaining: 0 });
+  });
+
+  it("drops entries that expired while queued", async () => {
+    const pending = queue.enqueue({ ...write("Standup moved to 10am"), expiresAt: Date.now() - 1000 });
+    const { embedder, calls } = stubEmbedder();
+
+    const result = await drainPendingWrites(queue, store, embedder);
+
+    expect(calls).toEqual([]);
+    expect(result).toMatchObject({ stored: 0, remaining: 0 });
+    expect(await store.hasId(pending.id)).toBe(false);
+  });
+
+  it("stops at the first embedding failure", async () => {
+    queue.enqueue(write("first"));
+    queue.enqueue(write("second"));
+    const { embedder, calls } = stubEmbedder(new Set(["first"]));
+
+    const result = await drainPendingWrites(queue, store, embedder);
+
+    expect(calls).toEqual(["first"]);
+    expect(result).toEqual({ stored: 0, deduplicated: 0, failed: 1, parked: 0, remaining: 2 });
+    expect(queue.list()[0]).toMatchObject({ text: "first", attempts: 1, lastError: "embedding API unavailable" });
+  });
+
+  it("records a failed store write and moves on to the next entry", async () => {
+    queue.enqueue(write("wrong dimensions"));
+    queue.enqueue(write("second"));
+
+    const result = await drainPendingWrites(queue, store, stubEmbedder().embedder);
+
+    expect(result).toMatchObject({ stored: 1, failed: 1, remaining: 1 });
+    expect(queue.list()[0]).toMatchObject({ text: "wrong dimensions", attempts: 1 });
+    expect(queue.list()[0].lastError).toMatch(/dimension mismatch/);
+  });
+
+  it("parks entries that reach the attempt limit and stops retrying them", async () => {
+    queue.enqueue(write("always fails"));
+    queue.enqueue(write("later"));
+    const { embedder, calls } = stubEmbedder(new Set(["always fails"]));
+
+    expect(await drainPendingWrites(queue, store, embedder)).toMatchObject({ failed: 1, parked: 0 });
+    expect(await drainPendingWrites(queue, store, embedder)).toMatchObject({ failed: 1, parked: 1 });
+    expect(queue.parkedCount()).toBe(1);
+
+    const result = await drainPendingWrites(queue, store, embedder);
+    expect(calls).toEqual(["always fails", "always fails", "later"]);
+    expect(result).toMatchObject({ stored: 1, parked: 0, remaining: 1 });
+    expect(queue.list().map(p => p.text)).toEqual(["always fails"]);
+  });
+});
+
+describe("reembedFallbackVectors", () => {
+  let dir: string;
+  let store: MemoryStore;
+  let queue: PendingWriteQueue;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "memory-reembed-test-"));
+    store = new MemoryStore({ dbPath: join(dir, "lancedb"), vectorDim: 4 });
+    queue = createPendingWriteQueue({ namespace: "/db", dbPath: join(dir, "cache.db") });
+  });
+
+  afterEach(async () => {
+    queue.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function storeFallbackEmbedded(text: string): Promise<string> {
+    const entry = await store.store({ text, vector: [0, 1, 0, 0], category: "fact", scope: "global", importance: 0.7, metadata: "{}" });
+    queue.markForReembed(entry.id);
+    return entry.id;
+  }
+
+  it("replaces fallback vectors with the primary's", async () => {
+    const id = await storeFallbackEmbedded("User prefers green tea");
+    const embedder = { isPrimaryAvailable: () => true, embedPassageWithPrimary: async () => [1, 0, 0, 0] };
+
+    expect(await reembedFallbackVectors(queue, store, embedder)).toEqual({ reembedded: 1, skipped: 0, remaining: 0, error: undefined });
+    expect(Array.from((await store.getById(id))!.vector)).toEqual([1, 0, 0, 0]);
+  });
+
+  it("stops at the first primary failure and returns its message", async () => {
+    await storeFallbackEmbedded("first");
+    await storeFallbackEmbedded("second");
+    let calls = 0;
+    const embedder = {
+      isPrimaryAvailable: () => true,
+      embedPassageWithPrimary: async () => {
+        calls++;
+        throw new Error("primary rate limited");
+      },
+    };
+
+    const result = await reembedFallbackVectors(queue, store, embedder);
+
+    expect(calls).toBe(1);
+    expect(result).toEqual({ reembedded: 0, skipped: 0, remaining: 2, error: "primary rate limited" });
+  });
+});